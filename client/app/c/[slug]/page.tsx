@@ -0,0 +1,88 @@
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import CardPreview from "@/components/CardPreview";
+import FoldingCardPreview from "@/components/FoldingCardPreview";
+import { apiUrl } from "@/lib/api";
+import type { Messages } from "@/lib/i18n";
+import { getMessages } from "@/lib/i18n";
+import { isFolded } from "@/lib/pages";
+import { cardSizes } from "@/lib/presets";
+import { requestLocale } from "@/lib/serverLocale";
+import type { SharedCard } from "@/lib/shares";
+
+type SharedCardPageProps = {
+  params: Promise<{ slug: string }>;
+};
+
+const loadSharedCard = async (slug: string, t: Messages) => {
+  try {
+    const response = await fetch(
+      `${apiUrl}/share/${encodeURIComponent(slug)}`,
+      { cache: "no-store" },
+    );
+    const data = await response.json().catch(() => null);
+    if (response.status === 404) {
+      return { status: "missing" as const };
+    }
+    if (!response.ok) {
+      return {
+        status: "unavailable" as const,
+        message: data?.message ?? t.shared.loadFailed,
+      };
+    }
+    return { status: "ok" as const, share: data as SharedCard };
+  } catch {
+    return {
+      status: "unavailable" as const,
+      message: t.shared.loadFailedLater,
+    };
+  }
+};
+
+export default async function SharedCardPage({ params }: SharedCardPageProps) {
+  const { slug } = await params;
+  const t = getMessages((await requestLocale()).id);
+  const result = await loadSharedCard(slug, t);
+  if (result.status === "missing") {
+    notFound();
+  }
+
+  const cardSize =
+    result.status === "ok"
+      ? (cardSizes.find((item) => item.id === result.share.design.cardSizeId) ??
+        cardSizes[0])
+      : cardSizes[0];
+
+  return (
+    <div className="min-h-screen bg-[#f6efe6] text-[#1b1b1b]">
+      <div
+        className="mx-auto flex w-full flex-col gap-6 px-6 py-12"
+        style={{ maxWidth: `${cardSize.previewMaxWidth + 48}px` }}
+      >
+        <p className="text-xs uppercase tracking-[0.35em] text-black/60">
+          {t.studio.name}
+        </p>
+        {result.status === "ok" ? (
+          isFolded(result.share.design) ? (
+            <FoldingCardPreview
+              design={result.share.design}
+              width={cardSize.previewMaxWidth}
+            />
+          ) : (
+            <CardPreview design={result.share.design} />
+          )
+        ) : (
+          <div className="rounded-[28px] border border-black/10 bg-white/80 px-6 py-6 text-sm text-black/70 shadow-[0_24px_50px_rgba(0,0,0,0.08)]">
+            {result.message}
+          </div>
+        )}
+        <Link
+          href="/"
+          className="self-start rounded-full border border-black/20 px-4 py-3 text-xs uppercase tracking-[0.3em] text-black/70 transition hover:border-black/40"
+        >
+          {t.shared.makeYourOwn}
+        </Link>
+      </div>
+    </div>
+  );
+}
@@ -1,4 +1,7 @@
 import type { Metadata } from "next";
+import Announcer from "@/components/Announcer";
+import I18nProvider from "@/components/I18nProvider";
+import { requestLocale } from "@/lib/serverLocale";
 import "./globals.css";
 
 export const metadata: Metadata = {
@@ -6,20 +9,19 @@ export const metadata: Metadata = {
   description: "Create a customized birthday card with photos and a message.",
 };
 
-export default function RootLayout({
+export default async function RootLayout({
   children,
 }: Readonly<{
   children: React.ReactNode;
 }>) {
+  const locale = await requestLocale();
   return (
-    <html lang="en">
-      <head>
-        <link
-          rel="stylesheet"
-          href="https://fonts.googleapis.com/css2?family=Unbounded:wght@300;400;500;600;700;800&display=swap"
-        />
-      </head>
-      <body className="antialiased">{children}</body>
+    <html lang={locale.id} dir={locale.dir}>
+      <body className="antialiased">
+        <I18nProvider initialLocale={locale.id}>
+          <Announcer>{children}</Announcer>
+        </I18nProvider>
+      </body>
     </html>
   );
 }
@@ -1,342 +1,332 @@
 "use client";
 
-import html2canvas from "html2canvas";
-import type { CSSProperties, DragEvent, PointerEvent, RefObject } from "react";
-import { useMemo, useRef, useState } from "react";
-
-type PhotoSlot = {
-  url: string;
-  name: string;
-  position: { x: number; y: number };
-  size?: number;
-  type?: string;
-};
-
-type TextSticker = {
-  id: string;
-  text: string;
-  position: { x: number; y: number };
-  size: number;
-  tone: "accent" | "ink";
-};
-
-type Theme = {
-  id: string;
-  name: string;
-  background: string;
-  accent: string;
-  shadow: string;
-};
-
-const themes: Theme[] = [
-  {
-    id: "sunrise",
-    name: "Sunrise Parade",
-    background:
-      "radial-gradient(circle at 12% 20%, rgba(255,255,255,0.65), rgba(255,255,255,0) 58%), linear-gradient(135deg, #ffd6a5 0%, #ffcad4 40%, #cdb4db 100%)",
-    accent: "#ff6b6b",
-    shadow: "0 30px 70px rgba(255, 155, 141, 0.45)",
-  },
-  {
-    id: "sorbet",
-    name: "Sorbet Pop",
-    background:
-      "radial-gradient(circle at 80% 15%, rgba(255,255,255,0.55), rgba(255,255,255,0) 50%), linear-gradient(130deg, #b8f2e6 0%, #fef6e4 45%, #f7d9d9 100%)",
-    accent: "#2d6a4f",
-    shadow: "0 28px 60px rgba(101, 200, 170, 0.4)",
-  },
-  {
-    id: "night",
-    name: "Berry Night",
-    background:
-      "radial-gradient(circle at 10% 15%, rgba(255,255,255,0.2), rgba(255,255,255,0) 45%), linear-gradient(135deg, #2f2244 0%, #5f0f40 40%, #f04e98 100%)",
-    accent: "#ffe066",
-    shadow: "0 30px 70px rgba(40, 10, 50, 0.6)",
-  },
-];
-
-const layouts = [
-  {
-    id: "duo",
-    name: "Split Duo",
-    description: "Two photos stacked with a message panel.",
-  },
-  {
-    id: "focus",
-    name: "Hero Focus",
-    description: "One bold photo with a smaller cameo.",
-  },
-];
-
-const cardSizes = [
-  {
-    id: "standard",
-    name: "Standard",
-    description: "Balanced preview size.",
-    previewMaxWidth: 520,
-    downloadScale: 2,
-  },
-  {
-    id: "large",
-    name: "Large",
-    description: "Bigger preview + sharper export.",
-    previewMaxWidth: 620,
-    downloadScale: 2.5,
-  },
-  {
-    id: "xlarge",
-    name: "Extra",
-    description: "Largest preview + ultra export.",
-    previewMaxWidth: 720,
-    downloadScale: 3,
-  },
-];
-
-const gridFormats = [
-  {
-    id: "auto",
-    name: "Auto",
-    description: "Balanced columns based on count.",
-  },
-  {
-    id: "two",
-    name: "Two Column",
-    description: "Always aim for two columns.",
-  },
-  {
-    id: "three",
-    name: "Three Column",
-    description: "Show more tiles per row.",
-  },
-];
-
-const clamp = (value: number, min: number, max: number) =>
-  Math.min(max, Math.max(min, value));
-
-const defaultMessage =
-  "Wishing you a year filled with confetti moments, brave dreams, and extra dessert.";
-
-const createSlot = (url: string, file: File): PhotoSlot => ({
+import type {
+  CSSProperties,
+  DragEvent,
+  PointerEvent,
+  RefObject,
+} from "react";
+import {
+  useEffect,
+  useEffectEvent,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+import AnimationPreview from "@/components/AnimationPreview";
+import { useAnnounce } from "@/components/Announcer";
+import CardPreview from "@/components/CardPreview";
+import DeliveryScheduler from "@/components/DeliveryScheduler";
+import FoldingCardPreview from "@/components/FoldingCardPreview";
+import GroupSigning from "@/components/GroupSigning";
+import { useI18n } from "@/components/I18nProvider";
+import LiveSession from "@/components/LiveSession";
+import MessageTemplates from "@/components/MessageTemplates";
+import PhotoAdjustPanel from "@/components/PhotoAdjustPanel";
+import ShortcutMap from "@/components/ShortcutMap";
+import type { StickerPatch } from "@/components/StickerControls";
+import StickerControls from "@/components/StickerControls";
+import StickerPicker from "@/components/StickerPicker";
+import TypographyControls from "@/components/TypographyControls";
+import ThemeEditor from "@/components/ThemeEditor";
+import {
+  createCard,
+  deleteCard,
+  getCard,
+  listCards,
+  updateCard,
+} from "@/lib/cards";
+import type {
+  CardDesign,
+  CardPageId,
+  CardSummary,
+  PageContent,
+  PhotoAdjustments,
+  PhotoCrop,
+  PhotoFrame,
+  PhotoSlot,
+  Sticker,
+  TextRole,
+  TextStyle,
+} from "@/lib/cards";
+import {
+  cardPages,
+  countPhotos,
+  createFoldingPages,
+  getPage,
+  isFolded,
+  updatePage,
+} from "@/lib/pages";
+import {
+  cardSizes,
+  gridFormats,
+  themes,
+} from "@/lib/presets";
+import type { LocaleId } from "@/lib/i18n";
+import {
+  format,
+  formatDate,
+  getLocale,
+  getMessages,
+  localize,
+  locales,
+} from "@/lib/i18n";
+import { getLayout, layouts } from "@/lib/layouts";
+import {
+  defaultCrop,
+  maxCropScale,
+  minCropScale,
+} from "@/lib/crop";
+import { defaultAdjustments } from "@/lib/filters";
+import { resolveTextStyle, textRoles } from "@/lib/typography";
+import type { StickerContent } from "@/lib/stickers";
+import {
+  createSticker,
+  duplicateSticker,
+  maxStickers,
+} from "@/lib/stickers";
+import type { Theme } from "@/lib/presets";
+import type { BatchRecipient } from "@/lib/batch";
+import {
+  applyRecipient,
+  parseRecipients,
+  uniqueFileNames,
+} from "@/lib/batch";
+import {
+  canvasToPng,
+  cardFileName,
+  downloadUrl,
+  renderCardCanvas,
+} from "@/lib/exportCard";
+import { exportCardPdf } from "@/lib/pdfExport";
+import {
+  createDesignBundle,
+  designToJson,
+  importDesignFile,
+} from "@/lib/designFile";
+import { errorMessage } from "@/lib/errors";
+import type { AnimationEffects, AnimationLayers } from "@/lib/animation";
+import {
+  animationEffects as animationEffectOptions,
+  captureAnimationLayers,
+  defaultAnimationEffects,
+  recordAnimationWebm,
+  renderAnimationGif,
+} from "@/lib/animation";
+import {
+  bleedOptionsMm,
+  printDpiOptions,
+  printFormats,
+} from "@/lib/printFormats";
+import {
+  createShare,
+  listOwnedShares,
+  revokeShare,
+  shareExpiryOptions,
+  shareUrl,
+} from "@/lib/shares";
+import type { OwnedShare } from "@/lib/shares";
+import {
+  createTemplate,
+  defaultEyebrow,
+  defaultHeadline,
+  defaultMessage,
+  defaultSignature,
+  deleteTemplate,
+  listTemplates,
+  templateValues,
+} from "@/lib/templates";
+import type { SavedTemplate, TemplateTone } from "@/lib/templates";
+import {
+  buildTheme,
+  createTheme,
+  createThemeSpec,
+  deleteTheme,
+  listThemes,
+  parseThemeJson,
+  resolveTheme,
+  themeToJson,
+  updateTheme,
+} from "@/lib/themes";
+import type { CustomTheme, ThemeDraft } from "@/lib/themes";
+import { uploadPhoto } from "@/lib/uploads";
+import type { UploadStage } from "@/lib/uploads";
+import { useHistory } from "@/lib/useHistory";
+import { useCollaboration } from "@/lib/useCollaboration";
+import { applyOpsToDesign, liveLink } from "@/lib/collab";
+import { formatBytes } from "@/lib/utils";
+import type { ScheduleDraft, ScheduledSend } from "@/lib/schedules";
+import {
+  cancelSchedule,
+  createSchedule,
+  listSchedules,
+  updateSchedule,
+} from "@/lib/schedules";
+import type { Contribution, ContributionStatus } from "@/lib/signing";
+import {
+  createInvite,
+  deleteContribution,
+  disableInvite,
+  getInviteToken,
+  inviteUrl,
+  listContributions,
+  setContributionStatus,
+} from "@/lib/signing";
+import type { ZipEntry } from "@/lib/zip";
+import { createZip } from "@/lib/zip";
+
+const createSlot = (url: string, file: File, original: File): PhotoSlot => ({
   url,
-  name: file.name,
+  name: original.name,
   size: file.size,
   type: file.type,
+  originalSize: original.size,
   position: { x: 50, y: 50 },
 });
 
-const createSticker = (text = "Your text"): TextSticker => ({
-  id: `sticker-${Date.now()}-${Math.random().toString(16).slice(2)}`,
-  text,
-  position: { x: 70, y: 20 },
-  size: 18,
-  tone: "accent",
+const createBlankDesign = (locale: LocaleId): CardDesign => ({
+  recipient: "",
+  sender: "",
+  locale,
+  message: defaultMessage(locale),
+  themeId: themes[0].id,
+  layoutId: layouts[0].id,
+  cardSizeId: cardSizes[0].id,
+  gridFormatId: gridFormats[0].id,
+  photos: [null, null],
+  stickers: [],
 });
 
-const formatBytes = (bytes?: number) => {
-  if (!bytes && bytes !== 0) return "-";
-  if (bytes < 1024) return `${bytes} B`;
-  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
-  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
-};
-
-const getPhotoGrid = (count: number, format: string) => {
-  const safeCount = Math.max(1, count);
-  let columns = safeCount <= 1 ? 1 : safeCount <= 4 ? 2 : 3;
-  if (format === "two") {
-    columns = safeCount === 1 ? 1 : 2;
-  }
-  if (format === "three") {
-    columns = safeCount <= 2 ? safeCount : 3;
-  }
-  const rows = Math.ceil(safeCount / columns);
-  return { columns, rows };
-};
-
-type DraggableImageProps = {
-  slot: PhotoSlot | null;
-  className?: string;
-  placeholder: string;
-  onPositionChange?: (pos: { x: number; y: number }) => void;
-  exporting?: boolean;
-};
-
-function DraggableImage({
-  slot,
-  className,
-  placeholder,
-  onPositionChange,
-  exporting,
-}: DraggableImageProps) {
-  const [dragging, setDragging] = useState(false);
-
-  const updatePosition = (
-    event: PointerEvent<HTMLDivElement>,
-    target: HTMLDivElement,
-  ) => {
-    const rect = target.getBoundingClientRect();
-    const x = ((event.clientX - rect.left) / rect.width) * 100;
-    const y = ((event.clientY - rect.top) / rect.height) * 100;
-    onPositionChange?.({ x: clamp(x, 0, 100), y: clamp(y, 0, 100) });
-  };
-
-  const handlePointerDown = (event: PointerEvent<HTMLDivElement>) => {
-    if (!slot) return;
-    const target = event.currentTarget;
-    setDragging(true);
-    target.setPointerCapture(event.pointerId);
-    updatePosition(event, target);
-  };
-
-  const handlePointerMove = (event: PointerEvent<HTMLDivElement>) => {
-    if (!slot || !dragging) return;
-    updatePosition(event, event.currentTarget);
-  };
-
-  const handlePointerUp = (event: PointerEvent<HTMLDivElement>) => {
-    setDragging(false);
-    if (event.currentTarget.hasPointerCapture(event.pointerId)) {
-      event.currentTarget.releasePointerCapture(event.pointerId);
-    }
-  };
-
-  return (
-    <div
-      className={`relative overflow-hidden rounded-3xl border shadow-[inset_0_0_0_1px_rgba(255,255,255,0.4)] ${className ?? ""}`}
-      onPointerDown={handlePointerDown}
-      onPointerMove={handlePointerMove}
-      onPointerUp={handlePointerUp}
-      onPointerCancel={handlePointerUp}
-      style={{
-        touchAction: "none",
-        borderColor: exporting ? "rgba(255,255,255,0)" : "rgba(255,255,255,0.6)",
-        backgroundColor: exporting ? "transparent" : "rgba(255,255,255,0.4)",
-        boxShadow: exporting ? "none" : undefined,
-        outline: !exporting && dragging ? "2px solid rgba(0,0,0,0.4)" : "none",
-        outlineOffset: "2px",
-      }}
-    >
-      {slot ? (
-        <img
-          src={slot.url}
-          alt={slot.name}
-          className="h-full w-full select-none"
-          style={{
-            objectFit: "contain",
-            objectPosition: `${slot.position.x}% ${slot.position.y}%`,
-            transform: "translateZ(0)",
-          }}
-          crossOrigin="anonymous"
-          draggable={false}
-        />
-      ) : (
-        <div
-          className="flex h-full w-full flex-col items-center justify-center gap-2 text-center text-xs font-medium"
-          style={{ color: "rgba(20,20,20,0.5)" }}
-        >
-          <span className="uppercase tracking-[0.3em]">{placeholder}</span>
-          <span className="text-[11px] normal-case tracking-normal">
-            Upload to drop a photo here
-          </span>
-        </div>
-      )}
-    </div>
-  );
-}
-
-type DraggableTextProps = {
-  sticker: TextSticker;
-  containerRef: RefObject<HTMLDivElement | null>;
-  color: string;
-  onPositionChange: (pos: { x: number; y: number }) => void;
-};
-
-function DraggableText({
-  sticker,
-  containerRef,
-  color,
-  onPositionChange,
-}: DraggableTextProps) {
-  const [dragging, setDragging] = useState(false);
-
-  const updatePosition = (event: PointerEvent<HTMLDivElement>) => {
-    const container = containerRef.current;
-    if (!container) return;
-    const rect = container.getBoundingClientRect();
-    const x = ((event.clientX - rect.left) / rect.width) * 100;
-    const y = ((event.clientY - rect.top) / rect.height) * 100;
-    onPositionChange({ x: clamp(x, 0, 100), y: clamp(y, 0, 100) });
-  };
-
-  const handlePointerDown = (event: PointerEvent<HTMLDivElement>) => {
-    setDragging(true);
-    event.currentTarget.setPointerCapture(event.pointerId);
-    updatePosition(event);
-  };
-
-  const handlePointerMove = (event: PointerEvent<HTMLDivElement>) => {
-    if (!dragging) return;
-    updatePosition(event);
-  };
-
-  const handlePointerUp = (event: PointerEvent<HTMLDivElement>) => {
-    setDragging(false);
-    if (event.currentTarget.hasPointerCapture(event.pointerId)) {
-      event.currentTarget.releasePointerCapture(event.pointerId);
-    }
-  };
+const waitForFrame = () =>
+  new Promise((resolve) => requestAnimationFrame(() => resolve(true)));
 
-  return (
-    <div
-      className={`absolute z-20 cursor-grab select-none rounded-full border px-3 py-1 text-sm shadow-[0_10px_20px_rgba(0,0,0,0.18)] transition ${
-        dragging ? "cursor-grabbing" : ""
-      }`}
-      style={{
-        left: `${sticker.position.x}%`,
-        top: `${sticker.position.y}%`,
-        transform: "translate(-50%, -50%)",
-        fontSize: `${sticker.size}px`,
-        color,
-        borderColor: "rgba(255,255,255,0.6)",
-        backgroundColor: "rgba(255,255,255,0.4)",
-        outline: dragging ? "2px solid rgba(0,0,0,0.4)" : "none",
-        outlineOffset: "2px",
-        touchAction: "none",
-      }}
-      onPointerDown={handlePointerDown}
-      onPointerMove={handlePointerMove}
-      onPointerUp={handlePointerUp}
-      onPointerCancel={handlePointerUp}
-    >
-      {sticker.text}
-    </div>
-  );
-}
+const isEditableTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable ||
+    ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName));
 
 export default function Home() {
-  const [recipient, setRecipient] = useState("");
-  const [sender, setSender] = useState("");
-  const [message, setMessage] = useState(defaultMessage);
-  const [themeId, setThemeId] = useState(themes[0].id);
-  const [layoutId, setLayoutId] = useState(layouts[0].id);
-  const [cardSizeId, setCardSizeId] = useState(cardSizes[0].id);
-  const [gridFormatId, setGridFormatId] = useState(gridFormats[0].id);
-  const [photos, setPhotos] = useState<(PhotoSlot | null)[]>([
-    null,
-    null,
-  ]);
-  const [uploading, setUploading] = useState<boolean[]>([false, false]);
+  const { t, locale: uiLocale, setLocale } = useI18n();
+  const announce = useAnnounce();
+  // New cards start out in the studio's language.
+  const history = useHistory<CardDesign>(createBlankDesign(uiLocale.id));
+  const design = history.present;
+  const { recipient, sender, themeId, cardSizeId, customTheme } = design;
+  const [activePageId, setActivePageId] = useState<CardPageId>("front");
+  const [previewMode, setPreviewMode] = useState<
+    "page" | "3d" | "animate" | "batch"
+  >("page");
+  const [showShortcuts, setShowShortcuts] = useState(false);
+  const folded = isFolded(design);
+  const cardLocale = getLocale(design.locale);
+  const cardCopy = getMessages(cardLocale.id).card;
+  const { message, layoutId, gridFormatId, photos, frames, stickers } =
+    getPage(design, activePageId);
+  const hasPhotos = Boolean(getLayout(layoutId).photos);
+  // Keyed by `${pageId}:${slotIndex}` so uploads land on the page they
+  // started from even if the user switches pages meanwhile.
+  const [uploading, setUploading] = useState<
+    Record<string, UploadStage | null>
+  >({});
   const [dragOverIndex, setDragOverIndex] = useState<number | null>(null);
-  const [stickers, setStickers] = useState<TextSticker[]>([]);
+  const [adjustingIndex, setAdjustingIndex] = useState<number | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [downloading, setDownloading] = useState(false);
   const [exporting, setExporting] = useState(false);
+  const [cardId, setCardId] = useState<string | null>(null);
+  const [savedCards, setSavedCards] = useState<CardSummary[]>([]);
+  const [savingCard, setSavingCard] = useState(false);
+  const [shareExpiryId, setShareExpiryId] = useState(shareExpiryOptions[0].id);
+  // Live share links for the open card that this browser can revoke.
+  const [shares, setShares] = useState<OwnedShare[]>([]);
+  const [sharing, setSharing] = useState(false);
+  const [copiedShareSlug, setCopiedShareSlug] = useState<string | null>(
+    null,
+  );
+  const [printFormatId, setPrintFormatId] = useState(printFormats[0].id);
+  const [printDpi, setPrintDpi] = useState(300);
+  const [bleedMm, setBleedMm] = useState(3);
+  const [cropMarks, setCropMarks] = useState(true);
+  const [customThemes, setCustomThemes] = useState<CustomTheme[]>([]);
+  const [themeEditor, setThemeEditor] = useState<{
+    id: string | null;
+    draft: ThemeDraft;
+  } | null>(null);
+  const [savingTheme, setSavingTheme] = useState(false);
+  const [uploadingThemeImage, setUploadingThemeImage] = useState(false);
+  const [uploadingSticker, setUploadingSticker] = useState(false);
+  const [textRole, setTextRole] = useState<TextRole>("headline");
+  const [savedTemplates, setSavedTemplates] = useState<SavedTemplate[]>([]);
+  const [savingTemplate, setSavingTemplate] = useState(false);
+  const [schedules, setSchedules] = useState<ScheduledSend[]>([]);
+  const [savingSchedule, setSavingSchedule] = useState(false);
+  const [inviteToken, setInviteToken] = useState<string | null>(null);
+  const [inviteCopied, setInviteCopied] = useState(false);
+  const [contributions, setContributions] = useState<Contribution[]>([]);
+  const [signingBusy, setSigningBusy] = useState(false);
+  // The saved card being edited together, while in a live session.
+  const [liveRoomId, setLiveRoomId] = useState<string | null>(null);
+  const [liveName, setLiveName] = useState("");
+  const [liveCopied, setLiveCopied] = useState(false);
+  // Photo progress while a design file is being exported or imported.
+  const [designTransfer, setDesignTransfer] = useState<{
+    kind: "export" | "import";
+    done: number;
+    total: number;
+  } | null>(null);
+  const [animationEffects, setAnimationEffects] = useState<AnimationEffects>(
+    defaultAnimationEffects,
+  );
+  const [animationLayers, setAnimationLayers] =
+    useState<AnimationLayers | null>(null);
+  const [capturingAnimation, setCapturingAnimation] = useState(false);
+  const [renderingAnimation, setRenderingAnimation] = useState<
+    "gif" | "webm" | null
+  >(null);
+  const [batchRecipients, setBatchRecipients] = useState<BatchRecipient[]>(
+    [],
+  );
+  const [batchIndex, setBatchIndex] = useState(0);
+  // The batch card currently mounted offscreen for export, and its number.
+  const [batchExportDesign, setBatchExportDesign] =
+    useState<CardDesign | null>(null);
+  const [batchProgress, setBatchProgress] = useState<number | null>(null);
   const cardRef = useRef<HTMLDivElement | null>(null);
+  const exportRefs: Record<CardPageId, RefObject<HTMLDivElement | null>> = {
+    front: useRef<HTMLDivElement | null>(null),
+    insideLeft: useRef<HTMLDivElement | null>(null),
+    insideRight: useRef<HTMLDivElement | null>(null),
+    back: useRef<HTMLDivElement | null>(null),
+  };
+  const animationRefs = {
+    base: useRef<HTMLDivElement | null>(null),
+    photos: useRef<HTMLDivElement | null>(null),
+    message: useRef<HTMLDivElement | null>(null),
+  };
 
   const theme = useMemo(
-    () => themes.find((item) => item.id === themeId) ?? themes[0],
-    [themeId],
+    () => resolveTheme({ themeId, customTheme }),
+    [themeId, customTheme],
   );
 
+  // While the theme editor is open the preview shows the unsaved draft.
+  const previewDesign = useMemo(() => {
+    if (!themeEditor) return design;
+    const draftTheme = { id: themeEditor.id ?? "draft", ...themeEditor.draft };
+    return { ...design, themeId: draftTheme.id, customTheme: draftTheme };
+  }, [design, themeEditor]);
+
+  // Every batch card is the current design filled in for one recipient.
+  const batchDesigns = useMemo(
+    () => batchRecipients.map((row) => applyRecipient(design, row)),
+    [batchRecipients, design],
+  );
+  const exportsLivePreview = !folded && previewMode === "page";
+  const exportDesign = batchExportDesign ?? design;
+  const exportPages = isFolded(exportDesign)
+    ? cardPages
+    : cardPages.slice(0, 1);
+
   const cardSize = useMemo(
     () => cardSizes.find((item) => item.id === cardSizeId) ?? cardSizes[0],
     [cardSizeId],
@@ -348,111 +338,278 @@ export default function Home() {
     [cardSize.previewMaxWidth],
   );
 
-  const photoGrid = useMemo(
-    () => getPhotoGrid(photos.length, gridFormatId),
-    [photos.length, gridFormatId],
-  );
+  // Edits from others apply to every undo step, so undo only takes back
+  // this person's own changes.
+  const collab = useCollaboration({
+    roomId: liveRoomId,
+    name: liveName,
+    design,
+    onRemote: (change) => {
+      if (change.kind === "replace") {
+        history.reset(change.design);
+      } else {
+        history.rebase((value) => applyOpsToDesign(value, change.ops));
+      }
+    },
+    onClose: (message) => {
+      setLiveRoomId(null);
+      setError(message ?? t.errors.liveClosed);
+    },
+  });
+
+  const updateDesign = (updates: Partial<CardDesign>, group?: string) => {
+    history.set((prev) => ({ ...prev, ...updates }), group);
+  };
 
-  const photoGridStyle = useMemo(
-    () =>
-      ({
-        gridTemplateColumns: `repeat(${photoGrid.columns}, minmax(0, 1fr))`,
-        gridTemplateRows: `repeat(${photoGrid.rows}, minmax(0, 1fr))`,
-      }) as CSSProperties,
-    [photoGrid.columns, photoGrid.rows],
-  );
+  const updatePageContent = (updates: Partial<PageContent>, group?: string) => {
+    history.set((prev) => updatePage(prev, activePageId, updates), group);
+  };
 
-  const secondaryPhotos = useMemo(() => photos.slice(1), [photos]);
+  const setPhotos = (
+    updater: (prev: PageContent["photos"]) => PageContent["photos"],
+    group?: string,
+    pageId = activePageId,
+  ) => {
+    history.set((prev) => {
+      const current = getPage(prev, pageId).photos;
+      const next = updater(current);
+      return next === current ? prev : updatePage(prev, pageId, { photos: next });
+    }, group);
+  };
 
-  const secondaryGrid = useMemo(
-    () => getPhotoGrid(secondaryPhotos.length, gridFormatId),
-    [secondaryPhotos.length, gridFormatId],
-  );
+  const setStickers = (
+    updater: (prev: PageContent["stickers"]) => PageContent["stickers"],
+    group?: string,
+  ) => {
+    history.set((prev) => {
+      const current = getPage(prev, activePageId).stickers;
+      const next = updater(current);
+      return next === current
+        ? prev
+        : updatePage(prev, activePageId, { stickers: next });
+    }, group);
+  };
 
-  const secondaryGridStyle = useMemo(
-    () =>
-      ({
-        gridTemplateColumns: `repeat(${secondaryGrid.columns}, minmax(0, 1fr))`,
-        gridTemplateRows: `repeat(${secondaryGrid.rows}, minmax(0, 1fr))`,
-      }) as CSSProperties,
-    [secondaryGrid.columns, secondaryGrid.rows],
-  );
+  const setUploadingAt = (
+    pageId: CardPageId,
+    index: number,
+    value: UploadStage | null,
+  ) => {
+    setUploading((prev) => ({ ...prev, [`${pageId}:${index}`]: value }));
+  };
 
-  const focusGridRows = useMemo(() => {
-    if (secondaryPhotos.length === 0) {
-      return "minmax(0, 1fr)";
-    }
-    return `minmax(0, 2fr) repeat(${secondaryGrid.rows}, minmax(0, 1fr))`;
-  }, [secondaryPhotos.length, secondaryGrid.rows]);
+  const handleLayoutChange = (nextLayoutId: string) => {
+    // Photo layouts start with two slots, like a fresh card does.
+    const padded =
+      !getLayout(nextLayoutId).photos || photos.length >= 2
+        ? photos
+        : [...photos, ...Array<null>(2 - photos.length).fill(null)];
+    updatePageContent({ layoutId: nextLayoutId, photos: padded });
+    announce(
+      format(t.a11y.layout, {
+        name: localize(t.layouts, getLayout(nextLayoutId)).name,
+      }),
+    );
+  };
 
-  const baseCardHeight = useMemo(
-    () => Math.round((cardSize.previewMaxWidth * 2) / 3),
-    [cardSize.previewMaxWidth],
-  );
+  const handleGridFormatChange = (nextGridFormatId: string) => {
+    updatePageContent({ gridFormatId: nextGridFormatId });
+    const grid = gridFormats.find((item) => item.id === nextGridFormatId);
+    if (grid) {
+      announce(
+        format(t.a11y.grid, { name: localize(t.gridFormats, grid).name }),
+      );
+    }
+  };
 
-  const photoRowsForLayout = useMemo(() => {
-    if (layoutId === "duo") {
-      return photoGrid.rows;
+  const handleCardSizeChange = (nextCardSizeId: string) => {
+    updateDesign({ cardSizeId: nextCardSizeId });
+    const size = cardSizes.find((item) => item.id === nextCardSizeId);
+    if (size) {
+      announce(
+        format(t.a11y.cardSize, { name: localize(t.cardSizes, size).name }),
+      );
     }
-    return 1 + (secondaryPhotos.length > 0 ? secondaryGrid.rows : 0);
-  }, [layoutId, photoGrid.rows, secondaryPhotos.length, secondaryGrid.rows]);
+  };
 
-  const rowHeight = useMemo(
-    () => Math.max(120, Math.round(cardSize.previewMaxWidth / 4)),
-    [cardSize.previewMaxWidth],
-  );
+  const handleCardLocaleChange = (nextLocale: LocaleId) => {
+    history.set((prev) => ({
+      ...prev,
+      locale: nextLocale,
+      // Keep the user's own message; only the starter text follows along.
+      message:
+        prev.message === defaultMessage(prev.locale)
+          ? defaultMessage(nextLocale)
+          : prev.message,
+    }));
+  };
 
-  const dynamicCardHeight = useMemo(
-    () => Math.max(baseCardHeight, photoRowsForLayout * rowHeight + 120),
-    [baseCardHeight, photoRowsForLayout, rowHeight],
-  );
+  const handleFoldingChange = (makeFolded: boolean) => {
+    history.set((prev) => ({
+      ...prev,
+      pages: makeFolded ? createFoldingPages() : undefined,
+    }));
+    setActivePageId("front");
+    setPreviewMode("page");
+  };
 
-  const cardHeightStyle = useMemo(
-    () =>
-      ({
-        minHeight: `${baseCardHeight}px`,
-        height: `${dynamicCardHeight}px`,
-      }) as CSSProperties,
-    [baseCardHeight, dynamicCardHeight],
-  );
+  const updatePhotoPosition = (index: number, position: PhotoSlot["position"]) => {
+    setPhotos(
+      (prev) =>
+        prev.map((slot, slotIndex) =>
+          slotIndex === index && slot ? { ...slot, position } : slot,
+        ),
+      `photo-position-${index}`,
+    );
+  };
 
-  const apiUrl =
-    process.env.NEXT_PUBLIC_API_URL ??
-    (process.env.NODE_ENV === "production"
-      ? "https://coustomized-birthday-card.onrender.com"
-      : "http://localhost:4000");
-  const imagekitPublicKey =
-    process.env.NEXT_PUBLIC_IMAGEKIT_PUBLIC_KEY ?? "";
+  const updatePhotoCrop = (
+    index: number,
+    updates: Partial<PhotoCrop>,
+    group = `photo-crop-${index}`,
+  ) => {
+    setPhotos(
+      (prev) =>
+        prev.map((slot, slotIndex) =>
+          slotIndex === index && slot
+            ? { ...slot, crop: { ...(slot.crop ?? defaultCrop), ...updates } }
+            : slot,
+        ),
+      group,
+    );
+  };
 
-  const updatePhotoPosition = (index: number, position: PhotoSlot["position"]) => {
+  const setPhotoFields = (
+    index: number,
+    fields: Partial<PhotoSlot>,
+    group?: string,
+  ) => {
+    setPhotos(
+      (prev) =>
+        prev.map((slot, slotIndex) =>
+          slotIndex === index && slot ? { ...slot, ...fields } : slot,
+        ),
+      group,
+    );
+  };
+
+  const updatePhotoAdjustments = (
+    index: number,
+    updates: Partial<PhotoAdjustments>,
+  ) => {
+    setPhotos(
+      (prev) =>
+        prev.map((slot, slotIndex) =>
+          slotIndex === index && slot
+            ? {
+                ...slot,
+                adjustments: {
+                  ...(slot.adjustments ?? defaultAdjustments),
+                  ...updates,
+                },
+              }
+            : slot,
+        ),
+      `photo-adjust-${index}`,
+    );
+  };
+
+  const resetPhotoCrop = (index: number) => {
     setPhotos((prev) =>
       prev.map((slot, slotIndex) =>
-        slotIndex === index && slot ? { ...slot, position } : slot,
+        slotIndex === index && slot
+          ? { ...slot, crop: undefined, position: { x: 50, y: 50 } }
+          : slot,
       ),
     );
   };
 
-  const updateSticker = (id: string, updates: Partial<TextSticker>) => {
-    setStickers((prev) =>
-      prev.map((sticker) =>
-        sticker.id === id ? { ...sticker, ...updates } : sticker,
-      ),
+  const updateSticker = (id: string, patch: StickerPatch, group?: string) => {
+    setStickers(
+      (prev) =>
+        prev.map((sticker) =>
+          sticker.id === id ? ({ ...sticker, ...patch } as Sticker) : sticker,
+        ),
+      group,
+    );
+  };
+
+  const updateTypography = (
+    role: TextRole,
+    patch: Partial<TextStyle>,
+    group?: string,
+  ) => {
+    history.set(
+      (prev) => ({
+        ...prev,
+        typography: {
+          ...prev.typography,
+          [role]: { ...prev.typography?.[role], ...patch },
+        },
+      }),
+      group,
     );
   };
 
+  const resetTypography = (role: TextRole) => {
+    history.set((prev) => {
+      if (!prev.typography?.[role]) return prev;
+      const typography = { ...prev.typography };
+      delete typography[role];
+      return { ...prev, typography };
+    });
+  };
+
   const handleAddPhotoSlot = () => {
     setPhotos((prev) => [...prev, null]);
-    setUploading((prev) => [...prev, false]);
   };
 
-  const handleAddSticker = () => {
-    setStickers((prev) => [...prev, createSticker()]);
+  const handleAddSticker = (content: StickerContent) => {
+    setStickers((prev) =>
+      prev.length >= maxStickers ? prev : [...prev, createSticker(content)],
+    );
   };
 
   const handleRemoveSticker = (id: string) => {
     setStickers((prev) => prev.filter((sticker) => sticker.id !== id));
   };
 
+  const handleDuplicateSticker = (id: string) => {
+    setStickers((prev) => {
+      const index = prev.findIndex((sticker) => sticker.id === id);
+      if (index < 0 || prev.length >= maxStickers) return prev;
+      const next = [...prev];
+      next.splice(index + 1, 0, duplicateSticker(prev[index]));
+      return next;
+    });
+  };
+
+  // Stickers draw in array order, so moving one forward swaps it with the
+  // sticker drawn after it.
+  const moveSticker = (id: string, offset: -1 | 1) => {
+    setStickers((prev) => {
+      const index = prev.findIndex((sticker) => sticker.id === id);
+      const target = index + offset;
+      if (index < 0 || target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const handleUploadSticker = async (file: File) => {
+    setError(null);
+    setUploadingSticker(true);
+    try {
+      const uploaded = await uploadPhoto(file, countPhotos(design));
+      handleAddSticker({ kind: "image", url: uploaded.url, name: file.name });
+    } catch (uploadError) {
+      setError(errorMessage(uploadError, t, t.errors.uploadFailed));
+    } finally {
+      setUploadingSticker(false);
+    }
+  };
+
   const swapPhotos = () => {
     setPhotos((prev) => {
       if (prev.length < 2) return prev;
@@ -462,89 +619,61 @@ export default function Home() {
     });
   };
 
+  const updateFrame = (index: number, frame: PhotoFrame) => {
+    const next = Array.from(
+      { length: Math.max(frames?.length ?? 0, index + 1) },
+      (_, frameIndex) =>
+        frameIndex === index ? frame : (frames?.[frameIndex] ?? null),
+    );
+    updatePageContent({ frames: next }, `photo-frame-${index}`);
+  };
+
   const handleRemove = (index: number) => {
-    setPhotos((prev) => {
-      if (prev.length <= 2) {
-        return prev.map((slot, slotIndex) =>
-          slotIndex === index ? null : slot,
-        );
-      }
-      return prev.filter((_, slotIndex) => slotIndex !== index);
-    });
-    setUploading((prev) => {
-      if (prev.length <= 2) {
-        return prev.map((value, slotIndex) =>
-          slotIndex === index ? false : value,
-        );
+    history.set((prev) => {
+      const current = getPage(prev, activePageId);
+      if (current.photos.length <= 2) {
+        return updatePage(prev, activePageId, {
+          photos: current.photos.map((slot, slotIndex) =>
+            slotIndex === index ? null : slot,
+          ),
+        });
       }
-      return prev.filter((_, slotIndex) => slotIndex !== index);
+      // Deleting a slot shifts later frames down with their photos.
+      return updatePage(prev, activePageId, {
+        photos: current.photos.filter((_, slotIndex) => slotIndex !== index),
+        frames: current.frames?.filter((_, slotIndex) => slotIndex !== index),
+      });
     });
+    setUploadingAt(activePageId, index, null);
     setDragOverIndex((prev) => (prev === index ? null : prev));
   };
 
   const handleUpload = async (index: number, file: File | null) => {
     if (!file) return;
     setError(null);
-
-    if (!imagekitPublicKey) {
-      setError(
-        "Missing ImageKit public key. Add NEXT_PUBLIC_IMAGEKIT_PUBLIC_KEY in client .env.local.",
-      );
-      return;
-    }
+    const pageId = activePageId;
 
     try {
-      setUploading((prev) =>
-        prev.map((value, slotIndex) =>
-          slotIndex === index ? true : value,
-        ),
-      );
-      const authResponse = await fetch(`${apiUrl}/auth`);
-      if (!authResponse.ok) {
-        throw new Error("ImageKit auth failed. Is the server running?");
-      }
-      const authData = await authResponse.json();
-
-      const formData = new FormData();
-      formData.append("file", file);
-      formData.append("fileName", file.name);
-      formData.append("publicKey", imagekitPublicKey);
-      formData.append("signature", authData.signature);
-      formData.append("token", authData.token);
-      formData.append("expire", String(authData.expire));
-      formData.append("folder", "/birthday-cards");
-      formData.append("useUniqueFileName", "true");
-
-      const uploadResponse = await fetch(
-        "https://upload.imagekit.io/api/v1/files/upload",
-        {
-          method: "POST",
-          body: formData,
-        },
+      setUploadingAt(pageId, index, "compressing");
+      const photoCount = countPhotos(design) + (photos[index] ? 0 : 1);
+      const uploaded = await uploadPhoto(file, photoCount, (stage) =>
+        setUploadingAt(pageId, index, stage),
       );
 
-      const uploadData = await uploadResponse.json();
-      if (!uploadResponse.ok) {
-        throw new Error(uploadData?.message ?? "Upload failed.");
-      }
-
-      setPhotos((prev) =>
-        prev.map((slot, slotIndex) =>
-          slotIndex === index ? createSlot(uploadData.url, file) : slot,
-        ),
+      setPhotos(
+        (prev) =>
+          prev.map((slot, slotIndex) =>
+            slotIndex === index
+              ? createSlot(uploaded.url, uploaded.file, file)
+              : slot,
+          ),
+        undefined,
+        pageId,
       );
     } catch (uploadError) {
-      setError(
-        uploadError instanceof Error
-          ? uploadError.message
-          : "Upload failed. Try again.",
-      );
+      setError(errorMessage(uploadError, t, t.errors.uploadFailed));
     } finally {
-      setUploading((prev) =>
-        prev.map((value, slotIndex) =>
-          slotIndex === index ? false : value,
-        ),
-      );
+      setUploadingAt(pageId, index, null);
     }
   };
 
@@ -557,216 +686,1304 @@ export default function Home() {
     }
   };
 
-  const handleDownload = async () => {
-    if (!cardRef.current) return;
-    setDownloading(true);
-    setExporting(true);
+  const applyDesign = (next: CardDesign) => {
+    const restoredPhotos = [...next.photos];
+    while (restoredPhotos.length < 2) {
+      restoredPhotos.push(null);
+    }
+    history.reset({ ...next, photos: restoredPhotos });
+    setUploading({});
+    setDragOverIndex(null);
+    setActivePageId("front");
+    setPreviewMode("page");
+  };
+
+  const refreshSavedCards = async () => {
     try {
-      await new Promise((resolve) => requestAnimationFrame(() => resolve(true)));
-      const exportScale = Math.max(2, Math.round(cardSize.downloadScale));
-      const canvas = await html2canvas(cardRef.current, {
-        backgroundColor: null,
-        useCORS: true,
-        scale: exportScale,
-      });
-      const dataUrl = canvas.toDataURL("image/png");
-      const link = document.createElement("a");
-      link.href = dataUrl;
-      link.download = `${recipient || "birthday-card"}.png`;
-      link.click();
-    } catch (downloadError) {
-      setError(
-        downloadError instanceof Error
-          ? downloadError.message
-          : "Download failed. Try again.",
-      );
+      setSavedCards(await listCards());
+    } catch {
+      setSavedCards([]);
+    }
+  };
+
+  const refreshCustomThemes = async () => {
+    try {
+      setCustomThemes(await listThemes());
+    } catch {
+      setCustomThemes([]);
+    }
+  };
+
+  const refreshSavedTemplates = async () => {
+    try {
+      setSavedTemplates(await listTemplates());
+    } catch {
+      setSavedTemplates([]);
+    }
+  };
+
+  const refreshSchedules = async () => {
+    try {
+      setSchedules(await listSchedules());
+    } catch {
+      setSchedules([]);
+    }
+  };
+
+  const refreshContributions = async (id = cardId) => {
+    if (!id) {
+      setContributions([]);
+      return;
+    }
+    try {
+      setContributions(await listContributions(id));
+    } catch {
+      setContributions([]);
+    }
+  };
+
+  const refreshInvite = async (id: string | null) => {
+    if (!id) {
+      setInviteToken(null);
+      return;
+    }
+    try {
+      setInviteToken(await getInviteToken(id));
+    } catch {
+      setInviteToken(null);
+    }
+  };
+
+  const refreshShares = async (id: string | null) => {
+    setShares(listOwnedShares(id));
+  };
+
+  // Invites, notes and share links belong to the saved card, so they follow
+  // whichever card is open.
+  const showCardLinks = (id: string | null) => {
+    void refreshInvite(id);
+    setInviteCopied(false);
+    setCopiedShareSlug(null);
+    void refreshContributions(id);
+    void refreshShares(id);
+  };
+
+  useEffect(() => {
+    void refreshSavedCards();
+    void refreshCustomThemes();
+    void refreshSavedTemplates();
+    void refreshSchedules();
+    void refreshShares(null);
+    const liveId = new URLSearchParams(window.location.search).get("live");
+    if (liveId) {
+      void joinLiveLink(liveId);
+    }
+  }, []);
+
+  const { undo, redo } = history;
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (isEditableTarget(event.target)) return;
+      if (event.key === "?" && !event.metaKey && !event.ctrlKey) {
+        event.preventDefault();
+        setShowShortcuts(true);
+        return;
+      }
+      if (!(event.metaKey || event.ctrlKey)) return;
+      const key = event.key.toLowerCase();
+      if (key === "z") {
+        event.preventDefault();
+        if (event.shiftKey) {
+          redo();
+        } else {
+          undo();
+        }
+      } else if (key === "y") {
+        event.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [undo, redo]);
+
+  const handleSaveCard = async (asNew = false) => {
+    setError(null);
+    setSavingCard(true);
+    try {
+      const saved =
+        cardId && !asNew
+          ? await updateCard(cardId, design)
+          : await createCard(design);
+      if (saved.id !== cardId) {
+        showCardLinks(saved.id);
+      }
+      setCardId(saved.id);
+      await refreshSavedCards();
+    } catch (saveError) {
+      setError(errorMessage(saveError, t, t.errors.saveFailed));
     } finally {
-      setDownloading(false);
-      setExporting(false);
+      setSavingCard(false);
     }
   };
 
-  return (
-    <div className="min-h-screen bg-[#f6efe6] text-[#1b1b1b]">
-      <div className="relative">
-        <div className="pointer-events-none absolute inset-0 bg-[radial-gradient(circle_at_top,_rgba(255,255,255,0.9),_rgba(255,255,255,0)_55%),_radial-gradient(circle_at_80%_30%,_rgba(255,255,255,0.4),_rgba(255,255,255,0)_65%)]" />
-        <div className="relative mx-auto flex w-full max-w-6xl flex-col gap-10 px-6 py-12 lg:px-10">
-          <header className="flex flex-col gap-6 lg:flex-row lg:items-end lg:justify-between">
-            <div className="max-w-2xl">
-              <p className="text-xs uppercase tracking-[0.35em] text-black/60">
-                Birthday Card Studio
-              </p>
-              <h1 className="mt-4 text-4xl font-semibold leading-tight md:text-5xl">
-                Build a personalized birthday card in minutes.
-              </h1>
-              <p className="mt-4 max-w-xl text-sm leading-relaxed text-black/70">
-                Add a name, upload photos to ImageKit, drag to position them, and
-                write a custom message. When it feels right, download a high-res
-                card in one tap.
-              </p>
-            </div>
-            <div className="rounded-3xl border border-black/10 bg-white/70 px-5 py-4 text-xs uppercase tracking-[0.3em] text-black/60 shadow-[0_20px_40px_rgba(0,0,0,0.08)]">
-              One font. Infinite vibes.
-            </div>
-          </header>
+  // Resolves true once the card is open.
+  const handleOpenCard = async (id: string) => {
+    setError(null);
+    try {
+      const saved = await getCard(id);
+      setLiveRoomId(null);
+      applyDesign(saved.design);
+      setCardId(saved.id);
+      showCardLinks(saved.id);
+      return true;
+    } catch (openError) {
+      setError(errorMessage(openError, t, t.errors.openFailed));
+      return false;
+    }
+  };
 
-          <div className="grid items-start gap-10 lg:grid-cols-[minmax(0,1fr)_auto]">
-            <section className="flex flex-col gap-6">
-              <div className="rounded-[28px] border border-black/10 bg-white/80 px-6 py-6 shadow-[0_24px_50px_rgba(0,0,0,0.08)]">
-                <div className="flex items-start justify-between gap-4">
-                  <div>
-                    <p className="text-xs uppercase tracking-[0.3em] text-black/50">
-                      Step 1
-                    </p>
-                    <h2 className="mt-2 text-lg font-semibold">
-                      Name & message
-                    </h2>
-                  </div>
-                </div>
-                <div className="mt-6 grid gap-4">
-                  <label className="text-xs uppercase tracking-[0.25em] text-black/60">
-                    Recipient name
-                  </label>
-                  <input
-                    value={recipient}
-                    onChange={(event) => setRecipient(event.target.value)}
-                    placeholder="e.g. Priya"
-                    className="rounded-2xl border border-black/10 bg-white px-4 py-3 text-sm outline-none transition focus:border-black/40"
-                  />
-                  <label className="text-xs uppercase tracking-[0.25em] text-black/60">
-                    From
-                  </label>
-                  <input
-                    value={sender}
-                    onChange={(event) => setSender(event.target.value)}
-                    placeholder="Your name"
-                    className="rounded-2xl border border-black/10 bg-white px-4 py-3 text-sm outline-none transition focus:border-black/40"
-                  />
-                  <label className="text-xs uppercase tracking-[0.25em] text-black/60">
-                    Message
-                  </label>
-                  <textarea
-                    value={message}
-                    onChange={(event) => setMessage(event.target.value)}
-                    rows={4}
-                    className="resize-none rounded-2xl border border-black/10 bg-white px-4 py-3 text-sm outline-none transition focus:border-black/40"
-                  />
-                </div>
-              </div>
+  // Someone else's live link: open their card, then join the session.
+  const joinLiveLink = useEffectEvent(async (id: string) => {
+    if (await handleOpenCard(id)) {
+      setLiveRoomId(id);
+    }
+  });
 
-              <div className="rounded-[28px] border border-black/10 bg-white/80 px-6 py-6 shadow-[0_24px_50px_rgba(0,0,0,0.08)]">
-                <div className="flex items-start justify-between gap-4">
-                  <div>
-                    <p className="text-xs uppercase tracking-[0.3em] text-black/50">
-                      Step 2
-                    </p>
-                  <h2 className="mt-2 text-lg font-semibold">
-                    Upload photos
-                  </h2>
-                  <p className="mt-2 text-xs text-black/60">
-                      Upload to ImageKit, drag inside the frame to reposition, or
-                      drop a file straight onto a slot.
-                    </p>
+  const handleCopyLiveLink = async () => {
+    if (!liveRoomId) return;
+    try {
+      await navigator.clipboard.writeText(liveLink(liveRoomId));
+      setLiveCopied(true);
+    } catch {
+      setError(t.errors.copyFailed);
+    }
+  };
+
+  const handlePreviewPointer = (event: PointerEvent<HTMLDivElement>) => {
+    const rect = cardRef.current?.getBoundingClientRect();
+    if (!rect || collab.status !== "live") return;
+    collab.sendCursor({
+      pageId: activePageId,
+      x: ((event.clientX - rect.left) / rect.width) * 100,
+      y: ((event.clientY - rect.top) / rect.height) * 100,
+    });
+  };
+
+  const handleDeleteCard = async (id: string) => {
+    setError(null);
+    try {
+      await deleteCard(id);
+      if (cardId === id) {
+        setCardId(null);
+        setLiveRoomId(null);
+        showCardLinks(null);
+      }
+      await refreshSavedCards();
+    } catch (deleteError) {
+      setError(errorMessage(deleteError, t, t.errors.deleteCardFailed));
+    }
+  };
+
+  const handleNewCard = () => {
+    setLiveRoomId(null);
+    applyDesign(createBlankDesign(uiLocale.id));
+    setCardId(null);
+    showCardLinks(null);
+  };
+
+  const handleExportDesign = async (withPhotos: boolean) => {
+    setError(null);
+    if (!withPhotos) {
+      const url = URL.createObjectURL(
+        new Blob([designToJson(design)], { type: "application/json" }),
+      );
+      downloadUrl(url, cardFileName(recipient, "json", "design"));
+      URL.revokeObjectURL(url);
+      return;
+    }
+    setDesignTransfer({ kind: "export", done: 0, total: 0 });
+    try {
+      const bundle = await createDesignBundle(design, (done, total) =>
+        setDesignTransfer({ kind: "export", done, total }),
+      );
+      const url = URL.createObjectURL(bundle);
+      downloadUrl(url, cardFileName(recipient, "zip", "design"));
+      URL.revokeObjectURL(url);
+    } catch (exportError) {
+      setError(errorMessage(exportError, t, t.errors.exportDesignFailed));
+    } finally {
+      setDesignTransfer(null);
+    }
+  };
+
+  // An imported design opens as a new card, saved only when the user
+  // saves it.
+  const handleImportDesign = async (file: File | null) => {
+    if (!file) return;
+    setError(null);
+    setDesignTransfer({ kind: "import", done: 0, total: 0 });
+    try {
+      const imported = await importDesignFile(file, (done, total) =>
+        setDesignTransfer({ kind: "import", done, total }),
+      );
+      setLiveRoomId(null);
+      applyDesign(imported);
+      setCardId(null);
+      showCardLinks(null);
+    } catch (importError) {
+      setError(errorMessage(importError, t, t.errors.importDesignFailed));
+    } finally {
+      setDesignTransfer(null);
+    }
+  };
+
+  const selectTheme = (item: Theme | CustomTheme) => {
+    updateDesign({
+      themeId: item.id,
+      customTheme:
+        "spec" in item
+          ? { id: item.id, name: item.name, spec: item.spec }
+          : undefined,
+    });
+  };
+
+  const handleSaveTheme = async () => {
+    if (!themeEditor) return;
+    setError(null);
+    setSavingTheme(true);
+    try {
+      const saved = themeEditor.id
+        ? await updateTheme(themeEditor.id, themeEditor.draft)
+        : await createTheme(themeEditor.draft);
+      selectTheme(saved);
+      setThemeEditor(null);
+      await refreshCustomThemes();
+    } catch (saveError) {
+      setError(errorMessage(saveError, t, t.errors.saveThemeFailed));
+    } finally {
+      setSavingTheme(false);
+    }
+  };
+
+  const handleDeleteTheme = async () => {
+    if (!themeEditor?.id) return;
+    setError(null);
+    try {
+      await deleteTheme(themeEditor.id);
+      setThemeEditor(null);
+      await refreshCustomThemes();
+    } catch (deleteError) {
+      setError(errorMessage(deleteError, t, t.errors.deleteThemeFailed));
+    }
+  };
+
+  const handleExportTheme = () => {
+    if (!themeEditor) return;
+    const url = URL.createObjectURL(
+      new Blob([themeToJson(themeEditor.draft)], {
+        type: "application/json",
+      }),
+    );
+    downloadUrl(url, `${themeEditor.draft.name || "theme"}.json`);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImportTheme = async (file: File | null) => {
+    if (!file) return;
+    setError(null);
+    try {
+      const saved = await createTheme(parseThemeJson(await file.text()));
+      selectTheme(saved);
+      await refreshCustomThemes();
+    } catch (importError) {
+      setError(errorMessage(importError, t, t.errors.importThemeFailed));
+    }
+  };
+
+  // Sends the card as it is now; a saved draft is linked so the server
+  // mails its latest version.
+  const handleSaveSchedule = async (
+    draft: ScheduleDraft,
+    id: string | null,
+  ) => {
+    setError(null);
+    setSavingSchedule(true);
+    try {
+      if (id) {
+        await updateSchedule(id, draft, design, cardId);
+      } else {
+        await createSchedule(draft, design, cardId);
+      }
+      await refreshSchedules();
+      return true;
+    } catch (saveError) {
+      setError(errorMessage(saveError, t, t.errors.scheduleFailed));
+      return false;
+    } finally {
+      setSavingSchedule(false);
+    }
+  };
+
+  const handleCancelSchedule = async (id: string) => {
+    setError(null);
+    try {
+      await cancelSchedule(id);
+      await refreshSchedules();
+    } catch (cancelError) {
+      setError(errorMessage(cancelError, t, t.errors.cancelScheduleFailed));
+    }
+  };
+
+  const handleCreateInvite = async () => {
+    if (!cardId) return;
+    setError(null);
+    setSigningBusy(true);
+    try {
+      const { inviteToken: token } = await createInvite(cardId);
+      setInviteToken(token);
+    } catch (inviteError) {
+      setError(errorMessage(inviteError, t, t.errors.inviteFailed));
+    } finally {
+      setSigningBusy(false);
+    }
+  };
+
+  const handleCopyInvite = async () => {
+    if (!inviteToken) return;
+    try {
+      await navigator.clipboard.writeText(inviteUrl(inviteToken));
+      setInviteCopied(true);
+    } catch {
+      setError(t.errors.copyFailed);
+    }
+  };
+
+  const handleDisableInvite = async () => {
+    if (!cardId) return;
+    setError(null);
+    setSigningBusy(true);
+    try {
+      await disableInvite(cardId);
+      setInviteToken(null);
+      setInviteCopied(false);
+    } catch (inviteError) {
+      setError(errorMessage(inviteError, t, t.errors.inviteFailed));
+    } finally {
+      setSigningBusy(false);
+    }
+  };
+
+  // The server answers with the approved notes, which replace the card's
+  // signatures here too so the preview and the next save agree with it.
+  const handleContributionChange = async (
+    id: string,
+    status: ContributionStatus | null,
+  ) => {
+    if (!cardId) return;
+    setError(null);
+    setSigningBusy(true);
+    try {
+      const { signatures } = status
+        ? await setContributionStatus(cardId, id, status)
+        : await deleteContribution(cardId, id);
+      updateDesign({ signatures });
+      await refreshContributions();
+    } catch (contributionError) {
+      setError(errorMessage(contributionError, t, t.errors.contributionFailed));
+    } finally {
+      setSigningBusy(false);
+    }
+  };
+
+  // Notes go on the inside left page; a single card becomes a folding card
+  // first.
+  const handleAddSignaturesPage = () => {
+    history.set((prev) =>
+      updatePage(
+        isFolded(prev) ? prev : { ...prev, pages: createFoldingPages() },
+        "insideLeft",
+        { layoutId: "signatures" },
+      ),
+    );
+    setActivePageId("insideLeft");
+    setPreviewMode("page");
+  };
+
+  const handleSaveTemplate = async (name: string, tone: TemplateTone) => {
+    setError(null);
+    setSavingTemplate(true);
+    try {
+      await createTemplate({ name, tone, text: message });
+      await refreshSavedTemplates();
+      return true;
+    } catch (saveError) {
+      setError(errorMessage(saveError, t, t.errors.saveTemplateFailed));
+      return false;
+    } finally {
+      setSavingTemplate(false);
+    }
+  };
+
+  const handleDeleteTemplate = async (id: string) => {
+    setError(null);
+    try {
+      await deleteTemplate(id);
+      await refreshSavedTemplates();
+    } catch (deleteError) {
+      setError(errorMessage(deleteError, t, t.errors.deleteTemplateFailed));
+    }
+  };
+
+  const handleUploadThemeImage = async (file: File) => {
+    setError(null);
+    setUploadingThemeImage(true);
+    try {
+      const uploaded = await uploadPhoto(file, countPhotos(design));
+      setThemeEditor((prev) =>
+        prev
+          ? {
+              ...prev,
+              draft: {
+                ...prev.draft,
+                spec: { ...prev.draft.spec, imageUrl: uploaded.url },
+              },
+            }
+          : prev,
+      );
+    } catch (uploadError) {
+      setError(errorMessage(uploadError, t, t.errors.uploadFailed));
+    } finally {
+      setUploadingThemeImage(false);
+    }
+  };
+
+  const handleShare = async () => {
+    setError(null);
+    setSharing(true);
+    setCopiedShareSlug(null);
+    try {
+      const expiry =
+        shareExpiryOptions.find((option) => option.id === shareExpiryId) ??
+        shareExpiryOptions[0];
+      await createShare(design, {
+        cardId,
+        expiresInDays: expiry.days,
+      });
+      await refreshShares(cardId);
+    } catch (shareError) {
+      setError(errorMessage(shareError, t, t.errors.shareFailed));
+    } finally {
+      setSharing(false);
+    }
+  };
+
+  const handleCopyShare = async (share: OwnedShare) => {
+    try {
+      await navigator.clipboard.writeText(shareUrl(share.slug));
+      setCopiedShareSlug(share.slug);
+    } catch {
+      setError(t.errors.copyFailed);
+    }
+  };
+
+  const handleRevokeShare = async (share: OwnedShare) => {
+    setError(null);
+    try {
+      await revokeShare(share);
+      await refreshShares(cardId);
+    } catch (revokeError) {
+      setError(errorMessage(revokeError, t, t.errors.revokeFailed));
+    }
+  };
+
+  // Folding cards and batch cards export every page from an offscreen copy
+  // that is only mounted while exporting; a single-face card uses the live
+  // preview when it is showing.
+  const collectFaces = async (
+    cardDesign = design,
+  ): Promise<Partial<Record<CardPageId, HTMLElement>> | null> => {
+    await waitForFrame();
+    if (cardDesign === design && exportsLivePreview) {
+      return cardRef.current ? { front: cardRef.current } : null;
+    }
+    await waitForFrame();
+    const faces: Partial<Record<CardPageId, HTMLElement>> = {};
+    for (const page of isFolded(cardDesign)
+      ? cardPages
+      : cardPages.slice(0, 1)) {
+      const element = exportRefs[page.id].current;
+      if (!element) return null;
+      faces[page.id] = element;
+    }
+    return faces;
+  };
+
+  // One PNG per face, named after the recipient (and the page, for
+  // folding cards).
+  const renderFaces = async (
+    faces: Partial<Record<CardPageId, HTMLElement>>,
+    cardDesign: CardDesign,
+  ) => {
+    const exportScale = Math.max(2, Math.round(cardSize.downloadScale));
+    const rendered: { fileName: string; canvas: HTMLCanvasElement }[] = [];
+    for (const page of cardPages) {
+      const element = faces[page.id];
+      if (!element) continue;
+      rendered.push({
+        fileName: cardFileName(
+          cardDesign.recipient,
+          "png",
+          isFolded(cardDesign)
+            ? page.name.toLowerCase().replace(/\s+/g, "-")
+            : undefined,
+        ),
+        canvas: await renderCardCanvas(element, exportScale),
+      });
+    }
+    return rendered;
+  };
+
+  const handleDownload = async () => {
+    if (exportsLivePreview && !cardRef.current) return;
+    setDownloading(true);
+    setExporting(true);
+    try {
+      const faces = await collectFaces();
+      if (!faces) {
+        throw new Error(t.errors.notReady);
+      }
+      for (const { fileName, canvas } of await renderFaces(faces, design)) {
+        downloadUrl(canvas.toDataURL("image/png"), fileName);
+      }
+    } catch (downloadError) {
+      setError(errorMessage(downloadError, t, t.errors.downloadFailed));
+    } finally {
+      setDownloading(false);
+      setExporting(false);
+    }
+  };
+
+  const handleDownloadPdf = async () => {
+    if (exportsLivePreview && !cardRef.current) return;
+    const format =
+      printFormats.find((item) => item.id === printFormatId) ??
+      printFormats[0];
+    setDownloading(true);
+    setExporting(true);
+    try {
+      const faces = await collectFaces();
+      if (!faces?.front) {
+        throw new Error(t.errors.notReady);
+      }
+      const pdf = await exportCardPdf({
+        faces: { ...faces, front: faces.front },
+        design,
+        theme,
+        format,
+        dpi: printDpi,
+        bleedMm,
+        cropMarks,
+      });
+      pdf.save(cardFileName(recipient, "pdf"));
+    } catch (downloadError) {
+      setError(errorMessage(downloadError, t, t.errors.pdfFailed));
+    } finally {
+      setDownloading(false);
+      setExporting(false);
+    }
+  };
+
+  const handleImportRecipients = async (file: File | null) => {
+    if (!file) return;
+    setError(null);
+    try {
+      setBatchRecipients(parseRecipients(await file.text(), file.name));
+      setBatchIndex(0);
+    } catch (importError) {
+      setError(errorMessage(importError, t, t.errors.batchImportFailed));
+    }
+  };
+
+  const clearBatch = () => {
+    setBatchRecipients([]);
+    setBatchIndex(0);
+    if (previewMode === "batch") setPreviewMode("page");
+  };
+
+  const previewBatchCard = (index: number) => {
+    setBatchIndex(index);
+    setPreviewMode("batch");
+  };
+
+  // Renders the batch one card at a time in the offscreen export copy and
+  // packs every PNG into a single archive.
+  const handleDownloadBatch = async () => {
+    if (batchDesigns.length === 0) return;
+    setDownloading(true);
+    setExporting(true);
+    try {
+      const entries: ZipEntry[] = [];
+      for (let index = 0; index < batchDesigns.length; index += 1) {
+        const cardDesign = batchDesigns[index];
+        setBatchProgress(index + 1);
+        setBatchExportDesign(cardDesign);
+        const faces = await collectFaces(cardDesign);
+        if (!faces) {
+          throw new Error(t.errors.notReady);
+        }
+        for (const { fileName, canvas } of await renderFaces(
+          faces,
+          cardDesign,
+        )) {
+          entries.push({ name: fileName, data: await canvasToPng(canvas) });
+        }
+      }
+      const names = uniqueFileNames(entries.map((entry) => entry.name));
+      const url = URL.createObjectURL(
+        createZip(
+          entries.map((entry, index) => ({ ...entry, name: names[index] })),
+        ),
+      );
+      downloadUrl(url, "birthday-cards.zip");
+      URL.revokeObjectURL(url);
+    } catch (downloadError) {
+      setError(errorMessage(downloadError, t, t.errors.batchFailed));
+    } finally {
+      setDownloading(false);
+      setExporting(false);
+      setBatchExportDesign(null);
+      setBatchProgress(null);
+    }
+  };
+
+  // The animated card is captured from three offscreen copies of the front
+  // page, one per layer, that are only mounted while capturing.
+  const captureAnimation = async (scale: number) => {
+    setCapturingAnimation(true);
+    try {
+      await waitForFrame();
+      await waitForFrame();
+      const base = animationRefs.base.current;
+      const photosLayer = animationRefs.photos.current;
+      const messageLayer = animationRefs.message.current;
+      if (!base || !photosLayer || !messageLayer) {
+        throw new Error(t.errors.notReady);
+      }
+      return await captureAnimationLayers(
+        { base, photos: photosLayer, message: messageLayer },
+        scale,
+      );
+    } finally {
+      setCapturingAnimation(false);
+    }
+  };
+
+  const handleAnimationPreview = async () => {
+    setPreviewMode("animate");
+    setAnimationLayers(null);
+    try {
+      setAnimationLayers(await captureAnimation(1));
+    } catch (animationError) {
+      setPreviewMode("page");
+      setError(errorMessage(animationError, t, t.errors.animationFailed));
+    }
+  };
+
+  const toggleAnimationEffect = (effect: keyof AnimationEffects) => {
+    setAnimationEffects((prev) => ({ ...prev, [effect]: !prev[effect] }));
+  };
+
+  const handleDownloadAnimation = async (kind: "gif" | "webm") => {
+    setRenderingAnimation(kind);
+    try {
+      // Video is scaled up like the PNG download; the GIF stays at preview
+      // size to keep the file small.
+      const layers = await captureAnimation(kind === "gif" ? 1 : 2);
+      const blob =
+        kind === "gif"
+          ? await renderAnimationGif(
+              layers,
+              animationEffects,
+              cardSize.animation,
+            )
+          : await recordAnimationWebm(
+              layers,
+              animationEffects,
+              cardSize.animation,
+              "#f6efe6",
+            );
+      if (!blob) {
+        throw new Error(t.errors.webmUnsupported);
+      }
+      const url = URL.createObjectURL(blob);
+      downloadUrl(url, cardFileName(recipient, kind));
+      URL.revokeObjectURL(url);
+    } catch (animationError) {
+      setError(errorMessage(animationError, t, t.errors.animationFailed));
+    } finally {
+      setRenderingAnimation(null);
+    }
+  };
+
+  const animationPlays =
+    cardSize.animation.plays === 0
+      ? t.animation.loopForever
+      : cardSize.animation.plays === 1
+        ? t.animation.playsOnce
+        : format(t.animation.playsTimes, { count: cardSize.animation.plays });
+
+  return (
+    <div className="min-h-screen bg-[#f6efe6] text-[#1b1b1b]">
+      <div className="relative">
+        <div className="pointer-events-none absolute inset-0 bg-[radial-gradient(circle_at_top,_rgba(255,255,255,0.9),_rgba(255,255,255,0)_55%),_radial-gradient(circle_at_80%_30%,_rgba(255,255,255,0.4),_rgba(255,255,255,0)_65%)]" />
+        <div className="relative mx-auto flex w-full max-w-6xl flex-col gap-10 px-6 py-12 lg:px-10">
+          <header className="flex flex-col gap-6 lg:flex-row lg:items-end lg:justify-between">
+            <div className="max-w-2xl">
+              <p className="text-xs uppercase tracking-[0.35em] text-black/60">
+                {t.studio.name}
+              </p>
+              <h1 className="mt-4 text-4xl font-semibold leading-tight md:text-5xl">
+                {t.studio.title}
+              </h1>
+              <p className="mt-4 max-w-xl text-sm leading-relaxed text-black/70">
+                {t.studio.intro}
+              </p>
+            </div>
+            <div className="flex flex-col items-start gap-3 lg:items-end">
+              <label className="flex items-center gap-2 text-xs uppercase tracking-[0.25em] text-black/60">
+                {t.studio.language}
+                <select
+                  value={uiLocale.id}
+                  onChange={(event) =>
+                    setLocale(event.target.value as LocaleId)
+                  }
+                  className="rounded-full border border-black/20 bg-white px-3 py-1 normal-case tracking-normal outline-none"
+                >
+                  {locales.map((item) => (
+                    <option key={item.id} value={item.id} lang={item.id}>
+                      {item.name}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <div className="rounded-3xl border border-black/10 bg-white/70 px-5 py-4 text-xs uppercase tracking-[0.3em] text-black/60 shadow-[0_20px_40px_rgba(0,0,0,0.08)]">
+                {t.studio.badge}
+              </div>
+            </div>
+          </header>
+
+          <div className="grid items-start gap-10 lg:grid-cols-[minmax(0,1fr)_auto]">
+            <section className="flex flex-col gap-6">
+              <div className="rounded-[28px] border border-black/10 bg-white/80 px-6 py-6 shadow-[0_24px_50px_rgba(0,0,0,0.08)]">
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <p className="text-xs uppercase tracking-[0.3em] text-black/50">
+                      {t.pages.label}
+                    </p>
+                    <h2 className="mt-2 text-lg font-semibold">
+                      {folded ? t.pages.folding : t.pages.single}
+                    </h2>
+                    <p className="mt-2 text-xs text-black/60">
+                      {folded ? t.pages.foldingHint : t.pages.singleHint}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => handleFoldingChange(!folded)}
+                    className="text-xs uppercase tracking-[0.2em] text-black/50 transition hover:text-black"
+                  >
+                    {folded ? t.pages.makeSingle : t.pages.makeFolding}
+                  </button>
+                </div>
+                {folded ? (
+                  <div className="mt-6 grid gap-3 md:grid-cols-4">
+                    {cardPages.map((page) => (
+                      <button
+                        key={page.id}
+                        onClick={() => {
+                          setActivePageId(page.id);
+                          setPreviewMode("page");
+                          setDragOverIndex(null);
+                        }}
+                        aria-pressed={activePageId === page.id}
+                        className={`rounded-2xl border px-3 py-3 text-start text-xs uppercase tracking-[0.2em] transition ${
+                          activePageId === page.id
+                            ? "border-black/50 bg-black/5"
+                            : "border-black/10 bg-white"
+                        }`}
+                      >
+                        {localize(t.cardPages, page).name}
+                      </button>
+                    ))}
+                  </div>
+                ) : null}
+              </div>
+
+              <div className="rounded-[28px] border border-black/10 bg-white/80 px-6 py-6 shadow-[0_24px_50px_rgba(0,0,0,0.08)]">
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <p className="text-xs uppercase tracking-[0.3em] text-black/50">
+                      {format(t.common.step, { number: 1 })}
+                    </p>
+                    <h2 className="mt-2 text-lg font-semibold">
+                      {t.details.title}
+                    </h2>
+                  </div>
+                </div>
+                <div className="mt-6 grid gap-4">
+                  <label className="text-xs uppercase tracking-[0.25em] text-black/60">
+                    {t.details.recipient}
+                  </label>
+                  <input
+                    value={recipient}
+                    onChange={(event) =>
+                      updateDesign({ recipient: event.target.value }, "recipient")
+                    }
+                    onBlur={history.endGroup}
+                    placeholder={t.details.recipientPlaceholder}
+                    className="rounded-2xl border border-black/10 bg-white px-4 py-3 text-sm outline-none transition focus:border-black/40"
+                  />
+                  <DeliveryScheduler
+                    birthday={design.birthday}
+                    schedules={schedules}
+                    saving={savingSchedule}
+                    onSave={handleSaveSchedule}
+                    onCancel={handleCancelSchedule}
+                  />
+                  <label className="text-xs uppercase tracking-[0.25em] text-black/60">
+                    {t.details.sender}
+                  </label>
+                  <input
+                    value={sender}
+                    onChange={(event) =>
+                      updateDesign({ sender: event.target.value }, "sender")
+                    }
+                    onBlur={history.endGroup}
+                    placeholder={t.details.senderPlaceholder}
+                    className="rounded-2xl border border-black/10 bg-white px-4 py-3 text-sm outline-none transition focus:border-black/40"
+                  />
+                  <div className="grid grid-cols-2 gap-3">
+                    <label className="grid gap-2 text-xs uppercase tracking-[0.25em] text-black/60">
+                      {t.details.age}
+                      <input
+                        type="number"
+                        min={0}
+                        max={150}
+                        value={design.age ?? ""}
+                        onChange={(event) =>
+                          updateDesign(
+                            {
+                              age:
+                                event.target.value === ""
+                                  ? null
+                                  : Math.max(
+                                      0,
+                                      Math.round(Number(event.target.value)),
+                                    ),
+                            },
+                            "age",
+                          )
+                        }
+                        onBlur={history.endGroup}
+                        placeholder={t.details.agePlaceholder}
+                        className="rounded-2xl border border-black/10 bg-white px-4 py-3 text-sm outline-none transition focus:border-black/40 normal-case tracking-normal text-black"
+                      />
+                    </label>
+                    <label className="grid gap-2 text-xs uppercase tracking-[0.25em] text-black/60">
+                      {t.details.birthday}
+                      <input
+                        type="date"
+                        value={design.birthday ?? ""}
+                        onChange={(event) =>
+                          updateDesign({ birthday: event.target.value || null })
+                        }
+                        className="rounded-2xl border border-black/10 bg-white px-4 py-3 text-sm outline-none transition focus:border-black/40 normal-case tracking-normal text-black"
+                      />
+                    </label>
+                  </div>
+                  <label className="grid gap-2 text-xs uppercase tracking-[0.25em] text-black/60">
+                    {t.details.cardLanguage}
+                    <select
+                      value={cardLocale.id}
+                      onChange={(event) =>
+                        handleCardLocaleChange(event.target.value as LocaleId)
+                      }
+                      className="rounded-2xl border border-black/10 bg-white px-4 py-3 text-sm outline-none transition focus:border-black/40 normal-case tracking-normal text-black"
+                    >
+                      {locales.map((item) => (
+                        <option key={item.id} value={item.id} lang={item.id}>
+                          {item.name}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                  <div className="flex items-center justify-between gap-3">
+                    <label className="text-xs uppercase tracking-[0.25em] text-black/60">
+                      {t.details.headline}
+                    </label>
+                    {design.headline !== undefined ||
+                    design.eyebrow !== undefined ? (
+                      <button
+                        onClick={() =>
+                          updateDesign({
+                            headline: undefined,
+                            eyebrow: undefined,
+                          })
+                        }
+                        className="text-xs uppercase tracking-[0.2em] text-black/50 transition hover:text-black"
+                      >
+                        {t.common.reset}
+                      </button>
+                    ) : null}
+                  </div>
+                  <input
+                    value={
+                      design.eyebrow ??
+                      defaultEyebrow(getLayout(design.layoutId), design.locale)
+                    }
+                    dir={cardLocale.dir}
+                    onChange={(event) =>
+                      updateDesign({ eyebrow: event.target.value }, "eyebrow")
+                    }
+                    onBlur={history.endGroup}
+                    placeholder={t.details.eyebrowPlaceholder}
+                    className="rounded-2xl border border-black/10 bg-white px-4 py-3 text-sm outline-none transition focus:border-black/40"
+                  />
+                  <textarea
+                    value={
+                      design.headline ??
+                      defaultHeadline(getLayout(design.layoutId), design.locale)
+                    }
+                    dir={cardLocale.dir}
+                    onChange={(event) =>
+                      updateDesign({ headline: event.target.value }, "headline")
+                    }
+                    onBlur={history.endGroup}
+                    rows={2}
+                    className="resize-none rounded-2xl border border-black/10 bg-white px-4 py-3 text-sm outline-none transition focus:border-black/40"
+                  />
+                  <label className="text-xs uppercase tracking-[0.25em] text-black/60">
+                    {folded
+                      ? format(t.details.messageFor, {
+                          page: t.cardPages[activePageId]?.name,
+                        })
+                      : t.details.message}
+                  </label>
+                  <textarea
+                    value={message}
+                    onChange={(event) =>
+                      updatePageContent(
+                        { message: event.target.value },
+                        `message-${activePageId}`,
+                      )
+                    }
+                    onBlur={history.endGroup}
+                    dir={cardLocale.dir}
+                    rows={4}
+                    className="resize-none rounded-2xl border border-black/10 bg-white px-4 py-3 text-sm outline-none transition focus:border-black/40"
+                  />
+                  <p className="text-xs text-black/50">
+                    {t.details.placeholderHint}
+                  </p>
+                  <MessageTemplates
+                    locale={design.locale}
+                    values={templateValues(design)}
+                    savedTemplates={savedTemplates}
+                    canSave={Boolean(message.trim())}
+                    saving={savingTemplate}
+                    onApply={(text) => updatePageContent({ message: text })}
+                    onSave={handleSaveTemplate}
+                    onDelete={handleDeleteTemplate}
+                  />
+                  <div className="flex items-center justify-between gap-3">
+                    <label className="text-xs uppercase tracking-[0.25em] text-black/60">
+                      {t.details.signature}
+                    </label>
+                    {design.signature !== undefined ? (
+                      <button
+                        onClick={() => updateDesign({ signature: undefined })}
+                        className="text-xs uppercase tracking-[0.2em] text-black/50 transition hover:text-black"
+                      >
+                        {t.common.reset}
+                      </button>
+                    ) : null}
+                  </div>
+                  <input
+                    value={design.signature ?? defaultSignature(design.locale)}
+                    dir={cardLocale.dir}
+                    onChange={(event) =>
+                      updateDesign({ signature: event.target.value }, "signature")
+                    }
+                    onBlur={history.endGroup}
+                    className="rounded-2xl border border-black/10 bg-white px-4 py-3 text-sm outline-none transition focus:border-black/40"
+                  />
+                  <GroupSigning
+                    cardId={cardId}
+                    inviteToken={inviteToken}
+                    copied={inviteCopied}
+                    contributions={contributions}
+                    hasSignaturesPage={cardPages.some(
+                      (page) =>
+                        getPage(design, page.id).layoutId === "signatures",
+                    )}
+                    busy={signingBusy}
+                    onCreateInvite={handleCreateInvite}
+                    onCopyInvite={handleCopyInvite}
+                    onDisableInvite={handleDisableInvite}
+                    onRefresh={() => void refreshContributions()}
+                    onSetStatus={(id, status) =>
+                      void handleContributionChange(id, status)
+                    }
+                    onDelete={(id) => void handleContributionChange(id, null)}
+                    onAddPage={handleAddSignaturesPage}
+                  />
+                </div>
+              </div>
+
+              <div className="rounded-[28px] border border-black/10 bg-white/80 px-6 py-6 shadow-[0_24px_50px_rgba(0,0,0,0.08)]">
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <p className="text-xs uppercase tracking-[0.3em] text-black/50">
+                      {format(t.common.step, { number: 2 })}
+                    </p>
+                  <h2 className="mt-2 text-lg font-semibold">
+                    {t.photos.title}
+                  </h2>
+                  <p className="mt-2 text-xs text-black/60">
+                      {t.photos.hint}
+                    </p>
                   </div>
                 </div>
                 <div className="mt-6 grid gap-4">
-                  {photos.map((slot, slotIndex) => {
-                    const canDeleteSlot = photos.length > 2;
-                    return (
-                      <div
-                        key={`photo-slot-${slotIndex}`}
-                        onDragOver={(event) => {
-                          event.preventDefault();
-                          setDragOverIndex(slotIndex);
-                        }}
-                        onDragLeave={() => setDragOverIndex(null)}
-                        onDrop={(event) => handleDrop(slotIndex, event)}
-                        className={`flex flex-col gap-3 rounded-2xl border px-4 py-4 transition ${
-                          dragOverIndex === slotIndex
-                            ? "border-black/40 bg-black/5"
-                            : "border-black/10 bg-white/70"
-                        }`}
-                      >
-                        <div className="flex items-center justify-between">
-                          <p className="text-xs uppercase tracking-[0.25em] text-black/60">
-                            Photo {slotIndex + 1}
-                          </p>
-                          {slot || canDeleteSlot ? (
-                            <button
-                              onClick={() => handleRemove(slotIndex)}
-                              className="text-xs uppercase tracking-[0.2em] text-black/50 transition hover:text-black"
-                            >
-                              {canDeleteSlot
-                                ? slot
-                                  ? "Remove slot"
-                                  : "Delete slot"
-                                : "Remove"}
-                            </button>
-                          ) : null}
-                        </div>
-                        <div className="flex items-center gap-3">
-                          <div className="h-14 w-14 overflow-hidden rounded-2xl border border-black/10 bg-white">
-                            {slot ? (
-                              <img
-                                src={slot.url}
-                                alt={slot.name}
-                                className="h-full w-full object-cover"
+                  {!hasPhotos ? (
+                    <p className="text-xs text-black/50">
+                      {t.photos.noPhotos}
+                    </p>
+                  ) : (
+                    photos.map((slot, slotIndex) => {
+                      const canDeleteSlot = photos.length > 2;
+                      const uploadStage =
+                        uploading[`${activePageId}:${slotIndex}`];
+                      return (
+                        <div
+                          key={`photo-slot-${slotIndex}`}
+                          onDragOver={(event) => {
+                            event.preventDefault();
+                            setDragOverIndex(slotIndex);
+                          }}
+                          onDragLeave={() => setDragOverIndex(null)}
+                          onDrop={(event) => handleDrop(slotIndex, event)}
+                          className={`flex flex-col gap-3 rounded-2xl border px-4 py-4 transition ${
+                            dragOverIndex === slotIndex
+                              ? "border-black/40 bg-black/5"
+                              : "border-black/10 bg-white/70"
+                          }`}
+                        >
+                          <div className="flex items-center justify-between">
+                            <p className="text-xs uppercase tracking-[0.25em] text-black/60">
+                              {format(t.photos.slot, { number: slotIndex + 1 })}
+                            </p>
+                            {slot || canDeleteSlot ? (
+                              <button
+                                onClick={() => handleRemove(slotIndex)}
+                                className="text-xs uppercase tracking-[0.2em] text-black/50 transition hover:text-black"
+                              >
+                                {canDeleteSlot
+                                  ? slot
+                                    ? t.photos.removeSlot
+                                    : t.photos.deleteSlot
+                                  : t.common.remove}
+                              </button>
+                            ) : null}
+                          </div>
+                          <div className="flex items-center gap-3">
+                            <div className="h-14 w-14 overflow-hidden rounded-2xl border border-black/10 bg-white">
+                              {slot ? (
+                                <img
+                                  src={slot.url}
+                                  alt={slot.name}
+                                  className="h-full w-full object-cover"
+                                />
+                              ) : (
+                                <div className="flex h-full w-full items-center justify-center text-[10px] uppercase tracking-[0.2em] text-black/40">
+                                  {t.photos.empty}
+                                </div>
+                              )}
+                            </div>
+                            <div className="flex flex-1 flex-col gap-2">
+                              <input
+                                type="file"
+                                accept="image/jpeg,image/png,image/webp,image/gif,image/heic,image/heif,.heic,.heif"
+                                onChange={(event) =>
+                                  handleUpload(
+                                    slotIndex,
+                                    event.target.files?.[0] ?? null,
+                                  )
+                                }
+                                className="text-xs text-black/70"
                               />
-                            ) : (
-                              <div className="flex h-full w-full items-center justify-center text-[10px] uppercase tracking-[0.2em] text-black/40">
-                                Empty
+                              <div className="flex flex-wrap gap-2 text-[11px] text-black/50">
+                                <span>{slot?.type ?? t.photos.types}</span>
+                                <span>|</span>
+                                <span>
+                                  {slot?.originalSize &&
+                                  slot.originalSize !== slot.size
+                                    ? format(t.photos.compressed, {
+                                        before: formatBytes(slot.originalSize),
+                                        after: formatBytes(slot.size),
+                                      })
+                                    : formatBytes(slot?.size)}
+                                </span>
                               </div>
-                            )}
-                          </div>
-                          <div className="flex flex-1 flex-col gap-2">
-                            <input
-                              type="file"
-                              accept="image/*"
-                              onChange={(event) =>
-                                handleUpload(
-                                  slotIndex,
-                                  event.target.files?.[0] ?? null,
-                                )
-                              }
-                              className="text-xs text-black/70"
-                            />
-                            <div className="flex flex-wrap gap-2 text-[11px] text-black/50">
-                              <span>{slot?.type ?? "PNG, JPG, WEBP"}</span>
-                              <span>|</span>
-                              <span>{formatBytes(slot?.size)}</span>
                             </div>
                           </div>
+                          {uploadStage ? (
+                            <p
+                              className="text-xs text-black/60"
+                              aria-live="polite"
+                            >
+                              {uploadStage === "uploading"
+                                ? t.common.uploading
+                                : t.photos[uploadStage]}
+                            </p>
+                          ) : slot ? (
+                            <p className="text-xs text-black/60">
+                              {format(t.photos.uploaded, { name: slot.name })}
+                            </p>
+                          ) : (
+                            <p className="text-xs text-black/50">
+                              {t.photos.dropTip}
+                            </p>
+                          )}
+                          {slot ? (
+                            <div className="flex flex-col gap-2 border-t border-black/10 pt-3">
+                              <label className="flex items-center gap-2 text-xs text-black/60">
+                                <span className="w-16">{t.photos.zoom}</span>
+                                <input
+                                  type="range"
+                                  min={minCropScale}
+                                  max={maxCropScale}
+                                  step={0.05}
+                                  value={(slot.crop ?? defaultCrop).scale}
+                                  onChange={(event) =>
+                                    updatePhotoCrop(slotIndex, {
+                                      scale: Number(event.target.value),
+                                    })
+                                  }
+                                  onPointerUp={history.endGroup}
+                                  onBlur={history.endGroup}
+                                  className="flex-1 accent-black"
+                                />
+                                <span className="w-10 text-end">
+                                  {(slot.crop ?? defaultCrop).scale.toFixed(1)}x
+                                </span>
+                              </label>
+                              <label className="flex items-center gap-2 text-xs text-black/60">
+                                <span className="w-16">{t.photos.rotate}</span>
+                                <input
+                                  type="range"
+                                  min={-180}
+                                  max={180}
+                                  value={(slot.crop ?? defaultCrop).rotation}
+                                  onChange={(event) =>
+                                    updatePhotoCrop(slotIndex, {
+                                      rotation: Number(event.target.value),
+                                    })
+                                  }
+                                  onPointerUp={history.endGroup}
+                                  onBlur={history.endGroup}
+                                  className="flex-1 accent-black"
+                                />
+                                <span className="w-10 text-end">
+                                  {(slot.crop ?? defaultCrop).rotation}°
+                                </span>
+                              </label>
+                              <div className="flex flex-wrap items-center gap-2">
+                                {(
+                                  [
+                                    { id: undefined, label: t.photos.fitLayout },
+                                    { id: "contain", label: t.photos.fit },
+                                    { id: "cover", label: t.photos.fill },
+                                  ] as const
+                                ).map((option) => (
+                                  <button
+                                    key={option.id ?? "layout"}
+                                    onClick={() =>
+                                      updatePhotoCrop(slotIndex, {
+                                        fit: option.id,
+                                      })
+                                    }
+                                    aria-pressed={slot.crop?.fit === option.id}
+                                    className={`rounded-full border px-3 py-1 text-[11px] uppercase tracking-[0.2em] transition ${
+                                      slot.crop?.fit === option.id
+                                        ? "border-black/50 bg-black/5"
+                                        : "border-black/10 bg-white"
+                                    }`}
+                                  >
+                                    {option.label}
+                                  </button>
+                                ))}
+                                <button
+                                  onClick={() => resetPhotoCrop(slotIndex)}
+                                  className="ms-auto text-xs uppercase tracking-[0.2em] text-black/50 transition hover:text-black"
+                                >
+                                  {t.photos.resetCrop}
+                                </button>
+                              </div>
+                              <p className="text-[11px] text-black/50">
+                                {t.photos.cropHint}
+                              </p>
+                              <button
+                                onClick={() =>
+                                  setAdjustingIndex((prev) =>
+                                    prev === slotIndex ? null : slotIndex,
+                                  )
+                                }
+                                className="self-start text-xs uppercase tracking-[0.2em] text-black/50 transition hover:text-black"
+                              >
+                                {adjustingIndex === slotIndex
+                                  ? t.photos.hideFilters
+                                  : t.photos.showFilters}
+                              </button>
+                              {adjustingIndex === slotIndex ? (
+                                <PhotoAdjustPanel
+                                  slot={slot}
+                                  onAdjust={(updates) =>
+                                    updatePhotoAdjustments(slotIndex, updates)
+                                  }
+                                  onPreset={(adjustments) =>
+                                    setPhotoFields(slotIndex, { adjustments })
+                                  }
+                                  onFrameStyleChange={(frameStyle) =>
+                                    setPhotoFields(slotIndex, { frameStyle })
+                                  }
+                                  onCommit={history.endGroup}
+                                />
+                              ) : null}
+                            </div>
+                          ) : null}
                         </div>
-                        {uploading[slotIndex] ? (
-                          <p className="text-xs text-black/60">Uploading...</p>
-                        ) : slot ? (
-                          <p className="text-xs text-black/60">
-                            Uploaded: {slot.name}
-                          </p>
-                        ) : (
-                          <p className="text-xs text-black/50">
-                            Tip: Drop a file here to upload faster.
-                          </p>
-                        )}
-                      </div>
-                    );
-                  })}
+                      );
+                    })
+                  )}
                   <div className="flex flex-wrap gap-3">
                     <button
                       onClick={swapPhotos}
-                      disabled={photos.length < 2}
+                      disabled={!hasPhotos || photos.length < 2}
                       className="rounded-full border border-black/20 px-4 py-3 text-xs uppercase tracking-[0.3em] text-black/70 transition hover:border-black/40 disabled:cursor-not-allowed disabled:opacity-50"
                     >
-                      Swap first two photos
+                      {t.photos.swap}
                     </button>
                     <button
                       onClick={handleAddPhotoSlot}
-                      className="flex items-center gap-3 rounded-full border border-black/20 px-4 py-3 text-xs uppercase tracking-[0.3em] text-black/70 transition hover:border-black/40"
+                      disabled={!hasPhotos}
+                      className="flex items-center gap-3 rounded-full border border-black/20 px-4 py-3 text-xs uppercase tracking-[0.3em] text-black/70 transition hover:border-black/40 disabled:cursor-not-allowed disabled:opacity-50"
                     >
                       <span className="flex h-6 w-6 items-center justify-center rounded-full border border-black/30 text-base leading-none">
                         +
                       </span>
-                      Add photo
+                      {t.photos.add}
                     </button>
                   </div>
                 </div>
@@ -775,15 +1992,17 @@ export default function Home() {
               <div className="rounded-[28px] border border-black/10 bg-white/80 px-6 py-6 shadow-[0_24px_50px_rgba(0,0,0,0.08)]">
                 <div>
                   <p className="text-xs uppercase tracking-[0.3em] text-black/50">
-                    Step 3
+                    {format(t.common.step, { number: 3 })}
                   </p>
                   <h2 className="mt-2 text-lg font-semibold">
-                    Layout & theme
+                    {t.design.title}
                   </h2>
                 </div>
                 <div className="mt-6 grid gap-4">
-                  <div className="grid gap-3">
-                    {layouts.map((layout) => (
+                  <div className="grid gap-3 md:grid-cols-2">
+                    {layouts.map((layout) => {
+                      const copy = localize(t.layouts, layout);
+                      return (
                       <label
                         key={layout.id}
                         className={`flex cursor-pointer items-center justify-between rounded-2xl border px-4 py-3 text-sm transition ${
@@ -793,9 +2012,9 @@ export default function Home() {
                         }`}
                       >
                         <span>
-                          <span className="font-semibold">{layout.name}</span>
+                          <span className="font-semibold">{copy.name}</span>
                           <span className="mt-1 block text-xs text-black/60">
-                            {layout.description}
+                            {copy.description}
                           </span>
                         </span>
                         <input
@@ -803,196 +2022,712 @@ export default function Home() {
                           name="layout"
                           value={layout.id}
                           checked={layoutId === layout.id}
-                          onChange={() => setLayoutId(layout.id)}
+                          onChange={() => handleLayoutChange(layout.id)}
+                          className="h-4 w-4 accent-black"
+                        />
+                      </label>
+                      );
+                    })}
+                  </div>
+                  <div className="grid gap-3">
+                    <p className="text-xs uppercase tracking-[0.25em] text-black/60">
+                      {t.design.photoGrid}
+                    </p>
+                    <div className="grid gap-3 md:grid-cols-3">
+                      {gridFormats.map((grid) => (
+                        <button
+                          key={grid.id}
+                          onClick={() => handleGridFormatChange(grid.id)}
+                          aria-pressed={gridFormatId === grid.id}
+                          className={`rounded-2xl border px-3 py-3 text-start text-xs uppercase tracking-[0.2em] transition ${
+                            gridFormatId === grid.id
+                              ? "border-black/50 bg-black/5"
+                              : "border-black/10 bg-white"
+                          }`}
+                        >
+                          <span className="block text-[11px] text-black/70">
+                            {localize(t.gridFormats, grid).name}
+                          </span>
+                          <span className="mt-1 block text-[10px] normal-case tracking-normal text-black/50">
+                            {localize(t.gridFormats, grid).description}
+                          </span>
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="grid gap-3">
+                    <p className="text-xs uppercase tracking-[0.25em] text-black/60">
+                      {t.design.cardSize}
+                    </p>
+                    <div className="grid gap-3 md:grid-cols-3">
+                      {cardSizes.map((size) => (
+                        <button
+                          key={size.id}
+                          onClick={() => handleCardSizeChange(size.id)}
+                          aria-pressed={cardSizeId === size.id}
+                          className={`rounded-2xl border px-3 py-3 text-start text-xs uppercase tracking-[0.2em] transition ${
+                            cardSizeId === size.id
+                              ? "border-black/50 bg-black/5"
+                              : "border-black/10 bg-white"
+                          }`}
+                        >
+                          <span className="block text-[11px] text-black/70">
+                            {localize(t.cardSizes, size).name}
+                          </span>
+                          <span className="mt-1 block text-[10px] normal-case tracking-normal text-black/50">
+                            {localize(t.cardSizes, size).description}
+                          </span>
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="grid gap-3 md:grid-cols-3">
+                    {themes.map((item) => (
+                      <button
+                        key={item.id}
+                        onClick={() => selectTheme(item)}
+                        aria-pressed={themeId === item.id}
+                        className={`rounded-2xl border px-3 py-3 text-start text-xs uppercase tracking-[0.2em] transition ${
+                          themeId === item.id
+                            ? "border-black/50 bg-black/5"
+                            : "border-black/10 bg-white"
+                        }`}
+                      >
+                        <div
+                          className="h-12 w-full rounded-xl"
+                          style={{ background: item.background }}
+                        />
+                        <span className="mt-2 block text-[11px] text-black/70">
+                          {localize(t.themes, item).name}
+                        </span>
+                      </button>
+                    ))}
+                    {customThemes.map((item) => (
+                      <div
+                        key={item.id}
+                        className={`rounded-2xl border px-3 py-3 text-start text-xs uppercase tracking-[0.2em] transition ${
+                          themeId === item.id
+                            ? "border-black/50 bg-black/5"
+                            : "border-black/10 bg-white"
+                        }`}
+                      >
+                        <button
+                          onClick={() => selectTheme(item)}
+                          aria-pressed={themeId === item.id}
+                          className="block w-full text-start"
+                        >
+                          <div
+                            className="h-12 w-full rounded-xl"
+                            style={{
+                              background: buildTheme(item.id, item).background,
+                            }}
+                          />
+                          <span className="mt-2 block text-[11px] text-black/70">
+                            {item.name}
+                          </span>
+                        </button>
+                        <button
+                          onClick={() =>
+                            setThemeEditor({
+                              id: item.id,
+                              draft: { name: item.name, spec: item.spec },
+                            })
+                          }
+                          className="mt-1 text-[10px] uppercase tracking-[0.2em] text-black/50 transition hover:text-black"
+                        >
+                          {t.common.edit}
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                  <div className="flex flex-wrap items-center gap-3">
+                    <button
+                      onClick={() =>
+                        setThemeEditor({
+                          id: null,
+                          draft: {
+                            name: t.design.defaultThemeName,
+                            spec: createThemeSpec(),
+                          },
+                        })
+                      }
+                      className="rounded-full border border-black/20 px-4 py-3 text-xs uppercase tracking-[0.3em] text-black/70 transition hover:border-black/40"
+                    >
+                      {t.design.newTheme}
+                    </button>
+                    <label className="cursor-pointer text-xs uppercase tracking-[0.2em] text-black/50 transition hover:text-black">
+                      {t.design.importJson}
+                      <input
+                        type="file"
+                        accept="application/json,.json"
+                        onChange={(event) => {
+                          void handleImportTheme(
+                            event.target.files?.[0] ?? null,
+                          );
+                          event.target.value = "";
+                        }}
+                        className="hidden"
+                      />
+                    </label>
+                  </div>
+                  {themeEditor ? (
+                    <ThemeEditor
+                      draft={themeEditor.draft}
+                      isNew={!themeEditor.id}
+                      saving={savingTheme}
+                      uploadingImage={uploadingThemeImage}
+                      onChange={(draft) =>
+                        setThemeEditor((prev) =>
+                          prev ? { ...prev, draft } : prev,
+                        )
+                      }
+                      onSave={handleSaveTheme}
+                      onCancel={() => setThemeEditor(null)}
+                      onDelete={handleDeleteTheme}
+                      onExport={handleExportTheme}
+                      onUploadImage={handleUploadThemeImage}
+                    />
+                  ) : null}
+                </div>
+              </div>
+
+              <div className="rounded-[28px] border border-black/10 bg-white/80 px-6 py-6 shadow-[0_24px_50px_rgba(0,0,0,0.08)]">
+                <div>
+                  <p className="text-xs uppercase tracking-[0.3em] text-black/50">
+                    {format(t.common.step, { number: 4 })}
+                  </p>
+                  <h2 className="mt-2 text-lg font-semibold">
+                    {t.stickers.title}
+                  </h2>
+                  <p className="mt-2 text-xs text-black/60">
+                    {t.stickers.hint}
+                  </p>
+                </div>
+                <div className="mt-6 grid gap-4">
+                  <StickerPicker
+                    accent={theme.accent}
+                    disabled={stickers.length >= maxStickers}
+                    uploading={uploadingSticker}
+                    defaultText={cardCopy.stickerText}
+                    onAdd={handleAddSticker}
+                    onUpload={(file) => void handleUploadSticker(file)}
+                  />
+                  {stickers.length >= maxStickers ? (
+                    <p className="text-xs text-black/50">
+                      {format(t.stickers.limit, { count: maxStickers })}
+                    </p>
+                  ) : null}
+                  {stickers.map((sticker, index) => (
+                    <StickerControls
+                      key={sticker.id}
+                      sticker={sticker}
+                      index={index}
+                      count={stickers.length}
+                      onChange={(patch, group) =>
+                        updateSticker(sticker.id, patch, group)
+                      }
+                      onCommit={history.endGroup}
+                      onMove={(offset) => moveSticker(sticker.id, offset)}
+                      onDuplicate={() => handleDuplicateSticker(sticker.id)}
+                      onRemove={() => handleRemoveSticker(sticker.id)}
+                    />
+                  ))}
+                </div>
+              </div>
+
+              <div className="rounded-[28px] border border-black/10 bg-white/80 px-6 py-6 shadow-[0_24px_50px_rgba(0,0,0,0.08)]">
+                <div>
+                  <p className="text-xs uppercase tracking-[0.3em] text-black/50">
+                    {format(t.common.step, { number: 5 })}
+                  </p>
+                  <h2 className="mt-2 text-lg font-semibold">
+                    {t.typography.title}
+                  </h2>
+                  <p className="mt-2 text-xs text-black/60">
+                    {t.typography.hint}
+                  </p>
+                </div>
+                <div className="mt-6 grid gap-4">
+                  <div className="grid grid-cols-3 gap-2">
+                    {textRoles.map((role) => (
+                      <button
+                        key={role.id}
+                        onClick={() => setTextRole(role.id)}
+                        aria-pressed={textRole === role.id}
+                        className={`rounded-2xl border px-3 py-3 text-start text-xs uppercase tracking-[0.2em] transition ${
+                          textRole === role.id
+                            ? "border-black/50 bg-black/5"
+                            : "border-black/10 bg-white"
+                        }`}
+                      >
+                        {localize(t.textRoles, role).name}
+                      </button>
+                    ))}
+                  </div>
+                  <TypographyControls
+                    key={textRole}
+                    style={resolveTextStyle(
+                      textRole,
+                      design.typography?.[textRole],
+                    )}
+                    defaultColor={
+                      textRole === "signature" ? "#646464" : "#1b1b1b"
+                    }
+                    group={`typography-${textRole}`}
+                    onChange={(patch, group) =>
+                      updateTypography(textRole, patch, group)
+                    }
+                    onCommit={history.endGroup}
+                    onReset={() => resetTypography(textRole)}
+                  />
+                </div>
+              </div>
+
+              <div className="rounded-[28px] border border-black/10 bg-white/90 px-6 py-5 shadow-[0_24px_50px_rgba(0,0,0,0.08)]">
+                <button
+                  onClick={handleDownload}
+                  disabled={downloading}
+                  className="w-full rounded-full bg-black px-6 py-4 text-xs uppercase tracking-[0.35em] text-white transition hover:bg-black/80 disabled:cursor-not-allowed disabled:bg-black/50"
+                >
+                  {downloading ? t.download.preparing : t.download.download}
+                </button>
+                <div className="mt-4 grid gap-3 rounded-2xl border border-black/10 bg-white/70 px-4 py-4">
+                  <p className="text-xs uppercase tracking-[0.25em] text-black/60">
+                    {t.download.printPdf}
+                  </p>
+                  <div className="grid gap-2 md:grid-cols-2">
+                    {printFormats.map((item) => (
+                      <button
+                        key={item.id}
+                        onClick={() => setPrintFormatId(item.id)}
+                        aria-pressed={printFormatId === item.id}
+                        className={`rounded-2xl border px-3 py-2 text-start text-xs uppercase tracking-[0.2em] transition ${
+                          printFormatId === item.id
+                            ? "border-black/50 bg-black/5"
+                            : "border-black/10 bg-white"
+                        }`}
+                      >
+                        <span className="block text-[11px] text-black/70">
+                          {localize(t.printFormats, item).name}
+                        </span>
+                        <span className="mt-1 block text-[10px] normal-case tracking-normal text-black/50">
+                          {localize(t.printFormats, item).description}
+                        </span>
+                      </button>
+                    ))}
+                  </div>
+                  <div className="flex flex-wrap items-center gap-3 text-xs text-black/60">
+                    <label className="flex items-center gap-2">
+                      {t.download.dpi}
+                      <select
+                        value={printDpi}
+                        onChange={(event) =>
+                          setPrintDpi(Number(event.target.value))
+                        }
+                        className="rounded-full border border-black/20 bg-white px-3 py-1 outline-none"
+                      >
+                        {printDpiOptions.map((dpi) => (
+                          <option key={dpi} value={dpi}>
+                            {dpi}
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+                    <label className="flex items-center gap-2">
+                      {t.download.bleed}
+                      <select
+                        value={bleedMm}
+                        onChange={(event) =>
+                          setBleedMm(Number(event.target.value))
+                        }
+                        className="rounded-full border border-black/20 bg-white px-3 py-1 outline-none"
+                      >
+                        {bleedOptionsMm.map((bleed) => (
+                          <option key={bleed} value={bleed}>
+                            {format(t.download.millimetres, { value: bleed })}
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+                    <label className="flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        checked={cropMarks}
+                        onChange={(event) => setCropMarks(event.target.checked)}
+                        className="h-4 w-4 accent-black"
+                      />
+                      {t.download.cropMarks}
+                    </label>
+                  </div>
+                  <button
+                    onClick={handleDownloadPdf}
+                    disabled={downloading}
+                    className="rounded-full border border-black/20 px-4 py-3 text-xs uppercase tracking-[0.3em] text-black/70 transition hover:border-black/40 disabled:cursor-not-allowed disabled:opacity-50"
+                  >
+                    {t.download.downloadPdf}
+                  </button>
+                </div>
+                <div className="mt-4 grid gap-3 rounded-2xl border border-black/10 bg-white/70 px-4 py-4">
+                  <div>
+                    <p className="text-xs uppercase tracking-[0.25em] text-black/60">
+                      {t.animation.title}
+                    </p>
+                    <p className="mt-1 text-xs text-black/50">
+                      {t.animation.hint}
+                    </p>
+                  </div>
+                  <p className="text-xs text-black/60">
+                    {format(t.animation.settings, {
+                      seconds: cardSize.animation.durationMs / 1000,
+                      fps: cardSize.animation.fps,
+                      plays: animationPlays,
+                    })}
+                  </p>
+                  <div className="grid gap-2 text-xs text-black/60 md:grid-cols-2">
+                    {animationEffectOptions.map((effect) => (
+                      <label
+                        key={effect.id}
+                        className="flex items-center gap-2"
+                      >
+                        <input
+                          type="checkbox"
+                          checked={animationEffects[effect.id]}
+                          onChange={() => toggleAnimationEffect(effect.id)}
                           className="h-4 w-4 accent-black"
                         />
+                        {localize(t.animationEffects, effect).name}
                       </label>
                     ))}
                   </div>
-                  <div className="grid gap-3">
+                  <div className="grid gap-2 md:grid-cols-2">
+                    <button
+                      onClick={() => handleDownloadAnimation("gif")}
+                      disabled={
+                        Boolean(renderingAnimation) || capturingAnimation
+                      }
+                      className="rounded-full border border-black/20 px-4 py-3 text-xs uppercase tracking-[0.3em] text-black/70 transition hover:border-black/40 disabled:cursor-not-allowed disabled:opacity-50"
+                    >
+                      {renderingAnimation === "gif"
+                        ? t.animation.rendering
+                        : t.animation.downloadGif}
+                    </button>
+                    <button
+                      onClick={() => handleDownloadAnimation("webm")}
+                      disabled={
+                        Boolean(renderingAnimation) || capturingAnimation
+                      }
+                      className="rounded-full border border-black/20 px-4 py-3 text-xs uppercase tracking-[0.3em] text-black/70 transition hover:border-black/40 disabled:cursor-not-allowed disabled:opacity-50"
+                    >
+                      {renderingAnimation === "webm"
+                        ? t.animation.rendering
+                        : t.animation.downloadWebm}
+                    </button>
+                  </div>
+                </div>
+                <div className="mt-4 grid gap-3 rounded-2xl border border-black/10 bg-white/70 px-4 py-4">
+                  <div>
                     <p className="text-xs uppercase tracking-[0.25em] text-black/60">
-                      Photo grid
+                      {t.batch.title}
                     </p>
-                    <div className="grid gap-3 md:grid-cols-3">
-                      {gridFormats.map((format) => (
-                        <button
-                          key={format.id}
-                          onClick={() => setGridFormatId(format.id)}
-                          className={`rounded-2xl border px-3 py-3 text-left text-xs uppercase tracking-[0.2em] transition ${
-                            gridFormatId === format.id
-                              ? "border-black/50 bg-black/5"
-                              : "border-black/10 bg-white"
-                          }`}
-                        >
-                          <span className="block text-[11px] text-black/70">
-                            {format.name}
-                          </span>
-                          <span className="mt-1 block text-[10px] normal-case tracking-normal text-black/50">
-                            {format.description}
-                          </span>
-                        </button>
-                      ))}
-                    </div>
+                    <p className="mt-1 text-xs text-black/50">{t.batch.hint}</p>
                   </div>
-                  <div className="grid gap-3">
-                    <p className="text-xs uppercase tracking-[0.25em] text-black/60">
-                      Card size
-                    </p>
-                    <div className="grid gap-3 md:grid-cols-3">
-                      {cardSizes.map((size) => (
+                  <div className="flex flex-wrap items-center gap-3">
+                    <label className="cursor-pointer rounded-full border border-black/20 px-4 py-2 text-xs uppercase tracking-[0.2em] text-black/70 transition hover:border-black/40">
+                      {t.batch.import}
+                      <input
+                        type="file"
+                        accept=".csv,.json,text/csv,application/json"
+                        className="sr-only"
+                        onChange={(event) => {
+                          handleImportRecipients(
+                            event.target.files?.[0] ?? null,
+                          );
+                          event.target.value = "";
+                        }}
+                      />
+                    </label>
+                    {batchRecipients.length ? (
+                      <>
+                        <span className="text-xs text-black/60">
+                          {format(t.batch.count, {
+                            count: batchRecipients.length,
+                          })}
+                        </span>
                         <button
-                          key={size.id}
-                          onClick={() => setCardSizeId(size.id)}
-                          className={`rounded-2xl border px-3 py-3 text-left text-xs uppercase tracking-[0.2em] transition ${
-                            cardSizeId === size.id
-                              ? "border-black/50 bg-black/5"
-                              : "border-black/10 bg-white"
-                          }`}
+                          onClick={clearBatch}
+                          disabled={downloading}
+                          className="text-xs uppercase tracking-[0.2em] text-black/50 transition hover:text-black disabled:opacity-40"
                         >
-                          <span className="block text-[11px] text-black/70">
-                            {size.name}
-                          </span>
-                          <span className="mt-1 block text-[10px] normal-case tracking-normal text-black/50">
-                            {size.description}
-                          </span>
+                          {t.batch.clear}
                         </button>
-                      ))}
-                    </div>
+                      </>
+                    ) : null}
                   </div>
-                  <div className="grid gap-3 md:grid-cols-3">
-                    {themes.map((item) => (
+                  {batchRecipients.length ? (
+                    <>
+                      <ul className="grid max-h-48 gap-1 overflow-y-auto text-xs">
+                        {batchRecipients.map((row, index) => (
+                          <li
+                            key={`${row.recipient}-${index}`}
+                            className="flex items-center justify-between gap-3 rounded-xl border border-black/10 bg-white px-3 py-2"
+                          >
+                            <span className="truncate">
+                              {row.recipient}
+                              {row.sender ? (
+                                <span className="text-black/50">
+                                  {" "}
+                                  · {row.sender}
+                                </span>
+                              ) : null}
+                            </span>
+                            <button
+                              onClick={() => previewBatchCard(index)}
+                              aria-pressed={
+                                previewMode === "batch" && batchIndex === index
+                              }
+                              className="text-[11px] uppercase tracking-[0.2em] text-black/50 transition hover:text-black"
+                            >
+                              {t.batch.preview}
+                            </button>
+                          </li>
+                        ))}
+                      </ul>
                       <button
-                        key={item.id}
-                        onClick={() => setThemeId(item.id)}
-                        className={`rounded-2xl border px-3 py-3 text-left text-xs uppercase tracking-[0.2em] transition ${
-                          themeId === item.id
-                            ? "border-black/50 bg-black/5"
-                            : "border-black/10 bg-white"
-                        }`}
+                        onClick={handleDownloadBatch}
+                        disabled={downloading}
+                        className="rounded-full border border-black/20 px-4 py-3 text-xs uppercase tracking-[0.3em] text-black/70 transition hover:border-black/40 disabled:cursor-not-allowed disabled:opacity-50"
                       >
-                        <div
-                          className="h-12 w-full rounded-xl"
-                          style={{ background: item.background }}
-                        />
-                        <span className="mt-2 block text-[11px] text-black/70">
-                          {item.name}
-                        </span>
+                        {batchProgress
+                          ? format(t.batch.rendering, {
+                              index: batchProgress,
+                              count: batchDesigns.length,
+                            })
+                          : t.batch.downloadZip}
                       </button>
+                    </>
+                  ) : null}
+                </div>
+                <div className="mt-4 flex flex-wrap items-center gap-3">
+                  <select
+                    value={shareExpiryId}
+                    onChange={(event) => setShareExpiryId(event.target.value)}
+                    className="rounded-full border border-black/20 bg-white px-4 py-3 text-xs uppercase tracking-[0.2em] text-black/70 outline-none"
+                  >
+                    {shareExpiryOptions.map((option) => (
+                      <option key={option.id} value={option.id}>
+                        {localize(t.shareExpiry, option).name}
+                      </option>
                     ))}
-                  </div>
+                  </select>
+                  <button
+                    onClick={handleShare}
+                    disabled={sharing}
+                    className="flex-1 rounded-full border border-black/20 px-4 py-3 text-xs uppercase tracking-[0.3em] text-black/70 transition hover:border-black/40 disabled:cursor-not-allowed disabled:opacity-50"
+                  >
+                    {sharing ? t.download.publishing : t.download.share}
+                  </button>
                 </div>
+                {shares.length ? (
+                  <div className="mt-4 grid gap-2">
+                    <p className="text-xs uppercase tracking-[0.25em] text-black/60">
+                      {t.download.activeLinks}
+                    </p>
+                    {shares.map((share) => (
+                      <div
+                        key={share.slug}
+                        className="grid gap-2 rounded-2xl border border-black/10 bg-white px-4 py-3 text-xs"
+                      >
+                        <a
+                          href={shareUrl(share.slug)}
+                          target="_blank"
+                          rel="noreferrer"
+                          className="break-all text-black/80 underline"
+                        >
+                          {shareUrl(share.slug)}
+                        </a>
+                        <span className="text-black/50">
+                          {share.expiresAt
+                            ? format(t.download.expires, {
+                                date: formatDate(uiLocale.id, share.expiresAt),
+                              })
+                            : t.download.neverExpires}
+                        </span>
+                        <span className="flex gap-3">
+                          <button
+                            onClick={() => handleCopyShare(share)}
+                            className="text-xs uppercase tracking-[0.2em] text-black/50 transition hover:text-black"
+                          >
+                            {copiedShareSlug === share.slug
+                              ? t.download.copied
+                              : t.download.copyLink}
+                          </button>
+                          <button
+                            onClick={() => handleRevokeShare(share)}
+                            className="text-xs uppercase tracking-[0.2em] text-black/50 transition hover:text-black"
+                          >
+                            {t.download.revoke}
+                          </button>
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                ) : null}
+                {error ? (
+                  <p className="mt-3 text-xs text-red-600">{error}</p>
+                ) : null}
               </div>
 
               <div className="rounded-[28px] border border-black/10 bg-white/80 px-6 py-6 shadow-[0_24px_50px_rgba(0,0,0,0.08)]">
-                <div>
-                  <p className="text-xs uppercase tracking-[0.3em] text-black/50">
-                    Step 4
-                  </p>
-                  <h2 className="mt-2 text-lg font-semibold">
-                    Custom text stickers
-                  </h2>
-                  <p className="mt-2 text-xs text-black/60">
-                    Add extra text and drag it anywhere on the card preview.
-                  </p>
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <p className="text-xs uppercase tracking-[0.3em] text-black/50">
+                      {t.drafts.label}
+                    </p>
+                    <h2 className="mt-2 text-lg font-semibold">
+                      {t.drafts.title}
+                    </h2>
+                    <p className="mt-2 text-xs text-black/60">
+                      {t.drafts.hint}
+                    </p>
+                  </div>
+                  <button
+                    onClick={handleNewCard}
+                    className="text-xs uppercase tracking-[0.2em] text-black/50 transition hover:text-black"
+                  >
+                    {t.drafts.newCard}
+                  </button>
                 </div>
                 <div className="mt-6 grid gap-4">
-                  {stickers.map((sticker, index) => (
-                    <div
-                      key={sticker.id}
-                      className="rounded-2xl border border-black/10 bg-white/80 px-4 py-4"
+                  <div className="flex flex-wrap gap-3">
+                    <button
+                      onClick={() => handleSaveCard()}
+                      disabled={savingCard}
+                      className="rounded-full border border-black/20 px-4 py-3 text-xs uppercase tracking-[0.3em] text-black/70 transition hover:border-black/40 disabled:cursor-not-allowed disabled:opacity-50"
                     >
-                      <div className="flex items-center justify-between">
-                        <p className="text-xs uppercase tracking-[0.25em] text-black/60">
-                          Sticker {index + 1}
-                        </p>
-                        <button
-                          onClick={() => handleRemoveSticker(sticker.id)}
-                          className="text-xs uppercase tracking-[0.2em] text-black/50 transition hover:text-black"
-                        >
-                          Remove
-                        </button>
-                      </div>
-                      <div className="mt-3 grid gap-3">
+                      {savingCard
+                        ? t.common.saving
+                        : cardId
+                          ? t.drafts.saveChanges
+                          : t.drafts.saveDraft}
+                    </button>
+                    {cardId ? (
+                      <button
+                        onClick={() => handleSaveCard(true)}
+                        disabled={savingCard}
+                        className="rounded-full border border-black/20 px-4 py-3 text-xs uppercase tracking-[0.3em] text-black/70 transition hover:border-black/40 disabled:cursor-not-allowed disabled:opacity-50"
+                      >
+                        {t.drafts.saveAsNew}
+                      </button>
+                    ) : null}
+                  </div>
+                  <div className="grid gap-3 rounded-2xl border border-black/10 bg-white/70 px-4 py-4">
+                    <div>
+                      <p className="text-xs uppercase tracking-[0.25em] text-black/60">
+                        {t.designFile.title}
+                      </p>
+                      <p className="mt-1 text-xs text-black/50">
+                        {t.designFile.hint}
+                      </p>
+                    </div>
+                    <div className="flex flex-wrap gap-x-4 gap-y-2">
+                      <button
+                        onClick={() => handleExportDesign(false)}
+                        disabled={Boolean(designTransfer)}
+                        className="text-xs uppercase tracking-[0.2em] text-black/50 transition hover:text-black disabled:cursor-not-allowed disabled:opacity-50"
+                      >
+                        {t.designFile.exportJson}
+                      </button>
+                      <button
+                        onClick={() => handleExportDesign(true)}
+                        disabled={Boolean(designTransfer)}
+                        className="text-xs uppercase tracking-[0.2em] text-black/50 transition hover:text-black disabled:cursor-not-allowed disabled:opacity-50"
+                      >
+                        {t.designFile.exportZip}
+                      </button>
+                      <label className="cursor-pointer text-xs uppercase tracking-[0.2em] text-black/50 transition hover:text-black">
+                        {t.designFile.import}
                         <input
-                          value={sticker.text}
-                          onChange={(event) =>
-                            updateSticker(sticker.id, {
-                              text: event.target.value,
-                            })
-                          }
-                          placeholder="Write your custom text"
-                          className="rounded-2xl border border-black/10 bg-white px-4 py-2 text-sm outline-none transition focus:border-black/40"
+                          type="file"
+                          accept="application/json,application/zip,.json,.zip"
+                          disabled={Boolean(designTransfer)}
+                          onChange={(event) => {
+                            void handleImportDesign(
+                              event.target.files?.[0] ?? null,
+                            );
+                            event.target.value = "";
+                          }}
+                          className="hidden"
                         />
-                        <div className="flex flex-wrap items-center gap-3 text-xs">
-                          <label className="text-black/60">Size</label>
-                          <input
-                            type="range"
-                            min={12}
-                            max={36}
-                            value={sticker.size}
-                            onChange={(event) =>
-                              updateSticker(sticker.id, {
-                                size: Number(event.target.value),
-                              })
-                            }
-                            className="w-32 accent-black"
-                          />
-                          <span className="text-black/60">
-                            {sticker.size}px
+                      </label>
+                    </div>
+                    {designTransfer ? (
+                      <p className="text-xs text-black/50" aria-live="polite">
+                        {designTransfer.total
+                          ? format(
+                              designTransfer.kind === "export"
+                                ? t.designFile.packing
+                                : t.designFile.uploading,
+                              designTransfer,
+                            )
+                          : t.designFile.working}
+                      </p>
+                    ) : null}
+                  </div>
+                  <LiveSession
+                    cardId={cardId}
+                    status={collab.status}
+                    peers={collab.peers}
+                    name={liveName}
+                    copied={liveCopied}
+                    onNameChange={setLiveName}
+                    onStart={() => {
+                      setLiveCopied(false);
+                      setLiveRoomId(cardId);
+                    }}
+                    onLeave={() => setLiveRoomId(null)}
+                    onCopyLink={handleCopyLiveLink}
+                  />
+                  {savedCards.length === 0 ? (
+                    <p className="text-xs text-black/50">
+                      {t.drafts.empty}
+                    </p>
+                  ) : (
+                    savedCards.map((card) => (
+                      <div
+                        key={card.id}
+                        className={`flex items-center justify-between gap-3 rounded-2xl border px-4 py-3 text-sm transition ${
+                          cardId === card.id
+                            ? "border-black/40 bg-black/5"
+                            : "border-black/10 bg-white"
+                        }`}
+                      >
+                        <span>
+                          <span className="font-semibold">{card.title}</span>
+                          <span className="mt-1 block text-xs text-black/60">
+                            {format(t.drafts.updated, {
+                              date: formatDate(uiLocale.id, card.updatedAt),
+                            })}
                           </span>
-                        </div>
-                        <div className="flex items-center gap-3 text-xs">
-                          <span className="text-black/60">Tone</span>
+                        </span>
+                        <span className="flex gap-3">
                           <button
-                            onClick={() =>
-                              updateSticker(sticker.id, { tone: "accent" })
-                            }
-                            className={`rounded-full border px-3 py-1 uppercase tracking-[0.2em] ${
-                              sticker.tone === "accent"
-                                ? "border-black/40 bg-black/5"
-                                : "border-black/10 bg-white"
-                            }`}
+                            onClick={() => handleOpenCard(card.id)}
+                            className="text-xs uppercase tracking-[0.2em] text-black/50 transition hover:text-black"
                           >
-                            Accent
+                            {t.common.open}
                           </button>
                           <button
-                            onClick={() =>
-                              updateSticker(sticker.id, { tone: "ink" })
-                            }
-                            className={`rounded-full border px-3 py-1 uppercase tracking-[0.2em] ${
-                              sticker.tone === "ink"
-                                ? "border-black/40 bg-black/5"
-                                : "border-black/10 bg-white"
-                            }`}
+                            onClick={() => handleDeleteCard(card.id)}
+                            className="text-xs uppercase tracking-[0.2em] text-black/50 transition hover:text-black"
                           >
-                            Ink
+                            {t.common.delete}
                           </button>
-                        </div>
+                        </span>
                       </div>
-                    </div>
-                  ))}
-                  <button
-                    onClick={handleAddSticker}
-                    disabled={stickers.length >= 3}
-                    className="rounded-full border border-black/20 px-4 py-3 text-xs uppercase tracking-[0.3em] text-black/70 transition hover:border-black/40 disabled:cursor-not-allowed disabled:opacity-50"
-                  >
-                    Add text sticker
-                  </button>
+                    ))
+                  )}
                 </div>
               </div>
-
-              <div className="rounded-[28px] border border-black/10 bg-white/90 px-6 py-5 shadow-[0_24px_50px_rgba(0,0,0,0.08)]">
-                <button
-                  onClick={handleDownload}
-                  disabled={downloading}
-                  className="w-full rounded-full bg-black px-6 py-4 text-xs uppercase tracking-[0.35em] text-white transition hover:bg-black/80 disabled:cursor-not-allowed disabled:bg-black/50"
-                >
-                  {downloading ? "Preparing download..." : "Download card"}
-                </button>
-                {error ? (
-                  <p className="mt-3 text-xs text-red-600">{error}</p>
-                ) : null}
-              </div>
             </section>
 
             <section
@@ -1000,169 +2735,200 @@ export default function Home() {
               style={previewWidthStyle}
             >
               <div className="rounded-[32px] border border-black/10 bg-white/60 p-5 shadow-[0_24px_50px_rgba(0,0,0,0.08)]">
-                <div className="text-xs uppercase tracking-[0.3em] text-black/50">
-                  Preview
+                <div className="flex items-center justify-between gap-3">
+                  <div className="text-xs uppercase tracking-[0.3em] text-black/50">
+                    {t.preview.label}
+                  </div>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => setShowShortcuts(true)}
+                      aria-haspopup="dialog"
+                      aria-keyshortcuts="?"
+                      className="rounded-full border border-black/20 px-3 py-1 text-[11px] uppercase tracking-[0.2em] text-black/70 transition hover:border-black/40"
+                    >
+                      {t.shortcuts.open}
+                    </button>
+                    {folded ? (
+                      <button
+                        onClick={() =>
+                          setPreviewMode((prev) =>
+                            prev === "page" ? "3d" : "page",
+                          )
+                        }
+                        className="rounded-full border border-black/20 px-3 py-1 text-[11px] uppercase tracking-[0.2em] text-black/70 transition hover:border-black/40"
+                      >
+                        {previewMode === "3d" ? t.preview.editPage : t.preview.view3d}
+                      </button>
+                    ) : null}
+                    <button
+                      onClick={() =>
+                        previewMode === "animate"
+                          ? setPreviewMode("page")
+                          : handleAnimationPreview()
+                      }
+                      aria-pressed={previewMode === "animate"}
+                      disabled={capturingAnimation}
+                      className="rounded-full border border-black/20 px-3 py-1 text-[11px] uppercase tracking-[0.2em] text-black/70 transition hover:border-black/40 disabled:cursor-not-allowed disabled:opacity-40"
+                    >
+                      {t.animation.preview}
+                    </button>
+                    <button
+                      onClick={history.undo}
+                      disabled={!history.canUndo}
+                      title={t.preview.undoTitle}
+                      aria-keyshortcuts="Control+Z Meta+Z"
+                      className="rounded-full border border-black/20 px-3 py-1 text-[11px] uppercase tracking-[0.2em] text-black/70 transition hover:border-black/40 disabled:cursor-not-allowed disabled:opacity-40"
+                    >
+                      {t.preview.undo}
+                    </button>
+                    <button
+                      onClick={history.redo}
+                      disabled={!history.canRedo}
+                      title={t.preview.redoTitle}
+                      aria-keyshortcuts="Control+Shift+Z Meta+Shift+Z"
+                      className="rounded-full border border-black/20 px-3 py-1 text-[11px] uppercase tracking-[0.2em] text-black/70 transition hover:border-black/40 disabled:cursor-not-allowed disabled:opacity-40"
+                    >
+                      {t.preview.redo}
+                    </button>
+                  </div>
                 </div>
                 <div className="mx-auto w-full">
-                  <div
-                    ref={cardRef}
-                    className="relative mt-4 aspect-[3/2] w-full overflow-hidden rounded-[28px] border p-5"
-                    style={{
-                      background: theme.background,
-                      boxShadow: theme.shadow,
-                      borderColor: "rgba(255,255,255,0.7)",
-                      transform: exporting ? "translateZ(0)" : undefined,
-                      ...cardHeightStyle,
-                    }}
-                  >
-                    <div
-                      className="absolute -right-10 -top-10 h-36 w-36 rounded-full blur-2xl"
-                      style={{ backgroundColor: "rgba(255,255,255,0.3)" }}
-                    />
-                    <div
-                      className="absolute -bottom-12 left-10 h-32 w-32 rounded-full blur-2xl"
-                      style={{ backgroundColor: "rgba(255,255,255,0.3)" }}
-                    />
-                    <div className="relative z-10 grid h-full grid-cols-5 gap-4">
-                    {layoutId === "duo" ? (
-                      <>
-                        <div
-                          className="col-span-3 grid h-full gap-4"
-                          style={photoGridStyle}
-                        >
-                          {photos.map((slot, index) => (
-                            <DraggableImage
-                              key={`preview-photo-${index}`}
-                              slot={slot}
-                              placeholder={`Photo ${index + 1}`}
-                              onPositionChange={(pos) =>
-                                updatePhotoPosition(index, pos)
-                              }
-                              exporting={exporting}
-                            />
-                          ))}
-                        </div>
-                        <div className="col-span-2 flex flex-col justify-between">
-                          <div>
-                            <p
-                              className="text-xs uppercase tracking-[0.45em]"
-                                style={{ color: theme.accent }}
-                              >
-                                Birthday
-                              </p>
-                              <h2 className="mt-3 text-2xl font-semibold leading-tight">
-                                Happy Birthday
-                                <br />
-                                {recipient || "Your Friend"}
-                              </h2>
-                              <div
-                                className="mt-4 rounded-2xl border border-dashed px-3 py-3 text-xs leading-relaxed"
-                                style={{ borderColor: theme.accent }}
-                              >
-                                {message || "Type your birthday message here."}
-                              </div>
-                            </div>
-                            <div
-                              className="text-xs uppercase tracking-[0.3em]"
-                              style={{ color: "rgba(20,20,20,0.6)" }}
-                            >
-                              From {sender || "You"}
-                            </div>
-                          </div>
-                        </>
-                    ) : (
-                      <>
-                        <div
-                          className="col-span-3 grid h-full gap-4"
-                          style={{ gridTemplateRows: focusGridRows }}
-                        >
-                          <DraggableImage
-                            slot={photos[0] ?? null}
-                            placeholder="Hero Photo"
-                            onPositionChange={(pos) =>
-                              updatePhotoPosition(0, pos)
-                            }
-                            className="h-full"
-                            exporting={exporting}
-                          />
-                          {secondaryPhotos.length > 0 ? (
-                            <div
-                              className="grid h-full gap-3"
-                              style={secondaryGridStyle}
-                            >
-                              {secondaryPhotos.map((slot, index) => (
-                                <DraggableImage
-                                  key={`secondary-photo-${index}`}
-                                  slot={slot}
-                                  placeholder={`Photo ${index + 2}`}
-                                  onPositionChange={(pos) =>
-                                    updatePhotoPosition(index + 1, pos)
-                                  }
-                                  exporting={exporting}
-                                />
-                              ))}
-                            </div>
-                          ) : null}
+                  {previewMode === "batch" && batchDesigns[batchIndex] ? (
+                    <div className="grid gap-3">
+                      <div className="flex flex-wrap items-center justify-between gap-3 text-xs">
+                        <span className="text-black/60">
+                          {format(t.batch.previewing, {
+                            name: batchRecipients[batchIndex].recipient,
+                            index: batchIndex + 1,
+                            count: batchDesigns.length,
+                          })}
+                        </span>
+                        <div className="flex gap-3">
+                          <button
+                            onClick={() => setBatchIndex((prev) => prev - 1)}
+                            disabled={batchIndex === 0}
+                            className="uppercase tracking-[0.2em] text-black/50 transition hover:text-black disabled:opacity-40"
+                          >
+                            {t.batch.previous}
+                          </button>
+                          <button
+                            onClick={() => setBatchIndex((prev) => prev + 1)}
+                            disabled={batchIndex === batchDesigns.length - 1}
+                            className="uppercase tracking-[0.2em] text-black/50 transition hover:text-black disabled:opacity-40"
+                          >
+                            {t.batch.next}
+                          </button>
+                          <button
+                            onClick={() => setPreviewMode("page")}
+                            className="uppercase tracking-[0.2em] text-black/50 transition hover:text-black"
+                          >
+                            {t.batch.backToEditor}
+                          </button>
                         </div>
-                        <div className="col-span-2 flex flex-col justify-between">
-                          <div>
-                            <p
-                              className="text-xs uppercase tracking-[0.45em]"
-                                style={{ color: theme.accent }}
-                              >
-                                Celebrate
-                              </p>
-                              <h2 className="mt-3 text-2xl font-semibold leading-tight">
-                                {recipient || "Birthday Star"}
-                              </h2>
-                              <div
-                                className="mt-4 rounded-2xl border border-dashed px-3 py-3 text-xs leading-relaxed"
-                                style={{ borderColor: theme.accent }}
-                              >
-                                {message || "Type your birthday message here."}
-                              </div>
-                            </div>
-                            <div
-                              className="text-xs uppercase tracking-[0.3em]"
-                              style={{ color: "rgba(20,20,20,0.6)" }}
-                            >
-                              From {sender || "You"}
-                            </div>
-                          </div>
-                        </>
-                      )}
+                      </div>
+                      <CardPreview
+                        design={batchDesigns[batchIndex]}
+                        pageId="front"
+                      />
                     </div>
-                    {stickers.map((sticker) => (
-                      <DraggableText
-                        key={sticker.id}
-                        sticker={sticker}
-                        containerRef={cardRef}
-                        color={
-                          sticker.tone === "accent"
-                            ? theme.accent
-                            : "rgba(20,20,20,0.85)"
-                        }
-                        onPositionChange={(pos) =>
-                          updateSticker(sticker.id, { position: pos })
+                  ) : previewMode === "animate" ? (
+                    animationLayers ? (
+                      <AnimationPreview
+                        layers={animationLayers}
+                        effects={animationEffects}
+                        settings={cardSize.animation}
+                        label={t.animation.title}
+                        onReplay={handleAnimationPreview}
+                      />
+                    ) : (
+                      <p
+                        role="status"
+                        className="py-16 text-center text-xs uppercase tracking-[0.2em] text-black/50"
+                      >
+                        {t.animation.preparing}
+                      </p>
+                    )
+                  ) : folded && previewMode === "3d" ? (
+                    <FoldingCardPreview
+                      design={previewDesign}
+                      width={cardSize.previewMaxWidth}
+                    />
+                  ) : (
+                    <div
+                      onPointerMove={handlePreviewPointer}
+                      onPointerLeave={() => collab.sendCursor(null)}
+                    >
+                      <CardPreview
+                        design={previewDesign}
+                        pageId={activePageId}
+                        cardRef={cardRef}
+                        exporting={exporting}
+                        onPhotoPositionChange={updatePhotoPosition}
+                        onPhotoCropChange={updatePhotoCrop}
+                        onFrameChange={updateFrame}
+                        onStickerChange={(id, transform) =>
+                          updateSticker(
+                            id,
+                            transform,
+                            `sticker-transform-${id}`,
+                          )
                         }
+                        onDragEnd={history.endGroup}
+                        peers={collab.peers}
                       />
-                    ))}
-                  </div>
+                    </div>
+                  )}
                 </div>
                 <div className="mt-4 text-xs text-black/60">
-                  Drag inside a photo to reposition. Use Swap to switch photo
-                  placement.
+                  {t.preview.hint}
                 </div>
               </div>
 
               <div className="rounded-[28px] border border-black/10 bg-white/80 px-6 py-5 text-xs text-black/70 shadow-[0_24px_50px_rgba(0,0,0,0.08)]">
-                Tip: For best quality, use a photo wider than 1200px. The download
-                button exports a PNG that matches the preview ratio.
+                {t.preview.tip}
               </div>
             </section>
           </div>
         </div>
       </div>
+      {showShortcuts ? (
+        <ShortcutMap onClose={() => setShowShortcuts(false)} />
+      ) : null}
+      {exporting && (batchExportDesign || !exportsLivePreview) ? (
+        <div
+          aria-hidden
+          className="pointer-events-none fixed left-[-10000px] top-0 [&>div]:mt-0"
+          style={{ width: `${cardSize.previewMaxWidth}px` }}
+        >
+          {exportPages.map((page) => (
+            <CardPreview
+              key={page.id}
+              design={exportDesign}
+              pageId={page.id}
+              cardRef={exportRefs[page.id]}
+              exporting
+            />
+          ))}
+        </div>
+      ) : null}
+      {capturingAnimation ? (
+        <div
+          aria-hidden
+          className="pointer-events-none fixed left-[-10000px] top-0 [&>div]:mt-0"
+          style={{ width: `${cardSize.previewMaxWidth}px` }}
+        >
+          {(["base", "photos", "message"] as const).map((layer) => (
+            <CardPreview
+              key={layer}
+              design={design}
+              pageId="front"
+              cardRef={animationRefs[layer]}
+              exporting
+              animationLayer={layer}
+            />
+          ))}
+        </div>
+      ) : null}
     </div>
   );
 }
@@ -0,0 +1,42 @@
+import { notFound } from "next/navigation";
+import CardPreview from "@/components/CardPreview";
+import { apiUrl } from "@/lib/api";
+import type { CardDesign, CardPageId } from "@/lib/cards";
+import { cardSizes } from "@/lib/presets";
+
+type RenderPageProps = {
+  params: Promise<{ id: string }>;
+};
+
+// Bare card used by the server's headless renderer. It draws the same
+// CardPreview as the editor in export mode, with nothing around it.
+export default async function RenderPage({ params }: RenderPageProps) {
+  const { id } = await params;
+  const response = await fetch(
+    `${apiUrl}/render/jobs/${encodeURIComponent(id)}`,
+    { cache: "no-store" },
+  ).catch(() => null);
+  if (!response?.ok) {
+    notFound();
+  }
+  const { design, pageId } = (await response.json()) as {
+    design: CardDesign;
+    pageId: CardPageId;
+  };
+  const cardSize =
+    cardSizes.find((item) => item.id === design.cardSizeId) ?? cardSizes[0];
+
+  return (
+    <>
+      <style>{"body { background: transparent; }"}</style>
+      <div
+        data-render-card
+        data-download-scale={cardSize.downloadScale}
+        className="[&>div]:mt-0"
+        style={{ width: `${cardSize.previewMaxWidth}px` }}
+      >
+        <CardPreview design={design} pageId={pageId} exporting />
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,277 @@
+"use client";
+
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { useEffect, useMemo, useState } from "react";
+import CardPreview from "@/components/CardPreview";
+import { useI18n } from "@/components/I18nProvider";
+import type { CardPageId } from "@/lib/cards";
+import { errorMessage } from "@/lib/errors";
+import { format } from "@/lib/i18n";
+import { cardPages, getPage } from "@/lib/pages";
+import { cardSizes } from "@/lib/presets";
+import type { ContributionDraft, InvitedCard } from "@/lib/signing";
+import {
+  getInvite,
+  maxNoteLength,
+  signatureColors,
+  submitContribution,
+} from "@/lib/signing";
+import { uploadPhoto } from "@/lib/uploads";
+
+const emptyDraft: ContributionDraft = {
+  name: "",
+  note: "",
+  color: null,
+  photoUrl: null,
+};
+
+const fieldClass =
+  "rounded-2xl border border-black/10 bg-white px-4 py-3 text-sm normal-case tracking-normal text-black outline-none transition focus:border-black/40";
+const labelClass =
+  "grid gap-2 text-xs uppercase tracking-[0.25em] text-black/60";
+const linkClass =
+  "text-xs uppercase tracking-[0.2em] text-black/50 transition hover:text-black";
+
+// Where a collaborator lands from an invite link. They add one note to the
+// card; the rest of the design stays read-only.
+export default function SignCardPage() {
+  const { token } = useParams<{ token: string }>();
+  const { t } = useI18n();
+  const [invite, setInvite] = useState<InvitedCard | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [draft, setDraft] = useState<ContributionDraft>(emptyDraft);
+  const [uploading, setUploading] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [submitted, setSubmitted] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadInvite = async () => {
+      try {
+        setInvite(await getInvite(token));
+      } catch (inviteError) {
+        setLoadError(errorMessage(inviteError, t, t.errors.loadInviteFailed));
+      }
+    };
+    void loadInvite();
+  }, [token, t]);
+
+  // Preview the page that holds the signatures, with the note being
+  // written already in place.
+  const preview = useMemo(() => {
+    if (!invite) return null;
+    const { design } = invite;
+    const pageId: CardPageId =
+      cardPages.find(
+        (page) => getPage(design, page.id).layoutId === "signatures",
+      )?.id ?? "front";
+    const signatures = design.signatures ?? [];
+    return {
+      pageId,
+      design:
+        draft.name.trim() && draft.note.trim() && !submitted
+          ? {
+              ...design,
+              signatures: [
+                ...signatures,
+                { id: "draft", ...draft, name: draft.name.trim() },
+              ],
+            }
+          : design,
+    };
+  }, [invite, draft, submitted]);
+
+  const cardSize = invite
+    ? (cardSizes.find((item) => item.id === invite.design.cardSizeId) ??
+      cardSizes[0])
+    : cardSizes[0];
+
+  const updateDraft = (patch: Partial<ContributionDraft>) =>
+    setDraft((prev) => ({ ...prev, ...patch }));
+
+  const handlePhoto = async (file: File | null) => {
+    if (!file) return;
+    setError(null);
+    setUploading(true);
+    try {
+      const uploaded = await uploadPhoto(file, 1);
+      updateDraft({ photoUrl: uploaded.url });
+    } catch (uploadError) {
+      setError(errorMessage(uploadError, t, t.errors.uploadFailed));
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleSubmit = async () => {
+    setError(null);
+    setSubmitting(true);
+    try {
+      await submitContribution(token, draft);
+      setSubmitted(true);
+    } catch (submitError) {
+      setError(errorMessage(submitError, t, t.errors.signFailed));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const canSubmit = Boolean(
+    draft.name.trim() && draft.note.trim() && !uploading,
+  );
+
+  return (
+    <div className="min-h-screen bg-[#f6efe6] text-[#1b1b1b]">
+      <div
+        className="mx-auto flex w-full flex-col gap-6 px-6 py-12"
+        style={{ maxWidth: `${cardSize.previewMaxWidth + 48}px` }}
+      >
+        <p className="text-xs uppercase tracking-[0.35em] text-black/60">
+          {t.studio.name}
+        </p>
+        {loadError ? (
+          <div className="rounded-[28px] border border-black/10 bg-white/80 px-6 py-6 text-sm text-black/70 shadow-[0_24px_50px_rgba(0,0,0,0.08)]">
+            {loadError}
+          </div>
+        ) : null}
+        {invite && preview ? (
+          <>
+            <div>
+              <h1 className="text-2xl font-semibold">
+                {format(t.signing.heading, {
+                  name: invite.design.recipient || invite.title,
+                })}
+              </h1>
+              <p className="mt-2 text-sm text-black/60">{t.signing.intro}</p>
+            </div>
+            <CardPreview design={preview.design} pageId={preview.pageId} />
+            <div className="rounded-[28px] border border-black/10 bg-white/80 px-6 py-6 shadow-[0_24px_50px_rgba(0,0,0,0.08)]">
+              {submitted ? (
+                <div className="grid gap-3">
+                  <p className="text-sm">{t.signing.thanks}</p>
+                  <button
+                    onClick={() => {
+                      setDraft((prev) => ({ ...prev, note: "" }));
+                      setSubmitted(false);
+                    }}
+                    className={`justify-self-start ${linkClass}`}
+                  >
+                    {t.signing.signAgain}
+                  </button>
+                </div>
+              ) : (
+                <div className="grid gap-4">
+                  <label className={labelClass}>
+                    {t.signing.name}
+                    <input
+                      value={draft.name}
+                      onChange={(event) =>
+                        updateDraft({ name: event.target.value })
+                      }
+                      maxLength={60}
+                      placeholder={t.signing.namePlaceholder}
+                      className={fieldClass}
+                    />
+                  </label>
+                  <label className={labelClass}>
+                    {t.signing.note}
+                    <textarea
+                      value={draft.note}
+                      onChange={(event) =>
+                        updateDraft({ note: event.target.value })
+                      }
+                      maxLength={maxNoteLength}
+                      rows={4}
+                      placeholder={t.signing.notePlaceholder}
+                      className={`resize-none ${fieldClass}`}
+                    />
+                    <span className="normal-case tracking-normal text-black/40">
+                      {format(t.signing.charactersLeft, {
+                        count: maxNoteLength - draft.note.length,
+                      })}
+                    </span>
+                  </label>
+                  <div className={labelClass} role="radiogroup">
+                    {t.signing.color}
+                    <div className="flex flex-wrap gap-2">
+                      {signatureColors.map((color) => (
+                        <button
+                          key={color.id}
+                          role="radio"
+                          aria-checked={draft.color === color.value}
+                          aria-label={t.signing.colors[color.id]}
+                          title={t.signing.colors[color.id]}
+                          onClick={() => updateDraft({ color: color.value })}
+                          className={`h-8 w-8 rounded-full border-2 transition ${
+                            draft.color === color.value
+                              ? "border-black"
+                              : "border-white"
+                          }`}
+                          style={{
+                            backgroundColor: color.value ?? "#1f1f1f",
+                          }}
+                        />
+                      ))}
+                    </div>
+                  </div>
+                  <div className={labelClass}>
+                    {t.signing.photo}
+                    {draft.photoUrl ? (
+                      <span className="flex items-center gap-3">
+                        <span
+                          className="h-10 w-10 rounded-full bg-cover bg-center"
+                          style={{
+                            backgroundImage: `url("${draft.photoUrl}")`,
+                          }}
+                        />
+                        <button
+                          onClick={() => updateDraft({ photoUrl: null })}
+                          className={linkClass}
+                        >
+                          {t.common.remove}
+                        </button>
+                      </span>
+                    ) : (
+                      <input
+                        type="file"
+                        accept="image/*"
+                        disabled={uploading}
+                        onChange={(event) => {
+                          void handlePhoto(event.target.files?.[0] ?? null);
+                          event.target.value = "";
+                        }}
+                        className="text-xs normal-case tracking-normal text-black/70"
+                      />
+                    )}
+                    {uploading ? (
+                      <span className="normal-case tracking-normal text-black/50">
+                        {t.common.uploading}
+                      </span>
+                    ) : null}
+                  </div>
+                  <button
+                    onClick={handleSubmit}
+                    disabled={!canSubmit || submitting}
+                    className="rounded-full border border-black/20 px-4 py-3 text-xs uppercase tracking-[0.3em] text-black/70 transition hover:border-black/40 disabled:cursor-not-allowed disabled:opacity-50"
+                  >
+                    {submitting ? t.signing.sending : t.signing.submit}
+                  </button>
+                  {error ? (
+                    <p className="text-xs text-red-600">{error}</p>
+                  ) : null}
+                </div>
+              )}
+            </div>
+          </>
+        ) : null}
+        <Link
+          href="/"
+          className="self-start rounded-full border border-black/20 px-4 py-3 text-xs uppercase tracking-[0.3em] text-black/70 transition hover:border-black/40"
+        >
+          {t.shared.makeYourOwn}
+        </Link>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { useI18n } from "@/components/I18nProvider";
+import type {
+  AnimationEffects,
+  AnimationLayers,
+  AnimationSettings,
+} from "@/lib/animation";
+import { createAnimator, frameCount } from "@/lib/animation";
+
+type AnimationPreviewProps = {
+  layers: AnimationLayers;
+  effects: AnimationEffects;
+  settings: AnimationSettings;
+  label: string;
+  // Recaptures the card, so edits made since the last capture show up.
+  onReplay: () => void;
+};
+
+// Plays the animated card on a canvas at the export frame rate, so what is
+// previewed is frame for frame what the GIF and WebM downloads contain.
+export default function AnimationPreview({
+  layers,
+  effects,
+  settings,
+  label,
+  onReplay,
+}: AnimationPreviewProps) {
+  const { t } = useI18n();
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+
+  useEffect(() => {
+    const context = canvasRef.current?.getContext("2d");
+    if (!context) return;
+    const draw = createAnimator(layers, effects);
+    const frames = frameCount(settings);
+    const frameMs = 1000 / settings.fps;
+    const paint = (frame: number) => {
+      context.clearRect(0, 0, layers.width, layers.height);
+      draw(context, frame / (frames - 1));
+    };
+    // Reduced motion skips straight to the finished card.
+    if (window.matchMedia("(prefers-reduced-motion: reduce)").matches) {
+      paint(frames - 1);
+      return;
+    }
+    let request = 0;
+    let lastFrame = -1;
+    const startedAt = performance.now();
+    const tick = (now: number) => {
+      const frame = Math.floor((now - startedAt) / frameMs);
+      if (settings.plays > 0 && frame >= frames * settings.plays) {
+        paint(frames - 1);
+        return;
+      }
+      if (frame !== lastFrame) {
+        lastFrame = frame;
+        paint(frame % frames);
+      }
+      request = requestAnimationFrame(tick);
+    };
+    request = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(request);
+  }, [layers, effects, settings]);
+
+  return (
+    <div className="grid justify-items-center gap-3">
+      <canvas
+        ref={canvasRef}
+        width={layers.width}
+        height={layers.height}
+        role="img"
+        aria-label={label}
+        className="h-auto w-full max-w-full"
+        style={{ maxWidth: layers.width }}
+      />
+      <button
+        onClick={onReplay}
+        className="text-xs uppercase tracking-[0.2em] text-black/50 transition hover:text-black"
+      >
+        {t.animation.replay}
+      </button>
+    </div>
+  );
+}
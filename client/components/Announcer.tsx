@@ -0,0 +1,29 @@
+"use client";
+
+import type { ReactNode } from "react";
+import { createContext, useCallback, useContext, useState } from "react";
+
+const AnnouncerContext = createContext<(message: string) => void>(() => {});
+
+// One polite live region for the whole studio. Keyboard moves and picker
+// changes only show up on the preview, so they are read out from here.
+export default function Announcer({ children }: { children: ReactNode }) {
+  const [message, setMessage] = useState("");
+
+  const announce = useCallback((text: string) => {
+    // A trailing no-break space makes a repeated message count as a change,
+    // so screen readers read it again.
+    setMessage((prev) => (prev === text ? `${text}\u00a0` : text));
+  }, []);
+
+  return (
+    <AnnouncerContext.Provider value={announce}>
+      {children}
+      <div role="status" aria-live="polite" aria-atomic className="sr-only">
+        {message}
+      </div>
+    </AnnouncerContext.Provider>
+  );
+}
+
+export const useAnnounce = () => useContext(AnnouncerContext);
@@ -0,0 +1,540 @@
+"use client";
+
+import type { CSSProperties, ReactNode, RefObject } from "react";
+import { useMemo, useRef } from "react";
+import DraggableImage from "@/components/DraggableImage";
+import type { StickerTransform } from "@/components/DraggableSticker";
+import DraggableSticker from "@/components/DraggableSticker";
+import FreeformFrame from "@/components/FreeformFrame";
+import { useI18n } from "@/components/I18nProvider";
+import PeerTag from "@/components/PeerTag";
+import SignatureWall from "@/components/SignatureWall";
+import type {
+  CardDesign,
+  CardPageId,
+  PhotoCrop,
+  PhotoFrame,
+  PhotoSlot,
+} from "@/lib/cards";
+import type { CollabPeer } from "@/lib/collab";
+import { format, getLocale, getMessages } from "@/lib/i18n";
+import type { Region } from "@/lib/layouts";
+import { defaultFrame, getLayout, photoRowsFor } from "@/lib/layouts";
+import { getPage } from "@/lib/pages";
+import { cardSizes, getPhotoGrid } from "@/lib/presets";
+import {
+  defaultEyebrow,
+  defaultHeadline,
+  defaultSignature,
+  fillTemplate,
+  templateValues,
+} from "@/lib/templates";
+import { resolveTheme } from "@/lib/themes";
+import { cssTextAlign, resolveTextStyle, textStyleCss } from "@/lib/typography";
+
+type CardPreviewProps = {
+  design: CardDesign;
+  pageId?: CardPageId;
+  cardRef?: RefObject<HTMLDivElement | null>;
+  exporting?: boolean;
+  onPhotoPositionChange?: (
+    index: number,
+    position: PhotoSlot["position"],
+  ) => void;
+  onPhotoCropChange?: (index: number, crop: PhotoCrop) => void;
+  onFrameChange?: (index: number, frame: PhotoFrame) => void;
+  onStickerChange?: (id: string, transform: StickerTransform) => void;
+  onDragEnd?: () => void;
+  // Renders one layer of the animated export (see lib/animation): "base"
+  // without photos or message text, "photos" without message text, and
+  // "message" with nothing but the message text.
+  animationLayer?: "base" | "photos" | "message";
+  // Others in a live session: their cursors on this page and what they
+  // are editing.
+  peers?: CollabPeer[];
+};
+
+const gridTemplate = ({ columns, rows }: { columns: number; rows: number }) =>
+  ({
+    gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))`,
+    gridTemplateRows: `repeat(${rows}, minmax(0, 1fr))`,
+  }) as CSSProperties;
+
+const regionStyle = (region: Region): CSSProperties => ({
+  gridColumn: `${region.column} / span ${region.columnSpan}`,
+  gridRow: `${region.row} / span ${region.rowSpan ?? 1}`,
+});
+
+const filmSprockets =
+  "repeating-linear-gradient(90deg, rgba(255,255,255,0.8) 0 8px, rgba(255,255,255,0) 8px 18px)";
+
+export default function CardPreview({
+  design,
+  pageId = "front",
+  cardRef,
+  exporting,
+  onPhotoPositionChange,
+  onPhotoCropChange,
+  onFrameChange,
+  onStickerChange,
+  onDragEnd,
+  animationLayer,
+  peers,
+}: CardPreviewProps) {
+  const { themeId, cardSizeId, customTheme, typography } = design;
+  // The card is laid out in its own language, whatever the studio UI uses.
+  const locale = getLocale(design.locale);
+  const { card } = getMessages(locale.id);
+  // Screen-reader labels follow the studio UI instead.
+  const { t } = useI18n();
+  const page = useMemo(() => getPage(design, pageId), [design, pageId]);
+  const { message, layoutId, gridFormatId, photos, frames, stickers } = page;
+  const localRef = useRef<HTMLDivElement | null>(null);
+  const containerRef = cardRef ?? localRef;
+
+  const theme = useMemo(
+    () => resolveTheme({ themeId, customTheme }),
+    [themeId, customTheme],
+  );
+
+  const textStyles = useMemo(
+    () => ({
+      headline: resolveTextStyle("headline", typography?.headline),
+      message: resolveTextStyle("message", typography?.message),
+      signature: resolveTextStyle("signature", typography?.signature),
+    }),
+    [typography],
+  );
+
+  const cardSize = useMemo(
+    () => cardSizes.find((item) => item.id === cardSizeId) ?? cardSizes[0],
+    [cardSizeId],
+  );
+
+  const layout = useMemo(() => getLayout(layoutId), [layoutId]);
+  const arrangement = layout.photos;
+
+  const copy = useMemo(() => {
+    const values = templateValues(design);
+    return {
+      eyebrow: fillTemplate(
+        design.eyebrow ?? defaultEyebrow(layout, design.locale),
+        values,
+      ),
+      headline: fillTemplate(
+        design.headline ?? defaultHeadline(layout, design.locale),
+        values,
+      ),
+      message: fillTemplate(message, values),
+      signature: fillTemplate(
+        design.signature ?? defaultSignature(design.locale),
+        values,
+      ),
+    };
+  }, [design, layout, message]);
+
+  const baseCardHeight = useMemo(
+    () => Math.round(cardSize.previewMaxWidth / layout.aspectRatio),
+    [cardSize.previewMaxWidth, layout.aspectRatio],
+  );
+
+  const rowHeight = useMemo(
+    () => Math.max(120, Math.round(cardSize.previewMaxWidth / 4)),
+    [cardSize.previewMaxWidth],
+  );
+
+  const photoRows = useMemo(
+    () =>
+      layout.growsWithPhotos
+        ? photoRowsFor(arrangement, photos.length, gridFormatId)
+        : 0,
+    [layout.growsWithPhotos, arrangement, photos.length, gridFormatId],
+  );
+
+  const dynamicCardHeight = useMemo(
+    () => Math.max(baseCardHeight, photoRows * rowHeight + 120),
+    [baseCardHeight, photoRows, rowHeight],
+  );
+
+  const cardHeightStyle = useMemo(
+    () =>
+      ({
+        minHeight: `${baseCardHeight}px`,
+        height: `${dynamicCardHeight}px`,
+      }) as CSSProperties,
+    [baseCardHeight, dynamicCardHeight],
+  );
+
+  const peerOn = (element: string) =>
+    exporting ? undefined : peers?.find((peer) => peer.selection === element);
+  const messagePeer = peerOn(`${pageId}.message`);
+
+  const renderPhoto = (
+    index: number,
+    options: {
+      className?: string;
+      fit?: "contain" | "cover";
+      placeholder?: string;
+    } = {},
+  ) => (
+    <DraggableImage
+      key={`preview-photo-${index}`}
+      slot={photos[index] ?? null}
+      placeholder={
+        options.placeholder ??
+        format(card.photoPlaceholder, { number: index + 1 })
+      }
+      uploadHint={card.uploadHint}
+      label={format(t.photos.slot, { number: index + 1 })}
+      onPositionChange={
+        onPhotoPositionChange
+          ? (pos) => onPhotoPositionChange(index, pos)
+          : undefined
+      }
+      onCropChange={
+        onPhotoCropChange ? (crop) => onPhotoCropChange(index, crop) : undefined
+      }
+      onDragEnd={onDragEnd}
+      className={options.className}
+      fit={options.fit}
+      exporting={exporting}
+      hidePhoto={animationLayer === "base"}
+      peer={peerOn(`${pageId}.photos.${index}`)}
+    />
+  );
+
+  const renderPhotos = (): ReactNode => {
+    if (!arrangement) return null;
+    const indexes = photos.map((_, index) => index);
+
+    switch (arrangement.kind) {
+      case "grid":
+        return (
+          <div
+            className="grid h-full gap-4"
+            style={gridTemplate(getPhotoGrid(photos.length, gridFormatId))}
+          >
+            {indexes.map((index) => renderPhoto(index))}
+          </div>
+        );
+      case "hero": {
+        const rest = indexes.slice(1);
+        const restGrid = getPhotoGrid(rest.length, gridFormatId);
+        return (
+          <div
+            className="grid h-full gap-4"
+            style={{
+              gridTemplateRows:
+                rest.length > 0
+                  ? `minmax(0, 2fr) repeat(${restGrid.rows}, minmax(0, 1fr))`
+                  : "minmax(0, 1fr)",
+            }}
+          >
+            {renderPhoto(0, {
+              className: "h-full",
+              placeholder: card.heroPlaceholder,
+            })}
+            {rest.length > 0 ? (
+              <div className="grid h-full gap-3" style={gridTemplate(restGrid)}>
+                {rest.map((index) => renderPhoto(index))}
+              </div>
+            ) : null}
+          </div>
+        );
+      }
+      case "collage":
+        return (
+          <div
+            className="grid h-full gap-3"
+            style={{
+              gridTemplateColumns: `repeat(${arrangement.columns}, minmax(0, 1fr))`,
+              gridTemplateRows: `repeat(${photoRowsFor(
+                arrangement,
+                photos.length,
+                gridFormatId,
+              )}, minmax(0, 1fr))`,
+              gridAutoFlow: "dense",
+            }}
+          >
+            {indexes.map((index) =>
+              index === 0 ? (
+                <div
+                  key="collage-lead"
+                  className="grid"
+                  style={{ gridColumn: "span 2", gridRow: "span 2" }}
+                >
+                  {renderPhoto(0, { fit: "cover" })}
+                </div>
+              ) : (
+                renderPhoto(index, { fit: "cover" })
+              ),
+            )}
+          </div>
+        );
+      case "scatter":
+        return (
+          <div className="relative h-full">
+            {indexes.map((index) => {
+              const spot = arrangement.spots[index % arrangement.spots.length];
+              const round = Math.floor(index / arrangement.spots.length);
+              return (
+                <div
+                  key={`polaroid-${index}`}
+                  className="absolute flex flex-col bg-white px-2 pb-6 pt-2 shadow-[0_12px_24px_rgba(0,0,0,0.18)]"
+                  style={{
+                    left: `${spot.x + round * 4}%`,
+                    top: `${spot.y + round * 4}%`,
+                    width: `${arrangement.frameWidth}%`,
+                    aspectRatio: arrangement.frameAspect,
+                    transform: `rotate(${spot.rotate}deg)`,
+                    zIndex: index,
+                  }}
+                >
+                  {renderPhoto(index, {
+                    className: "min-h-0 flex-1 rounded-none!",
+                    fit: "cover",
+                  })}
+                </div>
+              );
+            })}
+          </div>
+        );
+      case "strip":
+        return (
+          <div
+            className="flex h-full items-stretch gap-2 rounded-xl px-3 py-5"
+            style={{
+              backgroundColor: "#1b1b1b",
+              backgroundImage: `${filmSprockets}, ${filmSprockets}`,
+              backgroundSize: "100% 6px, 100% 6px",
+              backgroundPosition: "0 6px, 0 calc(100% - 6px)",
+              backgroundRepeat: "no-repeat",
+            }}
+          >
+            {indexes.map((index) => (
+              <div
+                key={`film-${index}`}
+                className="grid min-w-0 shrink"
+                style={{ aspectRatio: arrangement.frameAspect }}
+              >
+                {renderPhoto(index, { className: "rounded-md!", fit: "cover" })}
+              </div>
+            ))}
+          </div>
+        );
+      case "bleed":
+        // The lead photo is drawn behind the layout grid; only the
+        // remaining photos sit in the region.
+        return photos.length > 1 ? (
+          <div
+            className="grid h-full gap-3"
+            style={gridTemplate(getPhotoGrid(photos.length - 1, "two"))}
+          >
+            {indexes.slice(1).map((index) => renderPhoto(index))}
+          </div>
+        ) : null;
+      case "freeform":
+        return (
+          <div data-frame-area className="relative h-full">
+            {indexes.map((index) => (
+              <FreeformFrame
+                key={`frame-${index}`}
+                frame={frames?.[index] ?? defaultFrame(index)}
+                label={format(t.photos.slot, { number: index + 1 })}
+                onFrameChange={
+                  onFrameChange
+                    ? (frame) => onFrameChange(index, frame)
+                    : undefined
+                }
+                onDragEnd={onDragEnd}
+                exporting={exporting}
+              >
+                {renderPhoto(index, { fit: "cover" })}
+              </FreeformFrame>
+            ))}
+          </div>
+        );
+    }
+  };
+
+  const textRegion = (region: Region | undefined, content: ReactNode) =>
+    region && content ? (
+      <div
+        className={`flex flex-col ${
+          layout.textBackdrop ? "rounded-2xl px-3 py-2" : ""
+        }`}
+        style={{
+          ...regionStyle(region),
+          alignSelf: region.align ?? "start",
+          backgroundColor: layout.textBackdrop
+            ? "rgba(255,255,255,0.78)"
+            : undefined,
+        }}
+      >
+        {content}
+      </div>
+    ) : null;
+
+  const { regions } = layout;
+
+  return (
+    <div
+      ref={containerRef}
+      lang={locale.id}
+      dir={locale.dir}
+      className="relative mt-4 w-full overflow-hidden rounded-[28px] border p-5"
+      style={{
+        aspectRatio: layout.aspectRatio,
+        background: theme.background,
+        boxShadow: theme.shadow,
+        borderColor: "rgba(255,255,255,0.7)",
+        transform: exporting ? "translateZ(0)" : undefined,
+        visibility: animationLayer === "message" ? "hidden" : undefined,
+        ...cardHeightStyle,
+      }}
+    >
+      <div
+        className="absolute -right-10 -top-10 h-36 w-36 rounded-full blur-2xl"
+        style={{ backgroundColor: "rgba(255,255,255,0.3)" }}
+      />
+      <div
+        className="absolute -bottom-12 left-10 h-32 w-32 rounded-full blur-2xl"
+        style={{ backgroundColor: "rgba(255,255,255,0.3)" }}
+      />
+      {arrangement?.kind === "bleed" ? (
+        <div className="absolute inset-0 grid">
+          {renderPhoto(0, {
+            className: "rounded-none! border-0!",
+            fit: "cover",
+            placeholder: card.heroPlaceholder,
+          })}
+        </div>
+      ) : null}
+      <div
+        className="relative z-10 grid h-full gap-4"
+        style={{
+          gridTemplateColumns: `repeat(${layout.columns}, minmax(0, 1fr))`,
+          gridTemplateRows: layout.rows,
+        }}
+      >
+        {regions.photos ? (
+          <div className="grid min-h-0" style={regionStyle(regions.photos)}>
+            {renderPhotos()}
+          </div>
+        ) : null}
+        {textRegion(
+          regions.headline,
+          pageId === "front" ? (
+            <div style={{ textAlign: cssTextAlign(textStyles.headline.align) }}>
+              <p
+                className="text-xs uppercase tracking-[0.45em]"
+                style={{ color: theme.accent }}
+              >
+                {copy.eyebrow}
+              </p>
+              <h2
+                className="mt-3 whitespace-pre-line"
+                style={textStyleCss(textStyles.headline)}
+              >
+                {copy.headline}
+              </h2>
+            </div>
+          ) : null,
+        )}
+        {textRegion(
+          regions.message,
+          pageId === "front" || message ? (
+            <div
+              className="relative rounded-2xl border border-dashed px-3 py-3"
+              style={{
+                borderColor: messagePeer?.color ?? theme.accent,
+                ...textStyleCss(textStyles.message),
+              }}
+            >
+              {messagePeer ? (
+                <PeerTag peer={messagePeer} className="-top-3 right-3" />
+              ) : null}
+              <span
+                data-animate-message
+                style={{
+                  visibility:
+                    animationLayer === "message"
+                      ? "visible"
+                      : animationLayer
+                        ? "hidden"
+                        : undefined,
+                }}
+              >
+                {copy.message || card.messagePlaceholder}
+              </span>
+            </div>
+          ) : null,
+        )}
+        {regions.signatures ? (
+          <div className="min-h-0" style={regionStyle(regions.signatures)}>
+            <SignatureWall
+              signatures={design.signatures ?? []}
+              placeholder={card.signaturesPlaceholder}
+              accent={theme.accent}
+            />
+          </div>
+        ) : null}
+        {textRegion(
+          regions.signature,
+          pageId === "front" || pageId === "insideRight" ? (
+            <div
+              className="uppercase"
+              style={textStyleCss(textStyles.signature, "rgba(20,20,20,0.6)")}
+            >
+              {copy.signature}
+            </div>
+          ) : null,
+        )}
+      </div>
+      {stickers.map((sticker, index) => (
+        <DraggableSticker
+          key={sticker.id}
+          sticker={sticker}
+          containerRef={containerRef}
+          layer={index}
+          mirrored={locale.dir === "rtl"}
+          exporting={exporting}
+          color={
+            "tone" in sticker && sticker.tone === "ink"
+              ? "rgba(20,20,20,0.85)"
+              : theme.accent
+          }
+          onChange={
+            onStickerChange
+              ? (transform) => onStickerChange(sticker.id, transform)
+              : undefined
+          }
+          onDragEnd={onDragEnd}
+          peer={peerOn(`${pageId}.stickers.${sticker.id}`)}
+        />
+      ))}
+      {exporting
+        ? null
+        : peers?.map((peer) =>
+            peer.cursor?.pageId === pageId ? (
+              <div
+                key={peer.id}
+                data-html2canvas-ignore
+                className="pointer-events-none absolute z-40"
+                style={{ left: `${peer.cursor.x}%`, top: `${peer.cursor.y}%` }}
+              >
+                <svg width="16" height="16" viewBox="0 0 16 16" aria-hidden>
+                  <path
+                    d="M1 1 L14 7 L8 8.5 L6 15 Z"
+                    fill={peer.color}
+                    stroke="white"
+                    strokeWidth="1.2"
+                  />
+                </svg>
+                <PeerTag peer={peer} className="left-3 top-4" />
+              </div>
+            ) : null,
+          )}
+    </div>
+  );
+}
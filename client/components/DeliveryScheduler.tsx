@@ -0,0 +1,208 @@
+"use client";
+
+import { useState } from "react";
+import { useI18n } from "@/components/I18nProvider";
+import { format, formatDate } from "@/lib/i18n";
+import type { ScheduleDraft, ScheduledSend } from "@/lib/schedules";
+import {
+  commonTimeZones,
+  createScheduleDraft,
+  draftFromSchedule,
+} from "@/lib/schedules";
+
+type DeliverySchedulerProps = {
+  // Used to suggest the send date.
+  birthday?: string | null;
+  schedules: ScheduledSend[];
+  saving: boolean;
+  // Resolves true once the send is stored, so the form can clear.
+  onSave: (draft: ScheduleDraft, id: string | null) => Promise<boolean>;
+  onCancel: (id: string) => void;
+};
+
+const fieldClass =
+  "rounded-2xl border border-black/10 bg-white px-4 py-3 text-sm normal-case tracking-normal text-black outline-none transition focus:border-black/40";
+const labelClass =
+  "grid gap-2 text-xs uppercase tracking-[0.25em] text-black/60";
+const linkClass =
+  "text-xs uppercase tracking-[0.2em] text-black/50 transition hover:text-black disabled:cursor-not-allowed disabled:opacity-30";
+
+// Date, time and time zone for emailing the card, plus the sends already
+// queued. Only sends that have not gone out can be edited or cancelled.
+export default function DeliveryScheduler({
+  birthday,
+  schedules,
+  saving,
+  onSave,
+  onCancel,
+}: DeliverySchedulerProps) {
+  const { t, locale } = useI18n();
+  // An empty send date follows the card's birthday until one is picked.
+  const [draft, setDraft] = useState<ScheduleDraft>(() => ({
+    ...createScheduleDraft(),
+    sendDate: "",
+  }));
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const timeZones = commonTimeZones.includes(draft.timeZone)
+    ? commonTimeZones
+    : [draft.timeZone, ...commonTimeZones];
+
+  const updateDraft = (patch: Partial<ScheduleDraft>) =>
+    setDraft((prev) => ({ ...prev, ...patch }));
+
+  const sendDate = draft.sendDate || createScheduleDraft(birthday).sendDate;
+
+  const resetDraft = () => {
+    setDraft({ ...createScheduleDraft(), sendDate: "" });
+    setEditingId(null);
+  };
+
+  const handleSave = async () => {
+    if (await onSave({ ...draft, sendDate }, editingId)) {
+      resetDraft();
+    }
+  };
+
+  const canSave = Boolean(draft.email.trim() && sendDate && draft.sendTime);
+
+  return (
+    <div className="grid gap-3 rounded-2xl border border-black/10 bg-white/70 px-4 py-4">
+      <div>
+        <p className="text-xs uppercase tracking-[0.25em] text-black/60">
+          {t.delivery.title}
+        </p>
+        <p className="mt-1 text-xs text-black/50">{t.delivery.hint}</p>
+      </div>
+      <label className={labelClass}>
+        {t.delivery.email}
+        <input
+          type="email"
+          value={draft.email}
+          onChange={(event) => updateDraft({ email: event.target.value })}
+          placeholder={t.delivery.emailPlaceholder}
+          className={fieldClass}
+        />
+      </label>
+      <div className="grid gap-3 md:grid-cols-3">
+        <label className={labelClass}>
+          {t.delivery.date}
+          <input
+            type="date"
+            value={sendDate}
+            onChange={(event) => updateDraft({ sendDate: event.target.value })}
+            className={fieldClass}
+          />
+        </label>
+        <label className={labelClass}>
+          {t.delivery.time}
+          <input
+            type="time"
+            value={draft.sendTime}
+            onChange={(event) => updateDraft({ sendTime: event.target.value })}
+            className={fieldClass}
+          />
+        </label>
+        <label className={labelClass}>
+          {t.delivery.timeZone}
+          <select
+            value={draft.timeZone}
+            onChange={(event) => updateDraft({ timeZone: event.target.value })}
+            className={fieldClass}
+          >
+            {timeZones.map((zone) => (
+              <option key={zone} value={zone}>
+                {zone.replace(/_/g, " ")}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+      <label className={labelClass}>
+        {t.delivery.note}
+        <textarea
+          value={draft.note}
+          onChange={(event) => updateDraft({ note: event.target.value })}
+          rows={2}
+          placeholder={t.delivery.notePlaceholder}
+          className={fieldClass}
+        />
+      </label>
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          onClick={handleSave}
+          disabled={!canSave || saving}
+          className="rounded-full border border-black/20 px-4 py-3 text-xs uppercase tracking-[0.3em] text-black/70 transition hover:border-black/40 disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          {saving
+            ? t.common.saving
+            : editingId
+              ? t.delivery.save
+              : t.delivery.schedule}
+        </button>
+        {editingId ? (
+          <button onClick={resetDraft} className={linkClass}>
+            {t.delivery.stopEditing}
+          </button>
+        ) : null}
+      </div>
+      {schedules.length ? (
+        <ul className="grid gap-2 text-xs">
+          {schedules.map((schedule) => (
+            <li
+              key={schedule.id}
+              className={`grid gap-1 rounded-xl border bg-white px-3 py-2 ${
+                editingId === schedule.id
+                  ? "border-black/40"
+                  : "border-black/10"
+              }`}
+            >
+              <div className="flex items-center justify-between gap-3">
+                <span className="truncate font-medium">
+                  {schedule.to.email}
+                </span>
+                <span className="shrink-0 uppercase tracking-[0.2em] text-black/50">
+                  {t.delivery.statuses[schedule.status]}
+                </span>
+              </div>
+              <div className="text-black/60">
+                {format(t.delivery.sendsAt, {
+                  date: formatDate(
+                    locale.id,
+                    `${schedule.sendDate}T${schedule.sendTime}`,
+                  ),
+                  timeZone: schedule.timeZone.replace(/_/g, " "),
+                })}
+              </div>
+              {schedule.lastError && schedule.status !== "sent" ? (
+                <div className="text-red-600">{schedule.lastError}</div>
+              ) : null}
+              {schedule.status === "pending" ? (
+                <div className="flex gap-3">
+                  <button
+                    onClick={() => {
+                      setDraft(draftFromSchedule(schedule));
+                      setEditingId(schedule.id);
+                    }}
+                    className={linkClass}
+                  >
+                    {t.common.edit}
+                  </button>
+                  <button
+                    onClick={() => {
+                      if (editingId === schedule.id) resetDraft();
+                      onCancel(schedule.id);
+                    }}
+                    className={linkClass}
+                  >
+                    {t.delivery.cancelSend}
+                  </button>
+                </div>
+              ) : null}
+            </li>
+          ))}
+        </ul>
+      ) : null}
+    </div>
+  );
+}
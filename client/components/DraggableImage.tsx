@@ -0,0 +1,494 @@
+"use client";
+
+import type { CSSProperties, KeyboardEvent, PointerEvent } from "react";
+import { useEffect, useId, useLayoutEffect, useRef, useState } from "react";
+import { useAnnounce } from "@/components/Announcer";
+import { useI18n } from "@/components/I18nProvider";
+import PeerTag from "@/components/PeerTag";
+import type { PhotoCrop, PhotoSlot } from "@/lib/cards";
+import type { CollabPeer } from "@/lib/collab";
+import type { Size } from "@/lib/crop";
+import {
+  clampScale,
+  defaultCrop,
+  naturalSizes,
+  normalizeRotation,
+  placeImage,
+} from "@/lib/crop";
+import {
+  frameStyleCss,
+  isNeutral,
+  needsBaking,
+  svgMatrixValues,
+  vignetteGradient,
+} from "@/lib/filters";
+import { format } from "@/lib/i18n";
+import { keyAction } from "@/lib/keyboard";
+import { clamp } from "@/lib/utils";
+
+type DraggableImageProps = {
+  slot: PhotoSlot | null;
+  className?: string;
+  placeholder: string;
+  uploadHint: string;
+  // Names the photo for screen readers, in the studio's language.
+  label?: string;
+  onPositionChange?: (pos: { x: number; y: number }) => void;
+  onCropChange?: (crop: PhotoCrop) => void;
+  onDragEnd?: () => void;
+  exporting?: boolean;
+  // Leaves the photo out but keeps its frame, for animated export layers.
+  hidePhoto?: boolean;
+  fit?: "contain" | "cover";
+  // Someone else in a live session is editing this photo.
+  peer?: CollabPeer;
+};
+
+type Point = { x: number; y: number };
+
+type Gesture =
+  | { kind: "pan"; start: Point; position: Point }
+  | { kind: "pinch"; distance: number; scale: number }
+  | { kind: "zoom"; distance: number; scale: number }
+  | { kind: "rotate"; angle: number; rotation: number };
+
+const wheelZoomSpeed = 0.0015;
+const keyZoomFactor = 1.1;
+const wheelSettleMs = 300;
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+export default function DraggableImage({
+  slot,
+  className,
+  placeholder,
+  uploadHint,
+  label = placeholder,
+  onPositionChange,
+  onCropChange,
+  onDragEnd,
+  exporting,
+  hidePhoto,
+  fit = "contain",
+  peer,
+}: DraggableImageProps) {
+  const { t } = useI18n();
+  const announce = useAnnounce();
+  const frameRef = useRef<HTMLDivElement | null>(null);
+  const id = useId().replace(/[^\w-]/g, "");
+  const filterId = `photo-filter-${id}`;
+  const hintId = `photo-keys-${id}`;
+  const pointers = useRef(new Map<number, Point>());
+  const gesture = useRef<Gesture | null>(null);
+  const [dragging, setDragging] = useState(false);
+  const [frameSize, setFrameSize] = useState<Size | null>(null);
+  const [loaded, setLoaded] = useState<{ url: string; size: Size } | null>(
+    null,
+  );
+  const url = slot?.url;
+  const naturalSize = !url
+    ? null
+    : loaded?.url === url
+      ? loaded.size
+      : (naturalSizes.get(url) ?? null);
+  const crop = slot?.crop ?? defaultCrop;
+  const editable = Boolean(slot && onPositionChange) && !exporting;
+  const adjustments = slot?.adjustments;
+  const colorAdjusted = !isNeutral(
+    adjustments ? { ...adjustments, vignette: 0 } : undefined,
+  );
+
+  const placement =
+    slot && frameSize && naturalSize
+      ? placeImage(frameSize, naturalSize, slot, fit)
+      : null;
+
+  // Measure before paint so export copies never show an unplaced photo.
+  useLayoutEffect(() => {
+    const frame = frameRef.current;
+    if (!frame) return;
+    const measure = () =>
+      setFrameSize({ width: frame.clientWidth, height: frame.clientHeight });
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(frame);
+    return () => observer.disconnect();
+  }, []);
+
+  const latest = useRef({ crop, onCropChange, onDragEnd });
+  useEffect(() => {
+    latest.current = { crop, onCropChange, onDragEnd };
+  });
+
+  // React registers wheel listeners as passive, which cannot stop the page
+  // from scrolling while zooming, so this one is attached by hand.
+  useEffect(() => {
+    const frame = frameRef.current;
+    if (!frame || !editable) return;
+    let settle: number | undefined;
+    const handleWheel = (event: WheelEvent) => {
+      const { crop: current, onCropChange: change } = latest.current;
+      if (!change) return;
+      event.preventDefault();
+      change({
+        ...current,
+        scale: clampScale(
+          current.scale * Math.exp(-event.deltaY * wheelZoomSpeed),
+        ),
+      });
+      window.clearTimeout(settle);
+      settle = window.setTimeout(
+        () => latest.current.onDragEnd?.(),
+        wheelSettleMs,
+      );
+    };
+    frame.addEventListener("wheel", handleWheel, { passive: false });
+    return () => {
+      window.clearTimeout(settle);
+      frame.removeEventListener("wheel", handleWheel);
+    };
+  }, [editable]);
+
+  const frameCenter = () => {
+    const rect = frameRef.current?.getBoundingClientRect();
+    return rect
+      ? { x: rect.left + rect.width / 2, y: rect.top + rect.height / 2 }
+      : { x: 0, y: 0 };
+  };
+
+  const startGesture = () => {
+    const points = [...pointers.current.values()];
+    if (points.length >= 2) {
+      gesture.current = {
+        kind: "pinch",
+        distance: distance(points[0], points[1]),
+        scale: crop.scale,
+      };
+    } else if (points.length === 1 && slot) {
+      gesture.current = {
+        kind: "pan",
+        start: points[0],
+        position: slot.position,
+      };
+    }
+  };
+
+  const handlePointerDown = (event: PointerEvent<HTMLDivElement>) => {
+    if (!editable) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    pointers.current.set(event.pointerId, {
+      x: event.clientX,
+      y: event.clientY,
+    });
+    setDragging(true);
+    startGesture();
+  };
+
+  const handlePointerMove = (event: PointerEvent<HTMLDivElement>) => {
+    if (!pointers.current.has(event.pointerId)) return;
+    const point = { x: event.clientX, y: event.clientY };
+    pointers.current.set(event.pointerId, point);
+    const current = gesture.current;
+    if (!current || !slot) return;
+
+    if (current.kind === "pinch") {
+      const [a, b] = [...pointers.current.values()];
+      onCropChange?.({
+        ...crop,
+        scale: clampScale(
+          (current.scale * distance(a, b)) / Math.max(1, current.distance),
+        ),
+      });
+      return;
+    }
+    if (current.kind !== "pan" || !placement || !frameSize) return;
+    // Convert the pointer travel into object-position percentages. An axis
+    // where the photo exactly matches the frame has nothing to pan.
+    const spareX = frameSize.width - placement.width;
+    const spareY = frameSize.height - placement.height;
+    onPositionChange?.({
+      x:
+        Math.abs(spareX) < 1
+          ? current.position.x
+          : clamp(
+              current.position.x + ((point.x - current.start.x) * 100) / spareX,
+              0,
+              100,
+            ),
+      y:
+        Math.abs(spareY) < 1
+          ? current.position.y
+          : clamp(
+              current.position.y + ((point.y - current.start.y) * 100) / spareY,
+              0,
+              100,
+            ),
+    });
+  };
+
+  const handlePointerUp = (event: PointerEvent<HTMLDivElement>) => {
+    if (!pointers.current.delete(event.pointerId)) return;
+    if (event.currentTarget.hasPointerCapture(event.pointerId)) {
+      event.currentTarget.releasePointerCapture(event.pointerId);
+    }
+    if (pointers.current.size > 0) {
+      startGesture();
+      return;
+    }
+    gesture.current = null;
+    setDragging(false);
+    onDragEnd?.();
+  };
+
+  // The bottom handle zooms and the top one rotates, both around the frame
+  // centre.
+  const handleGrab =
+    (kind: "zoom" | "rotate") => (event: PointerEvent<HTMLDivElement>) => {
+      event.stopPropagation();
+      event.currentTarget.setPointerCapture(event.pointerId);
+      const center = frameCenter();
+      const point = { x: event.clientX, y: event.clientY };
+      gesture.current =
+        kind === "zoom"
+          ? { kind, distance: distance(center, point), scale: crop.scale }
+          : {
+              kind,
+              angle: Math.atan2(point.y - center.y, point.x - center.x),
+              rotation: crop.rotation,
+            };
+      setDragging(true);
+    };
+
+  const handleDrag = (event: PointerEvent<HTMLDivElement>) => {
+    const current = gesture.current;
+    if (!current || (current.kind !== "zoom" && current.kind !== "rotate")) {
+      return;
+    }
+    event.stopPropagation();
+    const center = frameCenter();
+    const point = { x: event.clientX, y: event.clientY };
+    if (current.kind === "zoom") {
+      onCropChange?.({
+        ...crop,
+        scale: clampScale(
+          (current.scale * distance(center, point)) /
+            Math.max(1, current.distance),
+        ),
+      });
+    } else {
+      const angle = Math.atan2(point.y - center.y, point.x - center.x);
+      onCropChange?.({
+        ...crop,
+        rotation: Math.round(
+          normalizeRotation(
+            current.rotation + ((angle - current.angle) * 180) / Math.PI,
+          ),
+        ),
+      });
+    }
+  };
+
+  const handleRelease = (event: PointerEvent<HTMLDivElement>) => {
+    event.stopPropagation();
+    if (event.currentTarget.hasPointerCapture(event.pointerId)) {
+      event.currentTarget.releasePointerCapture(event.pointerId);
+    }
+    if (gesture.current) {
+      onDragEnd?.();
+    }
+    gesture.current = null;
+    setDragging(false);
+  };
+
+  // The keyboard counterpart of the gestures. Releasing the key ends the
+  // undo step, like lifting the pointer does.
+  const handleKeyDown = (event: KeyboardEvent<HTMLDivElement>) => {
+    if (!editable || !slot || event.target !== event.currentTarget) return;
+    const action = keyAction(event);
+    if (!action) return;
+    event.preventDefault();
+    if (action.kind === "move") {
+      // Arrows move the photo the way a drag would, so on an axis where it
+      // overflows the frame the stored offset runs the other way.
+      const direction = (spare: number | undefined) =>
+        spare !== undefined && spare > 0 ? 1 : -1;
+      const spareX =
+        placement && frameSize ? frameSize.width - placement.width : undefined;
+      const spareY =
+        placement && frameSize
+          ? frameSize.height - placement.height
+          : undefined;
+      const position = {
+        x: clamp(slot.position.x + action.dx * direction(spareX), 0, 100),
+        y: clamp(slot.position.y + action.dy * direction(spareY), 0, 100),
+      };
+      onPositionChange?.(position);
+      announce(
+        format(t.a11y.position, {
+          label,
+          x: Math.round(position.x),
+          y: Math.round(position.y),
+        }),
+      );
+    } else if (action.kind === "scale") {
+      const scale = clampScale(
+        action.direction > 0
+          ? crop.scale * keyZoomFactor
+          : crop.scale / keyZoomFactor,
+      );
+      onCropChange?.({ ...crop, scale });
+      announce(format(t.a11y.zoom, { label, value: Math.round(scale * 100) }));
+    } else {
+      const rotation = normalizeRotation(crop.rotation + action.degrees);
+      onCropChange?.({ ...crop, rotation });
+      announce(format(t.a11y.rotation, { label, value: rotation }));
+    }
+  };
+
+  const handleProps = (kind: "zoom" | "rotate") => ({
+    onPointerDown: handleGrab(kind),
+    onPointerMove: handleDrag,
+    onPointerUp: handleRelease,
+    onPointerCancel: handleRelease,
+    style: { touchAction: "none" } as CSSProperties,
+  });
+
+  const imageStyle: CSSProperties = placement
+    ? {
+        position: "absolute",
+        left: `${placement.left}px`,
+        top: `${placement.top}px`,
+        width: `${placement.width}px`,
+        height: `${placement.height}px`,
+        maxWidth: "none",
+        transform: `rotate(${placement.rotation}deg) translateZ(0)`,
+        filter: colorAdjusted ? `url(#${filterId})` : undefined,
+      }
+    : {
+        // Until the frame and photo are measured, let the browser place it.
+        width: "100%",
+        height: "100%",
+        objectFit: crop.fit ?? fit,
+        objectPosition: slot
+          ? `${slot.position.x}% ${slot.position.y}%`
+          : undefined,
+        transform: "translateZ(0)",
+        filter: colorAdjusted ? `url(#${filterId})` : undefined,
+      };
+
+  return (
+    <div
+      ref={frameRef}
+      className={`group relative overflow-hidden rounded-3xl border shadow-[inset_0_0_0_1px_rgba(255,255,255,0.4)] ${className ?? ""}`}
+      tabIndex={editable ? 0 : undefined}
+      role={editable ? "group" : undefined}
+      aria-roledescription={editable ? t.a11y.movablePhoto : undefined}
+      aria-label={editable ? label : undefined}
+      aria-describedby={editable ? hintId : undefined}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      onKeyDown={handleKeyDown}
+      onKeyUp={editable ? onDragEnd : undefined}
+      data-animate-photo
+      data-photo-bake={
+        slot && needsBaking(slot) ? JSON.stringify({ slot, fit }) : undefined
+      }
+      style={{
+        touchAction: "none",
+        borderColor: exporting
+          ? "rgba(255,255,255,0)"
+          : "rgba(255,255,255,0.6)",
+        backgroundColor: exporting ? "transparent" : "rgba(255,255,255,0.4)",
+        boxShadow: exporting ? "none" : undefined,
+        outline: exporting
+          ? undefined
+          : dragging
+            ? "2px solid rgba(0,0,0,0.4)"
+            : peer
+              ? `2px solid ${peer.color}`
+              : undefined,
+        outlineOffset: "2px",
+        ...frameStyleCss(slot?.frameStyle),
+      }}
+    >
+      {adjustments && colorAdjusted ? (
+        <svg
+          width="0"
+          height="0"
+          className="absolute"
+          aria-hidden
+          data-html2canvas-ignore
+        >
+          <filter id={filterId} colorInterpolationFilters="sRGB">
+            <feColorMatrix
+              type="matrix"
+              values={svgMatrixValues(adjustments)}
+            />
+          </filter>
+        </svg>
+      ) : null}
+      {slot ? (
+        <img
+          src={slot.url}
+          alt={slot.name}
+          className="select-none"
+          style={
+            hidePhoto ? { ...imageStyle, visibility: "hidden" } : imageStyle
+          }
+          onLoad={(event) => {
+            const size = {
+              width: event.currentTarget.naturalWidth,
+              height: event.currentTarget.naturalHeight,
+            };
+            naturalSizes.set(slot.url, size);
+            setLoaded({ url: slot.url, size });
+          }}
+          crossOrigin="anonymous"
+          draggable={false}
+        />
+      ) : (
+        <div
+          className="flex h-full w-full flex-col items-center justify-center gap-2 text-center text-xs font-medium"
+          style={{ color: "rgba(20,20,20,0.5)" }}
+        >
+          <span className="uppercase tracking-[0.3em]">{placeholder}</span>
+          <span className="text-[11px] normal-case tracking-normal">
+            {uploadHint}
+          </span>
+        </div>
+      )}
+      {adjustments && adjustments.vignette > 0 ? (
+        <div
+          className="pointer-events-none absolute inset-0"
+          style={{ backgroundImage: vignetteGradient(adjustments.vignette) }}
+        />
+      ) : null}
+      {peer && !exporting ? (
+        <PeerTag peer={peer} className="left-2 top-2" />
+      ) : null}
+      {editable ? (
+        <span id={hintId} className="sr-only" data-html2canvas-ignore>
+          {t.a11y.photoKeys}
+        </span>
+      ) : null}
+      {editable && onCropChange ? (
+        <>
+          <div
+            {...handleProps("rotate")}
+            title={t.preview.dragRotate}
+            aria-hidden
+            className="absolute right-2 top-2 z-10 h-4 w-4 cursor-grab rounded-full border border-white bg-black/50 opacity-0 shadow transition group-hover:opacity-100 group-focus-visible:opacity-100"
+          />
+          <div
+            {...handleProps("zoom")}
+            title={t.preview.dragZoom}
+            aria-hidden
+            className="absolute bottom-2 left-2 z-10 h-4 w-4 cursor-nesw-resize rounded-sm border border-white bg-black/50 opacity-0 shadow transition group-hover:opacity-100 group-focus-visible:opacity-100"
+          />
+        </>
+      ) : null}
+    </div>
+  );
+}
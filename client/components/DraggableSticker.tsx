@@ -0,0 +1,328 @@
+"use client";
+
+import type {
+  CSSProperties,
+  KeyboardEvent,
+  PointerEvent,
+  RefObject,
+} from "react";
+import { useId, useRef, useState } from "react";
+import { useAnnounce } from "@/components/Announcer";
+import { useI18n } from "@/components/I18nProvider";
+import PeerTag from "@/components/PeerTag";
+import type { Sticker, StickerBase } from "@/lib/cards";
+import type { CollabPeer } from "@/lib/collab";
+import { normalizeRotation } from "@/lib/crop";
+import { format, localize } from "@/lib/i18n";
+import { keyAction } from "@/lib/keyboard";
+import {
+  getDecoration,
+  shapeSvg,
+  stickerLabel,
+  stickerSizeRange,
+  svgDataUrl,
+} from "@/lib/stickers";
+import { resolveTextStyle, textStyleCss } from "@/lib/typography";
+import { clamp } from "@/lib/utils";
+
+export type StickerTransform = Partial<
+  Pick<StickerBase, "position" | "size" | "rotation">
+>;
+
+type DraggableStickerProps = {
+  sticker: Sticker;
+  containerRef: RefObject<HTMLDivElement | null>;
+  color: string;
+  layer: number;
+  // Right-to-left cards measure x from the right edge, so stickers swap
+  // sides along with the layout.
+  mirrored?: boolean;
+  exporting?: boolean;
+  onChange?: (transform: StickerTransform) => void;
+  onDragEnd?: () => void;
+  // Someone else in a live session is editing this sticker.
+  peer?: CollabPeer;
+};
+
+type Gesture =
+  | { kind: "move" }
+  | { kind: "scale"; distance: number; size: number }
+  | { kind: "rotate"; angle: number; rotation: number };
+
+const handleClass =
+  "absolute z-10 h-4 w-4 border border-white bg-black/50 opacity-0 shadow transition group-hover:opacity-100 group-focus-visible:opacity-100";
+
+// Size change per + or - press, as a share of the current size.
+const keySizeStep = 0.1;
+
+export default function DraggableSticker({
+  sticker,
+  containerRef,
+  color,
+  layer,
+  mirrored,
+  exporting,
+  onChange,
+  peer,
+  onDragEnd,
+}: DraggableStickerProps) {
+  const { t } = useI18n();
+  const announce = useAnnounce();
+  const hintId = `sticker-keys-${useId().replace(/[^\w-]/g, "")}`;
+  const stickerRef = useRef<HTMLDivElement | null>(null);
+  const gesture = useRef<Gesture | null>(null);
+  const [dragging, setDragging] = useState(false);
+  const editable = Boolean(onChange) && !sticker.locked && !exporting;
+
+  const center = () => {
+    const rect = stickerRef.current?.getBoundingClientRect();
+    return rect
+      ? { x: rect.left + rect.width / 2, y: rect.top + rect.height / 2 }
+      : { x: 0, y: 0 };
+  };
+
+  const updatePosition = (event: PointerEvent<HTMLDivElement>) => {
+    const container = containerRef.current;
+    if (!container) return;
+    const rect = container.getBoundingClientRect();
+    const offset = ((event.clientX - rect.left) / rect.width) * 100;
+    const x = mirrored ? 100 - offset : offset;
+    const y = ((event.clientY - rect.top) / rect.height) * 100;
+    onChange?.({ position: { x: clamp(x, 0, 100), y: clamp(y, 0, 100) } });
+  };
+
+  const start =
+    (kind: Gesture["kind"]) => (event: PointerEvent<HTMLDivElement>) => {
+      if (!editable) return;
+      event.stopPropagation();
+      event.currentTarget.setPointerCapture(event.pointerId);
+      const origin = center();
+      const dx = event.clientX - origin.x;
+      const dy = event.clientY - origin.y;
+      gesture.current =
+        kind === "move"
+          ? { kind }
+          : kind === "scale"
+            ? { kind, distance: Math.hypot(dx, dy), size: sticker.size }
+            : { kind, angle: Math.atan2(dy, dx), rotation: sticker.rotation };
+      setDragging(true);
+      if (kind === "move") updatePosition(event);
+    };
+
+  const handlePointerMove = (event: PointerEvent<HTMLDivElement>) => {
+    const current = gesture.current;
+    if (!current) return;
+    event.stopPropagation();
+    if (current.kind === "move") {
+      updatePosition(event);
+      return;
+    }
+    const origin = center();
+    const dx = event.clientX - origin.x;
+    const dy = event.clientY - origin.y;
+    if (current.kind === "scale") {
+      const range = stickerSizeRange(sticker.kind);
+      onChange?.({
+        size: Math.round(
+          clamp(
+            (current.size * Math.hypot(dx, dy)) / Math.max(1, current.distance),
+            range.min,
+            range.max,
+          ),
+        ),
+      });
+    } else {
+      onChange?.({
+        rotation: Math.round(
+          normalizeRotation(
+            current.rotation +
+              ((Math.atan2(dy, dx) - current.angle) * 180) / Math.PI,
+          ),
+        ),
+      });
+    }
+  };
+
+  const handlePointerUp = (event: PointerEvent<HTMLDivElement>) => {
+    event.stopPropagation();
+    if (gesture.current) {
+      onDragEnd?.();
+    }
+    gesture.current = null;
+    setDragging(false);
+    if (event.currentTarget.hasPointerCapture(event.pointerId)) {
+      event.currentTarget.releasePointerCapture(event.pointerId);
+    }
+  };
+
+  // Arrow keys move the sticker the way it looks on the card, which on a
+  // mirrored card is the opposite of the stored x.
+  const handleKeyDown = (event: KeyboardEvent<HTMLDivElement>) => {
+    if (!editable || event.target !== event.currentTarget) return;
+    const action = keyAction(event);
+    if (!action) return;
+    event.preventDefault();
+    const label = stickerLabel(sticker, t);
+    if (action.kind === "move") {
+      const position = {
+        x: clamp(
+          sticker.position.x + (mirrored ? -action.dx : action.dx),
+          0,
+          100,
+        ),
+        y: clamp(sticker.position.y + action.dy, 0, 100),
+      };
+      onChange?.({ position });
+      announce(
+        format(t.a11y.position, {
+          label,
+          x: Math.round(mirrored ? 100 - position.x : position.x),
+          y: Math.round(position.y),
+        }),
+      );
+    } else if (action.kind === "scale") {
+      const range = stickerSizeRange(sticker.kind);
+      const step = Math.max(1, Math.round(sticker.size * keySizeStep));
+      const size = clamp(
+        sticker.size + action.direction * step,
+        range.min,
+        range.max,
+      );
+      onChange?.({ size });
+      announce(format(t.a11y.size, { label, value: size }));
+    } else {
+      const rotation = normalizeRotation(sticker.rotation + action.degrees);
+      onChange?.({ rotation });
+      announce(format(t.a11y.rotation, { label, value: rotation }));
+    }
+  };
+
+  const gestureProps = (kind: Gesture["kind"]) => ({
+    onPointerDown: start(kind),
+    onPointerMove: handlePointerMove,
+    onPointerUp: handlePointerUp,
+    onPointerCancel: handlePointerUp,
+  });
+
+  const imageStyle: CSSProperties = {
+    width: `${sticker.size}px`,
+    maxWidth: "none",
+    height: "auto",
+    display: "block",
+  };
+
+  const content = () => {
+    switch (sticker.kind) {
+      case "text":
+        return (
+          <div
+            className="rounded-full border px-3 py-1 shadow-[0_10px_20px_rgba(0,0,0,0.18)]"
+            style={{
+              ...textStyleCss(
+                resolveTextStyle("sticker", {
+                  ...sticker.style,
+                  size: sticker.size,
+                }),
+                color,
+              ),
+              borderColor: "rgba(255,255,255,0.6)",
+              backgroundColor: "rgba(255,255,255,0.4)",
+            }}
+          >
+            {sticker.text}
+          </div>
+        );
+      case "emoji":
+        return (
+          <span style={{ fontSize: `${sticker.size}px`, lineHeight: 1 }}>
+            {sticker.emoji}
+          </span>
+        );
+      case "decoration": {
+        const decoration = getDecoration(sticker.decorationId);
+        return decoration ? (
+          <img
+            src={svgDataUrl(decoration.svg)}
+            alt={localize(t.decorations, decoration).name}
+            style={imageStyle}
+            draggable={false}
+          />
+        ) : null;
+      }
+      case "image":
+        return (
+          <img
+            src={sticker.url}
+            alt={sticker.name}
+            style={imageStyle}
+            crossOrigin="anonymous"
+            draggable={false}
+          />
+        );
+      case "shape":
+        return (
+          <img
+            src={svgDataUrl(shapeSvg(sticker.shape, color))}
+            alt={t.stickerShapes[sticker.shape]?.name ?? sticker.shape}
+            style={imageStyle}
+            draggable={false}
+          />
+        );
+    }
+  };
+
+  return (
+    <div
+      ref={stickerRef}
+      {...gestureProps("move")}
+      tabIndex={editable ? 0 : undefined}
+      role={editable ? "group" : undefined}
+      aria-roledescription={editable ? t.a11y.movableSticker : undefined}
+      aria-label={editable ? stickerLabel(sticker, t) : undefined}
+      aria-describedby={editable ? hintId : undefined}
+      onKeyDown={handleKeyDown}
+      onKeyUp={editable ? onDragEnd : undefined}
+      className={`group absolute select-none transition-[outline] ${
+        editable ? (dragging ? "cursor-grabbing" : "cursor-grab") : ""
+      }`}
+      style={{
+        left: `${mirrored ? 100 - sticker.position.x : sticker.position.x}%`,
+        top: `${sticker.position.y}%`,
+        transform: `translate(-50%, -50%) rotate(${sticker.rotation}deg)`,
+        opacity: sticker.opacity,
+        zIndex: 20 + layer,
+        outline: dragging
+          ? "2px solid rgba(0,0,0,0.4)"
+          : peer && !exporting
+            ? `2px solid ${peer.color}`
+            : undefined,
+        outlineOffset: "2px",
+        touchAction: "none",
+      }}
+    >
+      {content()}
+      {peer && !exporting ? (
+        <PeerTag peer={peer} className="-top-7 left-0" />
+      ) : null}
+      {editable ? (
+        <>
+          <span id={hintId} className="sr-only" data-html2canvas-ignore>
+            {t.a11y.stickerKeys}
+          </span>
+          <div
+            {...gestureProps("rotate")}
+            title={t.preview.dragRotate}
+            aria-hidden
+            className={`${handleClass} -right-2 -top-2 cursor-grab rounded-full`}
+          />
+          <div
+            {...gestureProps("scale")}
+            title={t.preview.dragResize}
+            aria-hidden
+            className={`${handleClass} -bottom-2 -right-2 cursor-nwse-resize rounded-sm`}
+          />
+        </>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+"use client";
+
+import type { CSSProperties } from "react";
+import { useState } from "react";
+import CardPreview from "@/components/CardPreview";
+import { useI18n } from "@/components/I18nProvider";
+import type { CardDesign } from "@/lib/cards";
+
+type FoldingCardPreviewProps = {
+  design: CardDesign;
+  width: number;
+};
+
+type View = "closed" | "open" | "back";
+
+const views: View[] = ["closed", "open", "back"];
+
+const faceStyle: CSSProperties = {
+  backfaceVisibility: "hidden",
+  WebkitBackfaceVisibility: "hidden",
+};
+
+// Read-only 3D preview of a folding card. The front cover is hinged on its
+// left edge and carries the inside-left page on its reverse, so opening it
+// reveals the inside spread; turning the card over shows the back.
+export default function FoldingCardPreview({
+  design,
+  width,
+}: FoldingCardPreviewProps) {
+  const { t } = useI18n();
+  const [view, setView] = useState<View>("closed");
+  const open = view === "open";
+  // Pages render at their normal width and are zoomed down so the open
+  // spread fits where a single page usually sits.
+  const pageStyle: CSSProperties = { width, zoom: 0.5 };
+
+  return (
+    <div>
+      <div className="flex flex-wrap gap-2">
+        {views.map((item) => (
+          <button
+            key={item}
+            type="button"
+            onClick={() => setView(item)}
+            className={`rounded-full border px-4 py-2 text-xs uppercase tracking-[0.3em] transition ${
+              view === item
+                ? "border-black/50 bg-black/5"
+                : "border-black/10 bg-white hover:border-black/30"
+            }`}
+          >
+            {t.preview[item]}
+          </button>
+        ))}
+      </div>
+      <div className="mt-4 overflow-hidden" style={{ perspective: "2400px" }}>
+        <div
+          className="relative mx-auto transition-transform duration-700 ease-out"
+          style={{
+            width: width / 2,
+            transformStyle: "preserve-3d",
+            transform: `translateX(${open ? "50%" : "0"}) rotateY(${
+              view === "back" ? 180 : 0
+            }deg)`,
+          }}
+        >
+          <div style={{ ...faceStyle, ...pageStyle }}>
+            <CardPreview design={design} pageId="insideRight" />
+          </div>
+          <div
+            className="absolute inset-0 transition-transform duration-700 ease-out"
+            style={{
+              transformOrigin: "left center",
+              transformStyle: "preserve-3d",
+              transform: `translateZ(1px) rotateY(${open ? -180 : 0}deg)`,
+            }}
+          >
+            <div className="absolute inset-0" style={faceStyle}>
+              <div style={pageStyle}>
+                <CardPreview design={design} pageId="front" />
+              </div>
+            </div>
+            <div
+              className="absolute inset-0"
+              style={{ ...faceStyle, transform: "rotateY(180deg)" }}
+            >
+              <div style={pageStyle}>
+                <CardPreview design={design} pageId="insideLeft" />
+              </div>
+            </div>
+          </div>
+          <div
+            className="absolute inset-0"
+            style={{ ...faceStyle, transform: "rotateY(180deg)" }}
+          >
+            <div style={pageStyle}>
+              <CardPreview design={design} pageId="back" />
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
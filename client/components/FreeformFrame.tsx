@@ -0,0 +1,196 @@
+"use client";
+
+import type { KeyboardEvent, PointerEvent, ReactNode } from "react";
+import { useId, useRef, useState } from "react";
+import { useAnnounce } from "@/components/Announcer";
+import { useI18n } from "@/components/I18nProvider";
+import type { PhotoFrame } from "@/lib/cards";
+import { format } from "@/lib/i18n";
+import { keyAction } from "@/lib/keyboard";
+import { clamp } from "@/lib/utils";
+
+type FreeformFrameProps = {
+  frame: PhotoFrame;
+  label: string;
+  children: ReactNode;
+  onFrameChange?: (frame: PhotoFrame) => void;
+  onDragEnd?: () => void;
+  exporting?: boolean;
+};
+
+type Gesture = {
+  mode: "move" | "resize";
+  startX: number;
+  startY: number;
+  start: PhotoFrame;
+  area: DOMRect;
+};
+
+const minSize = 10;
+
+// Positions a photo frame inside the freeform area. The photo inside keeps
+// its own drag-to-pan, so moving and resizing use separate handles.
+export default function FreeformFrame({
+  frame,
+  label,
+  children,
+  onFrameChange,
+  onDragEnd,
+  exporting,
+}: FreeformFrameProps) {
+  const { t } = useI18n();
+  const announce = useAnnounce();
+  const id = useId().replace(/[^\w-]/g, "");
+  const gesture = useRef<Gesture | null>(null);
+  const [active, setActive] = useState(false);
+  const editable = Boolean(onFrameChange) && !exporting;
+
+  const handlePointerDown =
+    (mode: Gesture["mode"]) => (event: PointerEvent<HTMLDivElement>) => {
+      const area = event.currentTarget
+        .closest("[data-frame-area]")
+        ?.getBoundingClientRect();
+      if (!area || !onFrameChange) return;
+      event.stopPropagation();
+      event.currentTarget.setPointerCapture(event.pointerId);
+      gesture.current = {
+        mode,
+        startX: event.clientX,
+        startY: event.clientY,
+        start: frame,
+        area,
+      };
+      setActive(true);
+    };
+
+  const handlePointerMove = (event: PointerEvent<HTMLDivElement>) => {
+    const current = gesture.current;
+    if (!current) return;
+    const dx = ((event.clientX - current.startX) / current.area.width) * 100;
+    const dy = ((event.clientY - current.startY) / current.area.height) * 100;
+    const { start } = current;
+    if (current.mode === "move") {
+      onFrameChange?.({
+        ...start,
+        x: clamp(start.x + dx, 0, 100 - start.width),
+        y: clamp(start.y + dy, 0, 100 - start.height),
+      });
+    } else {
+      onFrameChange?.({
+        ...start,
+        width: clamp(start.width + dx, minSize, 100 - start.x),
+        height: clamp(start.height + dy, minSize, 100 - start.y),
+      });
+    }
+  };
+
+  const handlePointerUp = (event: PointerEvent<HTMLDivElement>) => {
+    if (gesture.current) {
+      onDragEnd?.();
+    }
+    gesture.current = null;
+    setActive(false);
+    if (event.currentTarget.hasPointerCapture(event.pointerId)) {
+      event.currentTarget.releasePointerCapture(event.pointerId);
+    }
+  };
+
+  const handleKeyDown =
+    (mode: Gesture["mode"]) => (event: KeyboardEvent<HTMLDivElement>) => {
+      const action = keyAction(event);
+      if (action?.kind !== "move" || !onFrameChange) return;
+      event.preventDefault();
+      const frameLabel = format(t.a11y.frameLabel, { label });
+      if (mode === "move") {
+        const next = {
+          ...frame,
+          x: clamp(frame.x + action.dx, 0, 100 - frame.width),
+          y: clamp(frame.y + action.dy, 0, 100 - frame.height),
+        };
+        onFrameChange(next);
+        announce(
+          format(t.a11y.position, {
+            label: frameLabel,
+            x: Math.round(next.x),
+            y: Math.round(next.y),
+          }),
+        );
+      } else {
+        const next = {
+          ...frame,
+          width: clamp(frame.width + action.dx, minSize, 100 - frame.x),
+          height: clamp(frame.height + action.dy, minSize, 100 - frame.y),
+        };
+        onFrameChange(next);
+        announce(
+          format(t.a11y.frameSize, {
+            label: frameLabel,
+            width: Math.round(next.width),
+            height: Math.round(next.height),
+          }),
+        );
+      }
+    };
+
+  // Both handles are keyboard stops too: arrows move the frame from the
+  // move handle and resize it from the corner one.
+  const handleProps = (mode: Gesture["mode"]) => ({
+    onPointerDown: handlePointerDown(mode),
+    onPointerMove: handlePointerMove,
+    onPointerUp: handlePointerUp,
+    onPointerCancel: handlePointerUp,
+    onKeyDown: handleKeyDown(mode),
+    onKeyUp: onDragEnd,
+    tabIndex: 0,
+    role: "group",
+    "aria-label": format(t.a11y.frameLabel, { label }),
+    "aria-describedby": `frame-${mode}-keys-${id}`,
+    style: { touchAction: "none" as const },
+  });
+
+  return (
+    <div
+      className="absolute grid"
+      style={{
+        left: `${frame.x}%`,
+        top: `${frame.y}%`,
+        width: `${frame.width}%`,
+        height: `${frame.height}%`,
+        outline: active ? "2px dashed rgba(0,0,0,0.4)" : "none",
+        outlineOffset: "4px",
+      }}
+    >
+      {children}
+      {editable ? (
+        <>
+          <div
+            {...handleProps("move")}
+            title={t.preview.moveFrame}
+            className="absolute left-1/2 top-2 z-10 -translate-x-1/2 cursor-move rounded-full border border-white/70 bg-white/80 px-3 py-1 text-[10px] uppercase tracking-[0.2em] text-black/60 shadow"
+          >
+            {t.preview.move}
+          </div>
+          <div
+            {...handleProps("resize")}
+            title={t.preview.resizeFrame}
+            className="absolute bottom-1 right-1 z-10 h-4 w-4 cursor-nwse-resize rounded-sm border border-white/70 bg-white/80 shadow"
+          />
+          <span
+            id={`frame-move-keys-${id}`}
+            className="sr-only"
+            data-html2canvas-ignore
+          >
+            {t.a11y.frameMoveKeys}
+          </span>
+          <span
+            id={`frame-resize-keys-${id}`}
+            className="sr-only"
+            data-html2canvas-ignore
+          >
+            {t.a11y.frameResizeKeys}
+          </span>
+        </>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,163 @@
+"use client";
+
+import { useI18n } from "@/components/I18nProvider";
+import type { Contribution, ContributionStatus } from "@/lib/signing";
+import { inviteUrl } from "@/lib/signing";
+
+type GroupSigningProps = {
+  // Invites belong to a saved card, so nothing works before the first save.
+  cardId: string | null;
+  inviteToken: string | null;
+  copied: boolean;
+  contributions: Contribution[];
+  hasSignaturesPage: boolean;
+  busy: boolean;
+  onCreateInvite: () => void;
+  onCopyInvite: () => void;
+  onDisableInvite: () => void;
+  onRefresh: () => void;
+  onSetStatus: (id: string, status: ContributionStatus) => void;
+  onDelete: (id: string) => void;
+  onAddPage: () => void;
+};
+
+const linkClass =
+  "text-xs uppercase tracking-[0.2em] text-black/50 transition hover:text-black disabled:cursor-not-allowed disabled:opacity-30";
+
+// The invite link for collaborators and the notes they sent. Notes only
+// reach the card once approved here.
+export default function GroupSigning({
+  cardId,
+  inviteToken,
+  copied,
+  contributions,
+  hasSignaturesPage,
+  busy,
+  onCreateInvite,
+  onCopyInvite,
+  onDisableInvite,
+  onRefresh,
+  onSetStatus,
+  onDelete,
+  onAddPage,
+}: GroupSigningProps) {
+  const { t } = useI18n();
+
+  return (
+    <div className="grid gap-3 rounded-2xl border border-black/10 bg-white/70 px-4 py-4">
+      <div>
+        <p className="text-xs uppercase tracking-[0.25em] text-black/60">
+          {t.signing.title}
+        </p>
+        <p className="mt-1 text-xs text-black/50">
+          {cardId ? t.signing.hint : t.signing.saveFirst}
+        </p>
+      </div>
+      {cardId ? (
+        <>
+          {inviteToken ? (
+            <div className="grid gap-2 rounded-xl border border-black/10 bg-white px-3 py-2 text-xs">
+              <a
+                href={inviteUrl(inviteToken)}
+                target="_blank"
+                rel="noreferrer"
+                className="break-all text-black/80 underline"
+              >
+                {inviteUrl(inviteToken)}
+              </a>
+              <span className="flex gap-3">
+                <button onClick={onCopyInvite} className={linkClass}>
+                  {copied ? t.download.copied : t.download.copyLink}
+                </button>
+                <button
+                  onClick={onDisableInvite}
+                  disabled={busy}
+                  className={linkClass}
+                >
+                  {t.signing.disableInvite}
+                </button>
+              </span>
+            </div>
+          ) : (
+            <button
+              onClick={onCreateInvite}
+              disabled={busy}
+              className="rounded-full border border-black/20 px-4 py-3 text-xs uppercase tracking-[0.3em] text-black/70 transition hover:border-black/40 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              {t.signing.createInvite}
+            </button>
+          )}
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <span className="text-xs text-black/50">
+              {hasSignaturesPage ? t.signing.pageAdded : t.signing.noPage}
+            </span>
+            <span className="flex gap-3">
+              {hasSignaturesPage ? null : (
+                <button onClick={onAddPage} className={linkClass}>
+                  {t.signing.addPage}
+                </button>
+              )}
+              <button onClick={onRefresh} disabled={busy} className={linkClass}>
+                {t.signing.refresh}
+              </button>
+            </span>
+          </div>
+          {contributions.length ? (
+            <ul className="grid gap-2 text-xs">
+              {contributions.map((entry) => (
+                <li
+                  key={entry.id}
+                  className="grid gap-1 rounded-xl border border-black/10 bg-white px-3 py-2"
+                >
+                  <div className="flex items-center justify-between gap-3">
+                    <span
+                      className="truncate font-medium"
+                      style={{ color: entry.color ?? undefined }}
+                    >
+                      {entry.name}
+                    </span>
+                    <span className="shrink-0 uppercase tracking-[0.2em] text-black/50">
+                      {t.signing.statuses[entry.status]}
+                    </span>
+                  </div>
+                  <p className="whitespace-pre-line text-black/70">
+                    {entry.note}
+                  </p>
+                  <div className="flex gap-3">
+                    {entry.status === "approved" ? null : (
+                      <button
+                        onClick={() => onSetStatus(entry.id, "approved")}
+                        disabled={busy}
+                        className={linkClass}
+                      >
+                        {t.signing.approve}
+                      </button>
+                    )}
+                    {entry.status === "hidden" ? null : (
+                      <button
+                        onClick={() => onSetStatus(entry.id, "hidden")}
+                        disabled={busy}
+                        className={linkClass}
+                      >
+                        {t.signing.hide}
+                      </button>
+                    )}
+                    <button
+                      onClick={() => onDelete(entry.id)}
+                      disabled={busy}
+                      className={linkClass}
+                    >
+                      {t.common.delete}
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-xs text-black/50">{t.signing.empty}</p>
+          )}
+        </>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+"use client";
+
+import type { ReactNode } from "react";
+import { createContext, useContext, useEffect, useState } from "react";
+import type { Locale, LocaleId, Messages } from "@/lib/i18n";
+import {
+  defaultLocale,
+  getLocale,
+  getMessages,
+  localeCookie,
+} from "@/lib/i18n";
+
+type I18nContextValue = {
+  locale: Locale;
+  t: Messages;
+  setLocale: (id: LocaleId) => void;
+};
+
+const I18nContext = createContext<I18nContextValue>({
+  locale: defaultLocale,
+  t: getMessages(defaultLocale.id),
+  setLocale: () => {},
+});
+
+type I18nProviderProps = {
+  initialLocale: LocaleId;
+  children: ReactNode;
+};
+
+// Holds the studio's UI language. The choice is kept in a cookie so the
+// server renders the next visit in the same language and direction.
+export default function I18nProvider({
+  initialLocale,
+  children,
+}: I18nProviderProps) {
+  const [localeId, setLocaleId] = useState(initialLocale);
+  const locale = getLocale(localeId);
+
+  useEffect(() => {
+    document.documentElement.lang = locale.id;
+    document.documentElement.dir = locale.dir;
+    document.cookie = `${localeCookie}=${locale.id}; path=/; max-age=31536000; samesite=lax`;
+  }, [locale]);
+
+  return (
+    <I18nContext.Provider
+      value={{ locale, t: getMessages(locale.id), setLocale: setLocaleId }}
+    >
+      {children}
+    </I18nContext.Provider>
+  );
+}
+
+export const useI18n = () => useContext(I18nContext);
@@ -0,0 +1,118 @@
+"use client";
+
+import { useI18n } from "@/components/I18nProvider";
+import type { CollabPeer } from "@/lib/collab";
+import { liveLink } from "@/lib/collab";
+
+type LiveSessionProps = {
+  // Sessions are per saved card.
+  cardId: string | null;
+  status: "off" | "connecting" | "live";
+  peers: CollabPeer[];
+  name: string;
+  copied: boolean;
+  onNameChange: (name: string) => void;
+  onStart: () => void;
+  onLeave: () => void;
+  onCopyLink: () => void;
+};
+
+const linkClass =
+  "text-xs uppercase tracking-[0.2em] text-black/50 transition hover:text-black";
+
+// Starts or joins real-time editing of the open card and lists who else
+// is in the session.
+export default function LiveSession({
+  cardId,
+  status,
+  peers,
+  name,
+  copied,
+  onNameChange,
+  onStart,
+  onLeave,
+  onCopyLink,
+}: LiveSessionProps) {
+  const { t } = useI18n();
+
+  return (
+    <div className="grid gap-3 rounded-2xl border border-black/10 bg-white/70 px-4 py-4">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <p className="text-xs uppercase tracking-[0.25em] text-black/60">
+            {t.live.title}
+          </p>
+          <p className="mt-1 text-xs text-black/50">
+            {cardId ? t.live.hint : t.live.saveFirst}
+          </p>
+        </div>
+        {status === "off" ? null : (
+          <span className="shrink-0 text-xs uppercase tracking-[0.2em] text-black/50">
+            {status === "live" ? t.live.live : t.live.connecting}
+          </span>
+        )}
+      </div>
+      {cardId ? (
+        <>
+          <label className="grid gap-2 text-xs uppercase tracking-[0.25em] text-black/60">
+            {t.live.yourName}
+            <input
+              value={name}
+              onChange={(event) => onNameChange(event.target.value)}
+              disabled={status !== "off"}
+              maxLength={40}
+              placeholder={t.live.namePlaceholder}
+              className="rounded-2xl border border-black/10 bg-white px-4 py-3 text-sm normal-case tracking-normal text-black outline-none transition focus:border-black/40 disabled:opacity-60"
+            />
+          </label>
+          {status === "off" ? (
+            <button
+              onClick={onStart}
+              className="rounded-full border border-black/20 px-4 py-3 text-xs uppercase tracking-[0.3em] text-black/70 transition hover:border-black/40"
+            >
+              {t.live.start}
+            </button>
+          ) : (
+            <>
+              <div className="grid gap-2 rounded-xl border border-black/10 bg-white px-3 py-2 text-xs">
+                <span className="break-all text-black/80">
+                  {liveLink(cardId)}
+                </span>
+                <span className="flex gap-3">
+                  <button onClick={onCopyLink} className={linkClass}>
+                    {copied ? t.download.copied : t.download.copyLink}
+                  </button>
+                  <button onClick={onLeave} className={linkClass}>
+                    {t.live.leave}
+                  </button>
+                </span>
+              </div>
+              {status === "live" ? (
+                peers.length ? (
+                  <ul className="flex flex-wrap gap-2 text-xs">
+                    {peers.map((peer) => (
+                      <li
+                        key={peer.id}
+                        className="flex items-center gap-2 rounded-full border border-black/10 bg-white px-3 py-1"
+                      >
+                        <span
+                          aria-hidden
+                          className="h-2.5 w-2.5 rounded-full"
+                          style={{ backgroundColor: peer.color }}
+                        />
+                        {peer.name}
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  <p className="text-xs text-black/50">{t.live.alone}</p>
+                )
+              ) : null}
+              <p className="text-xs text-black/50">{t.live.saveReminder}</p>
+            </>
+          )}
+        </>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+"use client";
+
+import { useState } from "react";
+import { useI18n } from "@/components/I18nProvider";
+import { format, localize } from "@/lib/i18n";
+import type {
+  MessageTemplate,
+  SavedTemplate,
+  TemplateTone,
+  TemplateValues,
+} from "@/lib/templates";
+import { fillTemplate, messageTemplates, templateTones } from "@/lib/templates";
+
+type MessageTemplatesProps = {
+  // Card language; built-in templates are offered in it.
+  locale?: string | null;
+  values: TemplateValues;
+  savedTemplates: SavedTemplate[];
+  canSave: boolean;
+  saving: boolean;
+  onApply: (text: string) => void;
+  onSave: (name: string, tone: TemplateTone) => Promise<boolean>;
+  onDelete: (id: string) => void;
+};
+
+const linkClass =
+  "text-xs uppercase tracking-[0.2em] text-black/50 transition hover:text-black disabled:cursor-not-allowed disabled:opacity-30";
+
+export default function MessageTemplates({
+  locale,
+  values,
+  savedTemplates,
+  canSave,
+  saving,
+  onApply,
+  onSave,
+  onDelete,
+}: MessageTemplatesProps) {
+  const { t } = useI18n();
+  const [tone, setTone] = useState<TemplateTone>("heartfelt");
+  const [name, setName] = useState("");
+
+  const templates: (MessageTemplate | SavedTemplate)[] = [
+    ...messageTemplates(locale),
+    ...savedTemplates,
+  ].filter((template) => template.tone === tone);
+
+  const handleSave = async () => {
+    if (await onSave(name.trim(), tone)) {
+      setName("");
+    }
+  };
+
+  return (
+    <div className="grid gap-3">
+      <div className="flex flex-wrap gap-2">
+        {templateTones.map((item) => (
+          <button
+            key={item.id}
+            onClick={() => setTone(item.id)}
+            className={`rounded-full border px-3 py-1 text-[11px] uppercase tracking-[0.2em] transition ${
+              tone === item.id
+                ? "border-black/50 bg-black/5"
+                : "border-black/10 bg-white"
+            }`}
+          >
+            {localize(t.templateTones, item).name}
+          </button>
+        ))}
+      </div>
+      <div className="grid max-h-64 gap-2 overflow-y-auto">
+        {templates.map((template) => (
+          <div
+            key={template.id}
+            className="rounded-2xl border border-black/10 bg-white px-4 py-3 transition hover:border-black/40"
+          >
+            <div className="flex items-center justify-between gap-3">
+              <button
+                onClick={() => onApply(template.text)}
+                className="text-start text-xs uppercase tracking-[0.2em] text-black/70"
+              >
+                {"createdAt" in template
+                  ? template.name
+                  : (t.templates[template.id]?.name ?? template.name)}
+              </button>
+              {"createdAt" in template ? (
+                <button
+                  onClick={() => onDelete(template.id)}
+                  className={linkClass}
+                >
+                  {t.common.delete}
+                </button>
+              ) : null}
+            </div>
+            <button
+              onClick={() => onApply(template.text)}
+              className="mt-1 text-start text-xs text-black/60"
+            >
+              {fillTemplate(template.text, values)}
+            </button>
+          </div>
+        ))}
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          value={name}
+          onChange={(event) => setName(event.target.value)}
+          placeholder={t.details.templateName}
+          maxLength={40}
+          className="min-w-0 flex-1 rounded-full border border-black/10 bg-white px-4 py-2 text-xs outline-none transition focus:border-black/40"
+        />
+        <button
+          onClick={handleSave}
+          disabled={!canSave || !name.trim() || saving}
+          className={linkClass}
+        >
+          {saving
+            ? t.common.saving
+            : format(t.details.saveTemplate, {
+                tone: t.templateTones[tone]?.name,
+              })}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,20 @@
+import type { CollabPeer } from "@/lib/collab";
+
+type PeerTagProps = {
+  peer: Pick<CollabPeer, "name" | "color">;
+  className?: string;
+};
+
+// Name label for a collaborator's cursor or the element they are editing.
+// Left out of exports like the rest of the editing chrome.
+export default function PeerTag({ peer, className }: PeerTagProps) {
+  return (
+    <span
+      data-html2canvas-ignore
+      className={`pointer-events-none absolute z-30 whitespace-nowrap rounded-full px-2 py-0.5 text-[10px] font-semibold normal-case tracking-normal text-white shadow ${className ?? ""}`}
+      style={{ backgroundColor: peer.color }}
+    >
+      {peer.name}
+    </span>
+  );
+}
@@ -0,0 +1,105 @@
+"use client";
+
+import { useI18n } from "@/components/I18nProvider";
+import RangeField from "@/components/RangeField";
+import type { PhotoAdjustments, PhotoFrameStyle, PhotoSlot } from "@/lib/cards";
+import { defaultAdjustments, filterPresets, frameStyles } from "@/lib/filters";
+import { localize } from "@/lib/i18n";
+
+type PhotoAdjustPanelProps = {
+  slot: PhotoSlot;
+  onAdjust: (updates: Partial<PhotoAdjustments>) => void;
+  onPreset: (adjustments: PhotoAdjustments) => void;
+  onFrameStyleChange: (style: PhotoFrameStyle | undefined) => void;
+  onCommit: () => void;
+};
+
+const optionClass = (selected: boolean) =>
+  `rounded-full border px-3 py-1 text-[11px] uppercase tracking-[0.2em] transition ${
+    selected ? "border-black/50 bg-black/5" : "border-black/10 bg-white"
+  }`;
+
+export default function PhotoAdjustPanel({
+  slot,
+  onAdjust,
+  onPreset,
+  onFrameStyleChange,
+  onCommit,
+}: PhotoAdjustPanelProps) {
+  const { t } = useI18n();
+  const adjustments = slot.adjustments ?? defaultAdjustments;
+  const activePreset = filterPresets.find((preset) =>
+    (Object.keys(preset.adjustments) as (keyof PhotoAdjustments)[]).every(
+      (key) => preset.adjustments[key] === adjustments[key],
+    ),
+  );
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex flex-wrap gap-2">
+        {filterPresets.map((preset) => (
+          <button
+            key={preset.id}
+            onClick={() => onPreset(preset.adjustments)}
+            className={optionClass(activePreset?.id === preset.id)}
+          >
+            {localize(t.filterPresets, preset).name}
+          </button>
+        ))}
+      </div>
+      <div className="flex flex-col gap-1">
+        <RangeField
+          label={t.photos.bright}
+          value={adjustments.brightness}
+          min={50}
+          max={150}
+          onChange={(brightness) => onAdjust({ brightness })}
+          onCommit={onCommit}
+        />
+        <RangeField
+          label={t.photos.contrast}
+          value={adjustments.contrast}
+          min={50}
+          max={150}
+          onChange={(contrast) => onAdjust({ contrast })}
+          onCommit={onCommit}
+        />
+        <RangeField
+          label={t.photos.saturate}
+          value={adjustments.saturation}
+          max={200}
+          onChange={(saturation) => onAdjust({ saturation })}
+          onCommit={onCommit}
+        />
+        <RangeField
+          label={t.photos.warmth}
+          value={adjustments.warmth}
+          min={-100}
+          suffix=""
+          onChange={(warmth) => onAdjust({ warmth })}
+          onCommit={onCommit}
+        />
+        <RangeField
+          label={t.photos.vignette}
+          value={adjustments.vignette}
+          onChange={(vignette) => onAdjust({ vignette })}
+          onCommit={onCommit}
+        />
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-[11px] uppercase tracking-[0.2em] text-black/50">
+          {t.photos.frame}
+        </span>
+        {frameStyles.map((style) => (
+          <button
+            key={style.name}
+            onClick={() => onFrameStyleChange(style.id ?? undefined)}
+            className={optionClass((slot.frameStyle ?? null) === style.id)}
+          >
+            {localize(t.frameStyles, style).name}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
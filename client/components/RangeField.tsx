@@ -0,0 +1,45 @@
+"use client";
+
+type RangeFieldProps = {
+  label: string;
+  value: number;
+  min?: number;
+  max?: number;
+  step?: number;
+  suffix?: string;
+  onChange: (value: number) => void;
+  // Called when a drag on the slider ends, to close an undo group.
+  onCommit?: () => void;
+};
+
+export default function RangeField({
+  label,
+  value,
+  min = 0,
+  max = 100,
+  step,
+  suffix = "%",
+  onChange,
+  onCommit,
+}: RangeFieldProps) {
+  return (
+    <label className="flex items-center gap-2 text-xs text-black/60">
+      <span className="w-16">{label}</span>
+      <input
+        type="range"
+        min={min}
+        max={max}
+        step={step}
+        value={value}
+        onChange={(event) => onChange(Number(event.target.value))}
+        onPointerUp={onCommit}
+        onBlur={onCommit}
+        className="w-28 accent-black"
+      />
+      <span className="w-10 text-end">
+        {value}
+        {suffix}
+      </span>
+    </label>
+  );
+}
@@ -0,0 +1,99 @@
+"use client";
+
+import type { KeyboardEvent } from "react";
+import { useEffect, useRef } from "react";
+import { useI18n } from "@/components/I18nProvider";
+
+type ShortcutMapProps = {
+  onClose: () => void;
+};
+
+// Lists every keyboard shortcut in the editor. Opens with "?" or the
+// Shortcuts button and hands focus back to where it came from on close.
+export default function ShortcutMap({ onClose }: ShortcutMapProps) {
+  const { t } = useI18n();
+  const closeRef = useRef<HTMLButtonElement | null>(null);
+
+  useEffect(() => {
+    const previous = document.activeElement;
+    closeRef.current?.focus();
+    return () => {
+      if (previous instanceof HTMLElement) previous.focus();
+    };
+  }, []);
+
+  const shortcuts: { keys: string[]; label: string }[] = [
+    { keys: ["Ctrl/Cmd", "Z"], label: t.shortcuts.undo },
+    { keys: ["Ctrl/Cmd", "Shift", "Z"], label: t.shortcuts.redo },
+    { keys: ["←", "↑", "→", "↓"], label: t.shortcuts.move },
+    { keys: ["Shift", "←↑→↓"], label: t.shortcuts.bigStep },
+    { keys: ["+", "-"], label: t.shortcuts.scale },
+    { keys: ["[", "]"], label: t.shortcuts.rotate },
+    { keys: ["Shift", "[", "]"], label: t.shortcuts.rotateBig },
+    { keys: ["?"], label: t.shortcuts.show },
+    { keys: ["Esc"], label: t.shortcuts.close },
+  ];
+
+  // The close button is the only stop inside, so Tab stays on it.
+  const handleKeyDown = (event: KeyboardEvent<HTMLDivElement>) => {
+    if (event.key === "Escape") {
+      event.stopPropagation();
+      onClose();
+    } else if (event.key === "Tab") {
+      event.preventDefault();
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/30 px-4"
+      onClick={onClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="shortcut-map-title"
+        aria-describedby="shortcut-map-hint"
+        onKeyDown={handleKeyDown}
+        onClick={(event) => event.stopPropagation()}
+        className="w-full max-w-md rounded-[28px] border border-black/10 bg-white px-6 py-6 shadow-[0_24px_50px_rgba(0,0,0,0.08)]"
+      >
+        <div className="flex items-start justify-between gap-4">
+          <h2 id="shortcut-map-title" className="text-lg font-semibold">
+            {t.shortcuts.title}
+          </h2>
+          <button
+            ref={closeRef}
+            onClick={onClose}
+            className="text-xs uppercase tracking-[0.2em] text-black/50 transition hover:text-black"
+          >
+            {t.common.close}
+          </button>
+        </div>
+        <p id="shortcut-map-hint" className="mt-2 text-xs text-black/60">
+          {t.shortcuts.hint}
+        </p>
+        <dl className="mt-4 grid gap-2 text-xs">
+          {shortcuts.map((shortcut) => (
+            <div
+              key={shortcut.label}
+              className="flex items-center justify-between gap-4"
+            >
+              <dt className="flex flex-wrap gap-1" dir="ltr">
+                {shortcut.keys.map((key) => (
+                  <kbd
+                    key={key}
+                    className="rounded-md border border-black/20 bg-black/5 px-2 py-0.5 font-sans text-[11px]"
+                  >
+                    {key}
+                  </kbd>
+                ))}
+              </dt>
+              <dd className="text-end text-black/70">{shortcut.label}</dd>
+            </div>
+          ))}
+        </dl>
+      </div>
+    </div>
+  );
+}
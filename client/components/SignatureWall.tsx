@@ -0,0 +1,63 @@
+import type { Signature } from "@/lib/cards";
+
+type SignatureWallProps = {
+  signatures: Signature[];
+  placeholder: string;
+  accent: string;
+};
+
+// More notes get more columns and smaller type so they all fit the page.
+const flowFor = (count: number) => ({
+  columns: count > 8 ? 3 : count > 3 ? 2 : 1,
+  fontSize: Math.max(9, 16 - Math.floor(count / 3)),
+});
+
+// The approved group-signing notes, flowed into columns like the inside of
+// a passed-around card.
+export default function SignatureWall({
+  signatures,
+  placeholder,
+  accent,
+}: SignatureWallProps) {
+  if (!signatures.length) {
+    return (
+      <div
+        className="flex h-full items-center justify-center rounded-2xl border border-dashed px-3 py-3 text-center text-xs uppercase tracking-[0.3em]"
+        style={{ borderColor: accent, color: "rgba(20,20,20,0.5)" }}
+      >
+        {placeholder}
+      </div>
+    );
+  }
+
+  const { columns, fontSize } = flowFor(signatures.length);
+  return (
+    <div
+      className="h-full overflow-hidden"
+      style={{ columnCount: columns, columnGap: "1.25rem", fontSize }}
+    >
+      {signatures.map((signature) => (
+        <figure
+          key={signature.id}
+          className="mb-3 break-inside-avoid"
+          style={{ color: signature.color ?? "rgba(20,20,20,0.85)" }}
+        >
+          <blockquote className="whitespace-pre-line leading-snug">
+            {signature.note}
+          </blockquote>
+          <figcaption className="mt-1 flex items-center gap-2 text-[0.8em] font-semibold">
+            {signature.photoUrl ? (
+              <img
+                src={signature.photoUrl}
+                alt=""
+                crossOrigin="anonymous"
+                className="h-[2em] w-[2em] shrink-0 rounded-full object-cover"
+              />
+            ) : null}
+            <span className="truncate">{signature.name}</span>
+          </figcaption>
+        </figure>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,174 @@
+"use client";
+
+import { useState } from "react";
+import { useI18n } from "@/components/I18nProvider";
+import RangeField from "@/components/RangeField";
+import TypographyControls from "@/components/TypographyControls";
+import type { Sticker, StickerBase, TextSticker } from "@/lib/cards";
+import { stickerLabel, stickerSizeRange } from "@/lib/stickers";
+import { resolveTextStyle } from "@/lib/typography";
+
+export type StickerPatch = Partial<
+  Pick<StickerBase, "position" | "size" | "rotation" | "opacity" | "locked">
+> &
+  Partial<Pick<TextSticker, "text" | "tone" | "style">>;
+
+type StickerControlsProps = {
+  sticker: Sticker;
+  index: number;
+  count: number;
+  onChange: (patch: StickerPatch, group?: string) => void;
+  onCommit: () => void;
+  onMove: (offset: -1 | 1) => void;
+  onDuplicate: () => void;
+  onRemove: () => void;
+};
+
+const linkClass =
+  "text-xs uppercase tracking-[0.2em] text-black/50 transition hover:text-black disabled:cursor-not-allowed disabled:opacity-30";
+
+export default function StickerControls({
+  sticker,
+  index,
+  count,
+  onChange,
+  onCommit,
+  onMove,
+  onDuplicate,
+  onRemove,
+}: StickerControlsProps) {
+  const { t } = useI18n();
+  const range = stickerSizeRange(sticker.kind);
+  const [styling, setStyling] = useState(false);
+
+  return (
+    <div className="rounded-2xl border border-black/10 bg-white/80 px-4 py-4">
+      <div className="flex items-center justify-between gap-3">
+        <p className="truncate text-xs uppercase tracking-[0.25em] text-black/60">
+          {index + 1}. {stickerLabel(sticker, t)}
+        </p>
+        <button onClick={onRemove} className={linkClass}>
+          {t.common.remove}
+        </button>
+      </div>
+      <div className="mt-2 flex flex-wrap gap-3">
+        <button
+          onClick={() => onMove(1)}
+          disabled={index === count - 1}
+          className={linkClass}
+        >
+          {t.stickers.forward}
+        </button>
+        <button
+          onClick={() => onMove(-1)}
+          disabled={index === 0}
+          className={linkClass}
+        >
+          {t.stickers.back}
+        </button>
+        <button onClick={onDuplicate} className={linkClass}>
+          {t.stickers.duplicate}
+        </button>
+        <button
+          onClick={() => onChange({ locked: !sticker.locked })}
+          className={linkClass}
+        >
+          {sticker.locked ? t.stickers.unlock : t.stickers.lock}
+        </button>
+      </div>
+      <div className="mt-3 grid gap-3">
+        {sticker.kind === "text" ? (
+          <input
+            value={sticker.text}
+            onChange={(event) =>
+              onChange(
+                { text: event.target.value },
+                `sticker-text-${sticker.id}`,
+              )
+            }
+            onBlur={onCommit}
+            placeholder={t.stickers.textPlaceholder}
+            className="rounded-2xl border border-black/10 bg-white px-4 py-2 text-sm outline-none transition focus:border-black/40"
+          />
+        ) : null}
+        <div className="flex flex-col gap-1">
+          <RangeField
+            label={t.stickers.size}
+            value={sticker.size}
+            min={range.min}
+            max={range.max}
+            suffix="px"
+            onChange={(size) =>
+              onChange({ size }, `sticker-size-${sticker.id}`)
+            }
+            onCommit={onCommit}
+          />
+          <RangeField
+            label={t.stickers.rotate}
+            value={sticker.rotation}
+            min={-180}
+            max={180}
+            suffix="°"
+            onChange={(rotation) =>
+              onChange({ rotation }, `sticker-rotation-${sticker.id}`)
+            }
+            onCommit={onCommit}
+          />
+          <RangeField
+            label={t.stickers.opacity}
+            value={Math.round(sticker.opacity * 100)}
+            min={10}
+            onChange={(opacity) =>
+              onChange(
+                { opacity: opacity / 100 },
+                `sticker-opacity-${sticker.id}`,
+              )
+            }
+            onCommit={onCommit}
+          />
+        </div>
+        {sticker.kind === "text" ? (
+          <>
+            <button
+              onClick={() => setStyling((prev) => !prev)}
+              className={`${linkClass} self-start`}
+            >
+              {styling ? t.stickers.hideTextStyle : t.stickers.textStyle}
+            </button>
+            {styling ? (
+              <TypographyControls
+                style={resolveTextStyle("sticker", sticker.style)}
+                defaultColor="#1b1b1b"
+                showSize={false}
+                group={`sticker-style-${sticker.id}`}
+                onChange={(patch, group) =>
+                  onChange({ style: { ...sticker.style, ...patch } }, group)
+                }
+                onCommit={onCommit}
+                onReset={() => onChange({ style: undefined })}
+              />
+            ) : null}
+          </>
+        ) : null}
+        {sticker.kind === "text" || sticker.kind === "shape" ? (
+          <div className="flex items-center gap-3 text-xs">
+            <span className="text-black/60">{t.stickers.tone}</span>
+            {(["accent", "ink"] as const).map((tone) => (
+              <button
+                key={tone}
+                onClick={() => onChange({ tone })}
+                className={`rounded-full border px-3 py-1 uppercase tracking-[0.2em] ${
+                  sticker.tone === tone
+                    ? "border-black/40 bg-black/5"
+                    : "border-black/10 bg-white"
+                }`}
+              >
+                {tone === "accent" ? t.stickers.accent : t.stickers.ink}
+              </button>
+            ))}
+          </div>
+        ) : null}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,138 @@
+"use client";
+
+import { useI18n } from "@/components/I18nProvider";
+import { localize } from "@/lib/i18n";
+import type { StickerContent } from "@/lib/stickers";
+import {
+  decorationPacks,
+  emojiStickers,
+  shapeSvg,
+  stickerShapes,
+  svgDataUrl,
+} from "@/lib/stickers";
+
+type StickerPickerProps = {
+  accent: string;
+  // Starting text for new text stickers, in the card's language.
+  defaultText: string;
+  disabled: boolean;
+  uploading: boolean;
+  onAdd: (content: StickerContent) => void;
+  onUpload: (file: File) => void;
+};
+
+const tileClass =
+  "flex h-12 w-12 items-center justify-center rounded-2xl border border-black/10 bg-white transition hover:border-black/40 disabled:cursor-not-allowed disabled:opacity-50";
+
+export default function StickerPicker({
+  accent,
+  defaultText,
+  disabled,
+  uploading,
+  onAdd,
+  onUpload,
+}: StickerPickerProps) {
+  const { t } = useI18n();
+  return (
+    <div className="grid gap-4">
+      <div>
+        <p className="text-xs uppercase tracking-[0.25em] text-black/60">
+          {t.stickers.emoji}
+        </p>
+        <div className="mt-2 flex flex-wrap gap-2">
+          {emojiStickers.map((emoji) => (
+            <button
+              key={emoji}
+              onClick={() => onAdd({ kind: "emoji", emoji })}
+              disabled={disabled}
+              className={`${tileClass} text-2xl`}
+            >
+              {emoji}
+            </button>
+          ))}
+        </div>
+      </div>
+      {decorationPacks.map((pack) => (
+        <div key={pack.id}>
+          <p className="text-xs uppercase tracking-[0.25em] text-black/60">
+            {localize(t.stickerPacks, pack).name}
+          </p>
+          <div className="mt-2 flex flex-wrap gap-2">
+            {pack.items.map((item) => (
+              <button
+                key={item.id}
+                title={localize(t.decorations, item).name}
+                onClick={() =>
+                  onAdd({ kind: "decoration", decorationId: item.id })
+                }
+                disabled={disabled}
+                className={tileClass}
+              >
+                <img
+                  src={svgDataUrl(item.svg)}
+                  alt={localize(t.decorations, item).name}
+                  className="max-h-9 max-w-9"
+                />
+              </button>
+            ))}
+          </div>
+        </div>
+      ))}
+      <div>
+        <p className="text-xs uppercase tracking-[0.25em] text-black/60">
+          {t.stickers.shapes}
+        </p>
+        <div className="mt-2 flex flex-wrap gap-2">
+          {stickerShapes.map((shape) => (
+            <button
+              key={shape.id}
+              title={localize(t.stickerShapes, shape).name}
+              onClick={() =>
+                onAdd({ kind: "shape", shape: shape.id, tone: "accent" })
+              }
+              disabled={disabled}
+              className={tileClass}
+            >
+              <img
+                src={svgDataUrl(shapeSvg(shape.id, accent))}
+                alt={localize(t.stickerShapes, shape).name}
+                className="h-7 w-7"
+              />
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          onClick={() =>
+            onAdd({ kind: "text", text: defaultText, tone: "accent" })
+          }
+          disabled={disabled}
+          className="rounded-full border border-black/20 px-4 py-3 text-xs uppercase tracking-[0.3em] text-black/70 transition hover:border-black/40 disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          {t.stickers.addText}
+        </button>
+        <label
+          className={`rounded-full border border-black/20 px-4 py-3 text-xs uppercase tracking-[0.3em] text-black/70 transition hover:border-black/40 ${
+            disabled || uploading
+              ? "pointer-events-none opacity-50"
+              : "cursor-pointer"
+          }`}
+        >
+          {uploading ? t.common.uploading : t.stickers.uploadPng}
+          <input
+            type="file"
+            accept="image/png,image/webp,image/gif"
+            className="hidden"
+            disabled={disabled || uploading}
+            onChange={(event) => {
+              const file = event.target.files?.[0];
+              event.target.value = "";
+              if (file) onUpload(file);
+            }}
+          />
+        </label>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,301 @@
+"use client";
+
+import { useI18n } from "@/components/I18nProvider";
+import RangeField from "@/components/RangeField";
+import { format } from "@/lib/i18n";
+import type { ThemeDraft, ThemeSpec } from "@/lib/themes";
+import {
+  accentContrast,
+  maxThemeHighlights,
+  maxThemeStops,
+  minimumAaContrast,
+} from "@/lib/themes";
+
+type ThemeEditorProps = {
+  draft: ThemeDraft;
+  isNew: boolean;
+  saving: boolean;
+  uploadingImage: boolean;
+  onChange: (draft: ThemeDraft) => void;
+  onSave: () => void;
+  onCancel: () => void;
+  onDelete: () => void;
+  onExport: () => void;
+  onUploadImage: (file: File) => void;
+};
+
+const colorInputClass =
+  "h-8 w-10 cursor-pointer rounded-lg border border-black/10 bg-white";
+
+const linkButtonClass =
+  "text-xs uppercase tracking-[0.2em] text-black/50 transition hover:text-black disabled:cursor-not-allowed disabled:opacity-50";
+
+export default function ThemeEditor({
+  draft,
+  isNew,
+  saving,
+  uploadingImage,
+  onChange,
+  onSave,
+  onCancel,
+  onDelete,
+  onExport,
+  onUploadImage,
+}: ThemeEditorProps) {
+  const { t } = useI18n();
+  const { spec } = draft;
+  const contrast = accentContrast(spec);
+
+  const updateSpec = (updates: Partial<ThemeSpec>) =>
+    onChange({ ...draft, spec: { ...spec, ...updates } });
+
+  const updateStop = (index: number, updates: Partial<ThemeSpec["stops"][0]>) =>
+    updateSpec({
+      stops: spec.stops.map((stop, stopIndex) =>
+        stopIndex === index ? { ...stop, ...updates } : stop,
+      ),
+    });
+
+  const updateHighlight = (
+    index: number,
+    updates: Partial<ThemeSpec["highlights"][0]>,
+  ) =>
+    updateSpec({
+      highlights: spec.highlights.map((highlight, highlightIndex) =>
+        highlightIndex === index ? { ...highlight, ...updates } : highlight,
+      ),
+    });
+
+  return (
+    <div className="grid gap-4 rounded-2xl border border-black/10 bg-white/70 px-4 py-4">
+      <div className="flex items-center justify-between gap-3">
+        <p className="text-xs uppercase tracking-[0.25em] text-black/60">
+          {isNew ? t.themeEditor.newTitle : t.themeEditor.editTitle}
+        </p>
+        <button onClick={onCancel} className={linkButtonClass}>
+          {t.common.close}
+        </button>
+      </div>
+      <input
+        value={draft.name}
+        onChange={(event) => onChange({ ...draft, name: event.target.value })}
+        placeholder={t.themeEditor.namePlaceholder}
+        maxLength={40}
+        className="rounded-2xl border border-black/10 bg-white px-4 py-2 text-sm outline-none transition focus:border-black/40"
+      />
+
+      <div className="grid gap-2">
+        <p className="text-xs uppercase tracking-[0.25em] text-black/60">
+          {t.themeEditor.gradient}
+        </p>
+        <RangeField
+          label={t.themeEditor.angle}
+          value={spec.angle}
+          max={360}
+          suffix="°"
+          onChange={(angle) => updateSpec({ angle })}
+        />
+        {spec.stops.map((stop, index) => (
+          <div key={`stop-${index}`} className="flex items-center gap-3">
+            <input
+              type="color"
+              value={stop.color}
+              onChange={(event) =>
+                updateStop(index, { color: event.target.value })
+              }
+              aria-label={format(t.themeEditor.stopColor, {
+                number: index + 1,
+              })}
+              className={colorInputClass}
+            />
+            <RangeField
+              label={format(t.themeEditor.stop, { number: index + 1 })}
+              value={stop.position}
+              onChange={(position) => updateStop(index, { position })}
+            />
+            {spec.stops.length > 2 ? (
+              <button
+                onClick={() =>
+                  updateSpec({
+                    stops: spec.stops.filter(
+                      (_, stopIndex) => stopIndex !== index,
+                    ),
+                  })
+                }
+                className={linkButtonClass}
+              >
+                {t.common.remove}
+              </button>
+            ) : null}
+          </div>
+        ))}
+        <button
+          onClick={() =>
+            updateSpec({
+              stops: [...spec.stops, { color: "#ffffff", position: 100 }],
+            })
+          }
+          disabled={spec.stops.length >= maxThemeStops}
+          className={`self-start ${linkButtonClass}`}
+        >
+          {t.themeEditor.addStop}
+        </button>
+      </div>
+
+      <div className="grid gap-2">
+        <p className="text-xs uppercase tracking-[0.25em] text-black/60">
+          {t.themeEditor.highlights}
+        </p>
+        {spec.highlights.map((highlight, index) => (
+          <div
+            key={`highlight-${index}`}
+            className="grid gap-2 rounded-2xl border border-black/10 bg-white px-3 py-3"
+          >
+            <div className="flex items-center justify-between gap-3">
+              <input
+                type="color"
+                value={highlight.color}
+                onChange={(event) =>
+                  updateHighlight(index, { color: event.target.value })
+                }
+                aria-label={format(t.themeEditor.highlightColor, {
+                  number: index + 1,
+                })}
+                className={colorInputClass}
+              />
+              <button
+                onClick={() =>
+                  updateSpec({
+                    highlights: spec.highlights.filter(
+                      (_, highlightIndex) => highlightIndex !== index,
+                    ),
+                  })
+                }
+                className={linkButtonClass}
+              >
+                {t.common.remove}
+              </button>
+            </div>
+            <RangeField
+              label={t.themeEditor.left}
+              value={highlight.x}
+              onChange={(x) => updateHighlight(index, { x })}
+            />
+            <RangeField
+              label={t.themeEditor.top}
+              value={highlight.y}
+              onChange={(y) => updateHighlight(index, { y })}
+            />
+            <RangeField
+              label={t.themeEditor.size}
+              value={highlight.size}
+              onChange={(size) => updateHighlight(index, { size })}
+            />
+            <RangeField
+              label={t.themeEditor.opacity}
+              value={highlight.opacity}
+              onChange={(opacity) => updateHighlight(index, { opacity })}
+            />
+          </div>
+        ))}
+        <button
+          onClick={() =>
+            updateSpec({
+              highlights: [
+                ...spec.highlights,
+                { color: "#ffffff", x: 80, y: 15, size: 50, opacity: 50 },
+              ],
+            })
+          }
+          disabled={spec.highlights.length >= maxThemeHighlights}
+          className={`self-start ${linkButtonClass}`}
+        >
+          {t.themeEditor.addHighlight}
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4 text-xs text-black/60">
+        <label className="flex items-center gap-2">
+          <input
+            type="color"
+            value={spec.accent}
+            onChange={(event) => updateSpec({ accent: event.target.value })}
+            className={colorInputClass}
+          />
+          {t.themeEditor.accent}
+        </label>
+        <label className="flex items-center gap-2">
+          <input
+            type="color"
+            value={spec.shadowColor}
+            onChange={(event) =>
+              updateSpec({ shadowColor: event.target.value })
+            }
+            className={colorInputClass}
+          />
+          {t.themeEditor.shadow}
+        </label>
+      </div>
+
+      <div className="grid gap-2">
+        <p className="text-xs uppercase tracking-[0.25em] text-black/60">
+          {t.themeEditor.backgroundImage}
+        </p>
+        <div className="flex flex-wrap items-center gap-3">
+          <input
+            type="file"
+            accept="image/jpeg,image/png,image/webp,image/gif"
+            onChange={(event) => {
+              const file = event.target.files?.[0];
+              if (file) onUploadImage(file);
+              event.target.value = "";
+            }}
+            disabled={uploadingImage}
+            className="text-xs text-black/70"
+          />
+          {spec.imageUrl ? (
+            <button
+              onClick={() => updateSpec({ imageUrl: null })}
+              className={linkButtonClass}
+            >
+              {t.themeEditor.removeImage}
+            </button>
+          ) : null}
+        </div>
+        {uploadingImage ? (
+          <p className="text-xs text-black/60">{t.common.uploading}</p>
+        ) : null}
+      </div>
+
+      <p
+        className={`text-xs ${
+          contrast < minimumAaContrast ? "text-amber-700" : "text-black/60"
+        }`}
+      >
+        {format(t.themeEditor.contrast, { ratio: contrast.toFixed(2) })}{" "}
+        {contrast < minimumAaContrast
+          ? format(t.themeEditor.contrastFails, { minimum: minimumAaContrast })
+          : t.themeEditor.contrastPasses}
+        {spec.imageUrl ? ` ${t.themeEditor.contrastImage}` : ""}
+      </p>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          onClick={onSave}
+          disabled={saving || !draft.name.trim()}
+          className="rounded-full border border-black/20 px-4 py-3 text-xs uppercase tracking-[0.3em] text-black/70 transition hover:border-black/40 disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          {saving ? t.common.saving : t.themeEditor.save}
+        </button>
+        <button onClick={onExport} className={linkButtonClass}>
+          {t.themeEditor.exportJson}
+        </button>
+        {!isNew ? (
+          <button onClick={onDelete} className={linkButtonClass}>
+            {t.common.delete}
+          </button>
+        ) : null}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,182 @@
+"use client";
+
+import { useI18n } from "@/components/I18nProvider";
+import RangeField from "@/components/RangeField";
+import type { TextStyle } from "@/lib/cards";
+import { fontFamilies, getFontFamily } from "@/lib/typography";
+
+type TypographyControlsProps = {
+  style: TextStyle;
+  // Shown in the colour picker while the text keeps its default colour.
+  defaultColor: string;
+  // Text stickers size themselves with their own handle.
+  showSize?: boolean;
+  // Prefix for undo groups so slider drags collapse into one step.
+  group: string;
+  onChange: (patch: Partial<TextStyle>, group?: string) => void;
+  onCommit: () => void;
+  onReset: () => void;
+};
+
+const selectClass =
+  "rounded-full border border-black/20 bg-white px-3 py-1 outline-none";
+
+const colorInputClass =
+  "h-8 w-10 cursor-pointer rounded-lg border border-black/10 bg-white";
+
+const linkClass =
+  "text-xs uppercase tracking-[0.2em] text-black/50 transition hover:text-black";
+
+export default function TypographyControls({
+  style,
+  defaultColor,
+  showSize = true,
+  group,
+  onChange,
+  onCommit,
+  onReset,
+}: TypographyControlsProps) {
+  const { t } = useI18n();
+  const family = getFontFamily(style.fontId);
+  const alignLabels = {
+    left: t.typography.alignLeft,
+    center: t.typography.alignCenter,
+    right: t.typography.alignRight,
+  };
+
+  return (
+    <div className="grid gap-3">
+      <div className="flex flex-wrap items-center gap-3 text-xs text-black/60">
+        <label className="flex items-center gap-2">
+          {t.typography.font}
+          <select
+            value={family.id}
+            onChange={(event) => onChange({ fontId: event.target.value })}
+            className={selectClass}
+            style={{ fontFamily: `"${family.name}", ${family.fallback}` }}
+          >
+            {fontFamilies.map((item) => (
+              <option key={item.id} value={item.id}>
+                {item.name}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2">
+          {t.typography.weight}
+          <select
+            value={style.weight}
+            onChange={(event) =>
+              onChange({ weight: Number(event.target.value) })
+            }
+            disabled={family.faces.length < 2}
+            className={selectClass}
+          >
+            {family.faces.map((face) => (
+              <option key={face.weight} value={face.weight}>
+                {face.weight}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        {(["left", "center", "right"] as const).map((align) => (
+          <button
+            key={align}
+            onClick={() => onChange({ align })}
+            className={`rounded-full border px-3 py-1 text-[11px] uppercase tracking-[0.2em] transition ${
+              style.align === align
+                ? "border-black/50 bg-black/5"
+                : "border-black/10 bg-white"
+            }`}
+          >
+            {alignLabels[align]}
+          </button>
+        ))}
+      </div>
+      <div className="flex flex-col gap-1">
+        {showSize ? (
+          <RangeField
+            label={t.typography.size}
+            value={style.size}
+            min={8}
+            max={64}
+            suffix="px"
+            onChange={(size) => onChange({ size }, `${group}-size`)}
+            onCommit={onCommit}
+          />
+        ) : null}
+        <RangeField
+          label={t.typography.leading}
+          value={Math.round(style.lineHeight * 100)}
+          min={80}
+          max={250}
+          onChange={(value) =>
+            onChange({ lineHeight: value / 100 }, `${group}-leading`)
+          }
+          onCommit={onCommit}
+        />
+        <RangeField
+          label={t.typography.tracking}
+          value={Math.round(style.letterSpacing * 100)}
+          min={-10}
+          max={60}
+          onChange={(value) =>
+            onChange({ letterSpacing: value / 100 }, `${group}-tracking`)
+          }
+          onCommit={onCommit}
+        />
+        <RangeField
+          label={t.typography.shadow}
+          value={style.shadow}
+          max={24}
+          suffix="px"
+          onChange={(shadow) => onChange({ shadow }, `${group}-shadow`)}
+          onCommit={onCommit}
+        />
+        <RangeField
+          label={t.typography.outline}
+          value={style.outline}
+          max={4}
+          step={0.5}
+          suffix="px"
+          onChange={(outline) => onChange({ outline }, `${group}-outline`)}
+          onCommit={onCommit}
+        />
+      </div>
+      <div className="flex flex-wrap items-center gap-3 text-xs text-black/60">
+        <label className="flex items-center gap-2">
+          {t.typography.color}
+          <input
+            type="color"
+            value={style.color ?? defaultColor}
+            onChange={(event) =>
+              onChange({ color: event.target.value }, `${group}-color`)
+            }
+            onBlur={onCommit}
+            className={colorInputClass}
+          />
+        </label>
+        <label className="flex items-center gap-2">
+          {t.typography.outline}
+          <input
+            type="color"
+            value={style.outlineColor}
+            onChange={(event) =>
+              onChange(
+                { outlineColor: event.target.value },
+                `${group}-outline-color`,
+              )
+            }
+            onBlur={onCommit}
+            className={colorInputClass}
+          />
+        </label>
+        <button onClick={onReset} className={`${linkClass} ms-auto`}>
+          {t.common.reset}
+        </button>
+      </div>
+    </div>
+  );
+}
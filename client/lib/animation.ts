@@ -0,0 +1,428 @@
+import { renderCardCanvas } from "./exportCard";
+import type { Rgb } from "./gif";
+import {
+  buildPalette,
+  createColorMapper,
+  createGifEncoder,
+  indexPixels,
+} from "./gif";
+import { clamp } from "./utils";
+
+export type AnimationSettings = {
+  durationMs: number;
+  fps: number;
+  // 0 loops forever.
+  plays: number;
+};
+
+export type AnimationEffect =
+  "confetti" | "balloons" | "typewriter" | "photoFade";
+
+export type AnimationEffects = Record<AnimationEffect, boolean>;
+
+export const animationEffects: { id: AnimationEffect; name: string }[] = [
+  { id: "confetti", name: "Confetti burst" },
+  { id: "balloons", name: "Floating balloons" },
+  { id: "typewriter", name: "Typewriter message" },
+  { id: "photoFade", name: "Photo fade-in" },
+];
+
+export const defaultAnimationEffects: AnimationEffects = {
+  confetti: true,
+  balloons: true,
+  typewriter: true,
+  photoFade: true,
+};
+
+type Rect = { x: number; y: number; width: number; height: number };
+
+// The front page rasterised once per layer: "base" without photos or
+// message text, "photos" with the photos, "message" with nothing but the
+// message text. Frames are composited from these on a canvas, so preview
+// and export only pay for html2canvas three times.
+export type AnimationLayers = {
+  width: number;
+  height: number;
+  base: HTMLCanvasElement;
+  photos: HTMLCanvasElement;
+  message: HTMLCanvasElement;
+  photoRects: Rect[];
+  messageLines: Rect[];
+  rtl: boolean;
+};
+
+export type AnimationLayerElements = Record<
+  "base" | "photos" | "message",
+  HTMLElement
+>;
+
+const confettiColors: Rgb[] = [
+  [239, 71, 111],
+  [17, 138, 178],
+  [255, 209, 102],
+  [6, 214, 160],
+  [131, 56, 236],
+  [255, 159, 28],
+];
+
+const balloonColors = confettiColors.slice(0, 5);
+const stringColor: Rgb = [85, 85, 85];
+const highlightColor: Rgb = [255, 255, 255];
+
+// Effect colours go into the GIF palette as they are, so confetti never
+// dithers into the photos' colours.
+const effectColors = [...confettiColors, stringColor, highlightColor];
+
+const css = ([r, g, b]: Rgb) => `rgb(${r}, ${g}, ${b})`;
+
+// Timeline, as fractions of the whole animation.
+const photoWindow = { start: 0.05, end: 0.45 };
+const photoFadeLength = 0.2;
+const typewriterWindow = { start: 0.45, end: 0.85 };
+const confettiWindow = { start: 0, end: 0.6 };
+
+const phase = (progress: number, start: number, end: number) =>
+  clamp((progress - start) / (end - start), 0, 1);
+
+const smooth = (value: number) => value * value * (3 - 2 * value);
+
+// Mulberry32, so every preview and export of a card throws the same confetti.
+const seededRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let value = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  value = (value + Math.imul(value ^ (value >>> 7), 61 | value)) ^ value;
+  return ((value ^ (value >>> 14)) >>> 0) / 4294967296;
+};
+
+const relativeRect = (rect: DOMRect, origin: DOMRect, scale: number) => ({
+  x: (rect.left - origin.left) * scale,
+  y: (rect.top - origin.top) * scale,
+  width: rect.width * scale,
+  height: rect.height * scale,
+});
+
+export const captureAnimationLayers = async (
+  elements: AnimationLayerElements,
+  scale: number,
+): Promise<AnimationLayers> => {
+  const origin = elements.photos.getBoundingClientRect();
+  const photoRects = Array.from(
+    elements.photos.querySelectorAll("[data-animate-photo]"),
+    (element) => relativeRect(element.getBoundingClientRect(), origin, scale),
+  );
+  // One rect per line box, in reading order, for the typewriter.
+  const message = elements.photos.querySelector("[data-animate-message]");
+  const messageLines = message
+    ? Array.from(message.getClientRects(), (rect) =>
+        relativeRect(rect, origin, scale),
+      ).filter((rect) => rect.width > 0)
+    : [];
+  const base = await renderCardCanvas(elements.base, scale);
+  const photos = await renderCardCanvas(elements.photos, scale);
+  const messageLayer = await renderCardCanvas(elements.message, scale);
+  return {
+    width: photos.width,
+    height: photos.height,
+    base,
+    photos,
+    message: messageLayer,
+    photoRects,
+    messageLines,
+    rtl: getComputedStyle(elements.photos).direction === "rtl",
+  };
+};
+
+const drawClipped = (
+  context: CanvasRenderingContext2D,
+  layer: HTMLCanvasElement,
+  rect: Rect,
+  alpha = 1,
+) => {
+  if (alpha <= 0 || rect.width <= 0) return;
+  context.save();
+  context.globalAlpha = alpha;
+  context.beginPath();
+  context.rect(rect.x, rect.y, rect.width, rect.height);
+  context.clip();
+  context.drawImage(layer, 0, 0);
+  context.restore();
+};
+
+const drawBalloon = (
+  context: CanvasRenderingContext2D,
+  x: number,
+  y: number,
+  radius: number,
+  color: Rgb,
+  sway: number,
+) => {
+  context.save();
+  context.strokeStyle = css(stringColor);
+  context.lineWidth = Math.max(1, radius / 18);
+  context.beginPath();
+  context.moveTo(x, y + radius * 1.2);
+  context.quadraticCurveTo(
+    x + sway * radius,
+    y + radius * 2.2,
+    x - sway * radius * 0.5,
+    y + radius * 3.4,
+  );
+  context.stroke();
+  context.fillStyle = css(color);
+  context.beginPath();
+  context.ellipse(x, y, radius, radius * 1.2, 0, 0, Math.PI * 2);
+  context.fill();
+  context.beginPath();
+  context.moveTo(x - radius * 0.15, y + radius * 1.3);
+  context.lineTo(x + radius * 0.15, y + radius * 1.3);
+  context.lineTo(x, y + radius * 1.15);
+  context.fill();
+  context.globalAlpha = 0.35;
+  context.fillStyle = css(highlightColor);
+  context.beginPath();
+  context.ellipse(
+    x - radius * 0.35,
+    y - radius * 0.4,
+    radius * 0.22,
+    radius * 0.38,
+    -0.4,
+    0,
+    Math.PI * 2,
+  );
+  context.fill();
+  context.restore();
+};
+
+// Returns a painter for the given layers. Confetti and balloons are laid
+// out once up front so each frame only has to move them.
+export const createAnimator = (
+  layers: AnimationLayers,
+  effects: AnimationEffects,
+) => {
+  const { width, height } = layers;
+  const random = seededRandom(width * 31 + height);
+  const confetti = Array.from({ length: 90 }, () => {
+    const angle = -Math.PI / 2 + (random() - 0.5) * Math.PI * 0.9;
+    const speed = (1.2 + random() * 0.8) * height;
+    return {
+      vx: Math.cos(angle) * speed * 0.6,
+      vy: Math.sin(angle) * speed,
+      size: (0.012 + random() * 0.014) * width,
+      color: confettiColors[Math.floor(random() * confettiColors.length)],
+      spin: (random() - 0.5) * 24,
+      round: random() < 0.3,
+    };
+  });
+  const balloons = balloonColors.map((color, index) => ({
+    color,
+    x: width * (0.1 + (0.8 * (index + random() * 0.6)) / balloonColors.length),
+    start: 0.1 + random() * 0.3,
+    length: 0.55 + random() * 0.3,
+    radius: width * 0.055 * (0.85 + random() * 0.3),
+    swayPhase: random() * Math.PI * 2,
+  }));
+  const photoStep =
+    layers.photoRects.length > 1
+      ? (photoWindow.end - photoWindow.start - photoFadeLength) /
+        (layers.photoRects.length - 1)
+      : 0;
+  const messageLength = layers.messageLines.reduce(
+    (total, line) => total + line.width,
+    0,
+  );
+
+  return (context: CanvasRenderingContext2D, progress: number) => {
+    context.drawImage(layers.base, 0, 0);
+
+    layers.photoRects.forEach((rect, index) => {
+      const start = photoWindow.start + index * photoStep;
+      const alpha = effects.photoFade
+        ? smooth(phase(progress, start, start + photoFadeLength))
+        : 1;
+      drawClipped(context, layers.photos, rect, alpha);
+    });
+
+    // The typewriter uncovers the message line by line in reading order.
+    let revealed = effects.typewriter
+      ? phase(progress, typewriterWindow.start, typewriterWindow.end) *
+        messageLength
+      : messageLength;
+    for (const line of layers.messageLines) {
+      if (revealed <= 0) break;
+      const shown = Math.min(line.width, revealed);
+      revealed -= shown;
+      // Pad the clip on the uncovered side so overhanging glyphs and
+      // descenders are not cut off; the leading edge stays sharp.
+      const pad = line.height * 0.2;
+      const complete = shown === line.width;
+      const start = layers.rtl ? line.x + line.width - shown : line.x;
+      const left = start - (layers.rtl && !complete ? 0 : pad);
+      const right = start + shown + (!layers.rtl && !complete ? 0 : pad);
+      drawClipped(context, layers.message, {
+        x: left,
+        y: line.y - pad,
+        width: right - left,
+        height: line.height + pad * 2,
+      });
+    }
+
+    if (effects.balloons) {
+      for (const balloon of balloons) {
+        const rise = phase(
+          progress,
+          balloon.start,
+          balloon.start + balloon.length,
+        );
+        if (rise <= 0 || rise >= 1) continue;
+        const sway = Math.sin(balloon.swayPhase + rise * Math.PI * 3);
+        drawBalloon(
+          context,
+          balloon.x + sway * width * 0.03,
+          height + balloon.radius * 1.5 - rise * (height + balloon.radius * 6),
+          balloon.radius,
+          balloon.color,
+          sway,
+        );
+      }
+    }
+
+    if (effects.confetti) {
+      const time = phase(progress, confettiWindow.start, confettiWindow.end);
+      if (time > 0 && time < 1) {
+        const gravity = 3 * height;
+        context.save();
+        context.globalAlpha = 1 - phase(time, 0.7, 1);
+        for (const piece of confetti) {
+          const x = width / 2 + piece.vx * time;
+          const y = height * 0.6 + piece.vy * time + 0.5 * gravity * time ** 2;
+          context.fillStyle = css(piece.color);
+          context.save();
+          context.translate(x, y);
+          context.rotate(piece.spin * time);
+          if (piece.round) {
+            context.beginPath();
+            context.arc(0, 0, piece.size / 2, 0, Math.PI * 2);
+            context.fill();
+          } else {
+            context.fillRect(
+              -piece.size / 2,
+              -piece.size / 4,
+              piece.size,
+              piece.size / 2,
+            );
+          }
+          context.restore();
+        }
+        context.restore();
+      }
+    }
+  };
+};
+
+export const frameCount = (settings: AnimationSettings) =>
+  Math.max(2, Math.round((settings.durationMs / 1000) * settings.fps));
+
+const createCanvas = (layers: AnimationLayers) => {
+  const canvas = document.createElement("canvas");
+  canvas.width = layers.width;
+  canvas.height = layers.height;
+  const context = canvas.getContext("2d", { willReadFrequently: true });
+  if (!context) {
+    throw new Error("Canvas is not available.");
+  }
+  return { canvas, context };
+};
+
+// Lets the page repaint between batches of frames.
+const yieldToBrowser = () =>
+  new Promise((resolve) => window.setTimeout(resolve, 0));
+
+export const renderAnimationGif = async (
+  layers: AnimationLayers,
+  effects: AnimationEffects,
+  settings: AnimationSettings,
+) => {
+  const { context } = createCanvas(layers);
+  const { width, height } = layers;
+  const samples = [layers.base, layers.photos, layers.message].map((layer) => {
+    context.clearRect(0, 0, width, height);
+    context.drawImage(layer, 0, 0);
+    return context.getImageData(0, 0, width, height);
+  });
+  const palette = buildPalette(samples, effectColors);
+  const mapColor = createColorMapper(palette);
+  const encoder = createGifEncoder({
+    width,
+    height,
+    palette,
+    plays: settings.plays,
+    delayCs: Math.round(100 / settings.fps),
+  });
+  const draw = createAnimator(layers, effects);
+  const frames = frameCount(settings);
+  for (let frame = 0; frame < frames; frame += 1) {
+    context.clearRect(0, 0, width, height);
+    draw(context, frame / (frames - 1));
+    encoder.addFrame(
+      indexPixels(context.getImageData(0, 0, width, height), mapColor),
+    );
+    if (frame % 4 === 3) await yieldToBrowser();
+  }
+  return new Blob([encoder.finish()], { type: "image/gif" });
+};
+
+export const webmMimeType = () =>
+  typeof MediaRecorder === "undefined"
+    ? null
+    : (["video/webm;codecs=vp9", "video/webm;codecs=vp8", "video/webm"].find(
+        (type) => MediaRecorder.isTypeSupported(type),
+      ) ?? null);
+
+// Records the animation in real time from the canvas. Video has no loop
+// flag, so a card that plays a set number of times is recorded that many
+// times over; one that loops forever is recorded once.
+export const recordAnimationWebm = async (
+  layers: AnimationLayers,
+  effects: AnimationEffects,
+  settings: AnimationSettings,
+  background: string,
+) => {
+  const mimeType = webmMimeType();
+  if (!mimeType) return null;
+  const { canvas, context } = createCanvas(layers);
+  const draw = createAnimator(layers, effects);
+  const frames = frameCount(settings);
+  const paint = (frame: number) => {
+    context.fillStyle = background;
+    context.fillRect(0, 0, layers.width, layers.height);
+    draw(context, (frame % frames) / (frames - 1));
+  };
+
+  const stream = canvas.captureStream(settings.fps);
+  const recorder = new MediaRecorder(stream, { mimeType });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (event) => {
+    if (event.data.size > 0) chunks.push(event.data);
+  };
+  const stopped = new Promise((resolve) => {
+    recorder.onstop = resolve;
+  });
+
+  paint(0);
+  recorder.start();
+  const frameMs = 1000 / settings.fps;
+  const startedAt = performance.now();
+  const total = frames * Math.max(1, settings.plays);
+  for (let frame = 1; frame < total; frame += 1) {
+    const due = startedAt + frame * frameMs;
+    await new Promise((resolve) =>
+      window.setTimeout(resolve, Math.max(0, due - performance.now())),
+    );
+    paint(frame);
+  }
+  await new Promise((resolve) => window.setTimeout(resolve, frameMs));
+  recorder.stop();
+  await stopped;
+  stream.getTracks().forEach((track) => track.stop());
+  return new Blob(chunks, { type: "video/webm" });
+};
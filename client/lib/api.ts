@@ -0,0 +1,75 @@
+export const apiUrl =
+  process.env.NEXT_PUBLIC_API_URL ??
+  (process.env.NODE_ENV === "production"
+    ? "https://coustomized-birthday-card.onrender.com"
+    : "http://localhost:4000");
+
+export const requestJson = async <T>(
+  path: string,
+  init?: RequestInit,
+): Promise<T> => {
+  const response = await fetch(`${apiUrl}${path}`, {
+    ...init,
+    headers: {
+      ...(init?.body ? { "Content-Type": "application/json" } : {}),
+      ...init?.headers,
+    },
+  });
+  if (response.status === 204) {
+    return undefined as T;
+  }
+  const data = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(data?.message ?? "Request failed. Is the server running?");
+  }
+  return data as T;
+};
+
+type Session = {
+  token: string;
+  expiresAt: string;
+};
+
+const sessionStorageKey = "birthday-card-session";
+let session: Session | null = null;
+
+const isFresh = (value: Session | null): value is Session =>
+  value !== null && new Date(value.expiresAt).getTime() - Date.now() > 60000;
+
+const readStoredSession = () => {
+  try {
+    const stored = window.sessionStorage.getItem(sessionStorageKey);
+    return stored ? (JSON.parse(stored) as Session) : null;
+  } catch {
+    return null;
+  }
+};
+
+// NEXT_PUBLIC_ values are built into the browser bundle, so this key is an
+// origin hint that filters casual callers, not a secret. Never reuse a
+// credential that matters here.
+const apiKeyHeaders = (): Record<string, string> =>
+  process.env.NEXT_PUBLIC_API_KEY
+    ? { "X-Api-Key": process.env.NEXT_PUBLIC_API_KEY }
+    : {};
+
+const getSession = async () => {
+  if (!isFresh(session)) {
+    session = readStoredSession();
+  }
+  if (!isFresh(session)) {
+    session = await requestJson<Session>("/session", {
+      method: "POST",
+      headers: apiKeyHeaders(),
+    });
+    window.sessionStorage.setItem(sessionStorageKey, JSON.stringify(session));
+  }
+  return session;
+};
+
+// Headers for the rate-limited upload endpoints: the optional API key plus
+// a short-lived session token the server can limit per browser tab.
+export const clientHeaders = async (): Promise<Record<string, string>> => {
+  const { token } = await getSession();
+  return { ...apiKeyHeaders(), "X-Session-Token": token };
+};
@@ -0,0 +1,207 @@
+import type { CardDesign, PhotoSlot } from "./cards";
+import { StudioError } from "./errors";
+import { getPage } from "./pages";
+
+// One row of a recipient list. Empty fields fall back to the template
+// design, so a list of names alone is enough.
+export type BatchRecipient = {
+  recipient: string;
+  sender: string;
+  message: string;
+  photoUrl: string;
+};
+
+export const maxBatchRecipients = 200;
+
+// Column names people tend to use, mapped onto the recipient fields.
+const columnAliases: Record<keyof BatchRecipient, string[]> = {
+  recipient: ["name", "recipient", "to"],
+  sender: ["sender", "from"],
+  message: ["message", "custommessage", "note"],
+  photoUrl: ["photo", "photourl", "image", "imageurl"],
+};
+
+const normalizeColumn = (column: string) =>
+  column.toLowerCase().replace(/[^a-z]/g, "");
+
+const fieldFor = (column: string) => {
+  const normalized = normalizeColumn(column);
+  return (Object.keys(columnAliases) as (keyof BatchRecipient)[]).find(
+    (field) => columnAliases[field].includes(normalized),
+  );
+};
+
+// RFC 4180 CSV: quoted fields may hold commas, quotes ("") and line breaks.
+const parseCsvRows = (text: string) => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let index = 0; index < text.length; index += 1) {
+    const char = text[index];
+    if (quoted) {
+      if (char === '"' && text[index + 1] === '"') {
+        field += '"';
+        index += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[index + 1] === "\n") index += 1;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (quoted) {
+    throw new StudioError(
+      "csvUnclosedQuote",
+      "The CSV file has an unclosed quote.",
+    );
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((cells) => cells.some((cell) => cell.trim()));
+};
+
+const isWebUrl = (value: string) => {
+  try {
+    return ["http:", "https:"].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+};
+
+const toRecipient = (
+  values: Partial<Record<keyof BatchRecipient, unknown>>,
+): BatchRecipient => {
+  const read = (value: unknown) =>
+    typeof value === "string"
+      ? value.trim()
+      : typeof value === "number"
+        ? String(value)
+        : "";
+  return {
+    recipient: read(values.recipient),
+    sender: read(values.sender),
+    message: read(values.message),
+    // Only web addresses can be drawn onto the exported card.
+    photoUrl: isWebUrl(read(values.photoUrl)) ? read(values.photoUrl) : "",
+  };
+};
+
+const parseCsv = (text: string) => {
+  const [header, ...rows] = parseCsvRows(text);
+  const fields = (header ?? []).map(fieldFor);
+  if (!fields.includes("recipient")) {
+    throw new StudioError(
+      "csvNameColumnMissing",
+      "The CSV file needs a name column.",
+    );
+  }
+  return rows.map((cells) => {
+    const values: Partial<Record<keyof BatchRecipient, string>> = {};
+    fields.forEach((field, index) => {
+      if (field) values[field] = cells[index];
+    });
+    return toRecipient(values);
+  });
+};
+
+const parseJson = (text: string) => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new StudioError("invalidJson", "That file is not valid JSON.");
+  }
+  if (!Array.isArray(data)) {
+    throw new StudioError(
+      "recipientsNotList",
+      "The JSON file should hold a list of recipients.",
+    );
+  }
+  return data.map((item: unknown) => {
+    const values: Partial<Record<keyof BatchRecipient, unknown>> = {};
+    if (item && typeof item === "object") {
+      for (const [key, value] of Object.entries(item)) {
+        const field = fieldFor(key);
+        if (field) values[field] = value;
+      }
+    }
+    return toRecipient(values);
+  });
+};
+
+// Reads a recipient list from CSV or JSON, going by the file name and
+// falling back to sniffing the first character.
+export const parseRecipients = (text: string, fileName = "") => {
+  const content = text.replace(/^\uFEFF/, "");
+  const json = fileName ? /\.json$/i.test(fileName) : /^\s*\[/.test(content);
+  const recipients = (json ? parseJson(content) : parseCsv(content)).filter(
+    (row) => row.recipient,
+  );
+  if (recipients.length === 0) {
+    throw new StudioError(
+      "noRecipients",
+      "No recipients with a name were found in that file.",
+    );
+  }
+  if (recipients.length > maxBatchRecipients) {
+    throw new StudioError(
+      "tooManyRecipients",
+      `A batch can hold up to ${maxBatchRecipients} recipients at a time.`,
+      { max: maxBatchRecipients },
+    );
+  }
+  return recipients;
+};
+
+const photoFromUrl = (url: string): PhotoSlot => ({
+  url,
+  name: new URL(url).pathname.split("/").pop() || "photo",
+  position: { x: 50, y: 50 },
+});
+
+// Fills the template design in for one recipient. A photo URL goes into
+// the first photo slot on the front, if the layout has one.
+export const applyRecipient = (
+  design: CardDesign,
+  row: BatchRecipient,
+): CardDesign => {
+  const { photos } = getPage(design, "front");
+  return {
+    ...design,
+    recipient: row.recipient,
+    sender: row.sender || design.sender,
+    message: row.message || design.message,
+    photos:
+      row.photoUrl && photos.length
+        ? [photoFromUrl(row.photoUrl), ...photos.slice(1)]
+        : photos,
+  };
+};
+
+// Names every card after its recipient; repeated names get a number so no
+// file in the archive overwrites another.
+export const uniqueFileNames = (names: string[]) => {
+  const seen = new Map<string, number>();
+  return names.map((name) => {
+    const key = name.toLowerCase();
+    const count = (seen.get(key) ?? 0) + 1;
+    seen.set(key, count);
+    return count === 1 ? name : name.replace(/(\.[^.]+)$/, `-${count}$1`);
+  });
+};
@@ -0,0 +1,247 @@
+import { requestJson } from "./api";
+import type { LocaleId } from "./i18n";
+import type { DesignTheme } from "./themes";
+
+// Zoom and rotation applied on top of the slot's pan `position`. Without
+// `fit`, the layout decides whether the photo fits or fills its frame.
+export type PhotoCrop = {
+  scale: number;
+  rotation: number;
+  fit?: "contain" | "cover";
+};
+
+// Colour adjustments in percent. Brightness, contrast and saturation are
+// neutral at 100, warmth (-100..100) and vignette (0..100) at 0.
+export type PhotoAdjustments = {
+  brightness: number;
+  contrast: number;
+  saturation: number;
+  warmth: number;
+  vignette: number;
+};
+
+export type PhotoFrameStyle = "polaroid" | "rounded" | "circle" | "heart";
+
+export type PhotoSlot = {
+  url: string;
+  name: string;
+  position: { x: number; y: number };
+  crop?: PhotoCrop;
+  adjustments?: PhotoAdjustments;
+  // Without a frame style the photo keeps the layout's own corners.
+  frameStyle?: PhotoFrameStyle;
+  size?: number;
+  type?: string;
+  // Size of the file the user picked, before it was resized for upload.
+  originalSize?: number;
+};
+
+// Type settings for a piece of card text. Designs store only the fields the
+// user changed; lib/typography fills in the rest per role.
+export type TextStyle = {
+  fontId: string;
+  weight: number;
+  size: number;
+  align: "left" | "center" | "right";
+  lineHeight: number;
+  // In em, like CSS letter-spacing.
+  letterSpacing: number;
+  // null keeps the role's own colour (ink, or the sticker tone).
+  color: string | null;
+  // Drop shadow blur and outline width, in px. 0 turns them off.
+  shadow: number;
+  outline: number;
+  outlineColor: string;
+};
+
+export type TextRole = "headline" | "message" | "signature";
+
+export type StickerTone = "accent" | "ink";
+
+export type StickerShape = "circle" | "star" | "heart" | "burst";
+
+// Fields every sticker shares. `size` is the font size for text and emoji
+// and the width for graphics, in px.
+export type StickerBase = {
+  id: string;
+  position: { x: number; y: number };
+  size: number;
+  rotation: number;
+  opacity: number;
+  locked?: boolean;
+};
+
+export type TextSticker = StickerBase & {
+  kind: "text";
+  text: string;
+  tone: StickerTone;
+  // The sticker's `size` wins over the style's size.
+  style?: Partial<TextStyle>;
+};
+
+export type EmojiSticker = StickerBase & { kind: "emoji"; emoji: string };
+
+// One of the built-in SVG decorations from lib/stickers.
+export type DecorationSticker = StickerBase & {
+  kind: "decoration";
+  decorationId: string;
+};
+
+export type ImageSticker = StickerBase & {
+  kind: "image";
+  url: string;
+  name: string;
+};
+
+export type ShapeSticker = StickerBase & {
+  kind: "shape";
+  shape: StickerShape;
+  tone: StickerTone;
+};
+
+// Stickers draw in array order, so later entries sit on top.
+export type Sticker =
+  TextSticker | EmojiSticker | DecorationSticker | ImageSticker | ShapeSticker;
+
+// A freeform photo frame, in percent of the card's content area.
+export type PhotoFrame = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
+
+// A group-signing note the owner approved. Copied onto the design by the
+// server so the card shows it anywhere without another request.
+export type Signature = {
+  id: string;
+  name: string;
+  note: string;
+  color: string | null;
+  photoUrl: string | null;
+};
+
+export type CardPageId = "front" | "insideLeft" | "insideRight" | "back";
+
+// Everything that can differ from one page of a card to the next.
+export type PageContent = {
+  message: string;
+  layoutId: string;
+  gridFormatId: string;
+  photos: (PhotoSlot | null)[];
+  // Frame per photo slot for the freeform layout; missing entries use the
+  // layout's default placement.
+  frames?: (PhotoFrame | null)[];
+  stickers: Sticker[];
+};
+
+export type CardPage = PageContent & {
+  id: Exclude<CardPageId, "front">;
+};
+
+// The top-level page fields describe the front. Folding cards add the
+// remaining pages in `pages`; single-face cards leave it out.
+export type CardDesign = PageContent & {
+  recipient: string;
+  sender: string;
+  age?: number | null;
+  // ISO date (yyyy-mm-dd) used for the {date} placeholder.
+  birthday?: string | null;
+  // Card text templates. Missing values fall back to the layout's copy.
+  eyebrow?: string;
+  headline?: string;
+  signature?: string;
+  // Language of the text printed on the card. Cards saved before it existed
+  // are English.
+  locale?: LocaleId;
+  themeId: string;
+  cardSizeId: string;
+  // Snapshot of a custom theme, set when themeId points at one. It keeps
+  // the spec rather than CSS, so a saved design cannot carry arbitrary
+  // styles into the renderer.
+  customTheme?: DesignTheme;
+  typography?: Partial<Record<TextRole, Partial<TextStyle>>>;
+  pages?: CardPage[];
+  // Shown by the signatures layout, on whichever page uses it.
+  signatures?: Signature[];
+};
+
+export type CardSummary = {
+  id: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type SavedCard = CardSummary & {
+  design: CardDesign;
+};
+
+// The server hands out a card's owner token once, when the card is made.
+// It is the only way to change or delete the card and manage its invite
+// and notes, so it stays in localStorage, keyed by card id. The cards
+// listed as "My cards" are the ones held here.
+const ownerTokensKey = "birthday-card-owners";
+
+const readOwnerTokens = (): Record<string, string> => {
+  try {
+    const stored = window.localStorage.getItem(ownerTokensKey);
+    return stored ? (JSON.parse(stored) as Record<string, string>) : {};
+  } catch {
+    return {};
+  }
+};
+
+const writeOwnerTokens = (tokens: Record<string, string>) => {
+  try {
+    window.localStorage.setItem(ownerTokensKey, JSON.stringify(tokens));
+  } catch {
+    // Private browsing can refuse storage; the card still saves.
+  }
+};
+
+export const cardOwnerHeaders = (id: string): Record<string, string> => {
+  const token = readOwnerTokens()[id];
+  return token ? { "X-Card-Token": token } : {};
+};
+
+export const listCards = async () => {
+  const ids = Object.keys(readOwnerTokens());
+  return ids.length
+    ? requestJson<CardSummary[]>(
+        `/cards?${new URLSearchParams({ ids: ids.join(",") })}`,
+      )
+    : [];
+};
+
+export const getCard = (id: string) => requestJson<SavedCard>(`/cards/${id}`);
+
+export const createCard = async (design: CardDesign) => {
+  const { ownerToken, ...card } = await requestJson<
+    SavedCard & { ownerToken: string }
+  >("/cards", {
+    method: "POST",
+    body: JSON.stringify({ design }),
+  });
+  writeOwnerTokens({ ...readOwnerTokens(), [card.id]: ownerToken });
+  return card;
+};
+
+export const updateCard = (id: string, design: CardDesign) =>
+  requestJson<SavedCard>(`/cards/${id}`, {
+    method: "PUT",
+    headers: cardOwnerHeaders(id),
+    body: JSON.stringify({ design }),
+  });
+
+export const deleteCard = async (id: string) => {
+  await requestJson<void>(`/cards/${id}`, {
+    method: "DELETE",
+    headers: cardOwnerHeaders(id),
+  });
+  writeOwnerTokens(
+    Object.fromEntries(
+      Object.entries(readOwnerTokens()).filter(([cardId]) => cardId !== id),
+    ),
+  );
+};
@@ -0,0 +1,196 @@
+import { apiUrl } from "./api";
+import type {
+  CardDesign,
+  CardPage,
+  CardPageId,
+  PageContent,
+  Sticker,
+} from "./cards";
+
+// Live sessions sync the design as a flat map of entries, one per piece a
+// person can change on their own: each text field, each photo slot and
+// each sticker field. Two people editing different entries never clash.
+//
+//   design.<field>                  card-wide fields (recipient, theme...)
+//   <pageId>.message|layoutId|...   page fields
+//   <pageId>.photos.<index>         one photo slot
+//   <pageId>.stickers.<id>.<field>  one field of one sticker
+//   <pageId>.stickerOrder           sticker ids, bottom to top
+export type CollabEntries = Record<string, unknown>;
+
+export type CollabOp =
+  { key: string; value: unknown } | { key: string; deleted: true };
+
+export type CollabCursor = { pageId: CardPageId; x: number; y: number };
+
+export type CollabPeer = {
+  id: string;
+  name: string;
+  color: string;
+  // In percent of the card, on the page the peer is looking at.
+  cursor: CollabCursor | null;
+  // The element the peer is editing, e.g. "front.stickers.<id>". Nobody
+  // else can change it until they pause.
+  selection: string | null;
+};
+
+export const collabUrl = (roomId: string, name: string) =>
+  `${apiUrl.replace(/^http/, "ws")}/collab?${new URLSearchParams({
+    room: roomId,
+    name,
+  })}`;
+
+export const liveLink = (roomId: string) =>
+  typeof window === "undefined"
+    ? `/?live=${roomId}`
+    : `${window.location.origin}/?live=${roomId}`;
+
+// The element an entry belongs to: its first three key segments, so every
+// field of a sticker shares one.
+export const elementOf = (key: string) => key.split(".").slice(0, 3).join(".");
+
+const pageFields = [
+  "message",
+  "layoutId",
+  "gridFormatId",
+  "photos",
+  "frames",
+  "stickers",
+];
+
+const flattenPage = (
+  pageId: CardPageId,
+  page: PageContent,
+  entries: CollabEntries,
+) => {
+  entries[`${pageId}.message`] = page.message;
+  entries[`${pageId}.layoutId`] = page.layoutId;
+  entries[`${pageId}.gridFormatId`] = page.gridFormatId;
+  if (page.frames !== undefined) entries[`${pageId}.frames`] = page.frames;
+  entries[`${pageId}.photoCount`] = page.photos.length;
+  page.photos.forEach((slot, index) => {
+    entries[`${pageId}.photos.${index}`] = slot;
+  });
+  entries[`${pageId}.stickerOrder`] = page.stickers.map(
+    (sticker) => sticker.id,
+  );
+  for (const sticker of page.stickers) {
+    for (const [field, value] of Object.entries(sticker)) {
+      if (value !== undefined) {
+        entries[`${pageId}.stickers.${sticker.id}.${field}`] = value;
+      }
+    }
+  }
+};
+
+export const flattenDesign = (design: CardDesign): CollabEntries => {
+  const entries: CollabEntries = {};
+  for (const [field, value] of Object.entries(design)) {
+    if (value === undefined || pageFields.includes(field)) continue;
+    entries[`design.${field}`] =
+      field === "pages" ? (value as CardPage[]).map((page) => page.id) : value;
+  }
+  flattenPage("front", design, entries);
+  for (const page of design.pages ?? []) {
+    flattenPage(page.id, page, entries);
+  }
+  return entries;
+};
+
+type PageParts = {
+  fields: Record<string, unknown>;
+  photos: Record<number, unknown>;
+  stickers: Record<string, Record<string, unknown>>;
+};
+
+const buildPage = (parts: PageParts | undefined): PageContent => {
+  const { fields = {}, photos = {}, stickers = {} } = parts ?? {};
+  const order = (fields.stickerOrder as string[] | undefined) ?? [];
+  // A sticker needs its id entry; a field edited after someone deleted the
+  // sticker is dropped rather than bringing back half a sticker. Stickers
+  // added at the same moment by two people are both kept.
+  const ids = [
+    ...order,
+    ...Object.keys(stickers)
+      .filter((id) => !order.includes(id))
+      .sort(),
+  ].filter((id) => stickers[id]?.id === id);
+  const page: PageContent = {
+    message: (fields.message as string | undefined) ?? "",
+    layoutId: (fields.layoutId as string | undefined) ?? "note",
+    gridFormatId: (fields.gridFormatId as string | undefined) ?? "auto",
+    photos: Array.from(
+      { length: (fields.photoCount as number | undefined) ?? 0 },
+      (_, index) => (photos[index] as PageContent["photos"][number]) ?? null,
+    ),
+    stickers: ids.map((id) => stickers[id] as Sticker),
+  };
+  if (fields.frames !== undefined) {
+    page.frames = fields.frames as PageContent["frames"];
+  }
+  return page;
+};
+
+export const unflattenDesign = (entries: CollabEntries): CardDesign => {
+  const design: Record<string, unknown> = {};
+  const pages: Record<string, PageParts> = {};
+  for (const [key, value] of Object.entries(entries)) {
+    const [scope, field, id, subField] = key.split(".");
+    if (scope === "design") {
+      design[field] = value;
+      continue;
+    }
+    const parts = (pages[scope] ??= { fields: {}, photos: {}, stickers: {} });
+    if (field === "photos") {
+      parts.photos[Number(id)] = value;
+    } else if (field === "stickers") {
+      (parts.stickers[id] ??= {})[subField] = value;
+    } else {
+      parts.fields[field] = value;
+    }
+  }
+  const pageIds = design.pages as CardPage["id"][] | undefined;
+  return {
+    ...(design as Omit<CardDesign, keyof PageContent>),
+    ...buildPage(pages.front),
+    pages: pageIds?.map((id) => ({ id, ...buildPage(pages[id]) })),
+  } as CardDesign;
+};
+
+// What changed between two snapshots, as ops another copy can replay.
+export const diffEntries = (
+  prev: CollabEntries,
+  next: CollabEntries,
+): CollabOp[] => {
+  const ops: CollabOp[] = [];
+  for (const [key, value] of Object.entries(next)) {
+    if (
+      !Object.hasOwn(prev, key) ||
+      JSON.stringify(prev[key]) !== JSON.stringify(value)
+    ) {
+      ops.push({ key, value });
+    }
+  }
+  for (const key of Object.keys(prev)) {
+    if (!Object.hasOwn(next, key)) ops.push({ key, deleted: true });
+  }
+  return ops;
+};
+
+export const applyOps = (
+  entries: CollabEntries,
+  ops: CollabOp[],
+): CollabEntries => {
+  const next = { ...entries };
+  for (const op of ops) {
+    if ("deleted" in op) {
+      delete next[op.key];
+    } else {
+      next[op.key] = op.value;
+    }
+  }
+  return next;
+};
+
+export const applyOpsToDesign = (design: CardDesign, ops: CollabOp[]) =>
+  ops.length ? unflattenDesign(applyOps(flattenDesign(design), ops)) : design;
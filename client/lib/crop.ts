@@ -0,0 +1,49 @@
+import type { PhotoCrop, PhotoSlot } from "./cards";
+import { clamp } from "./utils";
+
+export type Size = { width: number; height: number };
+
+export const minCropScale = 1;
+export const maxCropScale = 4;
+
+export const defaultCrop: PhotoCrop = { scale: 1, rotation: 0 };
+
+export const clampScale = (scale: number) =>
+  clamp(scale, minCropScale, maxCropScale);
+
+// Normalises an angle to -180..180 so sliders and stored values agree.
+export const normalizeRotation = (degrees: number) =>
+  ((((degrees + 180) % 360) + 360) % 360) - 180;
+
+// Natural image sizes by URL. Filled by whichever preview loads the image
+// first so offscreen export copies can lay photos out on their first render.
+export const naturalSizes = new Map<string, Size>();
+
+// Explicit geometry for a cropped photo. html2canvas ignores object-fit and
+// object-position, so the preview lays the image out itself and the export
+// copies the same numbers. Offsets follow object-position: 0 aligns the
+// image's left/top edge with the frame, 100 its right/bottom edge.
+export const placeImage = (
+  frame: Size,
+  natural: Size,
+  slot: PhotoSlot,
+  defaultFit: "contain" | "cover",
+) => {
+  const crop = slot.crop ?? defaultCrop;
+  const fit = crop.fit ?? defaultFit;
+  const widthRatio = frame.width / natural.width;
+  const heightRatio = frame.height / natural.height;
+  const base =
+    fit === "cover"
+      ? Math.max(widthRatio, heightRatio)
+      : Math.min(widthRatio, heightRatio);
+  const width = natural.width * base * clampScale(crop.scale);
+  const height = natural.height * base * clampScale(crop.scale);
+  return {
+    left: ((frame.width - width) * slot.position.x) / 100,
+    top: ((frame.height - height) * slot.position.y) / 100,
+    width,
+    height,
+    rotation: crop.rotation,
+  };
+};
@@ -0,0 +1,576 @@
+import type { CardDesign, PageContent } from "./cards";
+import { layouts } from "./layouts";
+import { StudioError } from "./errors";
+import { countPhotos } from "./pages";
+import { cardSizes, gridFormats, themes } from "./presets";
+import type { LegacyTextSticker } from "./stickers";
+import { upgradeStickers } from "./stickers";
+import { readThemeSpec } from "./themes";
+import { uploadPhoto } from "./uploads";
+import type { ZipEntry } from "./zip";
+import { createZip, readZip } from "./zip";
+
+// A design on its own, to move between machines or keep as a backup. The
+// JSON links photos by URL; the ZIP bundle adds the photo files, which are
+// uploaded again on import.
+export const designFileFormat = "birthday-card-design";
+export const designFileVersion = 2;
+
+// A photo file inside a ZIP bundle, by the URL it had when exported.
+export type BundledPhoto = { url: string; path: string; type: string };
+
+export type DesignFile = {
+  format: typeof designFileFormat;
+  version: number;
+  exportedAt: string | null;
+  design: CardDesign;
+  photos?: BundledPhoto[];
+};
+
+// Called with how many photos are done out of how many.
+export type DesignFileProgress = (done: number, total: number) => void;
+
+type FileData = Record<string, unknown>;
+
+const designEntry = "design.json";
+
+const photoExtensions: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+  "image/gif": "gif",
+};
+
+const pageIds = ["insideLeft", "insideRight", "back"];
+const stickerContent: Record<string, string> = {
+  text: "text",
+  emoji: "emoji",
+  decoration: "decorationId",
+  image: "url",
+  shape: "shape",
+};
+const frameStyles = ["polaroid", "rounded", "circle", "heart"];
+const textRoles = ["headline", "message", "signature"];
+
+const isObject = (value: unknown): value is FileData =>
+  Boolean(value) && typeof value === "object" && !Array.isArray(value);
+
+const isPosition = (value: unknown) =>
+  isObject(value) && typeof value.x === "number" && typeof value.y === "number";
+
+const isOptional = (value: unknown, type: "string" | "number") =>
+  value === undefined || value === null || typeof value === type;
+
+const designPages = (design: CardDesign): PageContent[] => [
+  design,
+  ...(design.pages ?? []),
+];
+
+// Every image the design shows from an upload: photo slots, image stickers
+// and signature photos. A custom theme's image stays linked by URL.
+export const designPhotoUrls = (design: CardDesign) => {
+  const urls = new Set<string>();
+  for (const page of designPages(design)) {
+    for (const slot of page.photos) {
+      if (slot) urls.add(slot.url);
+    }
+    for (const sticker of page.stickers) {
+      if (sticker.kind === "image") urls.add(sticker.url);
+    }
+  }
+  for (const signature of design.signatures ?? []) {
+    if (signature.photoUrl) urls.add(signature.photoUrl);
+  }
+  return [...urls];
+};
+
+const replacePhotoUrls = (design: CardDesign, urls: Map<string, string>) => {
+  const swap = (url: string) => urls.get(url) ?? url;
+  const movePage = <T extends PageContent>(page: T): T => ({
+    ...page,
+    photos: page.photos.map((slot) =>
+      slot ? { ...slot, url: swap(slot.url) } : slot,
+    ),
+    stickers: page.stickers.map((sticker) =>
+      sticker.kind === "image"
+        ? { ...sticker, url: swap(sticker.url) }
+        : sticker,
+    ),
+  });
+  const next: CardDesign = movePage(design);
+  if (design.pages) next.pages = design.pages.map(movePage);
+  if (design.signatures) {
+    next.signatures = design.signatures.map((signature) =>
+      signature.photoUrl
+        ? { ...signature, photoUrl: swap(signature.photoUrl) }
+        : signature,
+    );
+  }
+  return next;
+};
+
+export const designToJson = (design: CardDesign, photos?: BundledPhoto[]) =>
+  JSON.stringify(
+    {
+      format: designFileFormat,
+      version: designFileVersion,
+      exportedAt: new Date().toISOString(),
+      design,
+      ...(photos ? { photos } : {}),
+    } satisfies DesignFile,
+    null,
+    2,
+  );
+
+// Downloads every photo the design uses into a ZIP next to design.json, so
+// the bundle still works once the original uploads are gone.
+export const createDesignBundle = async (
+  design: CardDesign,
+  onProgress?: DesignFileProgress,
+) => {
+  const urls = designPhotoUrls(design);
+  const entries: ZipEntry[] = [];
+  const photos: BundledPhoto[] = [];
+  for (const [index, url] of urls.entries()) {
+    onProgress?.(index + 1, urls.length);
+    let blob: Blob;
+    try {
+      const response = await fetch(url);
+      if (!response.ok) throw new Error(response.statusText);
+      blob = await response.blob();
+    } catch {
+      throw new StudioError(
+        "bundlePhotoFailed",
+        `Could not download photo ${index + 1} for the bundle. Export the design without photos instead.`,
+        { number: index + 1 },
+      );
+    }
+    const path = `photos/photo-${index + 1}.${photoExtensions[blob.type] ?? "bin"}`;
+    photos.push({ url, path, type: blob.type });
+    entries.push({
+      name: path,
+      data: new Uint8Array(await blob.arrayBuffer()),
+    });
+  }
+  return createZip([
+    {
+      name: designEntry,
+      data: new TextEncoder().encode(designToJson(design, photos)),
+    },
+    ...entries,
+  ]);
+};
+
+// Each step lifts a file one version, until it is current.
+const migrations: Record<number, (file: FileData) => FileData> = {
+  // Before the format had a version: a bare design, or a saved card as the
+  // cards API returns it.
+  0: (file) => ({
+    format: designFileFormat,
+    version: 1,
+    exportedAt: null,
+    design: isObject(file.design) ? file.design : file,
+  }),
+  // Custom themes were stored as CSS, which is no longer trusted. Without
+  // a spec to rebuild them from, those designs take the default theme.
+  1: (file) => {
+    const design = isObject(file.design) ? file.design : {};
+    const { customTheme, ...rest } = design;
+    const dropped = isObject(customTheme) && customTheme.id === rest.themeId;
+    return {
+      ...file,
+      version: 2,
+      design: dropped ? { ...rest, themeId: themes[0].id } : rest,
+    };
+  },
+};
+
+const migrate = (data: unknown): FileData => {
+  if (!isObject(data)) {
+    throw new StudioError(
+      "notDesignFile",
+      "That file is not a card design export.",
+    );
+  }
+  let file = data;
+  if (file.format !== undefined && file.format !== designFileFormat) {
+    throw new StudioError(
+      "notDesignFile",
+      "That file is not a card design export.",
+    );
+  }
+  const fileVersion = file.format === undefined ? 0 : file.version;
+  if (typeof fileVersion !== "number" || !Number.isInteger(fileVersion)) {
+    throw new StudioError(
+      "designVersionMissing",
+      "That design file has no valid version number.",
+    );
+  }
+  let version = fileVersion;
+  if (version > designFileVersion) {
+    throw new StudioError(
+      "designVersionTooNew",
+      "That design was exported by a newer version of the studio. Update the studio to import it.",
+    );
+  }
+  while (version < designFileVersion) {
+    const step = migrations[version];
+    if (!step) {
+      throw new StudioError(
+        "designVersionUnsupported",
+        `Design files of version ${version} are not supported.`,
+        { version },
+      );
+    }
+    file = step(file);
+    version = file.version as number;
+  }
+  return file;
+};
+
+const checkStyle = (style: unknown, label: string) => {
+  if (!isObject(style)) return `${label} must be an object.`;
+  const badNumber = [
+    "weight",
+    "size",
+    "lineHeight",
+    "letterSpacing",
+    "shadow",
+    "outline",
+  ].find((key) => style[key] !== undefined && typeof style[key] !== "number");
+  if (badNumber) return `${label} "${badNumber}" must be a number.`;
+  const badString = ["fontId", "outlineColor"].find(
+    (key) => style[key] !== undefined && typeof style[key] !== "string",
+  );
+  if (badString) return `${label} "${badString}" must be text.`;
+  if (!isOptional(style.color, "string")) {
+    return `${label} color must be text.`;
+  }
+  if (
+    style.align !== undefined &&
+    !["left", "center", "right"].includes(style.align as string)
+  ) {
+    return `${label} align must be left, center or right.`;
+  }
+  return null;
+};
+
+const checkPage = (page: FileData, label: string) => {
+  const badString = ["message", "layoutId", "gridFormatId"].find(
+    (key) => typeof page[key] !== "string",
+  );
+  if (badString) return `${label} "${badString}" must be text.`;
+  if (!layouts.some((layout) => layout.id === page.layoutId)) {
+    return `${label} uses layout "${page.layoutId}", which this studio does not have.`;
+  }
+  if (!gridFormats.some((grid) => grid.id === page.gridFormatId)) {
+    return `${label} uses grid format "${page.gridFormatId}", which this studio does not have.`;
+  }
+
+  if (!Array.isArray(page.photos)) return `${label} photos must be a list.`;
+  for (const [index, slot] of page.photos.entries()) {
+    if (slot === null) continue;
+    const photo = `${label} photo ${index + 1}`;
+    if (
+      !isObject(slot) ||
+      typeof slot.url !== "string" ||
+      !isPosition(slot.position)
+    ) {
+      return `${photo} needs a url and a position.`;
+    }
+    if (slot.crop !== undefined && slot.crop !== null) {
+      const crop = slot.crop as FileData;
+      if (typeof crop.scale !== "number" || typeof crop.rotation !== "number") {
+        return `${photo} crop needs a numeric scale and rotation.`;
+      }
+      if (
+        crop.fit !== undefined &&
+        !["contain", "cover"].includes(crop.fit as string)
+      ) {
+        return `${photo} crop fit must be contain or cover.`;
+      }
+    }
+    if (
+      slot.adjustments !== undefined &&
+      slot.adjustments !== null &&
+      ["brightness", "contrast", "saturation", "warmth", "vignette"].some(
+        (key) => typeof (slot.adjustments as FileData)[key] !== "number",
+      )
+    ) {
+      return `${photo} adjustments must all be numbers.`;
+    }
+    if (
+      slot.frameStyle !== undefined &&
+      slot.frameStyle !== null &&
+      !frameStyles.includes(slot.frameStyle as string)
+    ) {
+      return `${photo} frame style must be one of ${frameStyles.join(", ")}.`;
+    }
+  }
+
+  if (page.frames !== undefined && page.frames !== null) {
+    if (!Array.isArray(page.frames)) return `${label} frames must be a list.`;
+    const badFrame = page.frames.findIndex(
+      (frame) =>
+        frame !== null &&
+        !["x", "y", "width", "height"].every(
+          (key) => isObject(frame) && typeof frame[key] === "number",
+        ),
+    );
+    if (badFrame >= 0) {
+      return `${label} frame ${badFrame + 1} needs an x, y, width and height.`;
+    }
+  }
+
+  if (!Array.isArray(page.stickers)) return `${label} stickers must be a list.`;
+  for (const [index, sticker] of page.stickers.entries()) {
+    const item = `${label} sticker ${index + 1}`;
+    if (
+      !isObject(sticker) ||
+      typeof sticker.id !== "string" ||
+      !isPosition(sticker.position)
+    ) {
+      return `${item} needs an id and a position.`;
+    }
+    // Stickers saved before kinds existed are plain text stickers.
+    const kind = (sticker.kind as string | undefined) ?? "text";
+    if (!Object.hasOwn(stickerContent, kind)) {
+      return `${item} has an unknown kind "${kind}".`;
+    }
+    if (typeof sticker[stickerContent[kind]] !== "string") {
+      return `${item} needs a "${stickerContent[kind]}".`;
+    }
+    if (
+      ["size", "rotation", "opacity"].some(
+        (key) => sticker[key] !== undefined && typeof sticker[key] !== "number",
+      )
+    ) {
+      return `${item} size, rotation and opacity must be numbers.`;
+    }
+    if (sticker.style !== undefined && sticker.style !== null) {
+      const problem = checkStyle(sticker.style, `${item} style`);
+      if (problem) return problem;
+    }
+  }
+  return null;
+};
+
+// The same shape the server accepts for a card, plus the ids this studio
+// knows, so an imported design can be saved and rendered as it is.
+const checkDesign = (design: unknown) => {
+  if (!isObject(design)) return "The file holds no card design.";
+  const badString = ["recipient", "sender", "themeId", "cardSizeId"].find(
+    (key) => typeof design[key] !== "string",
+  );
+  if (badString) return `The design's "${badString}" must be text.`;
+  const badCopy = [
+    "eyebrow",
+    "headline",
+    "signature",
+    "birthday",
+    "locale",
+  ].find((key) => !isOptional(design[key], "string"));
+  if (badCopy) return `The design's "${badCopy}" must be text.`;
+  if (!isOptional(design.age, "number") || (design.age as number) < 0) {
+    return "The design's age must be a number of zero or more.";
+  }
+  if (!cardSizes.some((size) => size.id === design.cardSizeId)) {
+    return `The design uses card size "${design.cardSizeId}", which this studio does not have.`;
+  }
+
+  const { customTheme } = design;
+  if (customTheme !== undefined && customTheme !== null) {
+    if (
+      !isObject(customTheme) ||
+      typeof customTheme.id !== "string" ||
+      typeof customTheme.name !== "string" ||
+      !isObject(customTheme.spec)
+    ) {
+      return "The design's custom theme needs an id, name and spec.";
+    }
+    // The same check a theme file gets, so the card saves once imported.
+    try {
+      readThemeSpec(customTheme.spec);
+    } catch (error) {
+      return `The design's custom theme is damaged. ${(error as Error).message}`;
+    }
+  }
+  if (
+    !themes.some((theme) => theme.id === design.themeId) &&
+    (customTheme as FileData | undefined)?.id !== design.themeId
+  ) {
+    return `The design uses theme "${design.themeId}", which this studio does not have.`;
+  }
+
+  if (design.typography !== undefined && design.typography !== null) {
+    if (!isObject(design.typography)) {
+      return "The design's typography must be an object.";
+    }
+    for (const [role, style] of Object.entries(design.typography)) {
+      if (!textRoles.includes(role)) {
+        return `Typography roles must be one of ${textRoles.join(", ")}.`;
+      }
+      const problem = checkStyle(style, `Typography "${role}"`);
+      if (problem) return problem;
+    }
+  }
+
+  const signatures = design.signatures ?? [];
+  if (!Array.isArray(signatures))
+    return "The design's signatures must be a list.";
+  for (const [index, signature] of signatures.entries()) {
+    if (
+      !isObject(signature) ||
+      ["id", "name", "note"].some(
+        (key) => typeof signature[key] !== "string",
+      ) ||
+      !isOptional(signature.color, "string") ||
+      !isOptional(signature.photoUrl, "string")
+    ) {
+      return `Signature ${index + 1} needs an id, name and note.`;
+    }
+  }
+
+  const problem = checkPage(design, "Front page");
+  if (problem) return problem;
+  const pages = design.pages ?? [];
+  if (!Array.isArray(pages)) return "The design's pages must be a list.";
+  const seen = new Set<string>();
+  for (const page of pages) {
+    if (!isObject(page) || !pageIds.includes(page.id as string)) {
+      return `Each extra page needs an id of ${pageIds.join(", ")}.`;
+    }
+    if (seen.has(page.id as string)) {
+      return `The design has page "${page.id}" twice.`;
+    }
+    seen.add(page.id as string);
+    const pageProblem = checkPage(page, `Page "${page.id}"`);
+    if (pageProblem) return pageProblem;
+  }
+  return null;
+};
+
+const checkPhotos = (photos: unknown) => {
+  if (photos === undefined) return null;
+  if (
+    !Array.isArray(photos) ||
+    photos.some(
+      (photo) =>
+        !isObject(photo) ||
+        ["url", "path", "type"].some((key) => typeof photo[key] !== "string"),
+    )
+  ) {
+    return "The bundle's photo list is damaged.";
+  }
+  return null;
+};
+
+// Legacy text stickers are written out in the current shape, and a custom
+// theme's spec is brought into the ranges the server accepts.
+const upgradeDesign = (design: CardDesign): CardDesign => {
+  const upgradePage = <T extends PageContent>(page: T): T => ({
+    ...page,
+    stickers: upgradeStickers(
+      page.stickers as (PageContent["stickers"][number] | LegacyTextSticker)[],
+    ),
+  });
+  const next: CardDesign = upgradePage(design);
+  if (design.pages) next.pages = design.pages.map(upgradePage);
+  if (design.customTheme) {
+    next.customTheme = {
+      ...design.customTheme,
+      spec: readThemeSpec(design.customTheme.spec),
+    };
+  }
+  return next;
+};
+
+// Accepts files written by designToJson, older versions of them, and bare
+// designs. Throws with a readable message when the file does not hold a
+// usable design.
+export const parseDesignJson = (text: string): DesignFile => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new StudioError("invalidJson", "That file is not valid JSON.");
+  }
+  const file = migrate(data);
+  const problem = checkDesign(file.design) ?? checkPhotos(file.photos);
+  if (problem) {
+    throw new StudioError(
+      "designInvalid",
+      `That design cannot be imported. ${problem}`,
+      { problem },
+    );
+  }
+  return {
+    ...(file as DesignFile),
+    design: upgradeDesign(file.design as CardDesign),
+  };
+};
+
+const isZipFile = async (file: Blob) => {
+  const head = new Uint8Array(await file.slice(0, 4).arrayBuffer());
+  return head[0] === 0x50 && head[1] === 0x4b && head[2] === 3 && head[3] === 4;
+};
+
+const dataUrlFile = async (url: string, name: string) => {
+  const blob = await (await fetch(url)).blob();
+  return new File([blob], `${name}.${photoExtensions[blob.type] ?? "bin"}`, {
+    type: blob.type,
+  });
+};
+
+// Reads a JSON export or ZIP bundle and uploads the photos it carries, so
+// the design no longer depends on where it was made. Photos only linked by
+// URL stay where they are.
+export const importDesignFile = async (
+  file: File,
+  onProgress?: DesignFileProgress,
+) => {
+  const files = new Map<string, File>();
+  let parsed: DesignFile;
+  if (await isZipFile(file)) {
+    const entries = await readZip(file);
+    const json = entries.find((entry) => entry.name === designEntry);
+    if (!json) {
+      throw new StudioError(
+        "bundleDesignMissing",
+        `The ZIP archive has no ${designEntry}.`,
+        { name: designEntry },
+      );
+    }
+    parsed = parseDesignJson(new TextDecoder().decode(json.data));
+    for (const photo of parsed.photos ?? []) {
+      const entry = entries.find((item) => item.name === photo.path);
+      if (!entry) {
+        throw new StudioError(
+          "bundlePhotoMissing",
+          `The ZIP archive is missing ${photo.path}.`,
+          { path: photo.path },
+        );
+      }
+      const name = photo.path.split("/").pop() ?? photo.path;
+      files.set(photo.url, new File([entry.data], name, { type: photo.type }));
+    }
+  } else {
+    parsed = parseDesignJson(await file.text());
+  }
+
+  const { design } = parsed;
+  // Photos embedded as data URLs are uploaded like bundled ones.
+  const urls = designPhotoUrls(design).filter(
+    (url) => files.has(url) || url.startsWith("data:"),
+  );
+  const photoCount = countPhotos(design);
+  const hosted = new Map<string, string>();
+  for (const [index, url] of urls.entries()) {
+    onProgress?.(index + 1, urls.length);
+    const photo =
+      files.get(url) ?? (await dataUrlFile(url, `photo-${index + 1}`));
+    const uploaded = await uploadPhoto(photo, photoCount);
+    hosted.set(url, uploaded.url);
+  }
+  return replacePhotoUrls(design, hosted);
+};
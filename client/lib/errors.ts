@@ -0,0 +1,35 @@
+import type { FormatValues, Messages } from "./i18n";
+import { format } from "./i18n";
+
+export type StudioErrorCode = keyof Messages["errorCodes"];
+
+// An error meant for the person using the studio. The code picks the
+// catalog text and the values fill its placeholders; the English message
+// is kept for the console and for callers without a catalog.
+export class StudioError extends Error {
+  code: StudioErrorCode;
+  values: FormatValues;
+
+  constructor(
+    code: StudioErrorCode,
+    message: string,
+    values: FormatValues = {},
+  ) {
+    super(message);
+    this.name = "StudioError";
+    this.code = code;
+    this.values = values;
+  }
+}
+
+// What to show when an action fails: coded errors in the reader's
+// language, other errors as they are, the fallback for anything else.
+// A coded error without the values its text needs (the server's upload
+// errors only send a message) keeps its own message.
+export const errorMessage = (error: unknown, t: Messages, fallback: string) => {
+  if (error instanceof StudioError) {
+    const text = format(t.errorCodes[error.code], error.values);
+    return /\{\w+\}/.test(text) ? error.message : text;
+  }
+  return error instanceof Error ? error.message : fallback;
+};
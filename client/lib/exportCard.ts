@@ -0,0 +1,49 @@
+import html2canvas from "html2canvas";
+import { bakePhotoFilters } from "./filters";
+import { loadCardFonts } from "./typography";
+
+const safeName = (name: string) => name.replace(/[^\w -]/g, "").trim();
+
+// Names come from the editor or a batch CSV and become ZIP entry names,
+// so anything that could read as a path is stripped, as the server does
+// for rendered files.
+export const cardFileName = (
+  recipient: string,
+  extension: string,
+  suffix?: string,
+) => {
+  const base = safeName(recipient) || "birthday-card";
+  const tail = suffix && safeName(suffix);
+  return `${base}${tail ? `-${tail}` : ""}.${extension}`;
+};
+
+// Waits for the bundled card fonts so the rasterised text uses the chosen
+// faces rather than a fallback that shows while they load. Filtered photos
+// are baked in the cloned document because html2canvas skips CSS filters.
+export const renderCardCanvas = async (element: HTMLElement, scale: number) => {
+  await loadCardFonts();
+  await document.fonts.ready;
+  return html2canvas(element, {
+    backgroundColor: null,
+    useCORS: true,
+    scale,
+    onclone: (clone) => bakePhotoFilters(clone, scale),
+  });
+};
+
+export const canvasToPng = async (canvas: HTMLCanvasElement) => {
+  const blob = await new Promise<Blob | null>((resolve) =>
+    canvas.toBlob(resolve, "image/png"),
+  );
+  if (!blob) {
+    throw new Error("The card could not be encoded as PNG.");
+  }
+  return new Uint8Array(await blob.arrayBuffer());
+};
+
+export const downloadUrl = (url: string, fileName: string) => {
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+};
@@ -0,0 +1,282 @@
+import type { CSSProperties } from "react";
+import type { PhotoAdjustments, PhotoFrameStyle, PhotoSlot } from "./cards";
+import { placeImage } from "./crop";
+
+export const defaultAdjustments: PhotoAdjustments = {
+  brightness: 100,
+  contrast: 100,
+  saturation: 100,
+  warmth: 0,
+  vignette: 0,
+};
+
+export const filterPresets: {
+  id: string;
+  name: string;
+  adjustments: PhotoAdjustments;
+}[] = [
+  { id: "original", name: "Original", adjustments: defaultAdjustments },
+  {
+    id: "bw",
+    name: "B&W",
+    adjustments: {
+      brightness: 105,
+      contrast: 115,
+      saturation: 0,
+      warmth: 0,
+      vignette: 20,
+    },
+  },
+  {
+    id: "vintage",
+    name: "Vintage",
+    adjustments: {
+      brightness: 105,
+      contrast: 90,
+      saturation: 70,
+      warmth: 45,
+      vignette: 45,
+    },
+  },
+  {
+    // Soft and airy to sit on the Sorbet Pop theme.
+    id: "pastel",
+    name: "Pastel",
+    adjustments: {
+      brightness: 112,
+      contrast: 80,
+      saturation: 75,
+      warmth: 10,
+      vignette: 0,
+    },
+  },
+];
+
+export const frameStyles: { id: PhotoFrameStyle | null; name: string }[] = [
+  { id: null, name: "Layout" },
+  { id: "polaroid", name: "Polaroid" },
+  { id: "rounded", name: "Rounded" },
+  { id: "circle", name: "Circle" },
+  { id: "heart", name: "Heart" },
+];
+
+export const isNeutral = (adjustments?: PhotoAdjustments) =>
+  !adjustments ||
+  (Object.keys(defaultAdjustments) as (keyof PhotoAdjustments)[]).every(
+    (key) => adjustments[key] === defaultAdjustments[key],
+  );
+
+// A 3x4 affine colour transform, rows for red, green and blue.
+type Affine = number[][];
+
+const compose = (outer: Affine, inner: Affine): Affine =>
+  outer.map((row) => [
+    ...[0, 1, 2].map((column) =>
+      [0, 1, 2].reduce((sum, k) => sum + row[k] * inner[k][column], 0),
+    ),
+    row[3] + [0, 1, 2].reduce((sum, k) => sum + row[k] * inner[k][3], 0),
+  ]);
+
+const diagonal = (r: number, g: number, b: number, offset = 0): Affine => [
+  [r, 0, 0, offset],
+  [0, g, 0, offset],
+  [0, 0, b, offset],
+];
+
+// Brightness, contrast, saturation and warmth folded into one matrix. The
+// preview hands it to an SVG feColorMatrix and the export applies it to the
+// pixels, so both produce the same colours.
+export const colorMatrix = (adjustments: PhotoAdjustments) => {
+  const brightness = adjustments.brightness / 100;
+  const contrast = adjustments.contrast / 100;
+  const s = adjustments.saturation / 100;
+  const warmth = adjustments.warmth / 100;
+  // Luminance weights from the CSS saturate() filter.
+  const saturation: Affine = [
+    [0.213 + 0.787 * s, 0.715 - 0.715 * s, 0.072 - 0.072 * s, 0],
+    [0.213 - 0.213 * s, 0.715 + 0.285 * s, 0.072 - 0.072 * s, 0],
+    [0.213 - 0.213 * s, 0.715 - 0.715 * s, 0.072 + 0.928 * s, 0],
+  ];
+  return [
+    diagonal(1 + 0.12 * warmth, 1 + 0.03 * warmth, 1 - 0.12 * warmth),
+    saturation,
+    diagonal(contrast, contrast, contrast, 0.5 - 0.5 * contrast),
+    diagonal(brightness, brightness, brightness),
+  ].reduce(compose);
+};
+
+// Values for <feColorMatrix type="matrix">, which also takes an alpha row.
+export const svgMatrixValues = (adjustments: PhotoAdjustments) =>
+  [
+    ...colorMatrix(adjustments).map((row) => [...row.slice(0, 3), 0, row[3]]),
+    [0, 0, 0, 1, 0],
+  ]
+    .flat()
+    .map((value) => Number(value.toFixed(4)))
+    .join(" ");
+
+export const vignetteGradient = (vignette: number) =>
+  `radial-gradient(ellipse at center, rgba(0,0,0,0) 45%, rgba(0,0,0,${((vignette / 100) * 0.7).toFixed(3)}) 100%)`;
+
+// Heart outline in a unit square, stretched to the frame.
+export const heartPath =
+  "M0.5 0.95 C0.2 0.74 0 0.53 0 0.3 C0 0.13 0.13 0.02 0.28 0.02 C0.38 0.02 0.46 0.08 0.5 0.16 C0.54 0.08 0.62 0.02 0.72 0.02 C0.87 0.02 1 0.13 1 0.3 C1 0.53 0.8 0.74 0.5 0.95 Z";
+
+const heartMask = `url("data:image/svg+xml,${encodeURIComponent(
+  `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 1 1" preserveAspectRatio="none"><path d="${heartPath}"/></svg>`,
+)}")`;
+
+// Styles for the photo frame. Polaroid, rounded and circle are plain CSS that
+// html2canvas draws; the heart mask is baked into the export.
+export const frameStyleCss = (
+  style: PhotoFrameStyle | undefined,
+): CSSProperties => {
+  switch (style) {
+    case "polaroid":
+      return {
+        borderRadius: "4px",
+        borderColor: "#ffffff",
+        borderWidth: "8px 8px 28px",
+        backgroundColor: "#ffffff",
+        boxShadow: "0 12px 24px rgba(0,0,0,0.18)",
+      };
+    case "rounded":
+      return { borderRadius: "22%" };
+    case "circle":
+      return { borderRadius: "50%" };
+    case "heart":
+      return {
+        borderRadius: 0,
+        borderColor: "transparent",
+        backgroundColor: "transparent",
+        maskImage: heartMask,
+        WebkitMaskImage: heartMask,
+        maskSize: "100% 100%",
+        WebkitMaskSize: "100% 100%",
+        maskRepeat: "no-repeat",
+        WebkitMaskRepeat: "no-repeat",
+      };
+    default:
+      return {};
+  }
+};
+
+export const needsBaking = (slot: PhotoSlot) =>
+  !isNeutral(slot.adjustments) || slot.frameStyle === "heart";
+
+export type BakeSpec = { slot: PhotoSlot; fit: "contain" | "cover" };
+
+const loadImage = (url: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.crossOrigin = "anonymous";
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error("Could not load a photo."));
+    image.src = url;
+  });
+
+// Draws one photo frame the way the preview shows it: placed and rotated,
+// colour adjusted, vignetted and masked.
+const bakeFrame = async (
+  spec: BakeSpec,
+  frame: { width: number; height: number },
+  scale: number,
+) => {
+  const { slot, fit } = spec;
+  const image = await loadImage(slot.url);
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.round(frame.width * scale));
+  canvas.height = Math.max(1, Math.round(frame.height * scale));
+  const context = canvas.getContext("2d");
+  if (!context) throw new Error("Canvas is not available.");
+  context.scale(scale, scale);
+
+  const placement = placeImage(
+    frame,
+    { width: image.naturalWidth, height: image.naturalHeight },
+    slot,
+    fit,
+  );
+  context.save();
+  context.translate(
+    placement.left + placement.width / 2,
+    placement.top + placement.height / 2,
+  );
+  context.rotate((placement.rotation * Math.PI) / 180);
+  context.drawImage(
+    image,
+    -placement.width / 2,
+    -placement.height / 2,
+    placement.width,
+    placement.height,
+  );
+  context.restore();
+
+  const adjustments = slot.adjustments ?? defaultAdjustments;
+  if (!isNeutral({ ...adjustments, vignette: 0 })) {
+    const [r, g, b] = colorMatrix(adjustments);
+    const pixels = context.getImageData(0, 0, canvas.width, canvas.height);
+    const data = pixels.data;
+    for (let i = 0; i < data.length; i += 4) {
+      const red = data[i] / 255;
+      const green = data[i + 1] / 255;
+      const blue = data[i + 2] / 255;
+      data[i] = (r[0] * red + r[1] * green + r[2] * blue + r[3]) * 255;
+      data[i + 1] = (g[0] * red + g[1] * green + g[2] * blue + g[3]) * 255;
+      data[i + 2] = (b[0] * red + b[1] * green + b[2] * blue + b[3]) * 255;
+    }
+    context.putImageData(pixels, 0, 0);
+  }
+
+  if (adjustments.vignette > 0) {
+    // CSS sizes an ellipse gradient to reach the corners; a circular canvas
+    // gradient squashed to the frame's aspect ratio matches it.
+    const radius = (frame.width / 2) * Math.SQRT2;
+    const gradient = context.createRadialGradient(0, 0, 0, 0, 0, radius);
+    gradient.addColorStop(0.45, "rgba(0,0,0,0)");
+    gradient.addColorStop(
+      1,
+      `rgba(0,0,0,${(adjustments.vignette / 100) * 0.7})`,
+    );
+    context.save();
+    context.translate(frame.width / 2, frame.height / 2);
+    context.scale(1, frame.height / frame.width);
+    context.fillStyle = gradient;
+    context.fillRect(-radius, -radius, radius * 2, radius * 2);
+    context.restore();
+  }
+
+  if (slot.frameStyle === "heart") {
+    context.save();
+    context.globalCompositeOperation = "destination-in";
+    context.scale(frame.width, frame.height);
+    context.fill(new Path2D(heartPath));
+    context.restore();
+  }
+
+  return canvas.toDataURL("image/png");
+};
+
+// html2canvas ignores CSS and SVG filters and masks, so photos that use them
+// are swapped for pre-rendered images in the cloned document before capture.
+export const bakePhotoFilters = async (clone: Document, scale: number) => {
+  const frames = [...clone.querySelectorAll<HTMLElement>("[data-photo-bake]")];
+  await Promise.all(
+    frames.map(async (frame) => {
+      const spec = JSON.parse(frame.dataset.photoBake ?? "") as BakeSpec;
+      const size = { width: frame.clientWidth, height: frame.clientHeight };
+      if (!size.width || !size.height) return;
+      try {
+        const url = await bakeFrame(spec, size, scale);
+        const image = clone.createElement("img");
+        image.src = url;
+        image.alt = spec.slot.name;
+        image.style.cssText =
+          "position:absolute;left:0;top:0;width:100%;height:100%;max-width:none;";
+        frame.replaceChildren(image);
+      } catch {
+        // Leave the unfiltered photo rather than failing the whole export.
+      }
+    }),
+  );
+};
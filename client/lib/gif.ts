@@ -0,0 +1,307 @@
+// A small animated GIF89a encoder so animated cards can be rendered in the
+// browser without a server round trip. Frames share one 256-colour palette
+// built with median cut; index 0 is reserved for transparency.
+export type Rgb = [number, number, number];
+
+export type GifOptions = {
+  width: number;
+  height: number;
+  palette: Rgb[];
+  // Total number of plays; 0 loops forever.
+  plays: number;
+  delayCs: number;
+};
+
+export const transparentIndex = 0;
+
+const maxColors = 256;
+
+// Growable byte buffer. Animated GIFs run to megabytes, which is too much
+// for a plain number array.
+class ByteWriter {
+  private bytes = new Uint8Array(1 << 16);
+  length = 0;
+
+  byte(value: number) {
+    if (this.length === this.bytes.length) {
+      const next = new Uint8Array(this.bytes.length * 2);
+      next.set(this.bytes);
+      this.bytes = next;
+    }
+    this.bytes[this.length++] = value;
+  }
+
+  word(value: number) {
+    this.byte(value & 0xff);
+    this.byte((value >> 8) & 0xff);
+  }
+
+  text(value: string) {
+    for (const char of value) this.byte(char.charCodeAt(0));
+  }
+
+  result() {
+    return this.bytes.slice(0, this.length);
+  }
+}
+
+type Box = { colors: Uint32Array; range: number; shift: number };
+
+const toBox = (colors: Uint32Array): Box => {
+  let range = -1;
+  let shift = 16;
+  for (const channel of [16, 8, 0]) {
+    let min = 255;
+    let max = 0;
+    for (const color of colors) {
+      const value = (color >> channel) & 0xff;
+      if (value < min) min = value;
+      if (value > max) max = value;
+    }
+    if (max - min > range) {
+      range = max - min;
+      shift = channel;
+    }
+  }
+  return { colors, range, shift };
+};
+
+// Median cut over packed 0xRRGGBB samples: split the box with the widest
+// channel at its median until there are enough boxes, then average each.
+const medianCut = (samples: Uint32Array, count: number): Rgb[] => {
+  if (samples.length === 0 || count <= 0) return [];
+  const boxes = [toBox(samples)];
+  while (boxes.length < count) {
+    let widest = -1;
+    boxes.forEach((box, index) => {
+      if (
+        box.colors.length > 1 &&
+        box.range > 0 &&
+        (widest < 0 || box.range > boxes[widest].range)
+      ) {
+        widest = index;
+      }
+    });
+    if (widest < 0) break;
+    const { colors, shift } = boxes[widest];
+    colors.sort((a, b) => ((a >> shift) & 0xff) - ((b >> shift) & 0xff));
+    const middle = colors.length >> 1;
+    boxes.splice(
+      widest,
+      1,
+      toBox(colors.subarray(0, middle)),
+      toBox(colors.subarray(middle)),
+    );
+  }
+  return boxes.map(({ colors }) => {
+    let r = 0;
+    let g = 0;
+    let b = 0;
+    for (const color of colors) {
+      r += (color >> 16) & 0xff;
+      g += (color >> 8) & 0xff;
+      b += color & 0xff;
+    }
+    return [
+      Math.round(r / colors.length),
+      Math.round(g / colors.length),
+      Math.round(b / colors.length),
+    ];
+  });
+};
+
+// Builds the shared palette from sample images plus colours that must
+// survive exactly, such as the confetti colours.
+export const buildPalette = (
+  images: ImageData[],
+  fixed: Rgb[] = [],
+  sampleStep = 7,
+): Rgb[] => {
+  const samples: number[] = [];
+  for (const image of images) {
+    const { data } = image;
+    for (let offset = 0; offset < data.length; offset += 4 * sampleStep) {
+      if (data[offset + 3] < 128) continue;
+      samples.push(
+        (data[offset] << 16) | (data[offset + 1] << 8) | data[offset + 2],
+      );
+    }
+  }
+  const free = maxColors - 1 - fixed.length;
+  const palette: Rgb[] = [
+    [0, 0, 0],
+    ...fixed,
+    ...medianCut(Uint32Array.from(samples), free),
+  ];
+  while (palette.length < maxColors) palette.push([0, 0, 0]);
+  return palette;
+};
+
+// Maps pixels to their nearest palette entry. Colours are bucketed to five
+// bits per channel so repeated lookups hit the cache.
+export const createColorMapper = (palette: Rgb[]) => {
+  const cache = new Int16Array(1 << 15).fill(-1);
+  return (r: number, g: number, b: number) => {
+    const key = ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+    const cached = cache[key];
+    if (cached >= 0) return cached;
+    let best = 1;
+    let bestDistance = Infinity;
+    for (let index = 1; index < palette.length; index += 1) {
+      const [pr, pg, pb] = palette[index];
+      const distance = (pr - r) ** 2 + (pg - g) ** 2 + (pb - b) ** 2;
+      if (distance < bestDistance) {
+        best = index;
+        bestDistance = distance;
+      }
+    }
+    cache[key] = best;
+    return best;
+  };
+};
+
+export const indexPixels = (
+  image: ImageData,
+  mapColor: (r: number, g: number, b: number) => number,
+) => {
+  const { data } = image;
+  const indices = new Uint8Array(image.width * image.height);
+  for (let pixel = 0; pixel < indices.length; pixel += 1) {
+    const offset = pixel * 4;
+    indices[pixel] =
+      data[offset + 3] < 128
+        ? transparentIndex
+        : mapColor(data[offset], data[offset + 1], data[offset + 2]);
+  }
+  return indices;
+};
+
+// Variable-length LZW as the GIF spec describes it, packed into sub-blocks
+// of at most 255 bytes. Codes are looked up by (prefix << 8 | index);
+// bumping the generation empties the table without refilling a megabyte of
+// memory on every clear, so one table serves every frame.
+const createLzwWriter = (out: ByteWriter) => {
+  const table = new Int32Array(4096 << 8);
+  const generations = new Int32Array(4096 << 8);
+  let generation = 0;
+
+  return (indices: Uint8Array) => {
+    const minCodeSize = 8;
+    const clearCode = 1 << minCodeSize;
+    const endCode = clearCode + 1;
+    generation += 1;
+    let codeSize = minCodeSize + 1;
+    let nextCode = endCode + 1;
+
+    const block = new Uint8Array(255);
+    let blockLength = 0;
+    let bits = 0;
+    let bitCount = 0;
+    const flushBlock = () => {
+      if (blockLength === 0) return;
+      out.byte(blockLength);
+      for (let index = 0; index < blockLength; index += 1)
+        out.byte(block[index]);
+      blockLength = 0;
+    };
+    const emit = (code: number) => {
+      bits |= code << bitCount;
+      bitCount += codeSize;
+      while (bitCount >= 8) {
+        block[blockLength++] = bits & 0xff;
+        if (blockLength === 255) flushBlock();
+        bits >>>= 8;
+        bitCount -= 8;
+      }
+    };
+
+    out.byte(minCodeSize);
+    emit(clearCode);
+    let prefix = indices[0];
+    for (let position = 1; position < indices.length; position += 1) {
+      const index = indices[position];
+      const key = (prefix << 8) | index;
+      if (generations[key] === generation) {
+        prefix = table[key];
+        continue;
+      }
+      emit(prefix);
+      if (nextCode === 4096) {
+        emit(clearCode);
+        generation += 1;
+        codeSize = minCodeSize + 1;
+        nextCode = endCode + 1;
+      } else {
+        if (nextCode >= 1 << codeSize) codeSize += 1;
+        table[key] = nextCode;
+        generations[key] = generation;
+        nextCode += 1;
+      }
+      prefix = index;
+    }
+    emit(prefix);
+    emit(endCode);
+    if (bitCount > 0) {
+      block[blockLength++] = bits & 0xff;
+    }
+    flushBlock();
+    out.byte(0);
+  };
+};
+
+// Frames are indexed against options.palette and always cover the whole
+// canvas, so each one is cleared back to transparent before the next.
+export const createGifEncoder = (options: GifOptions) => {
+  const { width, height, palette, plays, delayCs } = options;
+  const out = new ByteWriter();
+  const writeImageData = createLzwWriter(out);
+  out.text("GIF89a");
+  out.word(width);
+  out.word(height);
+  // Global colour table of 2^(7 + 1) entries with 8-bit colour resolution.
+  out.byte(0xf7);
+  out.byte(transparentIndex);
+  out.byte(0);
+  for (let index = 0; index < maxColors; index += 1) {
+    const [r, g, b] = palette[index] ?? [0, 0, 0];
+    out.byte(r);
+    out.byte(g);
+    out.byte(b);
+  }
+  // The NETSCAPE2.0 block counts repeats after the first play; without it
+  // the animation plays once.
+  if (plays !== 1) {
+    out.byte(0x21);
+    out.byte(0xff);
+    out.byte(11);
+    out.text("NETSCAPE2.0");
+    out.byte(3);
+    out.byte(1);
+    out.word(plays === 0 ? 0 : plays - 1);
+    out.byte(0);
+  }
+
+  return {
+    addFrame(indices: Uint8Array) {
+      // Graphic control: restore to background, transparent index set.
+      out.byte(0x21);
+      out.byte(0xf9);
+      out.byte(4);
+      out.byte((2 << 2) | 1);
+      out.word(delayCs);
+      out.byte(transparentIndex);
+      out.byte(0);
+      out.byte(0x2c);
+      out.word(0);
+      out.word(0);
+      out.word(width);
+      out.word(height);
+      out.byte(0);
+      writeImageData(indices);
+    },
+    finish() {
+      out.byte(0x3b);
+      return out.result();
+    },
+  };
+};
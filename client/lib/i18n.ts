@@ -0,0 +1,76 @@
+import type { Messages } from "./messages/en";
+import { en } from "./messages/en";
+import { ar } from "./messages/ar";
+import { es } from "./messages/es";
+import { fr } from "./messages/fr";
+import { he } from "./messages/he";
+
+export type { Messages };
+
+export type LocaleId = "en" | "es" | "fr" | "ar" | "he";
+
+export type Locale = {
+  id: LocaleId;
+  // Written in the language itself so people can find their own.
+  name: string;
+  dir: "ltr" | "rtl";
+  // Bundled font that covers the script when the card font does not.
+  scriptFontId?: string;
+};
+
+export const locales: Locale[] = [
+  { id: "en", name: "English", dir: "ltr" },
+  { id: "es", name: "Español", dir: "ltr" },
+  { id: "fr", name: "Français", dir: "ltr" },
+  { id: "ar", name: "العربية", dir: "rtl", scriptFontId: "noto-arabic" },
+  { id: "he", name: "עברית", dir: "rtl", scriptFontId: "noto-hebrew" },
+];
+
+export const defaultLocale = locales[0];
+
+// Read by the root layout so the first render already has the right
+// lang and dir.
+export const localeCookie = "studio-locale";
+
+const catalogs: Record<LocaleId, Messages> = { en, es, fr, ar, he };
+
+export const getLocale = (id?: string | null) =>
+  locales.find((locale) => locale.id === id) ?? defaultLocale;
+
+export const getMessages = (id?: string | null) => catalogs[getLocale(id).id];
+
+export type FormatValues = Record<string, string | number | null | undefined>;
+
+// Fills {placeholders}. Ones without a value are left in place.
+export const format = (text: string, values: FormatValues = {}) =>
+  text.replace(/\{(\w+)\}/g, (match, key: string) => {
+    const value = values[key];
+    return value === null || value === undefined ? match : String(value);
+  });
+
+export type CatalogEntry = { name: string; description?: string };
+
+// Data lists such as layouts keep their English names; catalogs translate
+// them by id and anything missing falls back to the original. Entries
+// without an id (like the "use the layout" frame style) use "default".
+export const localize = <T extends { id: string | null; name: string }>(
+  entries: Record<string, CatalogEntry>,
+  item: T,
+): T => {
+  const entry = entries[item.id ?? "default"];
+  return entry ? { ...item, ...entry } : item;
+};
+
+export const formatDate = (
+  localeId: string | null | undefined,
+  value: string | number | Date,
+  options: Intl.DateTimeFormatOptions = {
+    dateStyle: "medium",
+    timeStyle: "short",
+  },
+) => {
+  const date = value instanceof Date ? value : new Date(value);
+  return Number.isNaN(date.getTime())
+    ? ""
+    : new Intl.DateTimeFormat(getLocale(localeId).id, options).format(date);
+};
@@ -0,0 +1,109 @@
+import { StudioError } from "./errors";
+import { cardSizes } from "./presets";
+
+export type PrepStage = "converting" | "compressing";
+
+// A photo never shows wider than the largest preview at the sharpest
+// export scale, so pixels past that only slow the upload down.
+export const maxPhotoDimension = Math.ceil(
+  Math.max(
+    ...cardSizes.map((size) => size.previewMaxWidth * size.downloadScale),
+  ),
+);
+
+const photoQuality = 0.86;
+
+const extensions: Record<string, string> = {
+  "image/webp": "webp",
+  "image/jpeg": "jpg",
+  "image/png": "png",
+};
+
+const isHeic = (file: File) =>
+  ["image/heic", "image/heif"].includes(file.type) ||
+  /\.hei[cf]$/i.test(file.name);
+
+// "from-image" turns the pixels the way the EXIF orientation says, so the
+// photo is upright without the metadata.
+const decode = (blob: Blob) =>
+  createImageBitmap(blob, { imageOrientation: "from-image" }).catch(() => null);
+
+// Safari decodes HEIC itself; other browsers load a converter on demand.
+const convertHeic = async (file: File) => {
+  const { default: heic2any } = await import("heic2any");
+  const converted = await heic2any({ blob: file, toType: "image/png" });
+  return Array.isArray(converted) ? converted[0] : converted;
+};
+
+const encode = (canvas: HTMLCanvasElement, type: string) =>
+  new Promise<Blob | null>((resolve) =>
+    canvas.toBlob(resolve, type, photoQuality),
+  );
+
+// Gets a photo ready to upload: HEIC is converted, the EXIF orientation is
+// applied, the longest side is cut to maxPhotoDimension and the result is
+// re-encoded as WebP, or JPEG/PNG where the browser cannot write WebP.
+// Re-encoding keeps only pixels, so EXIF data such as the GPS position is
+// dropped. Files the browser cannot read are returned as they are for the
+// upload checks to report; GIFs too, as a canvas would lose their frames.
+export const preparePhoto = async (
+  file: File,
+  onStage?: (stage: PrepStage) => void,
+) => {
+  if (file.type === "image/gif") return file;
+  onStage?.("compressing");
+  let bitmap = await decode(file);
+  if (!bitmap && isHeic(file)) {
+    onStage?.("converting");
+    bitmap = await convertHeic(file)
+      .then(decode)
+      .catch(() => null);
+    if (!bitmap) {
+      throw new StudioError(
+        "heicFailed",
+        `${file.name} could not be converted from HEIC.`,
+        { name: file.name },
+      );
+    }
+    onStage?.("compressing");
+  }
+  if (!bitmap) return file;
+
+  const scale = Math.min(
+    1,
+    maxPhotoDimension / Math.max(bitmap.width, bitmap.height),
+  );
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+  canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+  const context = canvas.getContext("2d");
+  if (!context) {
+    bitmap.close();
+    return file;
+  }
+  context.imageSmoothingQuality = "high";
+  context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  // Browsers that cannot write WebP hand back PNG instead. PNG stays PNG
+  // to keep transparency; everything else becomes JPEG.
+  let blob = await encode(canvas, "image/webp");
+  if (blob?.type !== "image/webp") {
+    blob = await encode(
+      canvas,
+      file.type === "image/png" ? "image/png" : "image/jpeg",
+    );
+  }
+  if (!blob) {
+    throw new StudioError(
+      "compressFailed",
+      `${file.name} could not be compressed.`,
+      { name: file.name },
+    );
+  }
+  const baseName = file.name.replace(/\.[^.]*$/, "") || "photo";
+  return new File([blob], `${baseName}.${extensions[blob.type] ?? "img"}`, {
+    type: blob.type,
+    lastModified: file.lastModified,
+  });
+};
@@ -0,0 +1,53 @@
+// Keyboard control for things on the preview that can otherwise only be
+// dragged. Arrow steps are in percent of the card or frame; Shift takes
+// bigger steps.
+export type KeyAction =
+  | { kind: "move"; dx: number; dy: number }
+  | { kind: "scale"; direction: 1 | -1 }
+  | { kind: "rotate"; degrees: number };
+
+type KeyInput = {
+  key: string;
+  shiftKey: boolean;
+  altKey: boolean;
+  ctrlKey: boolean;
+  metaKey: boolean;
+};
+
+export const moveStep = 1;
+export const largeMoveStep = 10;
+export const rotateStep = 1;
+export const largeRotateStep = 15;
+
+export const keyAction = (event: KeyInput): KeyAction | null => {
+  // Leave browser and studio shortcuts (undo, redo) alone.
+  if (event.altKey || event.ctrlKey || event.metaKey) return null;
+  const step = event.shiftKey ? largeMoveStep : moveStep;
+  switch (event.key) {
+    case "ArrowLeft":
+      return { kind: "move", dx: -step, dy: 0 };
+    case "ArrowRight":
+      return { kind: "move", dx: step, dy: 0 };
+    case "ArrowUp":
+      return { kind: "move", dx: 0, dy: -step };
+    case "ArrowDown":
+      return { kind: "move", dx: 0, dy: step };
+    case "+":
+    case "=":
+      return { kind: "scale", direction: 1 };
+    case "-":
+    case "_":
+      return { kind: "scale", direction: -1 };
+    // Shift turns [ and ] into { and } on most layouts.
+    case "[":
+      return { kind: "rotate", degrees: -rotateStep };
+    case "]":
+      return { kind: "rotate", degrees: rotateStep };
+    case "{":
+      return { kind: "rotate", degrees: -largeRotateStep };
+    case "}":
+      return { kind: "rotate", degrees: largeRotateStep };
+    default:
+      return null;
+  }
+};
@@ -0,0 +1,256 @@
+import type { PhotoFrame } from "./cards";
+import { getPhotoGrid } from "./presets";
+
+export type RegionName =
+  "photos" | "headline" | "message" | "signature" | "signatures";
+
+// A cell range on the layout's grid. Columns and rows are 1-based.
+export type Region = {
+  column: number;
+  columnSpan: number;
+  row: number;
+  rowSpan?: number;
+  align?: "start" | "center" | "end";
+};
+
+// How the photo slots are placed inside the photos region.
+//   grid     - even tiles sized by the chosen grid format
+//   hero     - first photo large, the rest in a grid underneath
+//   collage  - mosaic where the first photo takes a 2x2 block
+//   scatter  - tilted polaroid prints at fixed spots
+//   strip    - a single filmstrip row of fixed-ratio frames
+//   bleed    - first photo fills the whole card, the rest are tiles
+//   freeform - every frame is moved and resized by hand
+export type PhotoArrangement =
+  | { kind: "grid" }
+  | { kind: "hero" }
+  | { kind: "collage"; columns: number }
+  | {
+      kind: "scatter";
+      frameWidth: number;
+      frameAspect: number;
+      spots: { x: number; y: number; rotate: number }[];
+    }
+  | { kind: "strip"; frameAspect: number }
+  | { kind: "bleed" }
+  | { kind: "freeform" };
+
+export type LayoutDefinition = {
+  id: string;
+  name: string;
+  description: string;
+  aspectRatio: number;
+  columns: number;
+  rows: string;
+  regions: Partial<Record<RegionName, Region>>;
+  photos: PhotoArrangement | null;
+  // Small caps line and headline shown on the front page. The eyebrow is a
+  // key into the card catalog so it follows the card's language.
+  eyebrow: "birthday" | "celebrate";
+  headline: "greeting" | "name";
+  // Card grows taller when the photos need more rows than fit.
+  growsWithPhotos?: boolean;
+  // Text sits on a light panel because it overlaps photos.
+  textBackdrop?: boolean;
+};
+
+const sideText: Partial<Record<RegionName, Region>> = {
+  headline: { column: 4, columnSpan: 2, row: 1 },
+  message: { column: 4, columnSpan: 2, row: 2 },
+  signature: { column: 4, columnSpan: 2, row: 4, align: "end" },
+};
+
+const sideRows = "auto auto minmax(0, 1fr) auto";
+
+export const layouts: LayoutDefinition[] = [
+  {
+    id: "duo",
+    name: "Split Duo",
+    description: "Two photos stacked with a message panel.",
+    aspectRatio: 3 / 2,
+    eyebrow: "birthday",
+    headline: "greeting",
+    columns: 5,
+    rows: sideRows,
+    regions: {
+      photos: { column: 1, columnSpan: 3, row: 1, rowSpan: 4 },
+      ...sideText,
+    },
+    photos: { kind: "grid" },
+    growsWithPhotos: true,
+  },
+  {
+    id: "focus",
+    name: "Hero Focus",
+    description: "One bold photo with a smaller cameo.",
+    aspectRatio: 3 / 2,
+    eyebrow: "celebrate",
+    headline: "name",
+    columns: 5,
+    rows: sideRows,
+    regions: {
+      photos: { column: 1, columnSpan: 3, row: 1, rowSpan: 4 },
+      ...sideText,
+    },
+    photos: { kind: "hero" },
+    growsWithPhotos: true,
+  },
+  {
+    id: "collage",
+    name: "Collage",
+    description: "A mosaic of photos above the message.",
+    aspectRatio: 3 / 2,
+    eyebrow: "birthday",
+    headline: "greeting",
+    columns: 5,
+    rows: "minmax(0, 1fr) auto auto",
+    regions: {
+      photos: { column: 1, columnSpan: 5, row: 1 },
+      headline: { column: 1, columnSpan: 2, row: 2, rowSpan: 2, align: "end" },
+      message: { column: 3, columnSpan: 3, row: 2 },
+      signature: { column: 3, columnSpan: 3, row: 3, align: "end" },
+    },
+    photos: { kind: "collage", columns: 4 },
+    growsWithPhotos: true,
+  },
+  {
+    id: "polaroid",
+    name: "Polaroid Scatter",
+    description: "Tilted instant prints tossed on the card.",
+    aspectRatio: 3 / 2,
+    eyebrow: "birthday",
+    headline: "greeting",
+    columns: 5,
+    rows: sideRows,
+    regions: {
+      photos: { column: 1, columnSpan: 3, row: 1, rowSpan: 4 },
+      ...sideText,
+    },
+    photos: {
+      kind: "scatter",
+      frameWidth: 46,
+      frameAspect: 0.85,
+      spots: [
+        { x: 4, y: 6, rotate: -6 },
+        { x: 48, y: 14, rotate: 5 },
+        { x: 20, y: 40, rotate: -2 },
+        { x: 52, y: 48, rotate: 8 },
+        { x: 0, y: 52, rotate: 4 },
+        { x: 30, y: 4, rotate: -9 },
+      ],
+    },
+  },
+  {
+    id: "hero",
+    name: "Full-Bleed Hero",
+    description: "One photo edge to edge with text on top.",
+    aspectRatio: 3 / 2,
+    eyebrow: "birthday",
+    headline: "greeting",
+    columns: 5,
+    rows: "auto minmax(0, 1fr) auto auto",
+    regions: {
+      photos: { column: 4, columnSpan: 2, row: 1 },
+      headline: { column: 1, columnSpan: 3, row: 1, align: "start" },
+      message: { column: 1, columnSpan: 3, row: 3 },
+      signature: { column: 1, columnSpan: 3, row: 4, align: "start" },
+    },
+    photos: { kind: "bleed" },
+    textBackdrop: true,
+  },
+  {
+    id: "filmstrip",
+    name: "Filmstrip",
+    description: "A row of frames across the top.",
+    aspectRatio: 3 / 2,
+    eyebrow: "birthday",
+    headline: "greeting",
+    columns: 5,
+    rows: "minmax(0, 1fr) auto auto",
+    regions: {
+      photos: { column: 1, columnSpan: 5, row: 1 },
+      headline: { column: 1, columnSpan: 2, row: 2, rowSpan: 2, align: "end" },
+      message: { column: 3, columnSpan: 3, row: 2 },
+      signature: { column: 3, columnSpan: 3, row: 3, align: "end" },
+    },
+    photos: { kind: "strip", frameAspect: 4 / 3 },
+  },
+  {
+    id: "freeform",
+    name: "Freeform",
+    description: "Move and resize every photo frame yourself.",
+    aspectRatio: 3 / 2,
+    eyebrow: "birthday",
+    headline: "greeting",
+    columns: 5,
+    rows: sideRows,
+    regions: {
+      photos: { column: 1, columnSpan: 5, row: 1, rowSpan: 4 },
+      ...sideText,
+    },
+    photos: { kind: "freeform" },
+  },
+  {
+    id: "note",
+    name: "Message Only",
+    description: "A full-width message with no photos.",
+    aspectRatio: 3 / 2,
+    eyebrow: "birthday",
+    headline: "greeting",
+    columns: 5,
+    rows: sideRows,
+    regions: {
+      headline: { column: 1, columnSpan: 5, row: 1 },
+      message: { column: 1, columnSpan: 5, row: 2 },
+      signature: { column: 1, columnSpan: 5, row: 4, align: "end" },
+    },
+    photos: null,
+  },
+  {
+    id: "signatures",
+    name: "Signatures",
+    description: "Notes from everyone who signed, flowed into columns.",
+    aspectRatio: 3 / 2,
+    eyebrow: "birthday",
+    headline: "greeting",
+    columns: 5,
+    rows: "auto auto minmax(0, 1fr) auto",
+    regions: {
+      headline: { column: 1, columnSpan: 5, row: 1 },
+      message: { column: 1, columnSpan: 5, row: 2 },
+      signatures: { column: 1, columnSpan: 5, row: 3 },
+      signature: { column: 1, columnSpan: 5, row: 4, align: "end" },
+    },
+    photos: null,
+  },
+];
+
+export const getLayout = (id: string) =>
+  layouts.find((layout) => layout.id === id) ?? layouts[0];
+
+// Rows of photo tiles the arrangement needs, used to grow the card.
+export const photoRowsFor = (
+  arrangement: PhotoArrangement | null,
+  count: number,
+  gridFormatId: string,
+) => {
+  if (!arrangement) return 0;
+  if (arrangement.kind === "grid") {
+    return getPhotoGrid(count, gridFormatId).rows;
+  }
+  if (arrangement.kind === "hero") {
+    return 1 + (count > 1 ? getPhotoGrid(count - 1, gridFormatId).rows : 0);
+  }
+  if (arrangement.kind === "collage") {
+    // The first photo fills four cells.
+    return Math.max(2, Math.ceil((count + 3) / arrangement.columns));
+  }
+  return 1;
+};
+
+export const defaultFrame = (index: number): PhotoFrame => ({
+  x: 4 + (index % 4) * 8,
+  y: 6 + (index % 4) * 10,
+  width: 40,
+  height: 45,
+});
@@ -0,0 +1,622 @@
+import type { Messages } from "./en";
+
+export const ar: Messages = {
+  studio: {
+    name: "استوديو بطاقات أعياد الميلاد",
+    title: "صمّم بطاقة عيد ميلاد مخصصة في دقائق.",
+    intro:
+      "أضف اسمًا، وارفع الصور، واسحبها لتحديد مكانها، واكتب رسالتك الخاصة. وعندما تعجبك النتيجة، نزّل البطاقة بدقة عالية بنقرة واحدة.",
+    badge: "خط واحد. أجواء لا تنتهي.",
+    language: "اللغة",
+  },
+  common: {
+    step: "الخطوة {number}",
+    reset: "إعادة ضبط",
+    remove: "إزالة",
+    delete: "حذف",
+    close: "إغلاق",
+    edit: "تعديل",
+    open: "فتح",
+    saving: "جارٍ الحفظ...",
+    uploading: "جارٍ الرفع...",
+  },
+  pages: {
+    label: "الصفحات",
+    folding: "بطاقة مطوية",
+    single: "بطاقة مفردة",
+    foldingHint:
+      "اختر صفحة لتعديلها. لكل صفحة تخطيطها وصورها وملصقاتها ورسالتها الخاصة.",
+    singleHint: "حوّل البطاقة إلى بطاقة مطوية بغلاف وصفحتين داخليتين وظهر.",
+    makeSingle: "اجعلها مفردة",
+    makeFolding: "اجعلها مطوية",
+  },
+  details: {
+    title: "الاسم والرسالة",
+    recipient: "اسم المُهدى إليه",
+    recipientPlaceholder: "مثلًا: ليلى",
+    sender: "من",
+    senderPlaceholder: "اسمك",
+    age: "العمر",
+    agePlaceholder: "مثلًا: 30",
+    birthday: "تاريخ الميلاد",
+    cardLanguage: "لغة البطاقة",
+    headline: "العنوان",
+    eyebrowPlaceholder: "سطر صغير فوق العنوان",
+    message: "الرسالة",
+    messageFor: "الرسالة · {page}",
+    placeholderHint:
+      "استخدم {name} و{age} و{sender} و{date} لإدراج البيانات المذكورة أعلاه.",
+    signature: "التوقيع",
+    templateName: "اسم القالب",
+    saveTemplate: "حفظ ضمن {tone}",
+  },
+  photos: {
+    title: "رفع الصور",
+    hint: "ارفع صورة، واسحبها داخل الإطار لتغيير موضعها، أو أفلت ملفًا مباشرة على الخانة.",
+    noPhotos:
+      "تستخدم هذه الصفحة تخطيط الرسالة فقط. اختر تخطيطًا بالصور في الخطوة 3 لإضافة صور هنا.",
+    slot: "الصورة {number}",
+    removeSlot: "إزالة الصورة",
+    deleteSlot: "حذف الخانة",
+    empty: "فارغة",
+    types: "PNG، JPG، WEBP، HEIC",
+    uploaded: "تم الرفع: {name}",
+    converting: "جارٍ تحويل HEIC...",
+    compressing: "جارٍ تغيير الحجم والضغط...",
+    compressed: "{after} (كان {before})",
+    dropTip: "نصيحة: أفلت ملفًا هنا لرفعه بسرعة.",
+    zoom: "تكبير",
+    rotate: "تدوير",
+    fitLayout: "التخطيط",
+    fit: "احتواء",
+    fill: "ملء",
+    resetCrop: "إعادة ضبط القص",
+    cropHint:
+      "اسحب الصورة لتحريكها. مرّر أو اقرص للتكبير، أو استخدم مقابض الزوايا.",
+    showFilters: "الفلاتر والإطار",
+    hideFilters: "إخفاء الفلاتر",
+    swap: "تبديل أول صورتين",
+    add: "إضافة صورة",
+    bright: "السطوع",
+    contrast: "التباين",
+    saturate: "التشبع",
+    warmth: "الدفء",
+    vignette: "التظليل",
+    frame: "الإطار",
+  },
+  design: {
+    title: "التخطيط والسمة",
+    photoGrid: "شبكة الصور",
+    cardSize: "حجم البطاقة",
+    newTheme: "سمة جديدة",
+    importJson: "استيراد JSON",
+    defaultThemeName: "سمتي",
+  },
+  themeEditor: {
+    newTitle: "سمة جديدة",
+    editTitle: "تعديل السمة",
+    namePlaceholder: "اسم السمة",
+    gradient: "التدرج",
+    angle: "الزاوية",
+    stop: "النقطة {number}",
+    stopColor: "لون النقطة {number}",
+    addStop: "إضافة نقطة",
+    highlights: "اللمعات",
+    highlightColor: "لون اللمعة {number}",
+    left: "اليسار",
+    top: "الأعلى",
+    size: "الحجم",
+    opacity: "الشفافية",
+    addHighlight: "إضافة لمعة",
+    accent: "لون التمييز",
+    shadow: "الظل",
+    backgroundImage: "صورة الخلفية",
+    removeImage: "إزالة الصورة",
+    contrast: "تباين لون التمييز {ratio}:1.",
+    contrastFails:
+      "نص التمييز لا يحقق معيار WCAG AA ({minimum}:1) على جزء من التدرج.",
+    contrastPasses: "يحقق معيار WCAG AA.",
+    contrastImage: "القياس على التدرج وليس على صورة الخلفية.",
+    save: "حفظ السمة",
+    exportJson: "تصدير JSON",
+  },
+  stickers: {
+    title: "الملصقات",
+    hint: "أضف نصوصًا أو رموزًا تعبيرية أو زخارف أو أشكالًا أو صور PNG خاصة بك. اسحبها في المعاينة، واستخدم مقابض الزوايا للتدوير وتغيير الحجم.",
+    limit: "تتسع الصفحة لـ {count} ملصقًا كحد أقصى.",
+    emoji: "رموز تعبيرية",
+    shapes: "أشكال",
+    addText: "إضافة ملصق نصي",
+    uploadPng: "رفع PNG",
+    forward: "للأمام",
+    back: "للخلف",
+    duplicate: "تكرار",
+    lock: "قفل",
+    unlock: "فتح القفل",
+    textPlaceholder: "اكتب نصك الخاص",
+    size: "الحجم",
+    rotate: "تدوير",
+    opacity: "الشفافية",
+    textStyle: "نمط النص",
+    hideTextStyle: "إخفاء نمط النص",
+    tone: "اللون",
+    accent: "التمييز",
+    ink: "الحبر",
+    textLabel: "نص",
+    emojiLabel: "رمز تعبيري {emoji}",
+    decorationLabel: "زخرفة",
+  },
+  typography: {
+    title: "الطباعة",
+    hint: "حدّد خط ونمط العنوان والرسالة والتوقيع في كل الصفحات. للملصقات النصية نمطها الخاص.",
+    font: "الخط",
+    weight: "السماكة",
+    alignLeft: "يسار",
+    alignCenter: "وسط",
+    alignRight: "يمين",
+    size: "الحجم",
+    leading: "تباعد الأسطر",
+    tracking: "تباعد الأحرف",
+    shadow: "الظل",
+    outline: "الحد الخارجي",
+    color: "اللون",
+  },
+  download: {
+    preparing: "جارٍ تجهيز التنزيل...",
+    download: "تنزيل البطاقة",
+    printPdf: "PDF للطباعة",
+    dpi: "نقطة/بوصة",
+    bleed: "هامش القص",
+    millimetres: "{value} مم",
+    cropMarks: "علامات القص",
+    downloadPdf: "تنزيل PDF",
+    publishing: "جارٍ النشر...",
+    share: "مشاركة",
+    expires: "ينتهي في {date}",
+    neverExpires: "لا ينتهي",
+    copied: "تم النسخ",
+    copyLink: "نسخ الرابط",
+    revoke: "إلغاء",
+    activeLinks: "الروابط النشطة",
+  },
+  drafts: {
+    label: "المسودات",
+    title: "بطاقاتي",
+    hint: "احفظ التصميم الحالي وأعد فتحه في أي وقت.",
+    newCard: "بطاقة جديدة",
+    saveChanges: "حفظ التغييرات",
+    saveDraft: "حفظ المسودة",
+    saveAsNew: "حفظ كبطاقة جديدة",
+    empty: "لا توجد بطاقات محفوظة بعد.",
+    updated: "آخر تحديث {date}",
+  },
+  preview: {
+    label: "المعاينة",
+    view3d: "عرض ثلاثي الأبعاد",
+    editPage: "تعديل الصفحة",
+    undo: "تراجع",
+    undoTitle: "تراجع (Ctrl/Cmd+Z)",
+    redo: "إعادة",
+    redoTitle: "إعادة (Ctrl/Cmd+Shift+Z)",
+    hint: "اسحب داخل الصورة لتغيير موضعها. استخدم التبديل لتغيير أماكن الصور.",
+    tip: "نصيحة: للحصول على أفضل جودة، استخدم صورة يزيد عرضها على 1200 بكسل. يصدّر زر التنزيل صورة PNG بنفس نسبة المعاينة.",
+    closed: "مغلقة",
+    open: "مفتوحة",
+    back: "الظهر",
+    dragRotate: "اسحب للتدوير",
+    dragZoom: "اسحب للتكبير",
+    dragResize: "اسحب لتغيير الحجم",
+    moveFrame: "اسحب لتحريك هذا الإطار",
+    resizeFrame: "اسحب لتغيير حجم هذا الإطار",
+    move: "تحريك",
+  },
+  animation: {
+    title: "الرسوم المتحركة",
+    hint: "قصاصات ملونة وبالونات ورسالة تُكتب حرفًا حرفًا وصور تظهر تدريجيًا. تتحرك الواجهة الأمامية للبطاقة، وتتبع المدة وعدد الإطارات حجم البطاقة.",
+    preview: "تحريك",
+    preparing: "جارٍ تجهيز الرسوم المتحركة...",
+    replay: "إعادة التشغيل",
+    settings: "{seconds} ث · {fps} إطار/ث · {plays}",
+    loopForever: "تكرار بلا نهاية",
+    playsOnce: "تشغيل مرة واحدة",
+    playsTimes: "تشغيل {count} مرات",
+    downloadGif: "تنزيل GIF",
+    downloadWebm: "تنزيل WebM",
+    rendering: "جارٍ الإنشاء...",
+  },
+  batch: {
+    title: "بطاقات بالجملة",
+    hint: "استورد قائمة مستلمين بصيغة CSV أو JSON تحتوي على أعمدة الاسم والمرسل والرسالة ورابط الصورة. يملأ كل صف التصميم الحالي، وتحتفظ الحقول الفارغة بما في التصميم.",
+    import: "استيراد المستلمين",
+    count: "{count} مستلمين",
+    clear: "مسح",
+    preview: "معاينة",
+    previewing: "{name} · {index} من {count}",
+    previous: "السابق",
+    next: "التالي",
+    backToEditor: "العودة إلى التحرير",
+    downloadZip: "تنزيل ZIP",
+    rendering: "جارٍ إنشاء {index} من {count}...",
+  },
+  delivery: {
+    title: "الإرسال بالبريد الإلكتروني",
+    hint: "أرسل البطاقة بالبريد الإلكتروني في اليوم المحدد. يُحتسب الوقت حسب المنطقة الزمنية المختارة.",
+    email: "بريد المستلم",
+    emailPlaceholder: "name@example.com",
+    date: "الإرسال في",
+    time: "الساعة",
+    timeZone: "المنطقة الزمنية",
+    note: "ملاحظة",
+    notePlaceholder: "كلمات اختيارية قبل الرابط",
+    schedule: "جدولة الإرسال",
+    save: "حفظ التغييرات",
+    stopEditing: "إيقاف التعديل",
+    cancelSend: "إلغاء الإرسال",
+    sendsAt: "{date} · {timeZone}",
+    statuses: {
+      pending: "مجدول",
+      sending: "جارٍ الإرسال",
+      sent: "تم الإرسال",
+      failed: "فشل",
+      cancelled: "ملغى",
+    },
+  },
+  signing: {
+    title: "التوقيع الجماعي",
+    hint: "شارك رابط الدعوة ليضيف أصدقاؤك رسائلهم. تظهر الرسائل على البطاقة بعد موافقتك.",
+    saveFirst: "احفظ البطاقة لدعوة الآخرين إلى توقيعها.",
+    createInvite: "إنشاء رابط دعوة",
+    disableInvite: "إيقاف الرابط",
+    addPage: "إضافة صفحة التواقيع",
+    noPage: "لا توجد صفحة تعرض الرسائل بعد.",
+    pageAdded: "تظهر الرسائل الموافق عليها في صفحة التواقيع.",
+    refresh: "تحديث",
+    empty: "لا توجد رسائل بعد.",
+    approve: "موافقة",
+    hide: "إخفاء",
+    statuses: {
+      pending: "بانتظار الموافقة",
+      approved: "على البطاقة",
+      hidden: "مخفية",
+    },
+    heading: "وقّع البطاقة لـ {name}",
+    intro: "اكتب رسالتك أدناه. يوافق صاحب البطاقة على الرسائل قبل ظهورها.",
+    name: "اسمك",
+    namePlaceholder: "مثال: سامي",
+    note: "رسالتك",
+    notePlaceholder: "عيد ميلاد سعيد! أتمنى لك عامًا رائعًا.",
+    charactersLeft: "يتبقى {count} حرفًا",
+    color: "لون الحبر",
+    colors: {
+      ink: "حبر البطاقة",
+      berry: "توتي",
+      ocean: "محيطي",
+      forest: "غابي",
+      sunset: "غروب",
+      violet: "بنفسجي",
+    },
+    photo: "صورة (اختياري)",
+    submit: "وقّع البطاقة",
+    sending: "جارٍ الإرسال...",
+    thanks: "شكرًا! رسالتك بانتظار موافقة صاحب البطاقة.",
+    signAgain: "إضافة رسالة أخرى",
+  },
+  live: {
+    title: "التحرير المباشر",
+    hint: "حرّروا هذه البطاقة معًا في الوقت نفسه. يرى كل شخص مؤشرات الآخرين وتغييراتهم فورًا.",
+    saveFirst: "احفظ البطاقة لبدء جلسة مباشرة.",
+    yourName: "اسمك",
+    namePlaceholder: "يظهر بجانب مؤشرك",
+    start: "ابدأ البث المباشر",
+    leave: "مغادرة الجلسة",
+    connecting: "جارٍ الاتصال...",
+    live: "مباشر",
+    alone: "أنت وحدك هنا. شارك الرابط لدعوة أحد.",
+    saveReminder: "تُشارك التغييرات فورًا. احفظ البطاقة للاحتفاظ بها.",
+  },
+  designFile: {
+    title: "ملف التصميم",
+    hint: "احفظ نسخة من هذا التصميم أو انقله إلى جهاز آخر. يتضمن ملف ZIP الصور أيضًا.",
+    exportJson: "تصدير JSON",
+    exportZip: "تصدير ZIP",
+    import: "استيراد تصميم",
+    working: "جارٍ العمل...",
+    packing: "جارٍ تجميع الصورة {done} من {total}...",
+    uploading: "جارٍ رفع الصورة {done} من {total}...",
+  },
+  a11y: {
+    movablePhoto: "صورة قابلة للتحريك",
+    movableSticker: "ملصق قابل للتحريك",
+    photoKeys:
+      "مفاتيح الأسهم تحرك الصورة، و+ و- للتكبير والتصغير، و[ و] للتدوير. اضغط Shift لخطوات أكبر.",
+    stickerKeys:
+      "مفاتيح الأسهم تحرك الملصق، و+ و- لتغيير الحجم، و[ و] للتدوير. اضغط Shift لخطوات أكبر.",
+    frameMoveKeys: "مفاتيح الأسهم تحرك هذا الإطار. اضغط Shift لخطوات أكبر.",
+    frameResizeKeys:
+      "مفاتيح الأسهم تغير حجم هذا الإطار. اضغط Shift لخطوات أكبر.",
+    frameLabel: "إطار {label}",
+    position: "{label}: {x}% أفقيًا، {y}% عموديًا",
+    zoom: "{label}: تكبير {value}%",
+    rotation: "{label}: تدوير {value}°",
+    size: "{label}: الحجم {value}",
+    frameSize: "{label}: العرض {width}%، الارتفاع {height}%",
+    layout: "التخطيط: {name}",
+    grid: "شبكة الصور: {name}",
+    cardSize: "حجم البطاقة: {name}",
+  },
+  shortcuts: {
+    open: "الاختصارات",
+    title: "اختصارات لوحة المفاتيح",
+    hint: "انتقل بمفتاح Tab إلى صورة أو ملصق أو مقبض إطار في المعاينة، ثم استخدم هذه المفاتيح.",
+    undo: "تراجع",
+    redo: "إعادة",
+    move: "تحريك الصورة أو الملصق أو الإطار المحدد",
+    bigStep: "التحريك بخطوات أكبر",
+    scale: "تكبير صورة أو تغيير حجم ملصق",
+    rotate: "تدوير بمقدار 1°",
+    rotateBig: "تدوير بمقدار 15°",
+    show: "عرض هذه القائمة",
+    close: "إغلاق هذه القائمة",
+  },
+  shared: {
+    makeYourOwn: "اصنع بطاقتك الخاصة",
+    loadFailed: "تعذّر تحميل هذه البطاقة.",
+    loadFailedLater: "تعذّر تحميل هذه البطاقة. حاول مرة أخرى لاحقًا.",
+  },
+  errors: {
+    uploadFailed: "فشل الرفع. حاول مرة أخرى.",
+    saveFailed: "فشل الحفظ. حاول مرة أخرى.",
+    openFailed: "تعذّر فتح هذه البطاقة.",
+    deleteCardFailed: "تعذّر حذف هذه البطاقة.",
+    saveThemeFailed: "فشل حفظ السمة. حاول مرة أخرى.",
+    deleteThemeFailed: "تعذّر حذف هذه السمة.",
+    importThemeFailed: "تعذّر استيراد هذه السمة.",
+    saveTemplateFailed: "فشل حفظ القالب. حاول مرة أخرى.",
+    deleteTemplateFailed: "تعذّر حذف هذا القالب.",
+    shareFailed: "فشلت المشاركة. حاول مرة أخرى.",
+    copyFailed: "تعذّر نسخ الرابط. انسخه يدويًا.",
+    revokeFailed: "تعذّر إلغاء الرابط.",
+    notReady: "البطاقة ليست جاهزة للتصدير بعد.",
+    downloadFailed: "فشل التنزيل. حاول مرة أخرى.",
+    pdfFailed: "فشل تصدير PDF. حاول مرة أخرى.",
+    animationFailed: "تعذّر تصدير الرسوم المتحركة. حاول مرة أخرى.",
+    webmUnsupported:
+      "لا يستطيع هذا المتصفح تسجيل فيديو WebM. جرّب GIF بدلًا منه.",
+    batchImportFailed: "تعذّرت قراءة قائمة المستلمين هذه.",
+    batchFailed: "فشل التصدير بالجملة. حاول مرة أخرى.",
+    scheduleFailed: "فشلت الجدولة. حاول مرة أخرى.",
+    cancelScheduleFailed: "تعذّر إلغاء هذا الإرسال.",
+    inviteFailed: "تعذّر تحديث رابط الدعوة.",
+    contributionFailed: "تعذّر تحديث هذه الرسالة.",
+    loadInviteFailed: "تعذّر تحميل هذه الدعوة. حاول لاحقًا.",
+    signFailed: "تعذّر إرسال رسالتك. حاول مرة أخرى.",
+    liveClosed: "انتهت الجلسة المباشرة. حاول مرة أخرى.",
+    exportDesignFailed: "تعذّر تصدير التصميم.",
+    importDesignFailed: "تعذّر استيراد هذا التصميم.",
+  },
+  errorCodes: {
+    csvUnclosedQuote: "يحتوي ملف CSV على علامة اقتباس غير مغلقة.",
+    csvNameColumnMissing: "يحتاج ملف CSV إلى عمود للاسم.",
+    invalidJson: "هذا الملف ليس JSON صالحًا.",
+    recipientsNotList: "يجب أن يحتوي ملف JSON على قائمة بالمستلمين.",
+    noRecipients: "لم يُعثر في هذا الملف على مستلمين لهم أسماء.",
+    tooManyRecipients:
+      "تتسع الدفعة لـ {max} مستلمًا كحد أقصى في المرة الواحدة.",
+    notDesignFile: "هذا الملف ليس تصديرًا لتصميم بطاقة.",
+    designVersionMissing: "لا يحتوي ملف التصميم هذا على رقم إصدار صالح.",
+    designVersionTooNew:
+      "صُدِّر هذا التصميم من إصدار أحدث من الاستوديو. حدّث الاستوديو لاستيراده.",
+    designVersionUnsupported: "ملفات التصميم من الإصدار {version} غير مدعومة.",
+    designInvalid: "لا يمكن استيراد هذا التصميم لأن الملف تالف.",
+    bundlePhotoFailed:
+      "تعذّر تنزيل الصورة {number} للحزمة. صدّر التصميم دون صور بدلًا من ذلك.",
+    bundleDesignMissing: "لا يحتوي أرشيف ZIP على {name}.",
+    bundlePhotoMissing: "ينقص أرشيف ZIP الملف {path}.",
+    notZip: "هذا الملف ليس أرشيف ZIP.",
+    zipDamaged: "أرشيف ZIP تالف.",
+    zipCompressionUnsupported:
+      "{name} مضغوط بطريقة لا يستطيع الاستوديو قراءتها.",
+    heicFailed: "تعذّر تحويل {name} من HEIC.",
+    compressFailed: "تعذّر ضغط {name}.",
+    unsupportedType:
+      "{name} ليست صورة مدعومة. استخدم JPEG أو PNG أو WEBP أو GIF أو HEIC.",
+    fileTooLarge: "حجم {name} هو {size}. الحد الأقصى {limit}.",
+    dimensionsTooLarge:
+      "أبعاد {name} هي {width}x{height}px. يجب ألا يتجاوز كل جانب من الصورة {max}px.",
+    tooManyPhotos: "تتسع البطاقة لـ {max} صور كحد أقصى.",
+    unreadableImage: "تعذّرت قراءة {name} كصورة.",
+    invalidFile: "تعذّر رفع هذا الملف.",
+    noFile: "لم يُرفع أي ملف.",
+    uploadRateLimited: "عمليات رفع كثيرة جدًا. انتظر قليلًا ثم حاول مرة أخرى.",
+    uploadUnauthorized: "رفض خادم الرفع هذا الاستوديو.",
+    uploadSessionRequired: "انتهت جلسة الرفع. حاول مرة أخرى.",
+    uploadNotConfigured:
+      "رفع الصور غير مُعدّ. أضف NEXT_PUBLIC_IMAGEKIT_PUBLIC_KEY في client .env.local.",
+    uploadAuthFailed: "فشلت المصادقة مع ImageKit. هل الخادم يعمل؟",
+    uploadFailed: "فشل الرفع. حاول مرة أخرى.",
+    uploadServerUnreachable: "تعذّر الوصول إلى خادم الرفع. هل يعمل؟",
+    notThemeFile: "هذا الملف ليس تصديرًا مدعومًا لسمة.",
+    themeStopCount: "تحتاج السمة إلى ما بين 2 و{max} من نقاط التدرج.",
+    themeColorsMissing: "لونا التمييز والظل في السمة مفقودان.",
+  },
+  card: {
+    eyebrows: { birthday: "عيد ميلاد", celebrate: "احتفال" },
+    greeting: "عيد ميلاد سعيد\n{name}",
+    signature: "من {sender}",
+    nameFallback: "صديقك",
+    senderFallback: "أنت",
+    messagePlaceholder: "اكتب رسالة عيد الميلاد هنا.",
+    signaturesPlaceholder: "تظهر هنا الرسائل التي يوقّعها الأصدقاء.",
+    photoPlaceholder: "الصورة {number}",
+    heroPlaceholder: "الصورة الرئيسية",
+    uploadHint: "ارفع صورة لوضعها هنا",
+    stickerText: "نصك",
+    pdfTitle: "بطاقة عيد ميلاد لـ {name}",
+    credit: "صُنعت باستوديو بطاقات أعياد الميلاد",
+  },
+  templates: {
+    "funny-cake": {
+      name: "مزيد من الشموع",
+      text: "عيد ميلاد سعيد يا {name}! لا تقلق بشأن الشموع، فقد أبلغنا الدفاع المدني مسبقًا.",
+    },
+    "funny-age": {
+      name: "عتيق",
+      text: "الـ{age} تليق بك يا {name}. مثل الجبن الفاخر، تزداد إثارة للاهتمام كل عام.",
+    },
+    "funny-dessert": {
+      name: "حلوى إضافية",
+      text: "السعرات لا تُحتسب في عيد ميلادك. هذا علم يا {name}. خذ قطعة ثانية.",
+    },
+    "heartfelt-confetti": {
+      name: "لحظات الاحتفال",
+      text: "أتمنى لك عامًا مليئًا بلحظات الفرح والأحلام الجريئة والحلوى الإضافية.",
+    },
+    "heartfelt-grateful": {
+      name: "امتنان",
+      text: "{name}، أنا ممتن جدًا لوجودك في حياتي. نخبك ونخب كل ما تحمله سنواتك الـ{age}. مع حبي، {sender}",
+    },
+    "heartfelt-today": {
+      name: "يومك",
+      text: "اليوم، {date}، هو يومك بالكامل. شكرًا لأنك كما أنت تمامًا يا {name}.",
+    },
+    "formal-wishes": {
+      name: "أطيب التمنيات",
+      text: "عزيزي {name}، أحر التهاني بعيد ميلادك وأطيب الأمنيات بعام سعيد مليء بالصحة. مع خالص التحية، {sender}",
+    },
+    "formal-team": {
+      name: "من الفريق",
+      text: "كل عام وأنت بخير يا {name}. نتمنى لك دوام النجاح واحتفالًا رائعًا في {date}.",
+    },
+    "kids-party": {
+      name: "وقت الحفلة",
+      text: "هيييه، {name} أصبح عمره {age}! حان وقت البالونات والألعاب وأكبر كعكة على الإطلاق!",
+    },
+    "kids-superstar": {
+      name: "النجم الخارق",
+      text: "عيد ميلاد سعيد أيها النجم {name}! أنت رائع ومدهش و{age} سنوات من المرح!",
+    },
+  },
+  templateTones: {
+    funny: { name: "مضحك" },
+    heartfelt: { name: "من القلب" },
+    formal: { name: "رسمي" },
+    kids: { name: "للأطفال" },
+  },
+  textRoles: {
+    headline: { name: "العنوان" },
+    message: { name: "الرسالة" },
+    signature: { name: "التوقيع" },
+  },
+  cardPages: {
+    front: { name: "الغلاف" },
+    insideLeft: { name: "الداخل الأيسر" },
+    insideRight: { name: "الداخل الأيمن" },
+    back: { name: "الظهر" },
+  },
+  layouts: {
+    duo: {
+      name: "ثنائي مقسوم",
+      description: "صورتان فوق بعضهما مع لوحة للرسالة.",
+    },
+    focus: {
+      name: "صورة بارزة",
+      description: "صورة كبيرة واحدة مع صورة صغيرة.",
+    },
+    collage: { name: "كولاج", description: "فسيفساء من الصور فوق الرسالة." },
+    polaroid: {
+      name: "صور بولارويد متناثرة",
+      description: "صور فورية مائلة على البطاقة.",
+    },
+    hero: {
+      name: "صورة كاملة",
+      description: "صورة من الحافة إلى الحافة والنص فوقها.",
+    },
+    filmstrip: {
+      name: "شريط فيلم",
+      description: "صف من الإطارات في أعلى البطاقة.",
+    },
+    freeform: {
+      name: "حر",
+      description: "حرّك كل إطار صورة وغيّر حجمه بنفسك.",
+    },
+    note: {
+      name: "رسالة فقط",
+      description: "رسالة بعرض البطاقة من دون صور.",
+    },
+    signatures: {
+      name: "التواقيع",
+      description: "رسائل كل من وقّع، موزعة على أعمدة.",
+    },
+  },
+  gridFormats: {
+    auto: { name: "تلقائي", description: "أعمدة متوازنة حسب عدد الصور." },
+    two: { name: "عمودان", description: "عمودان دائمًا." },
+    three: { name: "ثلاثة أعمدة", description: "صور أكثر في كل صف." },
+  },
+  cardSizes: {
+    standard: { name: "عادي", description: "معاينة بحجم متوازن." },
+    large: { name: "كبير", description: "معاينة أكبر وتصدير أوضح." },
+    xlarge: { name: "كبير جدًا", description: "أكبر معاينة وأعلى دقة تصدير." },
+  },
+  themes: {
+    sunrise: { name: "موكب الشروق" },
+    sorbet: { name: "سوربيه" },
+    night: { name: "ليلة التوت" },
+  },
+  printFormats: {
+    a6: { name: "A6", description: "بطاقة مسطحة 148 × 105 مم." },
+    "5x7": { name: "5 × 7 بوصة", description: "حجم بطاقة التهنئة التقليدي." },
+    a5: { name: "A5", description: "بطاقة مسطحة 210 × 148 مم." },
+    "a4-folded": {
+      name: "A4 مطوية",
+      description: "ورقة A4 مطوية إلى A5 ومطبوعة على الوجهين.",
+    },
+  },
+  shareExpiry: {
+    never: { name: "لا ينتهي" },
+    day: { name: "يوم واحد" },
+    week: { name: "7 أيام" },
+    month: { name: "30 يومًا" },
+  },
+  filterPresets: {
+    original: { name: "الأصلي" },
+    bw: { name: "أبيض وأسود" },
+    vintage: { name: "كلاسيكي" },
+    pastel: { name: "باستيل" },
+  },
+  frameStyles: {
+    default: { name: "التخطيط" },
+    polaroid: { name: "بولارويد" },
+    rounded: { name: "مستدير الزوايا" },
+    circle: { name: "دائرة" },
+    heart: { name: "قلب" },
+  },
+  stickerPacks: {
+    balloons: { name: "بالونات" },
+    cake: { name: "كعك" },
+    confetti: { name: "قصاصات ملونة" },
+  },
+  decorations: {
+    "balloon-red": { name: "بالون أحمر" },
+    "balloon-blue": { name: "بالون أزرق" },
+    "balloon-bunch": { name: "باقة بالونات" },
+    "cake-layer": { name: "كعكة طبقات" },
+    cupcake: { name: "كب كيك" },
+    candle: { name: "شمعة" },
+    "confetti-burst": { name: "انفجار قصاصات" },
+    streamer: { name: "شريط زينة" },
+    sparkle: { name: "بريق" },
+  },
+  stickerShapes: {
+    circle: { name: "دائرة" },
+    star: { name: "نجمة" },
+    heart: { name: "قلب" },
+    burst: { name: "انفجار" },
+  },
+  animationEffects: {
+    confetti: { name: "انفجار القصاصات" },
+    balloons: { name: "بالونات طائرة" },
+    typewriter: { name: "رسالة الآلة الكاتبة" },
+    photoFade: { name: "ظهور الصور تدريجيًا" },
+  },
+};
@@ -0,0 +1,637 @@
+import type { CatalogEntry } from "../i18n";
+
+type Entries = Record<string, CatalogEntry>;
+type Templates = Record<string, { name: string; text: string }>;
+
+// The source catalog. Every other locale must provide the same keys;
+// {placeholders} are filled with format() from lib/i18n.
+export const en = {
+  studio: {
+    name: "Birthday Card Studio",
+    title: "Build a personalized birthday card in minutes.",
+    intro:
+      "Add a name, upload photos, drag to position them, and write a custom message. When it feels right, download a high-res card in one tap.",
+    badge: "One font. Infinite vibes.",
+    language: "Language",
+  },
+  common: {
+    step: "Step {number}",
+    reset: "Reset",
+    remove: "Remove",
+    delete: "Delete",
+    close: "Close",
+    edit: "Edit",
+    open: "Open",
+    saving: "Saving...",
+    uploading: "Uploading...",
+  },
+  pages: {
+    label: "Pages",
+    folding: "Folding card",
+    single: "Single card",
+    foldingHint:
+      "Pick a page to edit. Each page has its own layout, photos, stickers and message.",
+    singleHint:
+      "Turn the card into a folding card with a cover, an inside spread and a back.",
+    makeSingle: "Make single",
+    makeFolding: "Make folding",
+  },
+  details: {
+    title: "Name & message",
+    recipient: "Recipient name",
+    recipientPlaceholder: "e.g. Priya",
+    sender: "From",
+    senderPlaceholder: "Your name",
+    age: "Age",
+    agePlaceholder: "e.g. 30",
+    birthday: "Birthday",
+    cardLanguage: "Card language",
+    headline: "Headline",
+    eyebrowPlaceholder: "Small line above the headline",
+    message: "Message",
+    messageFor: "Message · {page}",
+    placeholderHint:
+      "Use {name}, {age}, {sender} and {date} to fill in the details above.",
+    signature: "Signature",
+    templateName: "Template name",
+    saveTemplate: "Save as {tone}",
+  },
+  photos: {
+    title: "Upload photos",
+    hint: "Upload a photo, drag inside the frame to reposition, or drop a file straight onto a slot.",
+    noPhotos:
+      "This page uses the message-only layout. Pick a photo layout in Step 3 to add photos here.",
+    slot: "Photo {number}",
+    removeSlot: "Remove slot",
+    deleteSlot: "Delete slot",
+    empty: "Empty",
+    types: "PNG, JPG, WEBP, HEIC",
+    uploaded: "Uploaded: {name}",
+    converting: "Converting HEIC...",
+    compressing: "Resizing and compressing...",
+    compressed: "{after} (was {before})",
+    dropTip: "Tip: Drop a file here to upload faster.",
+    zoom: "Zoom",
+    rotate: "Rotate",
+    fitLayout: "Layout",
+    fit: "Fit",
+    fill: "Fill",
+    resetCrop: "Reset crop",
+    cropHint:
+      "Drag the photo to pan. Scroll or pinch to zoom, or use the corner handles.",
+    showFilters: "Filters & frame",
+    hideFilters: "Hide filters",
+    swap: "Swap first two photos",
+    add: "Add photo",
+    bright: "Bright",
+    contrast: "Contrast",
+    saturate: "Saturate",
+    warmth: "Warmth",
+    vignette: "Vignette",
+    frame: "Frame",
+  },
+  design: {
+    title: "Layout & theme",
+    photoGrid: "Photo grid",
+    cardSize: "Card size",
+    newTheme: "New theme",
+    importJson: "Import JSON",
+    defaultThemeName: "My theme",
+  },
+  themeEditor: {
+    newTitle: "New theme",
+    editTitle: "Edit theme",
+    namePlaceholder: "Theme name",
+    gradient: "Gradient",
+    angle: "Angle",
+    stop: "Stop {number}",
+    stopColor: "Stop {number} color",
+    addStop: "Add stop",
+    highlights: "Highlights",
+    highlightColor: "Highlight {number} color",
+    left: "Left",
+    top: "Top",
+    size: "Size",
+    opacity: "Opacity",
+    addHighlight: "Add highlight",
+    accent: "Accent",
+    shadow: "Shadow",
+    backgroundImage: "Background image",
+    removeImage: "Remove image",
+    contrast: "Accent contrast {ratio}:1.",
+    contrastFails:
+      "Accent text fails WCAG AA ({minimum}:1) on part of the gradient.",
+    contrastPasses: "Passes WCAG AA.",
+    contrastImage: "Measured against the gradient, not the background image.",
+    save: "Save theme",
+    exportJson: "Export JSON",
+  },
+  stickers: {
+    title: "Stickers",
+    hint: "Add text, emoji, decorations, shapes or your own PNGs. Drag them on the preview; use the corner handles to rotate and resize.",
+    limit: "A page holds up to {count} stickers.",
+    emoji: "Emoji",
+    shapes: "Shapes",
+    addText: "Add text sticker",
+    uploadPng: "Upload PNG",
+    forward: "Forward",
+    back: "Back",
+    duplicate: "Duplicate",
+    lock: "Lock",
+    unlock: "Unlock",
+    textPlaceholder: "Write your custom text",
+    size: "Size",
+    rotate: "Rotate",
+    opacity: "Opacity",
+    textStyle: "Text style",
+    hideTextStyle: "Hide text style",
+    tone: "Tone",
+    accent: "Accent",
+    ink: "Ink",
+    textLabel: "Text",
+    emojiLabel: "Emoji {emoji}",
+    decorationLabel: "Decoration",
+  },
+  typography: {
+    title: "Typography",
+    hint: "Set the font and style of the headline, message and signature on every page. Text stickers have their own style.",
+    font: "Font",
+    weight: "Weight",
+    alignLeft: "Left",
+    alignCenter: "Center",
+    alignRight: "Right",
+    size: "Size",
+    leading: "Leading",
+    tracking: "Tracking",
+    shadow: "Shadow",
+    outline: "Outline",
+    color: "Color",
+  },
+  download: {
+    preparing: "Preparing download...",
+    download: "Download card",
+    printPdf: "Print PDF",
+    dpi: "DPI",
+    bleed: "Bleed",
+    millimetres: "{value} mm",
+    cropMarks: "Crop marks",
+    downloadPdf: "Download PDF",
+    publishing: "Publishing...",
+    share: "Share",
+    expires: "Expires {date}",
+    neverExpires: "Never expires",
+    copied: "Copied",
+    copyLink: "Copy link",
+    revoke: "Revoke",
+    activeLinks: "Active links",
+  },
+  drafts: {
+    label: "Drafts",
+    title: "My cards",
+    hint: "Save the current design and reopen it any time.",
+    newCard: "New card",
+    saveChanges: "Save changes",
+    saveDraft: "Save draft",
+    saveAsNew: "Save as new",
+    empty: "No saved cards yet.",
+    updated: "Updated {date}",
+  },
+  preview: {
+    label: "Preview",
+    view3d: "3D view",
+    editPage: "Edit page",
+    undo: "Undo",
+    undoTitle: "Undo (Ctrl/Cmd+Z)",
+    redo: "Redo",
+    redoTitle: "Redo (Ctrl/Cmd+Shift+Z)",
+    hint: "Drag inside a photo to reposition. Use Swap to switch photo placement.",
+    tip: "Tip: For best quality, use a photo wider than 1200px. The download button exports a PNG that matches the preview ratio.",
+    closed: "Closed",
+    open: "Open",
+    back: "Back",
+    dragRotate: "Drag to rotate",
+    dragZoom: "Drag to zoom",
+    dragResize: "Drag to resize",
+    moveFrame: "Drag to move this frame",
+    resizeFrame: "Drag to resize this frame",
+    move: "Move",
+  },
+  animation: {
+    title: "Animation",
+    hint: "Confetti, balloons, a typewriter message and photos fading in. The front of the card is animated; length and frame rate follow the card size.",
+    preview: "Animate",
+    preparing: "Preparing animation...",
+    replay: "Replay",
+    settings: "{seconds} s · {fps} fps · {plays}",
+    loopForever: "loops forever",
+    playsOnce: "plays once",
+    playsTimes: "plays {count} times",
+    downloadGif: "Download GIF",
+    downloadWebm: "Download WebM",
+    rendering: "Rendering...",
+  },
+  batch: {
+    title: "Batch cards",
+    hint: "Import a CSV or JSON list of recipients with name, sender, message and photo URL columns. Each row fills in the current design; empty fields keep what the design already has.",
+    import: "Import recipients",
+    count: "{count} recipients",
+    clear: "Clear",
+    preview: "Preview",
+    previewing: "{name} · {index} of {count}",
+    previous: "Previous",
+    next: "Next",
+    backToEditor: "Back to editing",
+    downloadZip: "Download ZIP",
+    rendering: "Rendering {index} of {count}...",
+  },
+  delivery: {
+    title: "Email delivery",
+    hint: "Email the card on the day. The time is read in the chosen time zone.",
+    email: "Recipient email",
+    emailPlaceholder: "name@example.com",
+    date: "Send on",
+    time: "At",
+    timeZone: "Time zone",
+    note: "Note",
+    notePlaceholder: "Optional words above the link",
+    schedule: "Schedule send",
+    save: "Save changes",
+    stopEditing: "Stop editing",
+    cancelSend: "Cancel send",
+    sendsAt: "{date} · {timeZone}",
+    statuses: {
+      pending: "Scheduled",
+      sending: "Sending",
+      sent: "Sent",
+      failed: "Failed",
+      cancelled: "Cancelled",
+    },
+  },
+  signing: {
+    title: "Group signing",
+    hint: "Share the invite link so friends can add their own notes. Notes show on the card once you approve them.",
+    saveFirst: "Save the card to invite others to sign it.",
+    createInvite: "Create invite link",
+    disableInvite: "Turn off link",
+    addPage: "Add signatures page",
+    noPage: "No page shows the notes yet.",
+    pageAdded: "Approved notes show on the signatures page.",
+    refresh: "Refresh",
+    empty: "No notes yet.",
+    approve: "Approve",
+    hide: "Hide",
+    statuses: { pending: "Waiting", approved: "On the card", hidden: "Hidden" },
+    heading: "Sign the card for {name}",
+    intro:
+      "Add your note below. The card's owner approves notes before they appear.",
+    name: "Your name",
+    namePlaceholder: "e.g. Sam",
+    note: "Your note",
+    notePlaceholder: "Happy birthday! Have a wonderful year.",
+    charactersLeft: "{count} characters left",
+    color: "Ink colour",
+    colors: {
+      ink: "Card ink",
+      berry: "Berry",
+      ocean: "Ocean",
+      forest: "Forest",
+      sunset: "Sunset",
+      violet: "Violet",
+    },
+    photo: "Photo (optional)",
+    submit: "Sign the card",
+    sending: "Sending...",
+    thanks: "Thanks! Your note is waiting for the owner's approval.",
+    signAgain: "Add another note",
+  },
+  live: {
+    title: "Live editing",
+    hint: "Edit this card together in real time. Everyone sees each other's cursors and changes as they happen.",
+    saveFirst: "Save the card to start a live session.",
+    yourName: "Your name",
+    namePlaceholder: "Shown next to your cursor",
+    start: "Go live",
+    leave: "Leave session",
+    connecting: "Connecting...",
+    live: "Live",
+    alone: "Only you are here. Share the link to invite someone.",
+    saveReminder: "Changes are shared right away. Save the card to keep them.",
+  },
+  designFile: {
+    title: "Design file",
+    hint: "Back up this design or move it to another device. The ZIP also holds the photos.",
+    exportJson: "Export JSON",
+    exportZip: "Export ZIP",
+    import: "Import design",
+    working: "Working...",
+    packing: "Packing photo {done} of {total}...",
+    uploading: "Uploading photo {done} of {total}...",
+  },
+  a11y: {
+    movablePhoto: "movable photo",
+    movableSticker: "movable sticker",
+    photoKeys:
+      "Arrow keys move the photo, + and - zoom, [ and ] rotate. Hold Shift for bigger steps.",
+    stickerKeys:
+      "Arrow keys move the sticker, + and - resize, [ and ] rotate. Hold Shift for bigger steps.",
+    frameMoveKeys: "Arrow keys move this frame. Hold Shift for bigger steps.",
+    frameResizeKeys:
+      "Arrow keys resize this frame. Hold Shift for bigger steps.",
+    frameLabel: "{label} frame",
+    position: "{label}: {x}% across, {y}% down",
+    zoom: "{label}: zoom {value}%",
+    rotation: "{label}: rotated {value}°",
+    size: "{label}: size {value}",
+    frameSize: "{label}: {width}% wide, {height}% tall",
+    layout: "Layout: {name}",
+    grid: "Photo grid: {name}",
+    cardSize: "Card size: {name}",
+  },
+  shortcuts: {
+    open: "Shortcuts",
+    title: "Keyboard shortcuts",
+    hint: "Tab to a photo, sticker or frame handle on the preview, then use these keys.",
+    undo: "Undo",
+    redo: "Redo",
+    move: "Move the focused photo, sticker or frame",
+    bigStep: "Move in bigger steps",
+    scale: "Zoom a photo or resize a sticker",
+    rotate: "Rotate by 1°",
+    rotateBig: "Rotate by 15°",
+    show: "Show this list",
+    close: "Close this list",
+  },
+  shared: {
+    makeYourOwn: "Make your own card",
+    loadFailed: "This card could not be loaded.",
+    loadFailedLater: "This card could not be loaded. Try again later.",
+  },
+  errors: {
+    uploadFailed: "Upload failed. Try again.",
+    saveFailed: "Saving failed. Try again.",
+    openFailed: "Could not open that card.",
+    deleteCardFailed: "Could not delete that card.",
+    saveThemeFailed: "Saving the theme failed. Try again.",
+    deleteThemeFailed: "Could not delete that theme.",
+    importThemeFailed: "Could not import that theme.",
+    saveTemplateFailed: "Saving the template failed. Try again.",
+    deleteTemplateFailed: "Could not delete that template.",
+    shareFailed: "Sharing failed. Try again.",
+    copyFailed: "Could not copy the link. Copy it manually instead.",
+    revokeFailed: "Could not revoke the link.",
+    notReady: "The card is not ready to export yet.",
+    downloadFailed: "Download failed. Try again.",
+    pdfFailed: "PDF export failed. Try again.",
+    animationFailed: "Animation export failed. Try again.",
+    webmUnsupported:
+      "This browser cannot record WebM video. Try the GIF instead.",
+    batchImportFailed: "Could not read that recipient list.",
+    batchFailed: "Batch export failed. Try again.",
+    scheduleFailed: "Scheduling failed. Try again.",
+    cancelScheduleFailed: "Could not cancel that send.",
+    inviteFailed: "Could not update the invite link.",
+    contributionFailed: "Could not update that note.",
+    loadInviteFailed: "Could not load this invite. Try again later.",
+    signFailed: "Could not send your note. Try again.",
+    liveClosed: "The live session ended. Try going live again.",
+    exportDesignFailed: "Could not export the design.",
+    importDesignFailed: "Could not import that design.",
+  },
+  // Coded errors thrown by the lib modules, shown through lib/errors.
+  errorCodes: {
+    // Recipient lists for batch export.
+    csvUnclosedQuote: "The CSV file has an unclosed quote.",
+    csvNameColumnMissing: "The CSV file needs a name column.",
+    invalidJson: "That file is not valid JSON.",
+    recipientsNotList: "The JSON file should hold a list of recipients.",
+    noRecipients: "No recipients with a name were found in that file.",
+    tooManyRecipients: "A batch can hold up to {max} recipients at a time.",
+    // Design files and ZIP bundles.
+    notDesignFile: "That file is not a card design export.",
+    designVersionMissing: "That design file has no valid version number.",
+    designVersionTooNew:
+      "That design was exported by a newer version of the studio. Update the studio to import it.",
+    designVersionUnsupported:
+      "Design files of version {version} are not supported.",
+    designInvalid: "That design cannot be imported. {problem}",
+    bundlePhotoFailed:
+      "Could not download photo {number} for the bundle. Export the design without photos instead.",
+    bundleDesignMissing: "The ZIP archive has no {name}.",
+    bundlePhotoMissing: "The ZIP archive is missing {path}.",
+    notZip: "That file is not a ZIP archive.",
+    zipDamaged: "The ZIP archive is damaged.",
+    zipCompressionUnsupported:
+      "{name} is compressed in a way the studio cannot read.",
+    // Photo uploads.
+    heicFailed: "{name} could not be converted from HEIC.",
+    compressFailed: "{name} could not be compressed.",
+    unsupportedType:
+      "{name} is not a supported image. Use JPEG, PNG, WEBP, GIF or HEIC.",
+    fileTooLarge: "{name} is {size}. The limit is {limit}.",
+    dimensionsTooLarge:
+      "{name} is {width}x{height}px. Photos must be at most {max}px on each side.",
+    tooManyPhotos: "A card can hold up to {max} photos.",
+    unreadableImage: "{name} could not be read as an image.",
+    invalidFile: "That file could not be uploaded.",
+    noFile: "No file was uploaded.",
+    uploadRateLimited: "Too many uploads. Wait a moment and try again.",
+    uploadUnauthorized: "The upload server refused this studio.",
+    uploadSessionRequired: "The upload session expired. Try again.",
+    uploadNotConfigured:
+      "Photo uploads are not set up. Add NEXT_PUBLIC_IMAGEKIT_PUBLIC_KEY in client .env.local.",
+    uploadAuthFailed: "ImageKit auth failed. Is the server running?",
+    uploadFailed: "Upload failed. Try again.",
+    uploadServerUnreachable:
+      "Could not reach the upload server. Is it running?",
+    // Theme files.
+    notThemeFile: "That file is not a supported theme export.",
+    themeStopCount: "A theme needs between 2 and {max} gradient stops.",
+    themeColorsMissing: "The theme's accent and shadow colors are missing.",
+  },
+  // Text printed on the card itself, in the card's language.
+  card: {
+    eyebrows: { birthday: "Birthday", celebrate: "Celebrate" },
+    greeting: "Happy Birthday\n{name}",
+    signature: "From {sender}",
+    nameFallback: "Your Friend",
+    senderFallback: "You",
+    messagePlaceholder: "Type your birthday message here.",
+    signaturesPlaceholder: "Signed notes from friends appear here.",
+    photoPlaceholder: "Photo {number}",
+    heroPlaceholder: "Hero Photo",
+    uploadHint: "Upload to drop a photo here",
+    stickerText: "Your text",
+    pdfTitle: "Birthday card for {name}",
+    credit: "Made with Birthday Card Studio",
+  },
+  templates: {
+    "funny-cake": {
+      name: "More candles",
+      text: "Happy birthday, {name}! Don't worry about the candles, the fire department has been warned.",
+    },
+    "funny-age": {
+      name: "Vintage",
+      text: "{age} looks great on you, {name}. Like a fine cheese, you just keep getting more interesting.",
+    },
+    "funny-dessert": {
+      name: "Extra dessert",
+      text: "Calories don't count on your birthday. That's science, {name}. Go get a second slice.",
+    },
+    "heartfelt-confetti": {
+      name: "Confetti moments",
+      text: "Wishing you a year filled with confetti moments, brave dreams, and extra dessert.",
+    },
+    "heartfelt-grateful": {
+      name: "Grateful",
+      text: "{name}, I'm so grateful to have you in my life. Here's to you and everything {age} brings. Love, {sender}",
+    },
+    "heartfelt-today": {
+      name: "Your day",
+      text: "Today, {date}, is all about you. Thank you for being exactly who you are, {name}.",
+    },
+    "formal-wishes": {
+      name: "Best wishes",
+      text: "Dear {name}, warmest wishes on your birthday and for a happy, healthy year ahead. Kind regards, {sender}",
+    },
+    "formal-team": {
+      name: "From the team",
+      text: "Many happy returns, {name}. Wishing you continued success and a wonderful celebration on {date}.",
+    },
+    "kids-party": {
+      name: "Party time",
+      text: "Hooray, {name} is {age}! Time for balloons, games and the biggest cake ever!",
+    },
+    "kids-superstar": {
+      name: "Superstar",
+      text: "Happy birthday, superstar {name}! You are awesome, amazing and {age} years of fun!",
+    },
+  } as Templates,
+  templateTones: {
+    funny: { name: "Funny" },
+    heartfelt: { name: "Heartfelt" },
+    formal: { name: "Formal" },
+    kids: { name: "Kids" },
+  } as Entries,
+  textRoles: {
+    headline: { name: "Headline" },
+    message: { name: "Message" },
+    signature: { name: "Signature" },
+  } as Entries,
+  cardPages: {
+    front: { name: "Front" },
+    insideLeft: { name: "Inside left" },
+    insideRight: { name: "Inside right" },
+    back: { name: "Back" },
+  } as Entries,
+  layouts: {
+    duo: {
+      name: "Split Duo",
+      description: "Two photos stacked with a message panel.",
+    },
+    focus: {
+      name: "Hero Focus",
+      description: "One bold photo with a smaller cameo.",
+    },
+    collage: {
+      name: "Collage",
+      description: "A mosaic of photos above the message.",
+    },
+    polaroid: {
+      name: "Polaroid Scatter",
+      description: "Tilted instant prints tossed on the card.",
+    },
+    hero: {
+      name: "Full-Bleed Hero",
+      description: "One photo edge to edge with text on top.",
+    },
+    filmstrip: {
+      name: "Filmstrip",
+      description: "A row of frames across the top.",
+    },
+    freeform: {
+      name: "Freeform",
+      description: "Move and resize every photo frame yourself.",
+    },
+    note: {
+      name: "Message Only",
+      description: "A full-width message with no photos.",
+    },
+    signatures: {
+      name: "Signatures",
+      description: "Notes from everyone who signed, flowed into columns.",
+    },
+  } as Entries,
+  gridFormats: {
+    auto: { name: "Auto", description: "Balanced columns based on count." },
+    two: { name: "Two Column", description: "Always aim for two columns." },
+    three: { name: "Three Column", description: "Show more tiles per row." },
+  } as Entries,
+  cardSizes: {
+    standard: { name: "Standard", description: "Balanced preview size." },
+    large: { name: "Large", description: "Bigger preview + sharper export." },
+    xlarge: { name: "Extra", description: "Largest preview + ultra export." },
+  } as Entries,
+  themes: {
+    sunrise: { name: "Sunrise Parade" },
+    sorbet: { name: "Sorbet Pop" },
+    night: { name: "Berry Night" },
+  } as Entries,
+  printFormats: {
+    a6: { name: "A6", description: "148 x 105 mm flat card." },
+    "5x7": { name: "5 x 7 in", description: "Classic greeting card size." },
+    a5: { name: "A5", description: "210 x 148 mm flat card." },
+    "a4-folded": {
+      name: "Folded A4",
+      description: "A4 sheet top-folded to A5, printed on both sides.",
+    },
+  } as Entries,
+  shareExpiry: {
+    never: { name: "Never expires" },
+    day: { name: "1 day" },
+    week: { name: "7 days" },
+    month: { name: "30 days" },
+  } as Entries,
+  filterPresets: {
+    original: { name: "Original" },
+    bw: { name: "B&W" },
+    vintage: { name: "Vintage" },
+    pastel: { name: "Pastel" },
+  } as Entries,
+  frameStyles: {
+    default: { name: "Layout" },
+    polaroid: { name: "Polaroid" },
+    rounded: { name: "Rounded" },
+    circle: { name: "Circle" },
+    heart: { name: "Heart" },
+  } as Entries,
+  stickerPacks: {
+    balloons: { name: "Balloons" },
+    cake: { name: "Cake" },
+    confetti: { name: "Confetti" },
+  } as Entries,
+  decorations: {
+    "balloon-red": { name: "Red balloon" },
+    "balloon-blue": { name: "Blue balloon" },
+    "balloon-bunch": { name: "Balloon bunch" },
+    "cake-layer": { name: "Layer cake" },
+    cupcake: { name: "Cupcake" },
+    candle: { name: "Candle" },
+    "confetti-burst": { name: "Confetti burst" },
+    streamer: { name: "Streamer" },
+    sparkle: { name: "Sparkle" },
+  } as Entries,
+  stickerShapes: {
+    circle: { name: "Circle" },
+    star: { name: "Star" },
+    heart: { name: "Heart" },
+    burst: { name: "Burst" },
+  } as Entries,
+  animationEffects: {
+    confetti: { name: "Confetti burst" },
+    balloons: { name: "Floating balloons" },
+    typewriter: { name: "Typewriter message" },
+    photoFade: { name: "Photo fade-in" },
+  } as Entries,
+};
+
+export type Messages = typeof en;
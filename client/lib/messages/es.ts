@@ -0,0 +1,654 @@
+import type { Messages } from "./en";
+
+export const es: Messages = {
+  studio: {
+    name: "Estudio de Tarjetas de Cumpleaños",
+    title: "Crea una tarjeta de cumpleaños personalizada en minutos.",
+    intro:
+      "Añade un nombre, sube fotos, arrástralas para colocarlas y escribe un mensaje propio. Cuando te guste, descarga la tarjeta en alta resolución con un toque.",
+    badge: "Una fuente. Vibras infinitas.",
+    language: "Idioma",
+  },
+  common: {
+    step: "Paso {number}",
+    reset: "Restablecer",
+    remove: "Quitar",
+    delete: "Eliminar",
+    close: "Cerrar",
+    edit: "Editar",
+    open: "Abrir",
+    saving: "Guardando...",
+    uploading: "Subiendo...",
+  },
+  pages: {
+    label: "Páginas",
+    folding: "Tarjeta plegable",
+    single: "Tarjeta simple",
+    foldingHint:
+      "Elige una página para editar. Cada página tiene su propio diseño, fotos, stickers y mensaje.",
+    singleHint:
+      "Convierte la tarjeta en plegable, con portada, interior doble y contraportada.",
+    makeSingle: "Hacer simple",
+    makeFolding: "Hacer plegable",
+  },
+  details: {
+    title: "Nombre y mensaje",
+    recipient: "Nombre del destinatario",
+    recipientPlaceholder: "p. ej. Lucía",
+    sender: "De",
+    senderPlaceholder: "Tu nombre",
+    age: "Edad",
+    agePlaceholder: "p. ej. 30",
+    birthday: "Cumpleaños",
+    cardLanguage: "Idioma de la tarjeta",
+    headline: "Titular",
+    eyebrowPlaceholder: "Línea pequeña sobre el titular",
+    message: "Mensaje",
+    messageFor: "Mensaje · {page}",
+    placeholderHint:
+      "Usa {name}, {age}, {sender} y {date} para completar los datos de arriba.",
+    signature: "Firma",
+    templateName: "Nombre de la plantilla",
+    saveTemplate: "Guardar en {tone}",
+  },
+  photos: {
+    title: "Subir fotos",
+    hint: "Sube una foto, arrástrala dentro del marco para recolocarla o suelta un archivo directamente sobre un hueco.",
+    noPhotos:
+      "Esta página usa el diseño de solo mensaje. Elige un diseño con fotos en el paso 3 para añadirlas aquí.",
+    slot: "Foto {number}",
+    removeSlot: "Quitar foto",
+    deleteSlot: "Eliminar hueco",
+    empty: "Vacío",
+    types: "PNG, JPG, WEBP, HEIC",
+    uploaded: "Subida: {name}",
+    converting: "Convirtiendo HEIC...",
+    compressing: "Redimensionando y comprimiendo...",
+    compressed: "{after} (antes {before})",
+    dropTip: "Consejo: suelta un archivo aquí para subirlo más rápido.",
+    zoom: "Zoom",
+    rotate: "Girar",
+    fitLayout: "Diseño",
+    fit: "Ajustar",
+    fill: "Rellenar",
+    resetCrop: "Restablecer recorte",
+    cropHint:
+      "Arrastra la foto para moverla. Desplaza o pellizca para hacer zoom, o usa las esquinas.",
+    showFilters: "Filtros y marco",
+    hideFilters: "Ocultar filtros",
+    swap: "Intercambiar las dos primeras fotos",
+    add: "Añadir foto",
+    bright: "Brillo",
+    contrast: "Contraste",
+    saturate: "Saturación",
+    warmth: "Calidez",
+    vignette: "Viñeta",
+    frame: "Marco",
+  },
+  design: {
+    title: "Diseño y tema",
+    photoGrid: "Cuadrícula de fotos",
+    cardSize: "Tamaño de tarjeta",
+    newTheme: "Nuevo tema",
+    importJson: "Importar JSON",
+    defaultThemeName: "Mi tema",
+  },
+  themeEditor: {
+    newTitle: "Nuevo tema",
+    editTitle: "Editar tema",
+    namePlaceholder: "Nombre del tema",
+    gradient: "Degradado",
+    angle: "Ángulo",
+    stop: "Parada {number}",
+    stopColor: "Color de la parada {number}",
+    addStop: "Añadir parada",
+    highlights: "Brillos",
+    highlightColor: "Color del brillo {number}",
+    left: "Izquierda",
+    top: "Arriba",
+    size: "Tamaño",
+    opacity: "Opacidad",
+    addHighlight: "Añadir brillo",
+    accent: "Acento",
+    shadow: "Sombra",
+    backgroundImage: "Imagen de fondo",
+    removeImage: "Quitar imagen",
+    contrast: "Contraste del acento {ratio}:1.",
+    contrastFails:
+      "El texto de acento no cumple WCAG AA ({minimum}:1) en parte del degradado.",
+    contrastPasses: "Cumple WCAG AA.",
+    contrastImage: "Medido sobre el degradado, no sobre la imagen de fondo.",
+    save: "Guardar tema",
+    exportJson: "Exportar JSON",
+  },
+  stickers: {
+    title: "Stickers",
+    hint: "Añade texto, emoji, decoraciones, formas o tus propios PNG. Arrástralos en la vista previa; usa las esquinas para girarlos y cambiar su tamaño.",
+    limit: "Una página admite hasta {count} stickers.",
+    emoji: "Emoji",
+    shapes: "Formas",
+    addText: "Añadir sticker de texto",
+    uploadPng: "Subir PNG",
+    forward: "Adelante",
+    back: "Atrás",
+    duplicate: "Duplicar",
+    lock: "Bloquear",
+    unlock: "Desbloquear",
+    textPlaceholder: "Escribe tu texto",
+    size: "Tamaño",
+    rotate: "Girar",
+    opacity: "Opacidad",
+    textStyle: "Estilo de texto",
+    hideTextStyle: "Ocultar estilo de texto",
+    tone: "Tono",
+    accent: "Acento",
+    ink: "Tinta",
+    textLabel: "Texto",
+    emojiLabel: "Emoji {emoji}",
+    decorationLabel: "Decoración",
+  },
+  typography: {
+    title: "Tipografía",
+    hint: "Define la fuente y el estilo del titular, el mensaje y la firma en todas las páginas. Los stickers de texto tienen su propio estilo.",
+    font: "Fuente",
+    weight: "Grosor",
+    alignLeft: "Izquierda",
+    alignCenter: "Centro",
+    alignRight: "Derecha",
+    size: "Tamaño",
+    leading: "Interlineado",
+    tracking: "Espaciado",
+    shadow: "Sombra",
+    outline: "Contorno",
+    color: "Color",
+  },
+  download: {
+    preparing: "Preparando descarga...",
+    download: "Descargar tarjeta",
+    printPdf: "PDF para imprimir",
+    dpi: "PPP",
+    bleed: "Sangrado",
+    millimetres: "{value} mm",
+    cropMarks: "Marcas de corte",
+    downloadPdf: "Descargar PDF",
+    publishing: "Publicando...",
+    share: "Compartir",
+    expires: "Caduca el {date}",
+    neverExpires: "No caduca",
+    copied: "Copiado",
+    copyLink: "Copiar enlace",
+    revoke: "Revocar",
+    activeLinks: "Enlaces activos",
+  },
+  drafts: {
+    label: "Borradores",
+    title: "Mis tarjetas",
+    hint: "Guarda el diseño actual y vuelve a abrirlo cuando quieras.",
+    newCard: "Nueva tarjeta",
+    saveChanges: "Guardar cambios",
+    saveDraft: "Guardar borrador",
+    saveAsNew: "Guardar como nueva",
+    empty: "Aún no hay tarjetas guardadas.",
+    updated: "Actualizada {date}",
+  },
+  preview: {
+    label: "Vista previa",
+    view3d: "Vista 3D",
+    editPage: "Editar página",
+    undo: "Deshacer",
+    undoTitle: "Deshacer (Ctrl/Cmd+Z)",
+    redo: "Rehacer",
+    redoTitle: "Rehacer (Ctrl/Cmd+Mayús+Z)",
+    hint: "Arrastra dentro de una foto para recolocarla. Usa Intercambiar para cambiar las fotos de sitio.",
+    tip: "Consejo: para la mejor calidad, usa una foto de más de 1200 px de ancho. El botón de descarga exporta un PNG con la misma proporción que la vista previa.",
+    closed: "Cerrada",
+    open: "Abierta",
+    back: "Reverso",
+    dragRotate: "Arrastra para girar",
+    dragZoom: "Arrastra para hacer zoom",
+    dragResize: "Arrastra para cambiar el tamaño",
+    moveFrame: "Arrastra para mover este marco",
+    resizeFrame: "Arrastra para cambiar el tamaño de este marco",
+    move: "Mover",
+  },
+  animation: {
+    title: "Animación",
+    hint: "Confeti, globos, un mensaje a máquina de escribir y fotos que aparecen poco a poco. Se anima la portada de la tarjeta; la duración y los fotogramas dependen del tamaño de la tarjeta.",
+    preview: "Animar",
+    preparing: "Preparando la animación...",
+    replay: "Repetir",
+    settings: "{seconds} s · {fps} fps · {plays}",
+    loopForever: "en bucle infinito",
+    playsOnce: "se reproduce una vez",
+    playsTimes: "se reproduce {count} veces",
+    downloadGif: "Descargar GIF",
+    downloadWebm: "Descargar WebM",
+    rendering: "Generando...",
+  },
+  batch: {
+    title: "Tarjetas en lote",
+    hint: "Importa una lista CSV o JSON de destinatarios con columnas de nombre, remitente, mensaje y URL de foto. Cada fila rellena el diseño actual; los campos vacíos conservan lo que ya tiene el diseño.",
+    import: "Importar destinatarios",
+    count: "{count} destinatarios",
+    clear: "Borrar",
+    preview: "Vista previa",
+    previewing: "{name} · {index} de {count}",
+    previous: "Anterior",
+    next: "Siguiente",
+    backToEditor: "Volver a editar",
+    downloadZip: "Descargar ZIP",
+    rendering: "Generando {index} de {count}...",
+  },
+  delivery: {
+    title: "Envío por correo",
+    hint: "Envía la tarjeta por correo el día elegido. La hora se interpreta en la zona horaria seleccionada.",
+    email: "Correo del destinatario",
+    emailPlaceholder: "nombre@ejemplo.com",
+    date: "Enviar el",
+    time: "A las",
+    timeZone: "Zona horaria",
+    note: "Nota",
+    notePlaceholder: "Unas palabras opcionales antes del enlace",
+    schedule: "Programar envío",
+    save: "Guardar cambios",
+    stopEditing: "Dejar de editar",
+    cancelSend: "Cancelar envío",
+    sendsAt: "{date} · {timeZone}",
+    statuses: {
+      pending: "Programado",
+      sending: "Enviando",
+      sent: "Enviado",
+      failed: "Falló",
+      cancelled: "Cancelado",
+    },
+  },
+  signing: {
+    title: "Firma en grupo",
+    hint: "Comparte el enlace de invitación para que tus amigos añadan sus notas. Aparecen en la tarjeta cuando las apruebas.",
+    saveFirst: "Guarda la tarjeta para invitar a otros a firmarla.",
+    createInvite: "Crear enlace de invitación",
+    disableInvite: "Desactivar enlace",
+    addPage: "Añadir página de firmas",
+    noPage: "Ninguna página muestra las notas todavía.",
+    pageAdded: "Las notas aprobadas aparecen en la página de firmas.",
+    refresh: "Actualizar",
+    empty: "Aún no hay notas.",
+    approve: "Aprobar",
+    hide: "Ocultar",
+    statuses: {
+      pending: "En espera",
+      approved: "En la tarjeta",
+      hidden: "Oculta",
+    },
+    heading: "Firma la tarjeta para {name}",
+    intro:
+      "Escribe tu nota abajo. Quien creó la tarjeta aprueba las notas antes de que aparezcan.",
+    name: "Tu nombre",
+    namePlaceholder: "p. ej. Sam",
+    note: "Tu nota",
+    notePlaceholder: "¡Feliz cumpleaños! Que tengas un año maravilloso.",
+    charactersLeft: "Quedan {count} caracteres",
+    color: "Color de tinta",
+    colors: {
+      ink: "Tinta de la tarjeta",
+      berry: "Frambuesa",
+      ocean: "Océano",
+      forest: "Bosque",
+      sunset: "Atardecer",
+      violet: "Violeta",
+    },
+    photo: "Foto (opcional)",
+    submit: "Firmar la tarjeta",
+    sending: "Enviando...",
+    thanks: "¡Gracias! Tu nota espera la aprobación.",
+    signAgain: "Añadir otra nota",
+  },
+  live: {
+    title: "Edición en vivo",
+    hint: "Editad esta tarjeta juntos en tiempo real. Cada uno ve los cursores y cambios de los demás al instante.",
+    saveFirst: "Guarda la tarjeta para empezar una sesión en vivo.",
+    yourName: "Tu nombre",
+    namePlaceholder: "Se muestra junto a tu cursor",
+    start: "Empezar en vivo",
+    leave: "Salir de la sesión",
+    connecting: "Conectando...",
+    live: "En vivo",
+    alone: "Solo estás tú. Comparte el enlace para invitar a alguien.",
+    saveReminder:
+      "Los cambios se comparten al momento. Guarda la tarjeta para conservarlos.",
+  },
+  designFile: {
+    title: "Archivo de diseño",
+    hint: "Guarda una copia de este diseño o llévalo a otro dispositivo. El ZIP también incluye las fotos.",
+    exportJson: "Exportar JSON",
+    exportZip: "Exportar ZIP",
+    import: "Importar diseño",
+    working: "Procesando...",
+    packing: "Empaquetando foto {done} de {total}...",
+    uploading: "Subiendo foto {done} de {total}...",
+  },
+  a11y: {
+    movablePhoto: "foto movible",
+    movableSticker: "adhesivo movible",
+    photoKeys:
+      "Las flechas mueven la foto, + y - hacen zoom, [ y ] la giran. Mantén Mayús para pasos más grandes.",
+    stickerKeys:
+      "Las flechas mueven el adhesivo, + y - cambian su tamaño, [ y ] lo giran. Mantén Mayús para pasos más grandes.",
+    frameMoveKeys:
+      "Las flechas mueven este marco. Mantén Mayús para pasos más grandes.",
+    frameResizeKeys:
+      "Las flechas cambian el tamaño de este marco. Mantén Mayús para pasos más grandes.",
+    frameLabel: "Marco de {label}",
+    position: "{label}: {x} % en horizontal, {y} % en vertical",
+    zoom: "{label}: zoom al {value} %",
+    rotation: "{label}: girada {value}°",
+    size: "{label}: tamaño {value}",
+    frameSize: "{label}: {width} % de ancho, {height} % de alto",
+    layout: "Diseño: {name}",
+    grid: "Cuadrícula de fotos: {name}",
+    cardSize: "Tamaño de la tarjeta: {name}",
+  },
+  shortcuts: {
+    open: "Atajos",
+    title: "Atajos de teclado",
+    hint: "Usa Tab para llegar a una foto, un adhesivo o un tirador de marco en la vista previa y luego usa estas teclas.",
+    undo: "Deshacer",
+    redo: "Rehacer",
+    move: "Mover la foto, el adhesivo o el marco seleccionado",
+    bigStep: "Mover en pasos más grandes",
+    scale: "Hacer zoom en una foto o cambiar el tamaño de un adhesivo",
+    rotate: "Girar 1°",
+    rotateBig: "Girar 15°",
+    show: "Mostrar esta lista",
+    close: "Cerrar esta lista",
+  },
+  shared: {
+    makeYourOwn: "Crea tu propia tarjeta",
+    loadFailed: "No se pudo cargar esta tarjeta.",
+    loadFailedLater:
+      "No se pudo cargar esta tarjeta. Inténtalo de nuevo más tarde.",
+  },
+  errors: {
+    uploadFailed: "La subida falló. Inténtalo de nuevo.",
+    saveFailed: "No se pudo guardar. Inténtalo de nuevo.",
+    openFailed: "No se pudo abrir esa tarjeta.",
+    deleteCardFailed: "No se pudo eliminar esa tarjeta.",
+    saveThemeFailed: "No se pudo guardar el tema. Inténtalo de nuevo.",
+    deleteThemeFailed: "No se pudo eliminar ese tema.",
+    importThemeFailed: "No se pudo importar ese tema.",
+    saveTemplateFailed: "No se pudo guardar la plantilla. Inténtalo de nuevo.",
+    deleteTemplateFailed: "No se pudo eliminar esa plantilla.",
+    shareFailed: "No se pudo compartir. Inténtalo de nuevo.",
+    copyFailed: "No se pudo copiar el enlace. Cópialo a mano.",
+    revokeFailed: "No se pudo revocar el enlace.",
+    notReady: "La tarjeta aún no está lista para exportar.",
+    downloadFailed: "La descarga falló. Inténtalo de nuevo.",
+    pdfFailed: "No se pudo exportar el PDF. Inténtalo de nuevo.",
+    animationFailed: "No se pudo exportar la animación. Inténtalo de nuevo.",
+    webmUnsupported:
+      "Este navegador no puede grabar vídeo WebM. Prueba con el GIF.",
+    batchImportFailed: "No se pudo leer esa lista de destinatarios.",
+    batchFailed: "La exportación en lote falló. Inténtalo de nuevo.",
+    scheduleFailed: "No se pudo programar el envío. Inténtalo de nuevo.",
+    cancelScheduleFailed: "No se pudo cancelar ese envío.",
+    inviteFailed: "No se pudo actualizar el enlace de invitación.",
+    contributionFailed: "No se pudo actualizar esa nota.",
+    loadInviteFailed: "No se pudo cargar esta invitación. Inténtalo más tarde.",
+    signFailed: "No se pudo enviar tu nota. Inténtalo de nuevo.",
+    liveClosed: "La sesión en vivo terminó. Vuelve a intentarlo.",
+    exportDesignFailed: "No se pudo exportar el diseño.",
+    importDesignFailed: "No se pudo importar ese diseño.",
+  },
+  errorCodes: {
+    csvUnclosedQuote: "El archivo CSV tiene una comilla sin cerrar.",
+    csvNameColumnMissing: "El archivo CSV necesita una columna de nombre.",
+    invalidJson: "Ese archivo no es JSON válido.",
+    recipientsNotList:
+      "El archivo JSON debe contener una lista de destinatarios.",
+    noRecipients: "No se encontraron destinatarios con nombre en ese archivo.",
+    tooManyRecipients: "Un lote admite hasta {max} destinatarios a la vez.",
+    notDesignFile: "Ese archivo no es una exportación de diseño de tarjeta.",
+    designVersionMissing:
+      "Ese archivo de diseño no tiene un número de versión válido.",
+    designVersionTooNew:
+      "Ese diseño se exportó con una versión más reciente del estudio. Actualiza el estudio para importarlo.",
+    designVersionUnsupported:
+      "Los archivos de diseño de la versión {version} no son compatibles.",
+    designInvalid:
+      "Ese diseño no se puede importar porque el archivo está dañado.",
+    bundlePhotoFailed:
+      "No se pudo descargar la foto {number} para el paquete. Exporta el diseño sin fotos.",
+    bundleDesignMissing: "El archivo ZIP no contiene {name}.",
+    bundlePhotoMissing: "Al archivo ZIP le falta {path}.",
+    notZip: "Ese archivo no es un archivo ZIP.",
+    zipDamaged: "El archivo ZIP está dañado.",
+    zipCompressionUnsupported:
+      "{name} está comprimido de una forma que el estudio no puede leer.",
+    heicFailed: "No se pudo convertir {name} desde HEIC.",
+    compressFailed: "No se pudo comprimir {name}.",
+    unsupportedType:
+      "{name} no es una imagen compatible. Usa JPEG, PNG, WEBP, GIF o HEIC.",
+    fileTooLarge: "{name} ocupa {size}. El límite es {limit}.",
+    dimensionsTooLarge:
+      "{name} mide {width}x{height}px. Las fotos deben medir como máximo {max}px por lado.",
+    tooManyPhotos: "Una tarjeta admite hasta {max} fotos.",
+    unreadableImage: "No se pudo leer {name} como imagen.",
+    invalidFile: "No se pudo subir ese archivo.",
+    noFile: "No se subió ningún archivo.",
+    uploadRateLimited:
+      "Demasiadas subidas. Espera un momento y vuelve a intentarlo.",
+    uploadUnauthorized: "El servidor de subidas rechazó este estudio.",
+    uploadSessionRequired: "La sesión de subida caducó. Vuelve a intentarlo.",
+    uploadNotConfigured:
+      "Las subidas de fotos no están configuradas. Añade NEXT_PUBLIC_IMAGEKIT_PUBLIC_KEY en client .env.local.",
+    uploadAuthFailed:
+      "Falló la autenticación con ImageKit. ¿Está el servidor en marcha?",
+    uploadFailed: "La subida falló. Vuelve a intentarlo.",
+    uploadServerUnreachable:
+      "No se pudo conectar con el servidor de subidas. ¿Está en marcha?",
+    notThemeFile: "Ese archivo no es una exportación de tema compatible.",
+    themeStopCount: "Un tema necesita entre 2 y {max} paradas de degradado.",
+    themeColorsMissing: "Faltan los colores de acento y sombra del tema.",
+  },
+  card: {
+    eyebrows: { birthday: "Cumpleaños", celebrate: "A celebrar" },
+    greeting: "Feliz cumpleaños\n{name}",
+    signature: "De {sender}",
+    nameFallback: "Tu amigo",
+    senderFallback: "Ti",
+    messagePlaceholder: "Escribe aquí tu mensaje de cumpleaños.",
+    signaturesPlaceholder: "Aquí aparecen las notas firmadas por tus amigos.",
+    photoPlaceholder: "Foto {number}",
+    heroPlaceholder: "Foto principal",
+    uploadHint: "Sube una foto para colocarla aquí",
+    stickerText: "Tu texto",
+    pdfTitle: "Tarjeta de cumpleaños para {name}",
+    credit: "Hecha con Estudio de Tarjetas de Cumpleaños",
+  },
+  templates: {
+    "funny-cake": {
+      name: "Más velas",
+      text: "¡Feliz cumpleaños, {name}! No te preocupes por las velas, los bomberos ya están avisados.",
+    },
+    "funny-age": {
+      name: "De colección",
+      text: "{age} te sientan de maravilla, {name}. Como un buen queso, cada año eres más interesante.",
+    },
+    "funny-dessert": {
+      name: "Postre extra",
+      text: "En tu cumpleaños las calorías no cuentan. Es ciencia, {name}. Ve a por otra porción.",
+    },
+    "heartfelt-confetti": {
+      name: "Momentos de confeti",
+      text: "Te deseo un año lleno de momentos de confeti, sueños valientes y postre extra.",
+    },
+    "heartfelt-grateful": {
+      name: "Gratitud",
+      text: "{name}, estoy muy agradecido de tenerte en mi vida. Por ti y por todo lo que traigan tus {age}. Con cariño, {sender}",
+    },
+    "heartfelt-today": {
+      name: "Tu día",
+      text: "Hoy, {date}, todo gira a tu alrededor. Gracias por ser exactamente como eres, {name}.",
+    },
+    "formal-wishes": {
+      name: "Mejores deseos",
+      text: "Estimado/a {name}, mis más cálidas felicitaciones por tu cumpleaños y mis deseos de un año feliz y saludable. Saludos cordiales, {sender}",
+    },
+    "formal-team": {
+      name: "De parte del equipo",
+      text: "Muchas felicidades, {name}. Te deseamos éxito continuo y una celebración maravillosa el {date}.",
+    },
+    "kids-party": {
+      name: "Hora de fiesta",
+      text: "¡Hurra, {name} cumple {age}! ¡Hora de globos, juegos y la tarta más grande del mundo!",
+    },
+    "kids-superstar": {
+      name: "Superestrella",
+      text: "¡Feliz cumpleaños, superestrella {name}! ¡Eres genial, increíble y llevas {age} años de diversión!",
+    },
+  },
+  templateTones: {
+    funny: { name: "Divertido" },
+    heartfelt: { name: "Emotivo" },
+    formal: { name: "Formal" },
+    kids: { name: "Niños" },
+  },
+  textRoles: {
+    headline: { name: "Titular" },
+    message: { name: "Mensaje" },
+    signature: { name: "Firma" },
+  },
+  cardPages: {
+    front: { name: "Portada" },
+    insideLeft: { name: "Interior izquierdo" },
+    insideRight: { name: "Interior derecho" },
+    back: { name: "Contraportada" },
+  },
+  layouts: {
+    duo: {
+      name: "Dúo dividido",
+      description: "Dos fotos apiladas con un panel de mensaje.",
+    },
+    focus: {
+      name: "Foco principal",
+      description: "Una foto destacada con otra más pequeña.",
+    },
+    collage: {
+      name: "Collage",
+      description: "Un mosaico de fotos sobre el mensaje.",
+    },
+    polaroid: {
+      name: "Polaroids sueltas",
+      description: "Fotos instantáneas inclinadas sobre la tarjeta.",
+    },
+    hero: {
+      name: "Foto a sangre",
+      description: "Una foto de borde a borde con el texto encima.",
+    },
+    filmstrip: {
+      name: "Tira de película",
+      description: "Una fila de fotogramas en la parte superior.",
+    },
+    freeform: {
+      name: "Libre",
+      description: "Mueve y redimensiona cada marco tú mismo.",
+    },
+    note: {
+      name: "Solo mensaje",
+      description: "Un mensaje a todo lo ancho, sin fotos.",
+    },
+    signatures: {
+      name: "Firmas",
+      description: "Notas de todos los que firmaron, repartidas en columnas.",
+    },
+  },
+  gridFormats: {
+    auto: {
+      name: "Automática",
+      description: "Columnas equilibradas según la cantidad.",
+    },
+    two: { name: "Dos columnas", description: "Siempre dos columnas." },
+    three: {
+      name: "Tres columnas",
+      description: "Más fotos por fila.",
+    },
+  },
+  cardSizes: {
+    standard: {
+      name: "Estándar",
+      description: "Vista previa equilibrada.",
+    },
+    large: {
+      name: "Grande",
+      description: "Vista previa mayor y exportación más nítida.",
+    },
+    xlarge: {
+      name: "Extra",
+      description: "La vista previa más grande y exportación máxima.",
+    },
+  },
+  themes: {
+    sunrise: { name: "Desfile al amanecer" },
+    sorbet: { name: "Sorbete pop" },
+    night: { name: "Noche de bayas" },
+  },
+  printFormats: {
+    a6: { name: "A6", description: "Tarjeta plana de 148 x 105 mm." },
+    "5x7": {
+      name: "5 x 7 in",
+      description: "Tamaño clásico de tarjeta de felicitación.",
+    },
+    a5: { name: "A5", description: "Tarjeta plana de 210 x 148 mm." },
+    "a4-folded": {
+      name: "A4 plegado",
+      description: "Hoja A4 plegada a A5, impresa por ambas caras.",
+    },
+  },
+  shareExpiry: {
+    never: { name: "No caduca" },
+    day: { name: "1 día" },
+    week: { name: "7 días" },
+    month: { name: "30 días" },
+  },
+  filterPresets: {
+    original: { name: "Original" },
+    bw: { name: "B/N" },
+    vintage: { name: "Vintage" },
+    pastel: { name: "Pastel" },
+  },
+  frameStyles: {
+    default: { name: "Diseño" },
+    polaroid: { name: "Polaroid" },
+    rounded: { name: "Redondeado" },
+    circle: { name: "Círculo" },
+    heart: { name: "Corazón" },
+  },
+  stickerPacks: {
+    balloons: { name: "Globos" },
+    cake: { name: "Tarta" },
+    confetti: { name: "Confeti" },
+  },
+  decorations: {
+    "balloon-red": { name: "Globo rojo" },
+    "balloon-blue": { name: "Globo azul" },
+    "balloon-bunch": { name: "Ramo de globos" },
+    "cake-layer": { name: "Tarta de pisos" },
+    cupcake: { name: "Magdalena" },
+    candle: { name: "Vela" },
+    "confetti-burst": { name: "Explosión de confeti" },
+    streamer: { name: "Serpentina" },
+    sparkle: { name: "Destello" },
+  },
+  stickerShapes: {
+    circle: { name: "Círculo" },
+    star: { name: "Estrella" },
+    heart: { name: "Corazón" },
+    burst: { name: "Estallido" },
+  },
+  animationEffects: {
+    confetti: { name: "Explosión de confeti" },
+    balloons: { name: "Globos flotantes" },
+    typewriter: { name: "Mensaje a máquina" },
+    photoFade: { name: "Fotos que aparecen" },
+  },
+};
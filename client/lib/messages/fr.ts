@@ -0,0 +1,655 @@
+import type { Messages } from "./en";
+
+export const fr: Messages = {
+  studio: {
+    name: "Atelier de cartes d'anniversaire",
+    title: "Créez une carte d'anniversaire personnalisée en quelques minutes.",
+    intro:
+      "Ajoutez un prénom, importez des photos, faites-les glisser pour les placer et écrivez votre propre message. Quand tout vous plaît, téléchargez la carte en haute résolution d'un simple geste.",
+    badge: "Une police. Des ondes infinies.",
+    language: "Langue",
+  },
+  common: {
+    step: "Étape {number}",
+    reset: "Réinitialiser",
+    remove: "Retirer",
+    delete: "Supprimer",
+    close: "Fermer",
+    edit: "Modifier",
+    open: "Ouvrir",
+    saving: "Enregistrement...",
+    uploading: "Import...",
+  },
+  pages: {
+    label: "Pages",
+    folding: "Carte pliée",
+    single: "Carte simple",
+    foldingHint:
+      "Choisissez une page à modifier. Chaque page a sa propre mise en page, ses photos, ses stickers et son message.",
+    singleHint:
+      "Transformez la carte en carte pliée avec une couverture, un intérieur double et un dos.",
+    makeSingle: "Rendre simple",
+    makeFolding: "Rendre pliée",
+  },
+  details: {
+    title: "Prénom et message",
+    recipient: "Prénom du destinataire",
+    recipientPlaceholder: "ex. Camille",
+    sender: "De la part de",
+    senderPlaceholder: "Votre prénom",
+    age: "Âge",
+    agePlaceholder: "ex. 30",
+    birthday: "Anniversaire",
+    cardLanguage: "Langue de la carte",
+    headline: "Titre",
+    eyebrowPlaceholder: "Petite ligne au-dessus du titre",
+    message: "Message",
+    messageFor: "Message · {page}",
+    placeholderHint:
+      "Utilisez {name}, {age}, {sender} et {date} pour reprendre les informations ci-dessus.",
+    signature: "Signature",
+    templateName: "Nom du modèle",
+    saveTemplate: "Enregistrer dans {tone}",
+  },
+  photos: {
+    title: "Importer des photos",
+    hint: "Importez une photo, faites-la glisser dans son cadre pour la repositionner, ou déposez un fichier directement sur un emplacement.",
+    noPhotos:
+      "Cette page utilise la mise en page message seul. Choisissez une mise en page avec photos à l'étape 3 pour en ajouter ici.",
+    slot: "Photo {number}",
+    removeSlot: "Retirer la photo",
+    deleteSlot: "Supprimer l'emplacement",
+    empty: "Vide",
+    types: "PNG, JPG, WEBP, HEIC",
+    uploaded: "Importée : {name}",
+    converting: "Conversion du HEIC...",
+    compressing: "Redimensionnement et compression...",
+    compressed: "{after} (avant {before})",
+    dropTip: "Astuce : déposez un fichier ici pour l'importer plus vite.",
+    zoom: "Zoom",
+    rotate: "Rotation",
+    fitLayout: "Mise en page",
+    fit: "Ajuster",
+    fill: "Remplir",
+    resetCrop: "Réinitialiser le recadrage",
+    cropHint:
+      "Faites glisser la photo pour la déplacer. Faites défiler ou pincez pour zoomer, ou utilisez les poignées.",
+    showFilters: "Filtres et cadre",
+    hideFilters: "Masquer les filtres",
+    swap: "Échanger les deux premières photos",
+    add: "Ajouter une photo",
+    bright: "Luminosité",
+    contrast: "Contraste",
+    saturate: "Saturation",
+    warmth: "Chaleur",
+    vignette: "Vignette",
+    frame: "Cadre",
+  },
+  design: {
+    title: "Mise en page et thème",
+    photoGrid: "Grille de photos",
+    cardSize: "Taille de la carte",
+    newTheme: "Nouveau thème",
+    importJson: "Importer un JSON",
+    defaultThemeName: "Mon thème",
+  },
+  themeEditor: {
+    newTitle: "Nouveau thème",
+    editTitle: "Modifier le thème",
+    namePlaceholder: "Nom du thème",
+    gradient: "Dégradé",
+    angle: "Angle",
+    stop: "Arrêt {number}",
+    stopColor: "Couleur de l'arrêt {number}",
+    addStop: "Ajouter un arrêt",
+    highlights: "Reflets",
+    highlightColor: "Couleur du reflet {number}",
+    left: "Gauche",
+    top: "Haut",
+    size: "Taille",
+    opacity: "Opacité",
+    addHighlight: "Ajouter un reflet",
+    accent: "Accent",
+    shadow: "Ombre",
+    backgroundImage: "Image de fond",
+    removeImage: "Retirer l'image",
+    contrast: "Contraste de l'accent {ratio}:1.",
+    contrastFails:
+      "Le texte d'accent n'atteint pas le niveau WCAG AA ({minimum}:1) sur une partie du dégradé.",
+    contrastPasses: "Conforme WCAG AA.",
+    contrastImage: "Mesuré sur le dégradé, pas sur l'image de fond.",
+    save: "Enregistrer le thème",
+    exportJson: "Exporter en JSON",
+  },
+  stickers: {
+    title: "Stickers",
+    hint: "Ajoutez du texte, des emoji, des décorations, des formes ou vos propres PNG. Faites-les glisser dans l'aperçu ; utilisez les poignées pour les tourner et les redimensionner.",
+    limit: "Une page peut contenir jusqu'à {count} stickers.",
+    emoji: "Emoji",
+    shapes: "Formes",
+    addText: "Ajouter un sticker texte",
+    uploadPng: "Importer un PNG",
+    forward: "Avancer",
+    back: "Reculer",
+    duplicate: "Dupliquer",
+    lock: "Verrouiller",
+    unlock: "Déverrouiller",
+    textPlaceholder: "Saisissez votre texte",
+    size: "Taille",
+    rotate: "Rotation",
+    opacity: "Opacité",
+    textStyle: "Style du texte",
+    hideTextStyle: "Masquer le style du texte",
+    tone: "Teinte",
+    accent: "Accent",
+    ink: "Encre",
+    textLabel: "Texte",
+    emojiLabel: "Emoji {emoji}",
+    decorationLabel: "Décoration",
+  },
+  typography: {
+    title: "Typographie",
+    hint: "Définissez la police et le style du titre, du message et de la signature sur toutes les pages. Les stickers texte ont leur propre style.",
+    font: "Police",
+    weight: "Graisse",
+    alignLeft: "Gauche",
+    alignCenter: "Centre",
+    alignRight: "Droite",
+    size: "Taille",
+    leading: "Interligne",
+    tracking: "Approche",
+    shadow: "Ombre",
+    outline: "Contour",
+    color: "Couleur",
+  },
+  download: {
+    preparing: "Préparation du téléchargement...",
+    download: "Télécharger la carte",
+    printPdf: "PDF à imprimer",
+    dpi: "PPP",
+    bleed: "Fond perdu",
+    millimetres: "{value} mm",
+    cropMarks: "Traits de coupe",
+    downloadPdf: "Télécharger le PDF",
+    publishing: "Publication...",
+    share: "Partager",
+    expires: "Expire le {date}",
+    neverExpires: "N'expire jamais",
+    copied: "Copié",
+    copyLink: "Copier le lien",
+    revoke: "Révoquer",
+    activeLinks: "Liens actifs",
+  },
+  drafts: {
+    label: "Brouillons",
+    title: "Mes cartes",
+    hint: "Enregistrez la création en cours et rouvrez-la quand vous voulez.",
+    newCard: "Nouvelle carte",
+    saveChanges: "Enregistrer les modifications",
+    saveDraft: "Enregistrer le brouillon",
+    saveAsNew: "Enregistrer comme nouvelle",
+    empty: "Aucune carte enregistrée pour l'instant.",
+    updated: "Modifiée le {date}",
+  },
+  preview: {
+    label: "Aperçu",
+    view3d: "Vue 3D",
+    editPage: "Modifier la page",
+    undo: "Annuler",
+    undoTitle: "Annuler (Ctrl/Cmd+Z)",
+    redo: "Rétablir",
+    redoTitle: "Rétablir (Ctrl/Cmd+Maj+Z)",
+    hint: "Faites glisser dans une photo pour la repositionner. Utilisez Échanger pour intervertir les photos.",
+    tip: "Astuce : pour une qualité optimale, utilisez une photo de plus de 1200 px de large. Le bouton de téléchargement exporte un PNG aux mêmes proportions que l'aperçu.",
+    closed: "Fermée",
+    open: "Ouverte",
+    back: "Dos",
+    dragRotate: "Faire glisser pour tourner",
+    dragZoom: "Faire glisser pour zoomer",
+    dragResize: "Faire glisser pour redimensionner",
+    moveFrame: "Faire glisser pour déplacer ce cadre",
+    resizeFrame: "Faire glisser pour redimensionner ce cadre",
+    move: "Déplacer",
+  },
+  animation: {
+    title: "Animation",
+    hint: "Des confettis, des ballons, un message tapé à la machine et des photos qui apparaissent en fondu. Le recto de la carte est animé ; la durée et la cadence suivent la taille de la carte.",
+    preview: "Animer",
+    preparing: "Préparation de l'animation...",
+    replay: "Rejouer",
+    settings: "{seconds} s · {fps} i/s · {plays}",
+    loopForever: "en boucle",
+    playsOnce: "une seule lecture",
+    playsTimes: "{count} lectures",
+    downloadGif: "Télécharger le GIF",
+    downloadWebm: "Télécharger le WebM",
+    rendering: "Rendu...",
+  },
+  batch: {
+    title: "Cartes en série",
+    hint: "Importez une liste CSV ou JSON de destinataires avec des colonnes nom, expéditeur, message et URL de photo. Chaque ligne complète le modèle actuel ; les champs vides gardent ce que le modèle contient déjà.",
+    import: "Importer des destinataires",
+    count: "{count} destinataires",
+    clear: "Effacer",
+    preview: "Aperçu",
+    previewing: "{name} · {index} sur {count}",
+    previous: "Précédent",
+    next: "Suivant",
+    backToEditor: "Retour à l'édition",
+    downloadZip: "Télécharger le ZIP",
+    rendering: "Rendu {index} sur {count}...",
+  },
+  delivery: {
+    title: "Envoi par e-mail",
+    hint: "Envoyez la carte par e-mail le jour venu. L'heure est lue dans le fuseau horaire choisi.",
+    email: "E-mail du destinataire",
+    emailPlaceholder: "nom@exemple.com",
+    date: "Envoyer le",
+    time: "À",
+    timeZone: "Fuseau horaire",
+    note: "Note",
+    notePlaceholder: "Quelques mots facultatifs avant le lien",
+    schedule: "Programmer l'envoi",
+    save: "Enregistrer",
+    stopEditing: "Arrêter la modification",
+    cancelSend: "Annuler l'envoi",
+    sendsAt: "{date} · {timeZone}",
+    statuses: {
+      pending: "Programmé",
+      sending: "Envoi en cours",
+      sent: "Envoyé",
+      failed: "Échec",
+      cancelled: "Annulé",
+    },
+  },
+  signing: {
+    title: "Signature collective",
+    hint: "Partagez le lien d'invitation pour que vos amis ajoutent leur mot. Les mots apparaissent sur la carte une fois approuvés.",
+    saveFirst:
+      "Enregistrez la carte pour inviter d'autres personnes à la signer.",
+    createInvite: "Créer un lien d'invitation",
+    disableInvite: "Désactiver le lien",
+    addPage: "Ajouter une page de signatures",
+    noPage: "Aucune page n'affiche encore les mots.",
+    pageAdded: "Les mots approuvés apparaissent sur la page de signatures.",
+    refresh: "Actualiser",
+    empty: "Pas encore de mots.",
+    approve: "Approuver",
+    hide: "Masquer",
+    statuses: {
+      pending: "En attente",
+      approved: "Sur la carte",
+      hidden: "Masqué",
+    },
+    heading: "Signez la carte pour {name}",
+    intro:
+      "Écrivez votre mot ci-dessous. L'auteur de la carte approuve les mots avant leur affichage.",
+    name: "Votre nom",
+    namePlaceholder: "ex. Sam",
+    note: "Votre mot",
+    notePlaceholder: "Joyeux anniversaire ! Belle année à toi.",
+    charactersLeft: "{count} caractères restants",
+    color: "Couleur d'encre",
+    colors: {
+      ink: "Encre de la carte",
+      berry: "Framboise",
+      ocean: "Océan",
+      forest: "Forêt",
+      sunset: "Couchant",
+      violet: "Violet",
+    },
+    photo: "Photo (facultatif)",
+    submit: "Signer la carte",
+    sending: "Envoi...",
+    thanks: "Merci ! Votre mot attend l'approbation.",
+    signAgain: "Ajouter un autre mot",
+  },
+  live: {
+    title: "Édition en direct",
+    hint: "Modifiez cette carte ensemble en temps réel. Chacun voit les curseurs et les changements des autres aussitôt.",
+    saveFirst: "Enregistrez la carte pour lancer une session en direct.",
+    yourName: "Votre nom",
+    namePlaceholder: "Affiché près de votre curseur",
+    start: "Passer en direct",
+    leave: "Quitter la session",
+    connecting: "Connexion...",
+    live: "En direct",
+    alone: "Vous êtes seul ici. Partagez le lien pour inviter quelqu'un.",
+    saveReminder:
+      "Les changements sont partagés aussitôt. Enregistrez la carte pour les garder.",
+  },
+  designFile: {
+    title: "Fichier de design",
+    hint: "Sauvegardez ce design ou transférez-le sur un autre appareil. Le ZIP contient aussi les photos.",
+    exportJson: "Exporter en JSON",
+    exportZip: "Exporter en ZIP",
+    import: "Importer un design",
+    working: "Traitement...",
+    packing: "Ajout de la photo {done} sur {total}...",
+    uploading: "Envoi de la photo {done} sur {total}...",
+  },
+  a11y: {
+    movablePhoto: "photo déplaçable",
+    movableSticker: "autocollant déplaçable",
+    photoKeys:
+      "Les flèches déplacent la photo, + et - zooment, [ et ] la font pivoter. Maintenez Maj pour des pas plus grands.",
+    stickerKeys:
+      "Les flèches déplacent l'autocollant, + et - le redimensionnent, [ et ] le font pivoter. Maintenez Maj pour des pas plus grands.",
+    frameMoveKeys:
+      "Les flèches déplacent ce cadre. Maintenez Maj pour des pas plus grands.",
+    frameResizeKeys:
+      "Les flèches redimensionnent ce cadre. Maintenez Maj pour des pas plus grands.",
+    frameLabel: "Cadre de {label}",
+    position: "{label} : {x} % en largeur, {y} % en hauteur",
+    zoom: "{label} : zoom à {value} %",
+    rotation: "{label} : pivotée de {value}°",
+    size: "{label} : taille {value}",
+    frameSize: "{label} : {width} % de large, {height} % de haut",
+    layout: "Mise en page : {name}",
+    grid: "Grille de photos : {name}",
+    cardSize: "Taille de la carte : {name}",
+  },
+  shortcuts: {
+    open: "Raccourcis",
+    title: "Raccourcis clavier",
+    hint: "Atteignez avec Tab une photo, un autocollant ou une poignée de cadre dans l'aperçu, puis utilisez ces touches.",
+    undo: "Annuler",
+    redo: "Rétablir",
+    move: "Déplacer la photo, l'autocollant ou le cadre sélectionné",
+    bigStep: "Déplacer par pas plus grands",
+    scale: "Zoomer une photo ou redimensionner un autocollant",
+    rotate: "Pivoter de 1°",
+    rotateBig: "Pivoter de 15°",
+    show: "Afficher cette liste",
+    close: "Fermer cette liste",
+  },
+  shared: {
+    makeYourOwn: "Créez votre propre carte",
+    loadFailed: "Impossible de charger cette carte.",
+    loadFailedLater: "Impossible de charger cette carte. Réessayez plus tard.",
+  },
+  errors: {
+    uploadFailed: "L'import a échoué. Veuillez réessayer.",
+    saveFailed: "Enregistrement impossible. Veuillez réessayer.",
+    openFailed: "Impossible d'ouvrir cette carte.",
+    deleteCardFailed: "Impossible de supprimer cette carte.",
+    saveThemeFailed: "Impossible d'enregistrer le thème. Veuillez réessayer.",
+    deleteThemeFailed: "Impossible de supprimer ce thème.",
+    importThemeFailed: "Impossible d'importer ce thème.",
+    saveTemplateFailed:
+      "Impossible d'enregistrer le modèle. Veuillez réessayer.",
+    deleteTemplateFailed: "Impossible de supprimer ce modèle.",
+    shareFailed: "Partage impossible. Veuillez réessayer.",
+    copyFailed: "Impossible de copier le lien. Copiez-le manuellement.",
+    revokeFailed: "Impossible de révoquer le lien.",
+    notReady: "La carte n'est pas encore prête à être exportée.",
+    downloadFailed: "Le téléchargement a échoué. Veuillez réessayer.",
+    pdfFailed: "L'export PDF a échoué. Veuillez réessayer.",
+    animationFailed: "L'export de l'animation a échoué. Réessayez.",
+    webmUnsupported:
+      "Ce navigateur ne sait pas enregistrer de vidéo WebM. Essayez plutôt le GIF.",
+    batchImportFailed: "Impossible de lire cette liste de destinataires.",
+    batchFailed: "L'export en série a échoué. Réessayez.",
+    scheduleFailed: "La programmation a échoué. Réessayez.",
+    cancelScheduleFailed: "Impossible d'annuler cet envoi.",
+    inviteFailed: "Impossible de mettre à jour le lien d'invitation.",
+    contributionFailed: "Impossible de mettre à jour ce mot.",
+    loadInviteFailed:
+      "Impossible de charger cette invitation. Réessayez plus tard.",
+    signFailed: "Impossible d'envoyer votre mot. Réessayez.",
+    liveClosed: "La session en direct s'est terminée. Réessayez.",
+    exportDesignFailed: "Impossible d'exporter le design.",
+    importDesignFailed: "Impossible d'importer ce design.",
+  },
+  errorCodes: {
+    csvUnclosedQuote: "Le fichier CSV contient un guillemet non fermé.",
+    csvNameColumnMissing: "Le fichier CSV doit avoir une colonne de nom.",
+    invalidJson: "Ce fichier n'est pas un JSON valide.",
+    recipientsNotList:
+      "Le fichier JSON doit contenir une liste de destinataires.",
+    noRecipients:
+      "Aucun destinataire avec un nom n'a été trouvé dans ce fichier.",
+    tooManyRecipients:
+      "Un lot peut contenir jusqu'à {max} destinataires à la fois.",
+    notDesignFile: "Ce fichier n'est pas un export de design de carte.",
+    designVersionMissing:
+      "Ce fichier de design n'a pas de numéro de version valide.",
+    designVersionTooNew:
+      "Ce design a été exporté par une version plus récente du studio. Mettez le studio à jour pour l'importer.",
+    designVersionUnsupported:
+      "Les fichiers de design en version {version} ne sont pas pris en charge.",
+    designInvalid:
+      "Ce design ne peut pas être importé, car le fichier est endommagé.",
+    bundlePhotoFailed:
+      "Impossible de télécharger la photo {number} pour le paquet. Exportez plutôt le design sans photos.",
+    bundleDesignMissing: "L'archive ZIP ne contient pas {name}.",
+    bundlePhotoMissing: "Il manque {path} dans l'archive ZIP.",
+    notZip: "Ce fichier n'est pas une archive ZIP.",
+    zipDamaged: "L'archive ZIP est endommagée.",
+    zipCompressionUnsupported:
+      "{name} est compressé d'une façon que le studio ne sait pas lire.",
+    heicFailed: "Impossible de convertir {name} depuis le HEIC.",
+    compressFailed: "Impossible de compresser {name}.",
+    unsupportedType:
+      "{name} n'est pas une image prise en charge. Utilisez JPEG, PNG, WEBP, GIF ou HEIC.",
+    fileTooLarge: "{name} pèse {size}. La limite est de {limit}.",
+    dimensionsTooLarge:
+      "{name} mesure {width}x{height}px. Les photos doivent mesurer au plus {max}px de côté.",
+    tooManyPhotos: "Une carte peut contenir jusqu'à {max} photos.",
+    unreadableImage: "Impossible de lire {name} comme une image.",
+    invalidFile: "Impossible d'envoyer ce fichier.",
+    noFile: "Aucun fichier n'a été envoyé.",
+    uploadRateLimited: "Trop d'envois. Patientez un instant puis réessayez.",
+    uploadUnauthorized: "Le serveur d'envoi a refusé ce studio.",
+    uploadSessionRequired: "La session d'envoi a expiré. Réessayez.",
+    uploadNotConfigured:
+      "L'envoi de photos n'est pas configuré. Ajoutez NEXT_PUBLIC_IMAGEKIT_PUBLIC_KEY dans client .env.local.",
+    uploadAuthFailed:
+      "L'authentification ImageKit a échoué. Le serveur est-il lancé ?",
+    uploadFailed: "L'envoi a échoué. Réessayez.",
+    uploadServerUnreachable:
+      "Impossible de joindre le serveur d'envoi. Est-il lancé ?",
+    notThemeFile: "Ce fichier n'est pas un export de thème pris en charge.",
+    themeStopCount: "Un thème doit avoir entre 2 et {max} arrêts de dégradé.",
+    themeColorsMissing:
+      "Les couleurs d'accent et d'ombre du thème sont manquantes.",
+  },
+  card: {
+    eyebrows: { birthday: "Anniversaire", celebrate: "Fêtons ça" },
+    greeting: "Joyeux anniversaire\n{name}",
+    signature: "De la part de {sender}",
+    nameFallback: "Ton ami",
+    senderFallback: "Moi",
+    messagePlaceholder: "Écrivez votre message d'anniversaire ici.",
+    signaturesPlaceholder: "Les mots signés par vos amis apparaissent ici.",
+    photoPlaceholder: "Photo {number}",
+    heroPlaceholder: "Photo principale",
+    uploadHint: "Importez une photo pour la placer ici",
+    stickerText: "Votre texte",
+    pdfTitle: "Carte d'anniversaire pour {name}",
+    credit: "Créée avec l'Atelier de cartes d'anniversaire",
+  },
+  templates: {
+    "funny-cake": {
+      name: "Encore des bougies",
+      text: "Joyeux anniversaire, {name} ! Pas d'inquiétude pour les bougies, les pompiers sont prévenus.",
+    },
+    "funny-age": {
+      name: "Grand cru",
+      text: "{age} ans te vont à merveille, {name}. Comme un bon fromage, tu deviens chaque année plus intéressant.",
+    },
+    "funny-dessert": {
+      name: "Dessert en plus",
+      text: "Les calories ne comptent pas le jour de ton anniversaire. C'est scientifique, {name}. Reprends une part.",
+    },
+    "heartfelt-confetti": {
+      name: "Moments confettis",
+      text: "Je te souhaite une année pleine de moments confettis, de rêves audacieux et de desserts en plus.",
+    },
+    "heartfelt-grateful": {
+      name: "Reconnaissance",
+      text: "{name}, je suis si reconnaissant de t'avoir dans ma vie. À toi et à tout ce que tes {age} ans t'apporteront. Je t'embrasse, {sender}",
+    },
+    "heartfelt-today": {
+      name: "Ta journée",
+      text: "Aujourd'hui, le {date}, tout tourne autour de toi. Merci d'être exactement comme tu es, {name}.",
+    },
+    "formal-wishes": {
+      name: "Meilleurs vœux",
+      text: "Cher/Chère {name}, je vous adresse mes vœux les plus chaleureux pour votre anniversaire et une année heureuse et en bonne santé. Cordialement, {sender}",
+    },
+    "formal-team": {
+      name: "De la part de l'équipe",
+      text: "Bon anniversaire, {name}. Nous vous souhaitons une belle réussite et une merveilleuse fête le {date}.",
+    },
+    "kids-party": {
+      name: "C'est la fête",
+      text: "Hourra, {name} a {age} ans ! Place aux ballons, aux jeux et au plus gros gâteau du monde !",
+    },
+    "kids-superstar": {
+      name: "Superstar",
+      text: "Joyeux anniversaire, superstar {name} ! Tu es génial, incroyable et plein de {age} ans de fun !",
+    },
+  },
+  templateTones: {
+    funny: { name: "Drôle" },
+    heartfelt: { name: "Sincère" },
+    formal: { name: "Formel" },
+    kids: { name: "Enfants" },
+  },
+  textRoles: {
+    headline: { name: "Titre" },
+    message: { name: "Message" },
+    signature: { name: "Signature" },
+  },
+  cardPages: {
+    front: { name: "Couverture" },
+    insideLeft: { name: "Intérieur gauche" },
+    insideRight: { name: "Intérieur droit" },
+    back: { name: "Dos" },
+  },
+  layouts: {
+    duo: {
+      name: "Duo partagé",
+      description: "Deux photos superposées avec un panneau de message.",
+    },
+    focus: {
+      name: "Photo vedette",
+      description: "Une grande photo accompagnée d'une plus petite.",
+    },
+    collage: {
+      name: "Collage",
+      description: "Une mosaïque de photos au-dessus du message.",
+    },
+    polaroid: {
+      name: "Polaroïds éparpillés",
+      description: "Des photos instantanées inclinées sur la carte.",
+    },
+    hero: {
+      name: "Pleine page",
+      description: "Une photo bord à bord avec le texte par-dessus.",
+    },
+    filmstrip: {
+      name: "Pellicule",
+      description: "Une rangée d'images en haut de la carte.",
+    },
+    freeform: {
+      name: "Libre",
+      description: "Déplacez et redimensionnez chaque cadre vous-même.",
+    },
+    note: {
+      name: "Message seul",
+      description: "Un message pleine largeur, sans photos.",
+    },
+    signatures: {
+      name: "Signatures",
+      description: "Les mots de tous les signataires, répartis en colonnes.",
+    },
+  },
+  gridFormats: {
+    auto: {
+      name: "Automatique",
+      description: "Colonnes équilibrées selon le nombre de photos.",
+    },
+    two: { name: "Deux colonnes", description: "Toujours deux colonnes." },
+    three: {
+      name: "Trois colonnes",
+      description: "Plus de photos par ligne.",
+    },
+  },
+  cardSizes: {
+    standard: { name: "Standard", description: "Aperçu équilibré." },
+    large: {
+      name: "Grande",
+      description: "Aperçu plus grand et export plus net.",
+    },
+    xlarge: {
+      name: "Très grande",
+      description: "Le plus grand aperçu et l'export maximal.",
+    },
+  },
+  themes: {
+    sunrise: { name: "Défilé de l'aube" },
+    sorbet: { name: "Sorbet pop" },
+    night: { name: "Nuit des baies" },
+  },
+  printFormats: {
+    a6: { name: "A6", description: "Carte plate de 148 x 105 mm." },
+    "5x7": {
+      name: "5 x 7 po",
+      description: "Format classique de carte de vœux.",
+    },
+    a5: { name: "A5", description: "Carte plate de 210 x 148 mm." },
+    "a4-folded": {
+      name: "A4 plié",
+      description: "Feuille A4 pliée en A5, imprimée recto verso.",
+    },
+  },
+  shareExpiry: {
+    never: { name: "Jamais" },
+    day: { name: "1 jour" },
+    week: { name: "7 jours" },
+    month: { name: "30 jours" },
+  },
+  filterPresets: {
+    original: { name: "Original" },
+    bw: { name: "N&B" },
+    vintage: { name: "Vintage" },
+    pastel: { name: "Pastel" },
+  },
+  frameStyles: {
+    default: { name: "Mise en page" },
+    polaroid: { name: "Polaroïd" },
+    rounded: { name: "Arrondi" },
+    circle: { name: "Cercle" },
+    heart: { name: "Cœur" },
+  },
+  stickerPacks: {
+    balloons: { name: "Ballons" },
+    cake: { name: "Gâteau" },
+    confetti: { name: "Confettis" },
+  },
+  decorations: {
+    "balloon-red": { name: "Ballon rouge" },
+    "balloon-blue": { name: "Ballon bleu" },
+    "balloon-bunch": { name: "Grappe de ballons" },
+    "cake-layer": { name: "Gâteau à étages" },
+    cupcake: { name: "Cupcake" },
+    candle: { name: "Bougie" },
+    "confetti-burst": { name: "Explosion de confettis" },
+    streamer: { name: "Serpentin" },
+    sparkle: { name: "Étincelle" },
+  },
+  stickerShapes: {
+    circle: { name: "Cercle" },
+    star: { name: "Étoile" },
+    heart: { name: "Cœur" },
+    burst: { name: "Éclat" },
+  },
+  animationEffects: {
+    confetti: { name: "Pluie de confettis" },
+    balloons: { name: "Ballons qui s'envolent" },
+    typewriter: { name: "Message tapé à la machine" },
+    photoFade: { name: "Photos en fondu" },
+  },
+};
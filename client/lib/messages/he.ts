@@ -0,0 +1,610 @@
+import type { Messages } from "./en";
+
+export const he: Messages = {
+  studio: {
+    name: "סטודיו כרטיסי יום הולדת",
+    title: "עצבו כרטיס יום הולדת אישי תוך דקות.",
+    intro:
+      "הוסיפו שם, העלו תמונות, גררו אותן למקום ותכתבו ברכה משלכם. כשהכול נראה טוב, הורידו כרטיס ברזולוציה גבוהה בלחיצה אחת.",
+    badge: "גופן אחד. אינסוף אווירה.",
+    language: "שפה",
+  },
+  common: {
+    step: "שלב {number}",
+    reset: "איפוס",
+    remove: "הסרה",
+    delete: "מחיקה",
+    close: "סגירה",
+    edit: "עריכה",
+    open: "פתיחה",
+    saving: "שומר...",
+    uploading: "מעלה...",
+  },
+  pages: {
+    label: "עמודים",
+    folding: "כרטיס מתקפל",
+    single: "כרטיס יחיד",
+    foldingHint: "בחרו עמוד לעריכה. לכל עמוד פריסה, תמונות, מדבקות וברכה משלו.",
+    singleHint: "הפכו את הכרטיס לכרטיס מתקפל עם כריכה, פנים כפול וגב.",
+    makeSingle: "להפוך ליחיד",
+    makeFolding: "להפוך למתקפל",
+  },
+  details: {
+    title: "שם וברכה",
+    recipient: "שם החוגג/ת",
+    recipientPlaceholder: "למשל: נועה",
+    sender: "מאת",
+    senderPlaceholder: "השם שלכם",
+    age: "גיל",
+    agePlaceholder: "למשל: 30",
+    birthday: "יום הולדת",
+    cardLanguage: "שפת הכרטיס",
+    headline: "כותרת",
+    eyebrowPlaceholder: "שורה קטנה מעל הכותרת",
+    message: "ברכה",
+    messageFor: "ברכה · {page}",
+    placeholderHint:
+      "השתמשו ב־{name}, {age}, {sender} ו־{date} כדי למלא את הפרטים שלמעלה.",
+    signature: "חתימה",
+    templateName: "שם התבנית",
+    saveTemplate: "שמירה ב{tone}",
+  },
+  photos: {
+    title: "העלאת תמונות",
+    hint: "העלו תמונה, גררו בתוך המסגרת כדי למקם אותה מחדש, או שחררו קובץ ישירות על משבצת.",
+    noPhotos:
+      "העמוד הזה משתמש בפריסת ברכה בלבד. בחרו פריסה עם תמונות בשלב 3 כדי להוסיף כאן תמונות.",
+    slot: "תמונה {number}",
+    removeSlot: "הסרת תמונה",
+    deleteSlot: "מחיקת משבצת",
+    empty: "ריק",
+    types: "PNG, JPG, WEBP, HEIC",
+    uploaded: "הועלה: {name}",
+    converting: "ממיר HEIC...",
+    compressing: "משנה גודל ודוחס...",
+    compressed: "{after} (היה {before})",
+    dropTip: "טיפ: שחררו כאן קובץ כדי להעלות מהר יותר.",
+    zoom: "זום",
+    rotate: "סיבוב",
+    fitLayout: "פריסה",
+    fit: "התאמה",
+    fill: "מילוי",
+    resetCrop: "איפוס חיתוך",
+    cropHint:
+      "גררו את התמונה כדי להזיז. גללו או צבטו לזום, או השתמשו בידיות שבפינות.",
+    showFilters: "מסננים ומסגרת",
+    hideFilters: "הסתרת מסננים",
+    swap: "החלפת שתי התמונות הראשונות",
+    add: "הוספת תמונה",
+    bright: "בהירות",
+    contrast: "ניגודיות",
+    saturate: "רוויה",
+    warmth: "חמימות",
+    vignette: "הצללת שוליים",
+    frame: "מסגרת",
+  },
+  design: {
+    title: "פריסה וערכת נושא",
+    photoGrid: "רשת תמונות",
+    cardSize: "גודל כרטיס",
+    newTheme: "ערכת נושא חדשה",
+    importJson: "ייבוא JSON",
+    defaultThemeName: "ערכת הנושא שלי",
+  },
+  themeEditor: {
+    newTitle: "ערכת נושא חדשה",
+    editTitle: "עריכת ערכת נושא",
+    namePlaceholder: "שם ערכת הנושא",
+    gradient: "מעבר צבע",
+    angle: "זווית",
+    stop: "נקודה {number}",
+    stopColor: "צבע נקודה {number}",
+    addStop: "הוספת נקודה",
+    highlights: "הדגשות אור",
+    highlightColor: "צבע הדגשה {number}",
+    left: "שמאל",
+    top: "למעלה",
+    size: "גודל",
+    opacity: "אטימות",
+    addHighlight: "הוספת הדגשה",
+    accent: "צבע הדגשה",
+    shadow: "צל",
+    backgroundImage: "תמונת רקע",
+    removeImage: "הסרת תמונה",
+    contrast: "ניגודיות צבע ההדגשה {ratio}:1.",
+    contrastFails:
+      "טקסט ההדגשה לא עומד ב־WCAG AA ({minimum}:1) בחלק ממעבר הצבע.",
+    contrastPasses: "עומד ב־WCAG AA.",
+    contrastImage: "נמדד מול מעבר הצבע, לא מול תמונת הרקע.",
+    save: "שמירת ערכת נושא",
+    exportJson: "ייצוא JSON",
+  },
+  stickers: {
+    title: "מדבקות",
+    hint: "הוסיפו טקסט, אמוג׳י, קישוטים, צורות או קובצי PNG משלכם. גררו אותם בתצוגה המקדימה, והשתמשו בידיות שבפינות כדי לסובב ולשנות גודל.",
+    limit: "בעמוד אפשר להציב עד {count} מדבקות.",
+    emoji: "אמוג׳י",
+    shapes: "צורות",
+    addText: "הוספת מדבקת טקסט",
+    uploadPng: "העלאת PNG",
+    forward: "קדימה",
+    back: "אחורה",
+    duplicate: "שכפול",
+    lock: "נעילה",
+    unlock: "ביטול נעילה",
+    textPlaceholder: "כתבו טקסט משלכם",
+    size: "גודל",
+    rotate: "סיבוב",
+    opacity: "אטימות",
+    textStyle: "סגנון טקסט",
+    hideTextStyle: "הסתרת סגנון טקסט",
+    tone: "גוון",
+    accent: "הדגשה",
+    ink: "דיו",
+    textLabel: "טקסט",
+    emojiLabel: "אמוג׳י {emoji}",
+    decorationLabel: "קישוט",
+  },
+  typography: {
+    title: "טיפוגרפיה",
+    hint: "קבעו את הגופן והסגנון של הכותרת, הברכה והחתימה בכל העמודים. למדבקות טקסט יש סגנון משלהן.",
+    font: "גופן",
+    weight: "עובי",
+    alignLeft: "שמאל",
+    alignCenter: "מרכז",
+    alignRight: "ימין",
+    size: "גודל",
+    leading: "מרווח שורות",
+    tracking: "מרווח אותיות",
+    shadow: "צל",
+    outline: "קו מתאר",
+    color: "צבע",
+  },
+  download: {
+    preparing: "מכין הורדה...",
+    download: "הורדת הכרטיס",
+    printPdf: "PDF להדפסה",
+    dpi: "DPI",
+    bleed: "גלישה",
+    millimetres: "{value} מ״מ",
+    cropMarks: "סימני חיתוך",
+    downloadPdf: "הורדת PDF",
+    publishing: "מפרסם...",
+    share: "שיתוף",
+    expires: "יפוג ב־{date}",
+    neverExpires: "ללא תפוגה",
+    copied: "הועתק",
+    copyLink: "העתקת קישור",
+    revoke: "ביטול",
+    activeLinks: "קישורים פעילים",
+  },
+  drafts: {
+    label: "טיוטות",
+    title: "הכרטיסים שלי",
+    hint: "שמרו את העיצוב הנוכחי ופתחו אותו שוב מתי שתרצו.",
+    newCard: "כרטיס חדש",
+    saveChanges: "שמירת שינויים",
+    saveDraft: "שמירת טיוטה",
+    saveAsNew: "שמירה ככרטיס חדש",
+    empty: "עדיין אין כרטיסים שמורים.",
+    updated: "עודכן {date}",
+  },
+  preview: {
+    label: "תצוגה מקדימה",
+    view3d: "תצוגת תלת־ממד",
+    editPage: "עריכת עמוד",
+    undo: "ביטול פעולה",
+    undoTitle: "ביטול פעולה (Ctrl/Cmd+Z)",
+    redo: "ביצוע חוזר",
+    redoTitle: "ביצוע חוזר (Ctrl/Cmd+Shift+Z)",
+    hint: "גררו בתוך תמונה כדי למקם אותה מחדש. השתמשו בהחלפה כדי להחליף בין תמונות.",
+    tip: "טיפ: לאיכות הטובה ביותר השתמשו בתמונה ברוחב של יותר מ־1200 פיקסלים. כפתור ההורדה מייצא PNG באותו יחס כמו התצוגה המקדימה.",
+    closed: "סגור",
+    open: "פתוח",
+    back: "גב",
+    dragRotate: "גררו לסיבוב",
+    dragZoom: "גררו לזום",
+    dragResize: "גררו לשינוי גודל",
+    moveFrame: "גררו כדי להזיז את המסגרת",
+    resizeFrame: "גררו כדי לשנות את גודל המסגרת",
+    move: "הזזה",
+  },
+  animation: {
+    title: "אנימציה",
+    hint: "קונפטי, בלונים, הודעה שמוקלדת אות אחר אות ותמונות שמופיעות בהדרגה. החזית של הכרטיס מונפשת; האורך וקצב הפריימים נקבעים לפי גודל הכרטיס.",
+    preview: "הנפשה",
+    preparing: "מכינים את האנימציה...",
+    replay: "הפעלה מחדש",
+    settings: "{seconds} שנ׳ · {fps} פריימים לשנייה · {plays}",
+    loopForever: "בלולאה אינסופית",
+    playsOnce: "פעם אחת",
+    playsTimes: "{count} פעמים",
+    downloadGif: "הורדת GIF",
+    downloadWebm: "הורדת WebM",
+    rendering: "מעבדים...",
+  },
+  batch: {
+    title: "כרטיסים במרוכז",
+    hint: "ייבאו רשימת נמענים בפורמט CSV או JSON עם עמודות שם, שולח, הודעה וכתובת תמונה. כל שורה ממלאת את העיצוב הנוכחי; שדות ריקים שומרים את מה שכבר יש בעיצוב.",
+    import: "ייבוא נמענים",
+    count: "{count} נמענים",
+    clear: "ניקוי",
+    preview: "תצוגה מקדימה",
+    previewing: "{name} · {index} מתוך {count}",
+    previous: "הקודם",
+    next: "הבא",
+    backToEditor: "חזרה לעריכה",
+    downloadZip: "הורדת ZIP",
+    rendering: "מעבדים {index} מתוך {count}...",
+  },
+  delivery: {
+    title: "משלוח במייל",
+    hint: "שליחת הכרטיס במייל ביום שנבחר. השעה נקראת לפי אזור הזמן שנבחר.",
+    email: "מייל הנמען",
+    emailPlaceholder: "name@example.com",
+    date: "לשלוח בתאריך",
+    time: "בשעה",
+    timeZone: "אזור זמן",
+    note: "הערה",
+    notePlaceholder: "כמה מילים לפני הקישור (לא חובה)",
+    schedule: "תזמון שליחה",
+    save: "שמירת שינויים",
+    stopEditing: "הפסקת עריכה",
+    cancelSend: "ביטול שליחה",
+    sendsAt: "{date} · {timeZone}",
+    statuses: {
+      pending: "מתוזמן",
+      sending: "בשליחה",
+      sent: "נשלח",
+      failed: "נכשל",
+      cancelled: "בוטל",
+    },
+  },
+  signing: {
+    title: "חתימה קבוצתית",
+    hint: "שתפו את קישור ההזמנה כדי שחברים יוסיפו ברכות משלהם. הברכות מופיעות בכרטיס אחרי שתאשרו אותן.",
+    saveFirst: "שמרו את הכרטיס כדי להזמין אחרים לחתום עליו.",
+    createInvite: "יצירת קישור הזמנה",
+    disableInvite: "כיבוי הקישור",
+    addPage: "הוספת עמוד חתימות",
+    noPage: "עדיין אין עמוד שמציג את הברכות.",
+    pageAdded: "ברכות שאושרו מופיעות בעמוד החתימות.",
+    refresh: "רענון",
+    empty: "עדיין אין ברכות.",
+    approve: "אישור",
+    hide: "הסתרה",
+    statuses: { pending: "ממתינה", approved: "בכרטיס", hidden: "מוסתרת" },
+    heading: "חתמו על הכרטיס של {name}",
+    intro: "כתבו את הברכה שלכם למטה. יוצר הכרטיס מאשר ברכות לפני שהן מופיעות.",
+    name: "השם שלכם",
+    namePlaceholder: "למשל: נועה",
+    note: "הברכה שלכם",
+    notePlaceholder: "מזל טוב! שתהיה לך שנה נפלאה.",
+    charactersLeft: "נותרו {count} תווים",
+    color: "צבע דיו",
+    colors: {
+      ink: "הדיו של הכרטיס",
+      berry: "פטל",
+      ocean: "ים",
+      forest: "יער",
+      sunset: "שקיעה",
+      violet: "סגול",
+    },
+    photo: "תמונה (לא חובה)",
+    submit: "חתימה על הכרטיס",
+    sending: "שולחים...",
+    thanks: "תודה! הברכה שלכם ממתינה לאישור.",
+    signAgain: "הוספת ברכה נוספת",
+  },
+  live: {
+    title: "עריכה חיה",
+    hint: "ערכו את הכרטיס יחד בזמן אמת. כולם רואים את הסמנים והשינויים של האחרים מיד.",
+    saveFirst: "שמרו את הכרטיס כדי להתחיל סשן חי.",
+    yourName: "השם שלכם",
+    namePlaceholder: "מוצג ליד הסמן שלכם",
+    start: "מעבר לשידור חי",
+    leave: "יציאה מהסשן",
+    connecting: "מתחברים...",
+    live: "חי",
+    alone: "רק אתם כאן. שתפו את הקישור כדי להזמין מישהו.",
+    saveReminder: "השינויים משותפים מיד. שמרו את הכרטיס כדי לשמור אותם.",
+  },
+  designFile: {
+    title: "קובץ עיצוב",
+    hint: "גבו את העיצוב או העבירו אותו למכשיר אחר. קובץ ה-ZIP כולל גם את התמונות.",
+    exportJson: "ייצוא JSON",
+    exportZip: "ייצוא ZIP",
+    import: "ייבוא עיצוב",
+    working: "מעבד...",
+    packing: "אורז תמונה {done} מתוך {total}...",
+    uploading: "מעלה תמונה {done} מתוך {total}...",
+  },
+  a11y: {
+    movablePhoto: "תמונה ניתנת להזזה",
+    movableSticker: "מדבקה ניתנת להזזה",
+    photoKeys:
+      "מקשי החיצים מזיזים את התמונה, + ו- מגדילים ומקטינים, [ ו-] מסובבים. החזיקו Shift לצעדים גדולים יותר.",
+    stickerKeys:
+      "מקשי החיצים מזיזים את המדבקה, + ו- משנים את הגודל, [ ו-] מסובבים. החזיקו Shift לצעדים גדולים יותר.",
+    frameMoveKeys:
+      "מקשי החיצים מזיזים את המסגרת. החזיקו Shift לצעדים גדולים יותר.",
+    frameResizeKeys:
+      "מקשי החיצים משנים את גודל המסגרת. החזיקו Shift לצעדים גדולים יותר.",
+    frameLabel: "מסגרת {label}",
+    position: "{label}: {x}% לרוחב, {y}% לגובה",
+    zoom: "{label}: זום {value}%",
+    rotation: "{label}: סיבוב {value}°",
+    size: "{label}: גודל {value}",
+    frameSize: "{label}: רוחב {width}%, גובה {height}%",
+    layout: "פריסה: {name}",
+    grid: "רשת תמונות: {name}",
+    cardSize: "גודל הכרטיס: {name}",
+  },
+  shortcuts: {
+    open: "קיצורים",
+    title: "קיצורי מקלדת",
+    hint: "עברו עם Tab לתמונה, למדבקה או לידית של מסגרת בתצוגה המקדימה, ואז השתמשו במקשים האלה.",
+    undo: "ביטול",
+    redo: "ביצוע מחדש",
+    move: "הזזת התמונה, המדבקה או המסגרת הנבחרת",
+    bigStep: "הזזה בצעדים גדולים יותר",
+    scale: "זום לתמונה או שינוי גודל של מדבקה",
+    rotate: "סיבוב ב-1°",
+    rotateBig: "סיבוב ב-15°",
+    show: "הצגת הרשימה הזאת",
+    close: "סגירת הרשימה הזאת",
+  },
+  shared: {
+    makeYourOwn: "צרו כרטיס משלכם",
+    loadFailed: "לא ניתן היה לטעון את הכרטיס.",
+    loadFailedLater: "לא ניתן היה לטעון את הכרטיס. נסו שוב מאוחר יותר.",
+  },
+  errors: {
+    uploadFailed: "ההעלאה נכשלה. נסו שוב.",
+    saveFailed: "השמירה נכשלה. נסו שוב.",
+    openFailed: "לא ניתן לפתוח את הכרטיס.",
+    deleteCardFailed: "לא ניתן למחוק את הכרטיס.",
+    saveThemeFailed: "שמירת ערכת הנושא נכשלה. נסו שוב.",
+    deleteThemeFailed: "לא ניתן למחוק את ערכת הנושא.",
+    importThemeFailed: "לא ניתן לייבא את ערכת הנושא.",
+    saveTemplateFailed: "שמירת התבנית נכשלה. נסו שוב.",
+    deleteTemplateFailed: "לא ניתן למחוק את התבנית.",
+    shareFailed: "השיתוף נכשל. נסו שוב.",
+    copyFailed: "לא ניתן להעתיק את הקישור. העתיקו אותו ידנית.",
+    revokeFailed: "לא ניתן לבטל את הקישור.",
+    notReady: "הכרטיס עדיין לא מוכן לייצוא.",
+    downloadFailed: "ההורדה נכשלה. נסו שוב.",
+    pdfFailed: "ייצוא ה־PDF נכשל. נסו שוב.",
+    animationFailed: "ייצוא האנימציה נכשל. נסו שוב.",
+    webmUnsupported:
+      "הדפדפן הזה לא יכול להקליט וידאו WebM. נסו את ה-GIF במקום.",
+    batchImportFailed: "לא הצלחנו לקרוא את רשימת הנמענים.",
+    batchFailed: "הייצוא המרוכז נכשל. נסו שוב.",
+    scheduleFailed: "התזמון נכשל. נסו שוב.",
+    cancelScheduleFailed: "לא הצלחנו לבטל את השליחה.",
+    inviteFailed: "לא הצלחנו לעדכן את קישור ההזמנה.",
+    contributionFailed: "לא הצלחנו לעדכן את הברכה.",
+    loadInviteFailed: "לא הצלחנו לטעון את ההזמנה. נסו שוב מאוחר יותר.",
+    signFailed: "לא הצלחנו לשלוח את הברכה. נסו שוב.",
+    liveClosed: "הסשן החי הסתיים. נסו שוב.",
+    exportDesignFailed: "לא ניתן לייצא את העיצוב.",
+    importDesignFailed: "לא ניתן לייבא את העיצוב.",
+  },
+  errorCodes: {
+    csvUnclosedQuote: "בקובץ ה-CSV יש מירכאה שלא נסגרה.",
+    csvNameColumnMissing: "בקובץ ה-CSV חייבת להיות עמודת שם.",
+    invalidJson: "הקובץ הזה אינו JSON תקין.",
+    recipientsNotList: "קובץ ה-JSON צריך להכיל רשימת נמענים.",
+    noRecipients: "לא נמצאו בקובץ נמענים עם שם.",
+    tooManyRecipients: "אצווה יכולה להכיל עד {max} נמענים בכל פעם.",
+    notDesignFile: "הקובץ הזה אינו ייצוא של עיצוב כרטיס.",
+    designVersionMissing: "לקובץ העיצוב אין מספר גרסה תקין.",
+    designVersionTooNew:
+      "העיצוב יוצא מגרסה חדשה יותר של הסטודיו. עדכנו את הסטודיו כדי לייבא אותו.",
+    designVersionUnsupported: "קובצי עיצוב בגרסה {version} אינם נתמכים.",
+    designInvalid: "לא ניתן לייבא את העיצוב כי הקובץ פגום.",
+    bundlePhotoFailed:
+      "לא ניתן להוריד את תמונה {number} לחבילה. ייצאו את העיצוב בלי תמונות במקום.",
+    bundleDesignMissing: "בארכיון ה-ZIP אין {name}.",
+    bundlePhotoMissing: "בארכיון ה-ZIP חסר {path}.",
+    notZip: "הקובץ הזה אינו ארכיון ZIP.",
+    zipDamaged: "ארכיון ה-ZIP פגום.",
+    zipCompressionUnsupported: "{name} דחוס בשיטה שהסטודיו לא יודע לקרוא.",
+    heicFailed: "לא ניתן להמיר את {name} מ-HEIC.",
+    compressFailed: "לא ניתן לדחוס את {name}.",
+    unsupportedType:
+      "{name} אינו תמונה נתמכת. השתמשו ב-JPEG,‏ PNG,‏ WEBP,‏ GIF או HEIC.",
+    fileTooLarge: "גודל {name} הוא {size}. המגבלה היא {limit}.",
+    dimensionsTooLarge:
+      "מידות {name} הן {width}x{height}px. כל צלע של תמונה יכולה להיות לכל היותר {max}px.",
+    tooManyPhotos: "כרטיס יכול להכיל עד {max} תמונות.",
+    unreadableImage: "לא ניתן לקרוא את {name} כתמונה.",
+    invalidFile: "לא ניתן להעלות את הקובץ.",
+    noFile: "לא הועלה קובץ.",
+    uploadRateLimited: "יותר מדי העלאות. המתינו רגע ונסו שוב.",
+    uploadUnauthorized: "שרת ההעלאות דחה את הסטודיו.",
+    uploadSessionRequired: "סשן ההעלאה פג. נסו שוב.",
+    uploadNotConfigured:
+      "העלאת תמונות לא הוגדרה. הוסיפו NEXT_PUBLIC_IMAGEKIT_PUBLIC_KEY לקובץ client .env.local.",
+    uploadAuthFailed: "האימות מול ImageKit נכשל. האם השרת פועל?",
+    uploadFailed: "ההעלאה נכשלה. נסו שוב.",
+    uploadServerUnreachable: "אין גישה לשרת ההעלאות. האם הוא פועל?",
+    notThemeFile: "הקובץ הזה אינו ייצוא ערכת נושא נתמך.",
+    themeStopCount: "ערכת נושא צריכה בין 2 ל-{max} נקודות מעבר צבע.",
+    themeColorsMissing: "צבעי ההדגשה והצל של ערכת הנושא חסרים.",
+  },
+  card: {
+    eyebrows: { birthday: "יום הולדת", celebrate: "חוגגים" },
+    greeting: "יום הולדת שמח\n{name}",
+    signature: "מאת {sender}",
+    nameFallback: "החבר/ה שלך",
+    senderFallback: "אני",
+    messagePlaceholder: "כתבו כאן את ברכת יום ההולדת.",
+    signaturesPlaceholder: "כאן יופיעו הברכות שחברים חתמו.",
+    photoPlaceholder: "תמונה {number}",
+    heroPlaceholder: "תמונה ראשית",
+    uploadHint: "העלו תמונה כדי למקם אותה כאן",
+    stickerText: "הטקסט שלכם",
+    pdfTitle: "כרטיס יום הולדת עבור {name}",
+    credit: "נוצר בסטודיו כרטיסי יום הולדת",
+  },
+  templates: {
+    "funny-cake": {
+      name: "עוד נרות",
+      text: "יום הולדת שמח, {name}! אל דאגה לגבי הנרות, מכבי האש כבר עודכנו.",
+    },
+    "funny-age": {
+      name: "וינטג׳",
+      text: "{age} מתאים לך בול, {name}. כמו גבינה משובחת, כל שנה את/ה רק יותר מעניין/ת.",
+    },
+    "funny-dessert": {
+      name: "עוד קינוח",
+      text: "ביום ההולדת קלוריות לא נחשבות. זה מדע, {name}. קח/י עוד פרוסה.",
+    },
+    "heartfelt-confetti": {
+      name: "רגעי קונפטי",
+      text: "מאחל/ת לך שנה מלאה ברגעי קונפטי, חלומות אמיצים וקינוח נוסף.",
+    },
+    "heartfelt-grateful": {
+      name: "הכרת תודה",
+      text: "{name}, אני כל כך אסיר/ת תודה שאת/ה בחיי. לחיים שלך ולכל מה שיביא גיל {age}. באהבה, {sender}",
+    },
+    "heartfelt-today": {
+      name: "היום שלך",
+      text: "היום, {date}, הכול סובב סביבך. תודה שאת/ה בדיוק מי שאת/ה, {name}.",
+    },
+    "formal-wishes": {
+      name: "איחולים חמים",
+      text: "{name} היקר/ה, ברכות חמות ליום הולדתך ואיחולים לשנה שמחה ובריאה. בברכה, {sender}",
+    },
+    "formal-team": {
+      name: "מכל הצוות",
+      text: "עד מאה ועשרים, {name}. מאחלים לך המשך הצלחה וחגיגה נפלאה ב־{date}.",
+    },
+    "kids-party": {
+      name: "זמן מסיבה",
+      text: "הידד, {name} בן/בת {age}! הגיע הזמן לבלונים, משחקים והעוגה הכי גדולה שיש!",
+    },
+    "kids-superstar": {
+      name: "כוכב/ת על",
+      text: "יום הולדת שמח, כוכב/ת העל {name}! את/ה מדהים/ה, מיוחד/ת ו־{age} שנים של כיף!",
+    },
+  },
+  templateTones: {
+    funny: { name: "מצחיק" },
+    heartfelt: { name: "מהלב" },
+    formal: { name: "רשמי" },
+    kids: { name: "לילדים" },
+  },
+  textRoles: {
+    headline: { name: "כותרת" },
+    message: { name: "ברכה" },
+    signature: { name: "חתימה" },
+  },
+  cardPages: {
+    front: { name: "כריכה" },
+    insideLeft: { name: "פנים שמאל" },
+    insideRight: { name: "פנים ימין" },
+    back: { name: "גב" },
+  },
+  layouts: {
+    duo: {
+      name: "זוג מפוצל",
+      description: "שתי תמונות זו מעל זו עם לוח ברכה.",
+    },
+    focus: {
+      name: "תמונה במרכז",
+      description: "תמונה גדולה אחת עם תמונה קטנה לצידה.",
+    },
+    collage: { name: "קולאז׳", description: "פסיפס תמונות מעל הברכה." },
+    polaroid: {
+      name: "פולארואידים מפוזרים",
+      description: "תמונות פוריות מוטות על פני הכרטיס.",
+    },
+    hero: {
+      name: "תמונה מלאה",
+      description: "תמונה מקצה לקצה עם טקסט מעליה.",
+    },
+    filmstrip: { name: "סרט צילום", description: "שורת פריימים בראש הכרטיס." },
+    freeform: {
+      name: "חופשי",
+      description: "הזיזו ושנו את גודל כל מסגרת בעצמכם.",
+    },
+    note: { name: "ברכה בלבד", description: "ברכה ברוחב מלא, ללא תמונות." },
+    signatures: {
+      name: "חתימות",
+      description: "ברכות מכל מי שחתם, מסודרות בעמודות.",
+    },
+  },
+  gridFormats: {
+    auto: { name: "אוטומטי", description: "עמודות מאוזנות לפי מספר התמונות." },
+    two: { name: "שתי עמודות", description: "תמיד שתי עמודות." },
+    three: { name: "שלוש עמודות", description: "יותר תמונות בכל שורה." },
+  },
+  cardSizes: {
+    standard: { name: "רגיל", description: "תצוגה מקדימה בגודל מאוזן." },
+    large: { name: "גדול", description: "תצוגה גדולה יותר וייצוא חד יותר." },
+    xlarge: { name: "ענק", description: "התצוגה הגדולה ביותר וייצוא מרבי." },
+  },
+  themes: {
+    sunrise: { name: "מצעד הזריחה" },
+    sorbet: { name: "סורבה פופ" },
+    night: { name: "לילה של פירות יער" },
+  },
+  printFormats: {
+    a6: { name: "A6", description: "כרטיס שטוח 148 × 105 מ״מ." },
+    "5x7": { name: "5 × 7 אינץ׳", description: "גודל כרטיס ברכה קלאסי." },
+    a5: { name: "A5", description: "כרטיס שטוח 210 × 148 מ״מ." },
+    "a4-folded": {
+      name: "A4 מקופל",
+      description: "גיליון A4 מקופל ל־A5, מודפס משני הצדדים.",
+    },
+  },
+  shareExpiry: {
+    never: { name: "ללא תפוגה" },
+    day: { name: "יום אחד" },
+    week: { name: "7 ימים" },
+    month: { name: "30 ימים" },
+  },
+  filterPresets: {
+    original: { name: "מקורי" },
+    bw: { name: "שחור־לבן" },
+    vintage: { name: "וינטג׳" },
+    pastel: { name: "פסטל" },
+  },
+  frameStyles: {
+    default: { name: "פריסה" },
+    polaroid: { name: "פולארויד" },
+    rounded: { name: "מעוגל" },
+    circle: { name: "עיגול" },
+    heart: { name: "לב" },
+  },
+  stickerPacks: {
+    balloons: { name: "בלונים" },
+    cake: { name: "עוגה" },
+    confetti: { name: "קונפטי" },
+  },
+  decorations: {
+    "balloon-red": { name: "בלון אדום" },
+    "balloon-blue": { name: "בלון כחול" },
+    "balloon-bunch": { name: "צרור בלונים" },
+    "cake-layer": { name: "עוגת שכבות" },
+    cupcake: { name: "קאפקייק" },
+    candle: { name: "נר" },
+    "confetti-burst": { name: "פיצוץ קונפטי" },
+    streamer: { name: "סרט קישוט" },
+    sparkle: { name: "נצנוץ" },
+  },
+  stickerShapes: {
+    circle: { name: "עיגול" },
+    star: { name: "כוכב" },
+    heart: { name: "לב" },
+    burst: { name: "התפרצות" },
+  },
+  animationEffects: {
+    confetti: { name: "פיצוץ קונפטי" },
+    balloons: { name: "בלונים מרחפים" },
+    typewriter: { name: "הודעה במכונת כתיבה" },
+    photoFade: { name: "תמונות מופיעות בהדרגה" },
+  },
+};
@@ -0,0 +1,65 @@
+import type { CardDesign, CardPage, CardPageId, PageContent } from "./cards";
+import { upgradeStickers } from "./stickers";
+
+export const cardPages: { id: CardPageId; name: string }[] = [
+  { id: "front", name: "Front" },
+  { id: "insideLeft", name: "Inside left" },
+  { id: "insideRight", name: "Inside right" },
+  { id: "back", name: "Back" },
+];
+
+const createPage = (
+  id: CardPage["id"],
+  layoutId: string,
+  message = "",
+): CardPage => ({
+  id,
+  message,
+  layoutId,
+  gridFormatId: "auto",
+  photos: layoutId === "note" ? [] : [null, null],
+  stickers: [],
+});
+
+export const createFoldingPages = (): CardPage[] => [
+  createPage("insideLeft", "focus"),
+  createPage("insideRight", "note", "Here's to another trip around the sun."),
+  createPage("back", "note"),
+];
+
+export const isFolded = (design: CardDesign) => Boolean(design.pages?.length);
+
+// Older cards may still hold legacy text stickers; every reader gets them
+// upgraded here, and the next edit writes the new shape back.
+export const getPage = (design: CardDesign, id: CardPageId): PageContent => {
+  const page =
+    id === "front"
+      ? design
+      : (design.pages?.find((item) => item.id === id) ??
+        createPage(id, "note"));
+  const stickers = upgradeStickers(page.stickers);
+  return stickers === page.stickers ? page : { ...page, stickers };
+};
+
+export const updatePage = (
+  design: CardDesign,
+  id: CardPageId,
+  updates: Partial<PageContent>,
+): CardDesign => {
+  if (id === "front") return { ...design, ...updates };
+  const pages = design.pages ?? [];
+  const exists = pages.some((page) => page.id === id);
+  return {
+    ...design,
+    pages: exists
+      ? pages.map((page) => (page.id === id ? { ...page, ...updates } : page))
+      : [...pages, { ...createPage(id, "note"), ...updates }],
+  };
+};
+
+export const countPhotos = (design: CardDesign) =>
+  cardPages.reduce(
+    (total, page) =>
+      total + getPage(design, page.id).photos.filter(Boolean).length,
+    0,
+  );
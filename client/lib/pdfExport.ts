@@ -0,0 +1,462 @@
+import { jsPDF } from "jspdf";
+import type { CardDesign, CardPageId, TextStyle } from "./cards";
+import { renderCardCanvas } from "./exportCard";
+import { getLocale, getMessages } from "./i18n";
+import type { Theme } from "./presets";
+import type { PrintFormat } from "./printFormats";
+import { cropMarkMarginMm, mmToPx } from "./printFormats";
+import {
+  defaultSignature,
+  fillTemplate,
+  greetingHeadline,
+  templateValues,
+} from "./templates";
+import type { FontFamily } from "./typography";
+import { getFontFamily, getScriptFont, resolveTextStyle } from "./typography";
+
+// Rendered card faces keyed by page. Single-face cards only have a front.
+export type CardFaces = Partial<Record<CardPageId, HTMLElement>> & {
+  front: HTMLElement;
+};
+
+export type PdfExportOptions = {
+  faces: CardFaces;
+  design: CardDesign;
+  theme: Theme;
+  format: PrintFormat;
+  dpi: number;
+  bleedMm: number;
+  cropMarks: boolean;
+};
+
+type Rect = { x: number; y: number; width: number; height: number };
+
+const maxRenderScale = 8;
+const cropMarkLengthMm = 5;
+
+const toBase64 = (buffer: ArrayBuffer) => {
+  const bytes = new Uint8Array(buffer);
+  let binary = "";
+  for (let index = 0; index < bytes.length; index += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(index, index + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const fontData = new Map<string, Promise<string>>();
+
+const loadFont = (file: string) => {
+  let data = fontData.get(file);
+  if (!data) {
+    data = fetch(`/fonts/${file}`)
+      .then(async (response) => {
+        if (!response.ok) {
+          throw new Error("Could not load the card font for PDF export.");
+        }
+        return toBase64(await response.arrayBuffer());
+      })
+      .catch((error) => {
+        fontData.delete(file);
+        throw error;
+      });
+    fontData.set(file, data);
+  }
+  return data;
+};
+
+// jsPDF has only "normal" and "bold" styles per family, so the heavier face
+// of each family is registered as bold.
+const pdfFontStyle = (family: FontFamily, weight: number) =>
+  family.faces.length > 1 &&
+  weight >= family.faces[family.faces.length - 1].weight
+    ? "bold"
+    : "normal";
+
+// Only the families the card uses are embedded, to keep the file small.
+const embedFonts = async (pdf: jsPDF, families: FontFamily[]) => {
+  for (const family of new Set(families)) {
+    for (const face of family.faces) {
+      pdf.addFileToVFS(face.file, await loadFont(face.file));
+      pdf.addFont(face.file, family.name, pdfFontStyle(family, face.weight));
+    }
+  }
+};
+
+// jsPDF cannot fall back to another font per glyph, so right-to-left cards
+// set all their text in the script font, which also covers Latin.
+const setPdfFont = (pdf: jsPDF, style: TextStyle, script?: FontFamily) => {
+  const family = script ?? getFontFamily(style.fontId);
+  pdf.setFont(family.name, pdfFontStyle(family, style.weight));
+};
+
+// Draws the image centred in the box, scaled to cover it or to fit inside.
+const drawCentered = (
+  context: CanvasRenderingContext2D,
+  image: HTMLCanvasElement,
+  box: Rect,
+  fit: "cover" | "contain",
+) => {
+  const scale = (fit === "cover" ? Math.max : Math.min)(
+    box.width / image.width,
+    box.height / image.height,
+  );
+  const drawWidth = image.width * scale;
+  const drawHeight = image.height * scale;
+  context.drawImage(
+    image,
+    box.x + (box.width - drawWidth) / 2,
+    box.y + (box.height - drawHeight) / 2,
+    drawWidth,
+    drawHeight,
+  );
+};
+
+// Cards are rarely the paper's shape, and photo layouts grow taller still,
+// so cropping the face to the paper would cut off the headline or the
+// signature. The whole face fits inside the trim area instead, over the
+// theme background, which fills the rest of the sheet and the bleed.
+const fitImage = (
+  source: HTMLCanvasElement,
+  backdrop: HTMLCanvasElement,
+  widthPx: number,
+  heightPx: number,
+  insetPx: number,
+  rotated = false,
+) => {
+  const canvas = document.createElement("canvas");
+  canvas.width = widthPx;
+  canvas.height = heightPx;
+  const context = canvas.getContext("2d");
+  if (!context) {
+    throw new Error("Canvas is not available in this browser.");
+  }
+  if (rotated) {
+    context.translate(widthPx, heightPx);
+    context.rotate(Math.PI);
+  }
+  drawCentered(
+    context,
+    backdrop,
+    { x: 0, y: 0, width: widthPx, height: heightPx },
+    "cover",
+  );
+  drawCentered(
+    context,
+    source,
+    {
+      x: insetPx,
+      y: insetPx,
+      width: widthPx - insetPx * 2,
+      height: heightPx - insetPx * 2,
+    },
+    "contain",
+  );
+  return canvas.toDataURL("image/jpeg", 0.92);
+};
+
+const addImage = (
+  pdf: jsPDF,
+  source: HTMLCanvasElement,
+  backdrop: HTMLCanvasElement,
+  rect: Rect,
+  dpi: number,
+  bleedMm: number,
+  rotated = false,
+) => {
+  const image = fitImage(
+    source,
+    backdrop,
+    mmToPx(rect.width, dpi),
+    mmToPx(rect.height, dpi),
+    mmToPx(bleedMm, dpi),
+    rotated,
+  );
+  pdf.addImage(image, "JPEG", rect.x, rect.y, rect.width, rect.height);
+};
+
+const drawCropMarks = (pdf: jsPDF, trim: Rect, bleedMm: number) => {
+  const gap = bleedMm + 1;
+  const left = trim.x;
+  const right = trim.x + trim.width;
+  const top = trim.y;
+  const bottom = trim.y + trim.height;
+  pdf.setDrawColor(0, 0, 0);
+  pdf.setLineWidth(0.1);
+  for (const x of [left, right]) {
+    pdf.line(x, top - gap - cropMarkLengthMm, x, top - gap);
+    pdf.line(x, bottom + gap, x, bottom + gap + cropMarkLengthMm);
+  }
+  for (const y of [top, bottom]) {
+    pdf.line(left - gap - cropMarkLengthMm, y, left - gap, y);
+    pdf.line(right + gap, y, right + gap + cropMarkLengthMm, y);
+  }
+};
+
+const drawFoldMarks = (
+  pdf: jsPDF,
+  trim: Rect,
+  foldY: number,
+  bleedMm: number,
+) => {
+  const gap = bleedMm + 1;
+  pdf.setLineDashPattern([1, 1], 0);
+  pdf.line(trim.x - gap - cropMarkLengthMm, foldY, trim.x - gap, foldY);
+  pdf.line(
+    trim.x + trim.width + gap,
+    foldY,
+    trim.x + trim.width + gap + cropMarkLengthMm,
+    foldY,
+  );
+  pdf.setLineDashPattern([], 0);
+};
+
+// A plain face in the card's theme, used for the back of folded cards.
+const renderThemeCanvas = async (
+  card: HTMLElement,
+  theme: Theme,
+  scale: number,
+) => {
+  const face = document.createElement("div");
+  face.style.position = "fixed";
+  face.style.left = "-10000px";
+  face.style.top = "0";
+  face.style.width = `${card.offsetWidth}px`;
+  face.style.height = `${card.offsetHeight}px`;
+  face.style.background = theme.background;
+  document.body.appendChild(face);
+  try {
+    return await renderCardCanvas(face, scale);
+  } finally {
+    face.remove();
+  }
+};
+
+const drawInsidePage = (
+  pdf: jsPDF,
+  design: CardDesign,
+  theme: Theme,
+  trim: Rect,
+  panelHeight: number,
+) => {
+  const padding = 16;
+  const textWidth = trim.width - padding * 2;
+  const upperCenter = trim.y + panelHeight / 2;
+  const lowerTop = trim.y + panelHeight + padding;
+
+  const locale = getLocale(design.locale);
+  const script = getScriptFont(locale.scriptFontId);
+  const rtl = locale.dir === "rtl";
+  // jsPDF shapes Arabic itself; its bidi pass then needs to know the text
+  // is in logical order so it reverses it for display.
+  const bidi = rtl
+    ? { isInputVisual: false, isOutputVisual: true, isInputRtl: true }
+    : {};
+  const values = templateValues(design);
+  const [greeting, ...nameLines] = fillTemplate(
+    design.headline ?? greetingHeadline(design.locale),
+    values,
+  ).split("\n");
+
+  const headline = resolveTextStyle("headline", design.typography?.headline);
+  const message = resolveTextStyle("message", design.typography?.message);
+  const signature = resolveTextStyle("signature", design.typography?.signature);
+
+  // Body text starts from the right edge on right-to-left cards.
+  const startX = rtl ? trim.x + trim.width - padding : trim.x + padding;
+  const startAlign = rtl ? "right" : "left";
+
+  setPdfFont(pdf, headline, script);
+  pdf.setFontSize(24);
+  pdf.setTextColor(theme.accent);
+  pdf.text(greeting, trim.x + trim.width / 2, upperCenter - 4, {
+    align: "center",
+    ...bidi,
+  });
+  pdf.setFontSize(16);
+  pdf.setTextColor(headline.color ?? "#1b1b1b");
+  pdf.text(nameLines.join(" "), trim.x + trim.width / 2, upperCenter + 8, {
+    align: "center",
+    ...bidi,
+  });
+
+  setPdfFont(pdf, message, script);
+  pdf.setFontSize(11);
+  pdf.setTextColor(message.color ?? "#1b1b1b");
+  const lines = pdf.splitTextToSize(
+    fillTemplate(design.message, values) ||
+      getMessages(locale.id).card.messagePlaceholder,
+    textWidth,
+  );
+  pdf.text(lines, startX, lowerTop, {
+    align: startAlign,
+    lineHeightFactor: message.lineHeight,
+    ...bidi,
+  });
+  setPdfFont(pdf, signature, script);
+  pdf.setFontSize(9);
+  pdf.setTextColor(signature.color ?? "#505050");
+  pdf.text(
+    fillTemplate(
+      design.signature ?? defaultSignature(design.locale),
+      values,
+    ).toUpperCase(),
+    startX,
+    trim.y + trim.height - padding,
+    { align: startAlign, ...bidi },
+  );
+};
+
+const pageOrder: CardPageId[] = ["front", "insideLeft", "insideRight", "back"];
+
+export const exportCardPdf = async ({
+  faces,
+  design,
+  theme,
+  format,
+  dpi,
+  bleedMm,
+  cropMarks,
+}: PdfExportOptions) => {
+  const margin = cropMarks ? cropMarkMarginMm : 0;
+  const card = faces.front;
+  const trim: Rect = {
+    x: margin + bleedMm,
+    y: margin + bleedMm,
+    width: format.widthMm,
+    height: format.heightMm * (format.folded ? 2 : 1),
+  };
+  const pageWidth = trim.width + (margin + bleedMm) * 2;
+  const pageHeight = trim.height + (margin + bleedMm) * 2;
+
+  const pdf = new jsPDF({
+    unit: "mm",
+    format: [pageWidth, pageHeight],
+    orientation: pageWidth > pageHeight ? "landscape" : "portrait",
+    compress: true,
+  });
+  const copy = getMessages(design.locale).card;
+  const script = getScriptFont(getLocale(design.locale).scriptFontId);
+  pdf.setProperties({
+    title: fillTemplate(copy.pdfTitle, templateValues(design)),
+    creator: "Birthday Card Studio",
+  });
+  await embedFonts(pdf, [
+    getFontFamily("unbounded"),
+    ...(script ? [script] : []),
+    ...(["headline", "message", "signature"] as const).map((role) =>
+      getFontFamily(resolveTextStyle(role, design.typography?.[role]).fontId),
+    ),
+  ]);
+  pdf.setFont("Unbounded", "normal");
+
+  const faceWidthPx = mmToPx(format.widthMm + bleedMm * 2, dpi);
+  const scale = Math.min(maxRenderScale, faceWidthPx / card.offsetWidth);
+  const front = await renderCardCanvas(card, scale);
+  const backdrop = await renderThemeCanvas(card, theme, scale);
+  const bleedBox: Rect = {
+    x: trim.x - bleedMm,
+    y: trim.y - bleedMm,
+    width: trim.width + bleedMm * 2,
+    height: trim.height + bleedMm * 2,
+  };
+  const orientation = pageWidth > pageHeight ? "l" : "p";
+
+  // Flat formats print one sheet per page of the card.
+  if (!format.folded) {
+    let first = true;
+    for (const pageId of pageOrder) {
+      const face = faces[pageId];
+      if (!face) continue;
+      if (!first) pdf.addPage([pageWidth, pageHeight], orientation);
+      first = false;
+      addImage(
+        pdf,
+        face === card ? front : await renderCardCanvas(face, scale),
+        backdrop,
+        bleedBox,
+        dpi,
+        bleedMm,
+      );
+      if (cropMarks) drawCropMarks(pdf, trim, bleedMm);
+    }
+    return pdf;
+  }
+
+  // Outside: the back sits upside down on the top half so it reads the
+  // right way once the sheet is folded along the middle.
+  const foldY = trim.y + format.heightMm;
+  const back = faces.back
+    ? await renderCardCanvas(faces.back, scale)
+    : backdrop;
+  addImage(
+    pdf,
+    back,
+    backdrop,
+    {
+      x: trim.x - bleedMm,
+      y: trim.y - bleedMm,
+      width: trim.width + bleedMm * 2,
+      height: format.heightMm + bleedMm,
+    },
+    dpi,
+    bleedMm,
+    true,
+  );
+  addImage(
+    pdf,
+    front,
+    backdrop,
+    {
+      x: trim.x - bleedMm,
+      y: foldY,
+      width: trim.width + bleedMm * 2,
+      height: format.heightMm + bleedMm,
+    },
+    dpi,
+    bleedMm,
+  );
+  if (!faces.back) {
+    pdf.setFont(script?.name ?? "Unbounded", "normal");
+    pdf.setFontSize(7);
+    pdf.setTextColor(60, 60, 60);
+    pdf.text(
+      copy.credit,
+      trim.x + (trim.width + pdf.getTextWidth(copy.credit)) / 2,
+      trim.y + 14,
+      { angle: 180 },
+    );
+  }
+  if (cropMarks) {
+    drawCropMarks(pdf, trim, bleedMm);
+    drawFoldMarks(pdf, trim, foldY, bleedMm);
+  }
+
+  // Inside: with a top fold, the inside-left page sits above the fold and
+  // the inside-right page below it.
+  pdf.addPage([pageWidth, pageHeight], orientation);
+  if (faces.insideLeft && faces.insideRight) {
+    addImage(
+      pdf,
+      await renderCardCanvas(faces.insideLeft, scale),
+      backdrop,
+      { ...bleedBox, height: format.heightMm + bleedMm },
+      dpi,
+      bleedMm,
+    );
+    addImage(
+      pdf,
+      await renderCardCanvas(faces.insideRight, scale),
+      backdrop,
+      { ...bleedBox, y: foldY, height: format.heightMm + bleedMm },
+      dpi,
+      bleedMm,
+    );
+  } else {
+    drawInsidePage(pdf, design, theme, trim, format.heightMm);
+  }
+  if (cropMarks) {
+    drawCropMarks(pdf, trim, bleedMm);
+    drawFoldMarks(pdf, trim, foldY, bleedMm);
+  }
+  return pdf;
+};
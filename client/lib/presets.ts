@@ -0,0 +1,94 @@
+export type Theme = {
+  id: string;
+  name: string;
+  background: string;
+  accent: string;
+  shadow: string;
+};
+
+export const themes: Theme[] = [
+  {
+    id: "sunrise",
+    name: "Sunrise Parade",
+    background:
+      "radial-gradient(circle at 12% 20%, rgba(255,255,255,0.65), rgba(255,255,255,0) 58%), linear-gradient(135deg, #ffd6a5 0%, #ffcad4 40%, #cdb4db 100%)",
+    accent: "#ff6b6b",
+    shadow: "0 30px 70px rgba(255, 155, 141, 0.45)",
+  },
+  {
+    id: "sorbet",
+    name: "Sorbet Pop",
+    background:
+      "radial-gradient(circle at 80% 15%, rgba(255,255,255,0.55), rgba(255,255,255,0) 50%), linear-gradient(130deg, #b8f2e6 0%, #fef6e4 45%, #f7d9d9 100%)",
+    accent: "#2d6a4f",
+    shadow: "0 28px 60px rgba(101, 200, 170, 0.4)",
+  },
+  {
+    id: "night",
+    name: "Berry Night",
+    background:
+      "radial-gradient(circle at 10% 15%, rgba(255,255,255,0.2), rgba(255,255,255,0) 45%), linear-gradient(135deg, #2f2244 0%, #5f0f40 40%, #f04e98 100%)",
+    accent: "#ffe066",
+    shadow: "0 30px 70px rgba(40, 10, 50, 0.6)",
+  },
+];
+
+// `animation` sets the animated export for each size: length, frame rate
+// and how many times it plays (0 loops forever).
+export const cardSizes = [
+  {
+    id: "standard",
+    name: "Standard",
+    description: "Balanced preview size.",
+    previewMaxWidth: 520,
+    downloadScale: 2,
+    animation: { durationMs: 4000, fps: 12, plays: 0 },
+  },
+  {
+    id: "large",
+    name: "Large",
+    description: "Bigger preview + sharper export.",
+    previewMaxWidth: 620,
+    downloadScale: 2.5,
+    animation: { durationMs: 5000, fps: 15, plays: 0 },
+  },
+  {
+    id: "xlarge",
+    name: "Extra",
+    description: "Largest preview + ultra export.",
+    previewMaxWidth: 720,
+    downloadScale: 3,
+    animation: { durationMs: 6000, fps: 20, plays: 3 },
+  },
+];
+
+export const gridFormats = [
+  {
+    id: "auto",
+    name: "Auto",
+    description: "Balanced columns based on count.",
+  },
+  {
+    id: "two",
+    name: "Two Column",
+    description: "Always aim for two columns.",
+  },
+  {
+    id: "three",
+    name: "Three Column",
+    description: "Show more tiles per row.",
+  },
+];
+
+export const getPhotoGrid = (count: number, format: string) => {
+  const safeCount = Math.max(1, count);
+  let columns = safeCount <= 1 ? 1 : safeCount <= 4 ? 2 : 3;
+  if (format === "two") {
+    columns = safeCount === 1 ? 1 : 2;
+  }
+  if (format === "three") {
+    columns = safeCount <= 2 ? safeCount : 3;
+  }
+  const rows = Math.ceil(safeCount / columns);
+  return { columns, rows };
+};
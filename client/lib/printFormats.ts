@@ -0,0 +1,52 @@
+export type PrintFormat = {
+  id: string;
+  name: string;
+  description: string;
+  // Trimmed size of one card face, landscape, in millimetres.
+  widthMm: number;
+  heightMm: number;
+  // Folded formats stack two faces on each side of a sheet twice as tall.
+  folded?: boolean;
+};
+
+export const printFormats: PrintFormat[] = [
+  {
+    id: "a6",
+    name: "A6",
+    description: "148 x 105 mm flat card.",
+    widthMm: 148,
+    heightMm: 105,
+  },
+  {
+    id: "5x7",
+    name: "5 x 7 in",
+    description: "Classic greeting card size.",
+    widthMm: 177.8,
+    heightMm: 127,
+  },
+  {
+    id: "a5",
+    name: "A5",
+    description: "210 x 148 mm flat card.",
+    widthMm: 210,
+    heightMm: 148,
+  },
+  {
+    id: "a4-folded",
+    name: "Folded A4",
+    description: "A4 sheet top-folded to A5, printed on both sides.",
+    widthMm: 210,
+    heightMm: 148.5,
+    folded: true,
+  },
+];
+
+export const printDpiOptions = [150, 300, 600];
+
+export const bleedOptionsMm = [0, 3, 5];
+
+// Space outside the bleed reserved for crop marks.
+export const cropMarkMarginMm = 8;
+
+export const mmToPx = (mm: number, dpi: number) =>
+  Math.round((mm / 25.4) * dpi);
@@ -0,0 +1,172 @@
+import { clientHeaders, requestJson } from "./api";
+import type { CardDesign } from "./cards";
+import { rememberShare } from "./shares";
+
+export type ScheduleStatus =
+  "pending" | "sending" | "sent" | "failed" | "cancelled";
+
+// A card queued for email delivery. The date and time are wall-clock
+// values in `timeZone`; the server works out `sendAt` in UTC.
+export type ScheduledSend = {
+  id: string;
+  cardId: string | null;
+  recipient: string;
+  to: { name: string; email: string };
+  subject: string;
+  note: string;
+  sendDate: string;
+  sendTime: string;
+  timeZone: string;
+  sendAt: string;
+  status: ScheduleStatus;
+  attempts: number;
+  lastError: string | null;
+  sentAt: string | null;
+  // The link the email carried, and the token that revokes it.
+  shareSlug: string | null;
+  shareToken: string | null;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type ScheduleDraft = {
+  email: string;
+  name: string;
+  note: string;
+  sendDate: string;
+  sendTime: string;
+  timeZone: string;
+};
+
+export const localTimeZone = () =>
+  Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+
+// Offered in the picker next to the browser's own zone.
+export const commonTimeZones = [
+  "UTC",
+  "America/Los_Angeles",
+  "America/Denver",
+  "America/Chicago",
+  "America/New_York",
+  "America/Sao_Paulo",
+  "Europe/London",
+  "Europe/Paris",
+  "Europe/Madrid",
+  "Africa/Cairo",
+  "Asia/Jerusalem",
+  "Asia/Dubai",
+  "Asia/Kolkata",
+  "Asia/Singapore",
+  "Asia/Tokyo",
+  "Australia/Sydney",
+];
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+// Defaults to 9:00 on the recipient's next birthday, or tomorrow when the
+// card has no birthday set.
+export const createScheduleDraft = (
+  birthday?: string | null,
+  now = new Date(),
+): ScheduleDraft => {
+  let date = new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1);
+  const match = birthday ? /^\d{4}-(\d{2})-(\d{2})$/.exec(birthday) : null;
+  if (match) {
+    const month = Number(match[1]) - 1;
+    const day = Number(match[2]);
+    date = new Date(now.getFullYear(), month, day);
+    if (date.getTime() + 9 * 3600000 <= now.getTime()) {
+      date = new Date(now.getFullYear() + 1, month, day);
+    }
+  }
+  return {
+    email: "",
+    name: "",
+    note: "",
+    sendDate: `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`,
+    sendTime: "09:00",
+    timeZone: localTimeZone(),
+  };
+};
+
+export const draftFromSchedule = (schedule: ScheduledSend): ScheduleDraft => ({
+  email: schedule.to.email,
+  name: schedule.to.name,
+  note: schedule.note,
+  sendDate: schedule.sendDate,
+  sendTime: schedule.sendTime,
+  timeZone: schedule.timeZone,
+});
+
+// Sends are private to the browser that scheduled them: it keeps a random
+// owner key and sends it with every schedule request.
+const ownerKeyStorageKey = "birthday-card-schedule-owner";
+let sessionOwnerKey: string | null = null;
+
+const ownerKey = () => {
+  try {
+    const stored = window.localStorage.getItem(ownerKeyStorageKey);
+    if (stored) return stored;
+    const key = crypto.randomUUID();
+    window.localStorage.setItem(ownerKeyStorageKey, key);
+    return key;
+  } catch {
+    // Private browsing can refuse storage; sends then last the session.
+    sessionOwnerKey ??= crypto.randomUUID();
+    return sessionOwnerKey;
+  }
+};
+
+const ownerHeaders = async () => ({
+  ...(await clientHeaders()),
+  "X-Schedule-Token": ownerKey(),
+});
+
+// Links that sent cards went out with join the browser's own share links,
+// so they can be revoked from the share panel.
+export const listSchedules = async () => {
+  const schedules = await requestJson<ScheduledSend[]>("/schedules", {
+    headers: { "X-Schedule-Token": ownerKey() },
+  });
+  for (const schedule of schedules) {
+    if (schedule.shareSlug && schedule.shareToken) {
+      rememberShare({
+        slug: schedule.shareSlug,
+        ownerToken: schedule.shareToken,
+        cardId: schedule.cardId,
+        expiresAt: null,
+        createdAt: schedule.sentAt ?? schedule.updatedAt,
+      });
+    }
+  }
+  return schedules;
+};
+
+export const createSchedule = async (
+  draft: ScheduleDraft,
+  design: CardDesign,
+  cardId: string | null,
+) =>
+  requestJson<ScheduledSend>("/schedules", {
+    method: "POST",
+    headers: await ownerHeaders(),
+    body: JSON.stringify({ ...draft, design, cardId }),
+  });
+
+export const updateSchedule = async (
+  id: string,
+  draft: ScheduleDraft,
+  design: CardDesign,
+  cardId: string | null,
+) =>
+  requestJson<ScheduledSend>(`/schedules/${id}`, {
+    method: "PUT",
+    headers: await ownerHeaders(),
+    body: JSON.stringify({ ...draft, design, cardId }),
+  });
+
+export const cancelSchedule = async (id: string) =>
+  requestJson<ScheduledSend>(`/schedules/${id}`, {
+    method: "DELETE",
+    headers: await ownerHeaders(),
+  });
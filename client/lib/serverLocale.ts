@@ -0,0 +1,7 @@
+import { cookies } from "next/headers";
+import { getLocale, localeCookie } from "./i18n";
+
+// UI language for server-rendered pages, from the cookie the locale
+// switcher writes.
+export const requestLocale = async () =>
+  getLocale((await cookies()).get(localeCookie)?.value);
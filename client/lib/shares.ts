@@ -0,0 +1,97 @@
+import { requestJson } from "./api";
+import type { CardDesign } from "./cards";
+
+export type ShareLink = {
+  slug: string;
+  ownerToken: string;
+  expiresAt: string | null;
+  createdAt: string;
+};
+
+// A link made in this browser, kept with the token that revokes it.
+export type OwnedShare = ShareLink & { cardId: string | null };
+
+export type SharedCard = {
+  slug: string;
+  design: CardDesign;
+  expiresAt: string | null;
+  createdAt: string;
+};
+
+export const shareExpiryOptions = [
+  { id: "never", name: "Never expires", days: null },
+  { id: "day", name: "1 day", days: 1 },
+  { id: "week", name: "7 days", days: 7 },
+  { id: "month", name: "30 days", days: 30 },
+];
+
+// The owner token is the only way to revoke a link, so links stay in
+// localStorage until they are revoked or expire.
+const ownedSharesKey = "birthday-card-shares";
+
+const isActive = (share: OwnedShare) =>
+  !share.expiresAt || new Date(share.expiresAt).getTime() > Date.now();
+
+const readOwnedShares = () => {
+  try {
+    const stored = window.localStorage.getItem(ownedSharesKey);
+    return stored ? (JSON.parse(stored) as OwnedShare[]) : [];
+  } catch {
+    return [];
+  }
+};
+
+const writeOwnedShares = (shares: OwnedShare[]) => {
+  try {
+    window.localStorage.setItem(ownedSharesKey, JSON.stringify(shares));
+  } catch {
+    // Private browsing can refuse storage; the links still work.
+  }
+};
+
+// Live links for a saved card, or for unsaved work when cardId is null,
+// newest first.
+export const listOwnedShares = (cardId: string | null) => {
+  const shares = readOwnedShares().filter(isActive);
+  writeOwnedShares(shares);
+  return shares
+    .filter((share) => share.cardId === cardId)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+// Keeps a link this browser owns, such as one a scheduled send went out
+// with, so it can be listed and revoked.
+export const rememberShare = (share: OwnedShare) => {
+  const shares = readOwnedShares();
+  if (!shares.some((item) => item.slug === share.slug)) {
+    writeOwnedShares([...shares, share]);
+  }
+};
+
+export const createShare = async (
+  design: CardDesign,
+  options: { cardId?: string | null; expiresInDays?: number | null },
+) => {
+  const link = await requestJson<ShareLink>("/share", {
+    method: "POST",
+    body: JSON.stringify({ design, ...options }),
+  });
+  const share: OwnedShare = { ...link, cardId: options.cardId ?? null };
+  rememberShare(share);
+  return share;
+};
+
+export const revokeShare = async (share: ShareLink) => {
+  await requestJson<void>(`/share/${share.slug}`, {
+    method: "DELETE",
+    headers: { "X-Share-Token": share.ownerToken },
+  });
+  writeOwnedShares(
+    readOwnedShares().filter((item) => item.slug !== share.slug),
+  );
+};
+
+export const shareUrl = (slug: string) =>
+  typeof window === "undefined"
+    ? `/c/${slug}`
+    : `${window.location.origin}/c/${slug}`;
@@ -0,0 +1,106 @@
+import { clientHeaders, requestJson } from "./api";
+import type { CardDesign, Signature } from "./cards";
+import { cardOwnerHeaders } from "./cards";
+
+export type ContributionStatus = "pending" | "approved" | "hidden";
+
+// A note sent through an invite link. Only approved notes are copied onto
+// the card as signatures.
+export type Contribution = Signature & {
+  cardId: string;
+  status: ContributionStatus;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type ContributionDraft = {
+  name: string;
+  note: string;
+  color: string | null;
+  photoUrl: string | null;
+};
+
+// What a contributor sees of the card they were invited to sign.
+export type InvitedCard = {
+  title: string;
+  design: CardDesign;
+};
+
+export const maxNoteLength = 500;
+
+// Ink colours offered to contributors. null keeps the card's own ink.
+export const signatureColors = [
+  { id: "ink", value: null },
+  { id: "berry", value: "#be185d" },
+  { id: "ocean", value: "#1d4ed8" },
+  { id: "forest", value: "#15803d" },
+  { id: "sunset", value: "#c2410c" },
+  { id: "violet", value: "#6d28d9" },
+] as const;
+
+export const inviteUrl = (token: string) =>
+  typeof window === "undefined"
+    ? `/sign/${token}`
+    : `${window.location.origin}/sign/${token}`;
+
+export const getInviteToken = async (cardId: string) =>
+  (
+    await requestJson<{ inviteToken: string | null }>(
+      `/cards/${cardId}/invite`,
+      { headers: cardOwnerHeaders(cardId) },
+    )
+  ).inviteToken;
+
+export const createInvite = (cardId: string) =>
+  requestJson<{ inviteToken: string }>(`/cards/${cardId}/invite`, {
+    method: "POST",
+    headers: cardOwnerHeaders(cardId),
+  });
+
+export const disableInvite = (cardId: string) =>
+  requestJson<void>(`/cards/${cardId}/invite`, {
+    method: "DELETE",
+    headers: cardOwnerHeaders(cardId),
+  });
+
+export const listContributions = (cardId: string) =>
+  requestJson<Contribution[]>(`/cards/${cardId}/contributions`, {
+    headers: cardOwnerHeaders(cardId),
+  });
+
+// Both calls answer with the card's signatures after the change.
+export const setContributionStatus = (
+  cardId: string,
+  id: string,
+  status: ContributionStatus,
+) =>
+  requestJson<{ contribution: Contribution; signatures: Signature[] }>(
+    `/cards/${cardId}/contributions/${id}`,
+    {
+      method: "PATCH",
+      headers: cardOwnerHeaders(cardId),
+      body: JSON.stringify({ status }),
+    },
+  );
+
+export const deleteContribution = (cardId: string, id: string) =>
+  requestJson<{ signatures: Signature[] }>(
+    `/cards/${cardId}/contributions/${id}`,
+    { method: "DELETE", headers: cardOwnerHeaders(cardId) },
+  );
+
+export const getInvite = (token: string) =>
+  requestJson<InvitedCard>(`/invites/${encodeURIComponent(token)}`);
+
+export const submitContribution = async (
+  token: string,
+  draft: ContributionDraft,
+) =>
+  requestJson<Contribution>(
+    `/invites/${encodeURIComponent(token)}/contributions`,
+    {
+      method: "POST",
+      headers: await clientHeaders(),
+      body: JSON.stringify(draft),
+    },
+  );
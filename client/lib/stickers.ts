@@ -0,0 +1,220 @@
+import type {
+  DecorationSticker,
+  EmojiSticker,
+  ImageSticker,
+  ShapeSticker,
+  Sticker,
+  StickerBase,
+  StickerShape,
+  TextSticker,
+} from "./cards";
+import { heartPath } from "./filters";
+import type { Messages } from "./i18n";
+import { format, localize } from "./i18n";
+
+export const maxStickers = 20;
+
+export const emojiStickers = [
+  "🎉",
+  "🎂",
+  "🎈",
+  "🎁",
+  "🥳",
+  "✨",
+  "🎊",
+  "💖",
+  "🌟",
+  "🍰",
+  "🕯️",
+  "🎶",
+];
+
+const balloon = (fill: string, knot: string) =>
+  `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 64 96"><path d="M32 67c-4 8 4 14 0 25" stroke="#555" stroke-width="1.5" fill="none"/><path d="M32 4C18 4 8 15 8 29c0 17 14 31 24 33 10-2 24-16 24-33C56 15 46 4 32 4z" fill="${fill}"/><path d="M29 62h6l-3 5z" fill="${knot}"/><ellipse cx="22" cy="22" rx="5" ry="9" fill="#fff" opacity=".35" transform="rotate(-20 22 22)"/></svg>`;
+
+export const decorationPacks: {
+  id: string;
+  name: string;
+  items: { id: string; name: string; svg: string }[];
+}[] = [
+  {
+    id: "balloons",
+    name: "Balloons",
+    items: [
+      {
+        id: "balloon-red",
+        name: "Red balloon",
+        svg: balloon("#ef476f", "#c9184a"),
+      },
+      {
+        id: "balloon-blue",
+        name: "Blue balloon",
+        svg: balloon("#118ab2", "#0b6e8f"),
+      },
+      {
+        id: "balloon-bunch",
+        name: "Balloon bunch",
+        svg: `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 96 112"><path d="M28 52l20 52M68 52l-20 52M48 67v37" stroke="#555" stroke-width="1.5" fill="none"/><ellipse cx="28" cy="30" rx="18" ry="22" fill="#ffd166"/><ellipse cx="68" cy="30" rx="18" ry="22" fill="#06d6a0"/><ellipse cx="48" cy="44" rx="19" ry="23" fill="#ef476f"/></svg>`,
+      },
+    ],
+  },
+  {
+    id: "cake",
+    name: "Cake",
+    items: [
+      {
+        id: "cake-layer",
+        name: "Layer cake",
+        svg: `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 96 96"><rect x="8" y="82" width="80" height="6" rx="3" fill="#d9d9d9"/><rect x="14" y="52" width="68" height="32" rx="6" fill="#f7d9d9"/><rect x="20" y="34" width="56" height="22" rx="5" fill="#fef6e4"/><path d="M20 44c6 6 10 6 14 0s10-6 14 0 10 6 14 0 10-6 14 0" stroke="#ef476f" stroke-width="4" fill="none"/><rect x="36" y="20" width="5" height="14" fill="#118ab2"/><rect x="55" y="20" width="5" height="14" fill="#06d6a0"/><path d="M38.5 8c3 4 3 7 0 9-3-2-3-5 0-9zM57.5 8c3 4 3 7 0 9-3-2-3-5 0-9z" fill="#ffb703"/></svg>`,
+      },
+      {
+        id: "cupcake",
+        name: "Cupcake",
+        svg: `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 64 80"><path d="M14 40h36l-5 36H19z" fill="#8ecae6"/><path d="M22 40l2 36M32 40v36M42 40l-2 36" stroke="#219ebc" stroke-width="2"/><path d="M10 42c0-14 10-24 22-24s22 10 22 24z" fill="#ffafcc"/><circle cx="32" cy="14" r="6" fill="#e63946"/></svg>`,
+      },
+      {
+        id: "candle",
+        name: "Candle",
+        svg: `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 32 96"><rect x="10" y="30" width="12" height="62" rx="2" fill="#ffd6e0"/><path d="M10 40l12-6M10 54l12-6M10 68l12-6M10 82l12-6" stroke="#ef476f" stroke-width="3"/><path d="M16 28v-6" stroke="#333" stroke-width="2"/><path d="M16 4c6 8 6 14 0 18-6-4-6-10 0-18z" fill="#ffb703"/></svg>`,
+      },
+    ],
+  },
+  {
+    id: "confetti",
+    name: "Confetti",
+    items: [
+      {
+        id: "confetti-burst",
+        name: "Confetti burst",
+        svg: `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 96 96"><rect x="12" y="18" width="8" height="14" rx="2" fill="#ef476f" transform="rotate(-25 16 25)"/><rect x="70" y="12" width="8" height="14" rx="2" fill="#118ab2" transform="rotate(30 74 19)"/><rect x="44" y="40" width="8" height="14" rx="2" fill="#ffd166" transform="rotate(15 48 47)"/><rect x="20" y="66" width="8" height="14" rx="2" fill="#06d6a0" transform="rotate(40 24 73)"/><rect x="68" y="64" width="8" height="14" rx="2" fill="#8338ec" transform="rotate(-35 72 71)"/><circle cx="40" cy="14" r="4" fill="#06d6a0"/><circle cx="84" cy="42" r="4" fill="#ef476f"/><circle cx="10" cy="46" r="4" fill="#118ab2"/><circle cx="50" cy="84" r="4" fill="#ffd166"/></svg>`,
+      },
+      {
+        id: "streamer",
+        name: "Streamer",
+        svg: `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 120 48"><path d="M4 24c12-20 24-20 28 0s16 20 28 0 16-20 28 0 16 20 28 0" stroke="#ff70a6" stroke-width="6" fill="none" stroke-linecap="round"/><path d="M4 30c12-20 24-20 28 0s16 20 28 0 16-20 28 0 16 20 28 0" stroke="#70d6ff" stroke-width="3" fill="none" stroke-linecap="round"/></svg>`,
+      },
+      {
+        id: "sparkle",
+        name: "Sparkle",
+        svg: `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 96 96"><path d="M48 6l8 34 34 8-34 8-8 34-8-34-34-8 34-8z" fill="#ffd166"/><path d="M80 8l3 10 10 3-10 3-3 10-3-10-10-3 10-3z" fill="#ffb703"/></svg>`,
+      },
+    ],
+  },
+];
+
+export const getDecoration = (id: string) =>
+  decorationPacks
+    .flatMap((pack) => pack.items)
+    .find((item) => item.id === id) ?? null;
+
+export const stickerShapes: { id: StickerShape; name: string }[] = [
+  { id: "circle", name: "Circle" },
+  { id: "star", name: "Star" },
+  { id: "heart", name: "Heart" },
+  { id: "burst", name: "Burst" },
+];
+
+const starPath = (points: number, inner: number) =>
+  `M${Array.from({ length: points * 2 }, (_, index) => {
+    const radius = index % 2 === 0 ? 50 : inner;
+    const angle = (Math.PI * index) / points - Math.PI / 2;
+    return `${(50 + radius * Math.cos(angle)).toFixed(2)} ${(50 + radius * Math.sin(angle)).toFixed(2)}`;
+  }).join("L")}Z`;
+
+export const shapeSvg = (shape: StickerShape, color: string) => {
+  switch (shape) {
+    case "circle":
+      return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 100 100"><circle cx="50" cy="50" r="50" fill="${color}"/></svg>`;
+    case "heart":
+      return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 1 1"><path d="${heartPath}" fill="${color}"/></svg>`;
+    case "star":
+      return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 100 100"><path d="${starPath(5, 21)}" fill="${color}"/></svg>`;
+    case "burst":
+      return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 100 100"><path d="${starPath(12, 38)}" fill="${color}"/></svg>`;
+  }
+};
+
+// A short name for a sticker in lists and screen-reader labels.
+export const stickerLabel = (sticker: Sticker, t: Messages) => {
+  switch (sticker.kind) {
+    case "text":
+      return t.stickers.textLabel;
+    case "emoji":
+      return format(t.stickers.emojiLabel, { emoji: sticker.emoji });
+    case "decoration": {
+      const decoration = getDecoration(sticker.decorationId);
+      return decoration
+        ? localize(t.decorations, decoration).name
+        : t.stickers.decorationLabel;
+    }
+    case "image":
+      return sticker.name;
+    case "shape":
+      return t.stickerShapes[sticker.shape]?.name ?? sticker.shape;
+  }
+};
+
+// Decorations and shapes render as <img> so html2canvas draws them like any
+// other picture instead of parsing inline SVG.
+export const svgDataUrl = (svg: string) =>
+  `data:image/svg+xml,${encodeURIComponent(svg)}`;
+
+export const stickerSizeRange = (kind: Sticker["kind"]) =>
+  kind === "text"
+    ? { min: 12, max: 48 }
+    : kind === "emoji"
+      ? { min: 16, max: 120 }
+      : { min: 32, max: 320 };
+
+// What a sticker shows, without its placement.
+export type StickerContent =
+  | Pick<TextSticker, "kind" | "text" | "tone">
+  | Pick<EmojiSticker, "kind" | "emoji">
+  | Pick<DecorationSticker, "kind" | "decorationId">
+  | Pick<ImageSticker, "kind" | "url" | "name">
+  | Pick<ShapeSticker, "kind" | "shape" | "tone">;
+
+const defaultSizes: Record<Sticker["kind"], number> = {
+  text: 18,
+  emoji: 40,
+  decoration: 96,
+  image: 120,
+  shape: 72,
+};
+
+const stickerId = () =>
+  `sticker-${Date.now()}-${Math.random().toString(16).slice(2)}`;
+
+export const createSticker = (content: StickerContent): Sticker =>
+  ({
+    id: stickerId(),
+    position: { x: 70, y: 20 },
+    size: defaultSizes[content.kind],
+    rotation: 0,
+    opacity: 1,
+    ...content,
+  }) as Sticker;
+
+export const duplicateSticker = (sticker: Sticker): Sticker => ({
+  ...sticker,
+  id: stickerId(),
+  locked: false,
+  position: {
+    x: Math.min(100, sticker.position.x + 4),
+    y: Math.min(100, sticker.position.y + 4),
+  },
+});
+
+// Before the sticker layer, cards stored plain text stickers without a kind,
+// rotation or opacity.
+export type LegacyTextSticker = Pick<StickerBase, "id" | "position" | "size"> &
+  Pick<TextSticker, "text" | "tone">;
+
+export const upgradeStickers = (stickers: (Sticker | LegacyTextSticker)[]) =>
+  stickers.every((sticker) => "kind" in sticker)
+    ? (stickers as Sticker[])
+    : stickers.map((sticker): Sticker =>
+        "kind" in sticker
+          ? sticker
+          : { ...sticker, kind: "text", rotation: 0, opacity: 1 },
+      );
@@ -0,0 +1,109 @@
+import { requestJson } from "./api";
+import type { CardDesign } from "./cards";
+import { format, formatDate, getMessages } from "./i18n";
+import type { LayoutDefinition } from "./layouts";
+
+export type TemplateTone = "funny" | "heartfelt" | "formal" | "kids";
+
+export type MessageTemplate = {
+  id: string;
+  name: string;
+  tone: TemplateTone;
+  text: string;
+};
+
+export type SavedTemplate = MessageTemplate & {
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type TemplateDraft = Pick<MessageTemplate, "name" | "tone" | "text">;
+
+export type TemplateValues = Record<TemplateVariable, string | null>;
+
+export const templateVariables = ["name", "age", "sender", "date"] as const;
+
+export type TemplateVariable = (typeof templateVariables)[number];
+
+export const templateTones: { id: TemplateTone; name: string }[] = [
+  { id: "funny", name: "Funny" },
+  { id: "heartfelt", name: "Heartfelt" },
+  { id: "formal", name: "Formal" },
+  { id: "kids", name: "Kids" },
+];
+
+const builtInTemplates: { id: string; tone: TemplateTone }[] = [
+  { id: "funny-cake", tone: "funny" },
+  { id: "funny-age", tone: "funny" },
+  { id: "funny-dessert", tone: "funny" },
+  { id: "heartfelt-confetti", tone: "heartfelt" },
+  { id: "heartfelt-grateful", tone: "heartfelt" },
+  { id: "heartfelt-today", tone: "heartfelt" },
+  { id: "formal-wishes", tone: "formal" },
+  { id: "formal-team", tone: "formal" },
+  { id: "kids-party", tone: "kids" },
+  { id: "kids-superstar", tone: "kids" },
+];
+
+// Built-in templates are written in the card's language; their names and
+// text live in the message catalogs.
+export const messageTemplates = (locale?: string | null): MessageTemplate[] =>
+  builtInTemplates.map((template) => ({
+    ...template,
+    ...getMessages(locale).templates[template.id],
+  }));
+
+export const defaultMessage = (locale?: string | null) =>
+  getMessages(locale).templates["heartfelt-confetti"].text;
+
+export const defaultSignature = (locale?: string | null) =>
+  getMessages(locale).card.signature;
+
+export const greetingHeadline = (locale?: string | null) =>
+  getMessages(locale).card.greeting;
+
+export const defaultHeadline = (
+  layout: LayoutDefinition,
+  locale?: string | null,
+) => (layout.headline === "name" ? "{name}" : greetingHeadline(locale));
+
+export const defaultEyebrow = (
+  layout: LayoutDefinition,
+  locale?: string | null,
+) => getMessages(locale).card.eyebrows[layout.eyebrow];
+
+export const templateValues = (
+  design: Pick<
+    CardDesign,
+    "recipient" | "sender" | "age" | "birthday" | "locale"
+  >,
+): TemplateValues => {
+  const { card } = getMessages(design.locale);
+  return {
+    name: design.recipient || card.nameFallback,
+    age: typeof design.age === "number" ? String(design.age) : null,
+    sender: design.sender || card.senderFallback,
+    date: design.birthday
+      ? formatDate(design.locale, `${design.birthday}T00:00:00`, {
+          month: "long",
+          day: "numeric",
+        }) || null
+      : null,
+  };
+};
+
+// Placeholders without a value stay in the text so it is obvious which
+// field still needs filling in.
+export const fillTemplate = (text: string, values: TemplateValues) =>
+  format(text, values);
+
+export const listTemplates = () => requestJson<SavedTemplate[]>("/templates");
+
+export const createTemplate = (draft: TemplateDraft) =>
+  requestJson<SavedTemplate>("/templates", {
+    method: "POST",
+    body: JSON.stringify(draft),
+  });
+
+export const deleteTemplate = (id: string) =>
+  requestJson<void>(`/templates/${id}`, { method: "DELETE" });
@@ -0,0 +1,237 @@
+import { requestJson } from "./api";
+import type { CardDesign } from "./cards";
+import { StudioError } from "./errors";
+import type { Theme } from "./presets";
+import { themes } from "./presets";
+import { clamp } from "./utils";
+
+export type ThemeStop = { color: string; position: number };
+
+export type ThemeHighlight = {
+  color: string;
+  x: number;
+  y: number;
+  size: number;
+  opacity: number;
+};
+
+export type ThemeSpec = {
+  angle: number;
+  stops: ThemeStop[];
+  highlights: ThemeHighlight[];
+  accent: string;
+  shadowColor: string;
+  imageUrl?: string | null;
+};
+
+export type CustomTheme = {
+  id: string;
+  name: string;
+  spec: ThemeSpec;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type ThemeDraft = Pick<CustomTheme, "name" | "spec">;
+
+export type DesignTheme = Pick<CustomTheme, "id" | "name" | "spec">;
+
+export const maxThemeStops = 6;
+export const maxThemeHighlights = 3;
+export const themeFileVersion = 1;
+
+export const createThemeSpec = (): ThemeSpec => ({
+  angle: 135,
+  stops: [
+    { color: "#ffd6a5", position: 0 },
+    { color: "#ffcad4", position: 40 },
+    { color: "#cdb4db", position: 100 },
+  ],
+  highlights: [{ color: "#ffffff", x: 12, y: 20, size: 58, opacity: 65 }],
+  accent: "#c2255c",
+  shadowColor: "#ff9b8d",
+  imageUrl: null,
+});
+
+const hexToRgb = (hex: string) => {
+  const value = Number.parseInt(hex.slice(1), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+};
+
+const rgba = (hex: string, alpha: number) =>
+  `rgba(${hexToRgb(hex).join(",")},${alpha})`;
+
+// Mirrors the built-in themes: highlights on top, then the optional photo,
+// then the linear gradient underneath.
+export const buildTheme = (id: string, { name, spec }: ThemeDraft): Theme => {
+  const highlights = spec.highlights.map(
+    (highlight) =>
+      `radial-gradient(circle at ${highlight.x}% ${highlight.y}%, ${rgba(
+        highlight.color,
+        highlight.opacity / 100,
+      )}, ${rgba(highlight.color, 0)} ${highlight.size}%)`,
+  );
+  const stops = [...spec.stops]
+    .sort((a, b) => a.position - b.position)
+    .map((stop) => `${stop.color} ${stop.position}%`)
+    .join(", ");
+  const layers = [
+    ...highlights,
+    ...(spec.imageUrl
+      ? [`url("${encodeURI(spec.imageUrl)}") center / cover no-repeat`]
+      : []),
+    `linear-gradient(${spec.angle}deg, ${stops})`,
+  ];
+  return {
+    id,
+    name,
+    background: layers.join(", "),
+    accent: spec.accent,
+    shadow: `0 30px 70px ${rgba(spec.shadowColor, 0.45)}`,
+  };
+};
+
+// Designs saved when custom themes were stored as CSS have no spec and
+// fall back to a built-in theme.
+export const resolveTheme = ({
+  themeId,
+  customTheme,
+}: Pick<CardDesign, "themeId" | "customTheme">): Theme =>
+  customTheme?.id === themeId && customTheme.spec
+    ? buildTheme(customTheme.id, customTheme)
+    : (themes.find((item) => item.id === themeId) ?? themes[0]);
+
+// WCAG 2.x relative luminance and contrast ratio.
+const luminance = (hex: string) => {
+  const [r, g, b] = hexToRgb(hex).map((channel) => {
+    const value = channel / 255;
+    return value <= 0.03928
+      ? value / 12.92
+      : Math.pow((value + 0.055) / 1.055, 2.4);
+  });
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+};
+
+export const contrastRatio = (first: string, second: string) => {
+  const [light, dark] = [luminance(first), luminance(second)].sort(
+    (a, b) => b - a,
+  );
+  return (light + 0.05) / (dark + 0.05);
+};
+
+export const minimumAaContrast = 4.5;
+
+// The accent sits on every part of the gradient, so the weakest stop is
+// the one that matters.
+export const accentContrast = (spec: ThemeSpec) =>
+  Math.min(...spec.stops.map((stop) => contrastRatio(spec.accent, stop.color)));
+
+export const listThemes = () => requestJson<CustomTheme[]>("/themes");
+
+export const createTheme = (draft: ThemeDraft) =>
+  requestJson<CustomTheme>("/themes", {
+    method: "POST",
+    body: JSON.stringify(draft),
+  });
+
+export const updateTheme = (id: string, draft: ThemeDraft) =>
+  requestJson<CustomTheme>(`/themes/${id}`, {
+    method: "PUT",
+    body: JSON.stringify(draft),
+  });
+
+export const deleteTheme = (id: string) =>
+  requestJson<void>(`/themes/${id}`, { method: "DELETE" });
+
+export const themeToJson = ({ name, spec }: ThemeDraft) =>
+  JSON.stringify({ version: themeFileVersion, name, spec }, null, 2);
+
+const isHex = (value: unknown): value is string =>
+  typeof value === "string" && /^#[0-9a-f]{6}$/i.test(value);
+
+const readPercent = (value: unknown) =>
+  typeof value === "number" && Number.isFinite(value)
+    ? clamp(value, 0, 100)
+    : null;
+
+// Reads a spec from a file into one the server accepts: out-of-range
+// numbers are clamped and broken highlights dropped. Throws when too little
+// is left to draw the theme.
+export const readThemeSpec = (value: unknown): ThemeSpec => {
+  const spec = value as Partial<ThemeSpec> | undefined;
+  const stops = Array.isArray(spec?.stops)
+    ? spec.stops.flatMap((stop) => {
+        const position = readPercent(stop?.position);
+        return isHex(stop?.color) && position !== null
+          ? [{ color: stop.color, position }]
+          : [];
+      })
+    : [];
+  if (stops.length < 2 || stops.length > maxThemeStops) {
+    throw new StudioError(
+      "themeStopCount",
+      `A theme needs between 2 and ${maxThemeStops} gradient stops.`,
+      { max: maxThemeStops },
+    );
+  }
+  if (!isHex(spec?.accent) || !isHex(spec?.shadowColor)) {
+    throw new StudioError(
+      "themeColorsMissing",
+      "The theme's accent and shadow colors are missing.",
+    );
+  }
+  const highlights = Array.isArray(spec?.highlights)
+    ? spec.highlights
+        .flatMap((highlight) => {
+          const values = [
+            highlight?.x,
+            highlight?.y,
+            highlight?.size,
+            highlight?.opacity,
+          ].map(readPercent);
+          if (!isHex(highlight?.color) || values.includes(null)) return [];
+          const [x, y, size, opacity] = values as number[];
+          return [{ color: highlight.color, x, y, size, opacity }];
+        })
+        .slice(0, maxThemeHighlights)
+    : [];
+  return {
+    angle:
+      typeof spec?.angle === "number" && Number.isFinite(spec.angle)
+        ? clamp(spec.angle, 0, 360)
+        : 135,
+    stops,
+    highlights,
+    accent: spec.accent,
+    shadowColor: spec.shadowColor,
+    imageUrl:
+      typeof spec?.imageUrl === "string" && /^https?:\/\//.test(spec.imageUrl)
+        ? spec.imageUrl
+        : null,
+  };
+};
+
+// Accepts files written by themeToJson. Throws with a readable message when
+// the file is not a theme.
+export const parseThemeJson = (text: string): ThemeDraft => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new StudioError("invalidJson", "That file is not valid JSON.");
+  }
+  const file = data as { version?: unknown; name?: unknown; spec?: unknown };
+  if (file?.version !== themeFileVersion) {
+    throw new StudioError(
+      "notThemeFile",
+      "That file is not a supported theme export.",
+    );
+  }
+  return {
+    name:
+      typeof file.name === "string" && file.name.trim()
+        ? file.name.trim().slice(0, 40)
+        : "Imported theme",
+    spec: readThemeSpec(file.spec),
+  };
+};
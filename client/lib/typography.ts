@@ -0,0 +1,190 @@
+import type { CSSProperties } from "react";
+import type { TextRole, TextStyle } from "./cards";
+
+export type FontFamily = {
+  id: string;
+  name: string;
+  fallback: string;
+  faces: { weight: number; file: string }[];
+};
+
+// Bundled in public/fonts and declared in globals.css.
+export const fontFamilies: FontFamily[] = [
+  {
+    id: "unbounded",
+    name: "Unbounded",
+    fallback: "sans-serif",
+    faces: [
+      { weight: 400, file: "Unbounded-Regular.ttf" },
+      { weight: 600, file: "Unbounded-SemiBold.ttf" },
+    ],
+  },
+  {
+    id: "nunito",
+    name: "Nunito",
+    fallback: "sans-serif",
+    faces: [
+      { weight: 400, file: "Nunito-Regular.ttf" },
+      { weight: 700, file: "Nunito-Bold.ttf" },
+    ],
+  },
+  {
+    id: "playfair",
+    name: "Playfair Display",
+    fallback: "serif",
+    faces: [
+      { weight: 400, file: "PlayfairDisplay-Regular.ttf" },
+      { weight: 700, file: "PlayfairDisplay-Bold.ttf" },
+    ],
+  },
+  {
+    id: "dancing",
+    name: "Dancing Script",
+    fallback: "cursive",
+    faces: [
+      { weight: 400, file: "DancingScript-Regular.ttf" },
+      { weight: 700, file: "DancingScript-Bold.ttf" },
+    ],
+  },
+  {
+    id: "pacifico",
+    name: "Pacifico",
+    fallback: "cursive",
+    faces: [{ weight: 400, file: "Pacifico-Regular.ttf" }],
+  },
+];
+
+// None of the card fonts cover Arabic or Hebrew. These are listed after the
+// chosen family so the browser falls back to them glyph by glyph, and the
+// PDF export uses them for right-to-left cards.
+export const scriptFonts: FontFamily[] = [
+  {
+    id: "noto-arabic",
+    name: "Noto Sans Arabic",
+    fallback: "sans-serif",
+    faces: [
+      { weight: 400, file: "NotoSansArabic-Regular.ttf" },
+      { weight: 700, file: "NotoSansArabic-Bold.ttf" },
+    ],
+  },
+  {
+    id: "noto-hebrew",
+    name: "Noto Sans Hebrew",
+    fallback: "sans-serif",
+    faces: [
+      { weight: 400, file: "NotoSansHebrew-Regular.ttf" },
+      { weight: 700, file: "NotoSansHebrew-Bold.ttf" },
+    ],
+  },
+];
+
+export const getScriptFont = (id?: string) =>
+  scriptFonts.find((family) => family.id === id);
+
+const fontStack = (family: FontFamily) =>
+  [family, ...scriptFonts]
+    .map((item) => `"${item.name}"`)
+    .concat(family.fallback)
+    .join(", ");
+
+// Alignment is stored as left/right but applied as start/end, so it flips
+// along with the rest of a right-to-left card.
+export const cssTextAlign = (align: TextStyle["align"]) =>
+  align === "left" ? "start" : align === "right" ? "end" : "center";
+
+export const getFontFamily = (id: string) =>
+  fontFamilies.find((family) => family.id === id) ?? fontFamilies[0];
+
+const baseStyle: TextStyle = {
+  fontId: "unbounded",
+  weight: 400,
+  size: 12,
+  align: "left",
+  lineHeight: 1.5,
+  letterSpacing: 0,
+  color: null,
+  shadow: 0,
+  outline: 0,
+  outlineColor: "#ffffff",
+};
+
+// Match the look cards had before typography could be changed.
+export const textDefaults: Record<TextRole | "sticker", TextStyle> = {
+  headline: { ...baseStyle, weight: 600, size: 24, lineHeight: 1.25 },
+  message: { ...baseStyle, lineHeight: 1.625 },
+  signature: { ...baseStyle, lineHeight: 1.333, letterSpacing: 0.3 },
+  sticker: { ...baseStyle, size: 18, lineHeight: 1.43 },
+};
+
+export const textRoles: { id: TextRole; name: string }[] = [
+  { id: "headline", name: "Headline" },
+  { id: "message", name: "Message" },
+  { id: "signature", name: "Signature" },
+];
+
+// Fills in defaults and snaps the weight to one the family actually ships,
+// so the browser never synthesises a bold that the export would not match.
+export const resolveTextStyle = (
+  role: TextRole | "sticker",
+  overrides?: Partial<TextStyle>,
+): TextStyle => {
+  const style = { ...textDefaults[role], ...overrides };
+  const { faces } = getFontFamily(style.fontId);
+  const weight = faces.reduce((best, face) =>
+    Math.abs(face.weight - style.weight) < Math.abs(best.weight - style.weight)
+      ? face
+      : best,
+  ).weight;
+  return { ...style, weight };
+};
+
+// Outlines are drawn as eight offset text shadows. html2canvas renders
+// text-shadow but not -webkit-text-stroke.
+export const textStyleCss = (
+  style: TextStyle,
+  fallbackColor?: string,
+): CSSProperties => {
+  const family = getFontFamily(style.fontId);
+  const shadows: string[] = [];
+  if (style.outline > 0) {
+    for (let step = 0; step < 8; step += 1) {
+      const angle = (Math.PI / 4) * step;
+      const x = (Math.cos(angle) * style.outline).toFixed(2);
+      const y = (Math.sin(angle) * style.outline).toFixed(2);
+      shadows.push(`${x}px ${y}px 0 ${style.outlineColor}`);
+    }
+  }
+  if (style.shadow > 0) {
+    shadows.push(
+      `0 ${Math.ceil(style.shadow / 3)}px ${style.shadow}px rgba(0,0,0,0.35)`,
+    );
+  }
+  return {
+    fontFamily: fontStack(family),
+    fontWeight: style.weight,
+    fontSize: `${style.size}px`,
+    textAlign: cssTextAlign(style.align),
+    lineHeight: style.lineHeight,
+    letterSpacing: `${style.letterSpacing}em`,
+    color: style.color ?? fallbackColor,
+    textShadow: shadows.length ? shadows.join(", ") : undefined,
+  };
+};
+
+let fontsLoaded: Promise<unknown> | null = null;
+
+// Fonts only download once something uses them. Exports load the whole set
+// up front so a face picked moments ago is ready before the capture.
+export const loadCardFonts = () => {
+  fontsLoaded ??= Promise.all(
+    [...fontFamilies, ...scriptFonts].flatMap((family) =>
+      family.faces.map((face) =>
+        document.fonts.load(`${face.weight} 16px "${family.name}"`),
+      ),
+    ),
+  ).catch((error) => {
+    fontsLoaded = null;
+    throw error;
+  });
+  return fontsLoaded;
+};
@@ -0,0 +1,249 @@
+import { apiUrl, clientHeaders, requestJson } from "./api";
+import type { StudioErrorCode } from "./errors";
+import { StudioError } from "./errors";
+import type { FormatValues } from "./i18n";
+import type { PrepStage } from "./imagePrep";
+import { preparePhoto } from "./imagePrep";
+import { formatBytes } from "./utils";
+
+export type UploadLimits = {
+  allowedTypes: string[];
+  maxBytes: number;
+  maxDimension: number;
+  maxPhotosPerCard: number;
+};
+
+export type StorageConfig = { limits: UploadLimits } & (
+  | { driver: "imagekit"; publicKey: string | null; uploadUrl: string }
+  | { driver: "local"; uploadUrl: string }
+);
+
+export type UploadErrorCode =
+  | "UNSUPPORTED_TYPE"
+  | "FILE_TOO_LARGE"
+  | "DIMENSIONS_TOO_LARGE"
+  | "TOO_MANY_PHOTOS"
+  | "UNREADABLE_IMAGE"
+  | "INVALID_FILE"
+  | "NO_FILE"
+  | "RATE_LIMITED"
+  | "UNAUTHORIZED"
+  | "SESSION_REQUIRED";
+
+const catalogCodes: Record<UploadErrorCode, StudioErrorCode> = {
+  UNSUPPORTED_TYPE: "unsupportedType",
+  FILE_TOO_LARGE: "fileTooLarge",
+  DIMENSIONS_TOO_LARGE: "dimensionsTooLarge",
+  TOO_MANY_PHOTOS: "tooManyPhotos",
+  UNREADABLE_IMAGE: "unreadableImage",
+  INVALID_FILE: "invalidFile",
+  NO_FILE: "noFile",
+  RATE_LIMITED: "uploadRateLimited",
+  UNAUTHORIZED: "uploadUnauthorized",
+  SESSION_REQUIRED: "uploadSessionRequired",
+};
+
+// `reason` is the code the server and the local checks share; `code` is
+// the catalog entry the studio shows for it.
+export class UploadError extends StudioError {
+  reason: UploadErrorCode;
+
+  constructor(reason: UploadErrorCode, message: string, values?: FormatValues) {
+    super(catalogCodes[reason] ?? "uploadFailed", message, values);
+    this.name = "UploadError";
+    this.reason = reason;
+  }
+}
+
+export type UploadedFile = {
+  url: string;
+  // What was sent, after preprocessing.
+  file: File;
+};
+
+export type UploadStage = PrepStage | "uploading";
+
+let storageConfig: Promise<StorageConfig> | null = null;
+
+export const getStorageConfig = () => {
+  storageConfig ??= requestJson<StorageConfig>("/storage").catch((error) => {
+    storageConfig = null;
+    throw error;
+  });
+  return storageConfig;
+};
+
+const readImageSize = async (file: File) => {
+  try {
+    const bitmap = await createImageBitmap(file);
+    const size = { width: bitmap.width, height: bitmap.height };
+    bitmap.close();
+    return size;
+  } catch {
+    return null;
+  }
+};
+
+// Mirrors the server checks so most rejections happen before any bytes leave
+// the browser. The server still has the final say.
+export const checkUploadLimits = async (
+  file: File,
+  limits: UploadLimits,
+  photoCount: number,
+) => {
+  if (!limits.allowedTypes.includes(file.type)) {
+    throw new UploadError(
+      "UNSUPPORTED_TYPE",
+      `${file.name} is ${file.type || "an unknown type"}. Use JPEG, PNG, WEBP, GIF or HEIC.`,
+      { name: file.name },
+    );
+  }
+  if (file.size > limits.maxBytes) {
+    throw new UploadError(
+      "FILE_TOO_LARGE",
+      `${file.name} is ${formatBytes(file.size)}. The limit is ${formatBytes(limits.maxBytes)}.`,
+      {
+        name: file.name,
+        size: formatBytes(file.size),
+        limit: formatBytes(limits.maxBytes),
+      },
+    );
+  }
+  if (photoCount > limits.maxPhotosPerCard) {
+    throw new UploadError(
+      "TOO_MANY_PHOTOS",
+      `A card can hold up to ${limits.maxPhotosPerCard} photos.`,
+      { max: limits.maxPhotosPerCard },
+    );
+  }
+  const size = await readImageSize(file);
+  if (!size) {
+    throw new UploadError(
+      "UNREADABLE_IMAGE",
+      `${file.name} could not be read as an image.`,
+      { name: file.name },
+    );
+  }
+  if (size.width > limits.maxDimension || size.height > limits.maxDimension) {
+    throw new UploadError(
+      "DIMENSIONS_TOO_LARGE",
+      `${file.name} is ${size.width}x${size.height}px. Photos must be at most ${limits.maxDimension}px on each side.`,
+      {
+        name: file.name,
+        width: size.width,
+        height: size.height,
+        max: limits.maxDimension,
+      },
+    );
+  }
+};
+
+const readUploadError = (data: unknown) => {
+  const body = data as { code?: UploadErrorCode; message?: string } | null;
+  return body?.code
+    ? new UploadError(body.code, body.message ?? "Upload failed.")
+    : new StudioError("uploadFailed", body?.message ?? "Upload failed.");
+};
+
+const uploadToImageKit = async (
+  file: File,
+  config: Extract<StorageConfig, { driver: "imagekit" }>,
+  photoCount: number,
+) => {
+  const publicKey =
+    config.publicKey ?? process.env.NEXT_PUBLIC_IMAGEKIT_PUBLIC_KEY ?? "";
+  if (!publicKey) {
+    throw new StudioError(
+      "uploadNotConfigured",
+      "Missing ImageKit public key. Add NEXT_PUBLIC_IMAGEKIT_PUBLIC_KEY in client .env.local.",
+    );
+  }
+
+  const query = new URLSearchParams({
+    type: file.type,
+    size: String(file.size),
+    photoCount: String(photoCount),
+  });
+  const authResponse = await fetch(`${apiUrl}/auth?${query}`, {
+    headers: await clientHeaders(),
+  });
+  const authData = await authResponse.json().catch(() => null);
+  if (!authResponse.ok) {
+    throw authData?.code
+      ? readUploadError(authData)
+      : new StudioError(
+          "uploadAuthFailed",
+          "ImageKit auth failed. Is the server running?",
+        );
+  }
+
+  const formData = new FormData();
+  formData.append("file", file);
+  formData.append("fileName", file.name);
+  formData.append("publicKey", publicKey);
+  formData.append("signature", authData.signature);
+  formData.append("token", authData.token);
+  formData.append("expire", String(authData.expire));
+  formData.append("folder", "/birthday-cards");
+  formData.append("useUniqueFileName", "true");
+
+  const uploadResponse = await fetch(config.uploadUrl, {
+    method: "POST",
+    body: formData,
+  });
+
+  const uploadData = await uploadResponse.json();
+  if (!uploadResponse.ok) {
+    throw new StudioError(
+      "uploadFailed",
+      uploadData?.message ?? "Upload failed.",
+    );
+  }
+  return { url: uploadData.url as string };
+};
+
+const uploadToServer = async (
+  file: File,
+  config: Extract<StorageConfig, { driver: "local" }>,
+  photoCount: number,
+) => {
+  const formData = new FormData();
+  formData.append("photoCount", String(photoCount));
+  formData.append("file", file);
+
+  const uploadResponse = await fetch(`${apiUrl}${config.uploadUrl}`, {
+    method: "POST",
+    headers: await clientHeaders(),
+    body: formData,
+  });
+
+  const uploadData = await uploadResponse.json().catch(() => null);
+  if (!uploadResponse.ok) {
+    throw readUploadError(uploadData);
+  }
+  return { url: uploadData.url as string };
+};
+
+// photoCount is how many filled photo slots the card will have once this
+// upload lands, so the per-card limit can be enforced on both sides. The
+// photo is resized and re-encoded first (see lib/imagePrep).
+export const uploadPhoto = async (
+  file: File,
+  photoCount: number,
+  onStage?: (stage: UploadStage) => void,
+): Promise<UploadedFile> => {
+  const config = await getStorageConfig().catch(() => {
+    throw new StudioError(
+      "uploadServerUnreachable",
+      "Could not reach the upload server. Is it running?",
+    );
+  });
+  const prepared = await preparePhoto(file, onStage);
+  await checkUploadLimits(prepared, config.limits, photoCount);
+  onStage?.("uploading");
+  const uploaded =
+    config.driver === "local"
+      ? await uploadToServer(prepared, config, photoCount)
+      : await uploadToImageKit(prepared, config, photoCount);
+  return { ...uploaded, file: prepared };
+};
@@ -0,0 +1,203 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { CardDesign } from "./cards";
+import type {
+  CollabCursor,
+  CollabEntries,
+  CollabOp,
+  CollabPeer,
+} from "./collab";
+import {
+  applyOps,
+  collabUrl,
+  diffEntries,
+  flattenDesign,
+  unflattenDesign,
+} from "./collab";
+
+export type RemoteChange =
+  { kind: "ops"; ops: CollabOp[] } | { kind: "replace"; design: CardDesign };
+
+type CollaborationOptions = {
+  // The saved card to edit together, or null when not in a live session.
+  roomId: string | null;
+  name: string;
+  design: CardDesign;
+  onRemote: (change: RemoteChange) => void;
+  // The session ended without the user leaving it.
+  onClose: (message: string | null) => void;
+};
+
+type ServerMessage =
+  | {
+      type: "welcome";
+      id: string;
+      peers: CollabPeer[];
+      entries: CollabEntries | null;
+    }
+  | { type: "state"; entries: CollabEntries }
+  | { type: "ops"; from: string; ops: CollabOp[] }
+  | { type: "reject"; ops: CollabOp[] }
+  | { type: "peer"; peer: CollabPeer }
+  | { type: "leave"; id: string };
+
+// Cursor updates sent per second at most.
+const cursorRate = 20;
+
+// Keeps a card in step with everyone else in the same live session.
+//
+// The server applies edits in the order they arrive and sends every one
+// back to everybody, the sender included. While an edit of ours is on its
+// way, earlier edits from others to the same entry are skipped: ours lands
+// after them and wins everywhere. An edit the server turns down (someone
+// else is holding that element) comes back as a reject with the value to
+// show instead.
+export function useCollaboration({
+  roomId,
+  name,
+  design,
+  onRemote,
+  onClose,
+}: CollaborationOptions) {
+  const [liveRoom, setLiveRoom] = useState<string | null>(null);
+  const [selfId, setSelfId] = useState<string | null>(null);
+  const [peers, setPeers] = useState<CollabPeer[]>([]);
+  const socketRef = useRef<WebSocket | null>(null);
+  // The shared state as far as we know it; null until the session starts.
+  const syncedRef = useRef<CollabEntries | null>(null);
+  // Our edits the server has not answered yet, per entry.
+  const pendingRef = useRef<Record<string, number>>({});
+  const designRef = useRef(design);
+  const callbacksRef = useRef({ onRemote, onClose });
+  const lastCursorRef = useRef(0);
+
+  useEffect(() => {
+    designRef.current = design;
+    callbacksRef.current = { onRemote, onClose };
+  });
+
+  useEffect(() => {
+    if (!roomId) return;
+    const socket = new WebSocket(collabUrl(roomId, name));
+    socketRef.current = socket;
+    let leaving = false;
+    let ownId: string | null = null;
+
+    const send = (message: object) => {
+      if (socket.readyState === WebSocket.OPEN) {
+        socket.send(JSON.stringify(message));
+      }
+    };
+
+    const replaceWith = (entries: CollabEntries) => {
+      syncedRef.current = entries;
+      pendingRef.current = {};
+      callbacksRef.current.onRemote({
+        kind: "replace",
+        design: unflattenDesign(entries),
+      });
+    };
+
+    const settle = (ops: CollabOp[]) => {
+      const pending = pendingRef.current;
+      for (const { key } of ops) {
+        pending[key] = (pending[key] ?? 1) - 1;
+        if (pending[key] <= 0) delete pending[key];
+      }
+    };
+
+    const applyRemote = (ops: CollabOp[]) => {
+      const fresh = ops.filter(({ key }) => !pendingRef.current[key]);
+      if (!fresh.length || !syncedRef.current) return;
+      syncedRef.current = applyOps(syncedRef.current, fresh);
+      callbacksRef.current.onRemote({ kind: "ops", ops: fresh });
+    };
+
+    socket.onmessage = (event) => {
+      const message = JSON.parse(String(event.data)) as ServerMessage;
+      switch (message.type) {
+        case "welcome":
+          ownId = message.id;
+          setSelfId(message.id);
+          setPeers(message.peers);
+          setLiveRoom(roomId);
+          if (message.entries) {
+            replaceWith(message.entries);
+          } else {
+            // First one in: our copy becomes the shared one.
+            syncedRef.current = flattenDesign(designRef.current);
+            send({ type: "seed", entries: syncedRef.current });
+          }
+          break;
+        case "state":
+          replaceWith(message.entries);
+          break;
+        case "ops":
+          if (message.from === ownId) {
+            settle(message.ops);
+          } else {
+            applyRemote(message.ops);
+          }
+          break;
+        case "reject":
+          settle(message.ops);
+          applyRemote(message.ops);
+          break;
+        case "peer":
+          setPeers((prev) => [
+            ...prev.filter((peer) => peer.id !== message.peer.id),
+            message.peer,
+          ]);
+          break;
+        case "leave":
+          setPeers((prev) => prev.filter((peer) => peer.id !== message.id));
+          break;
+      }
+    };
+
+    socket.onclose = (event) => {
+      if (socketRef.current === socket) socketRef.current = null;
+      syncedRef.current = null;
+      pendingRef.current = {};
+      setLiveRoom(null);
+      setSelfId(null);
+      setPeers([]);
+      if (!leaving) callbacksRef.current.onClose(event.reason || null);
+    };
+
+    return () => {
+      leaving = true;
+      socket.close();
+    };
+  }, [roomId, name]);
+
+  // Sends whatever changed locally since the last sync.
+  useEffect(() => {
+    const socket = socketRef.current;
+    const synced = syncedRef.current;
+    if (!socket || !synced || socket.readyState !== WebSocket.OPEN) return;
+    const next = flattenDesign(design);
+    const ops = diffEntries(synced, next);
+    if (!ops.length) return;
+    syncedRef.current = next;
+    for (const { key } of ops) {
+      pendingRef.current[key] = (pendingRef.current[key] ?? 0) + 1;
+    }
+    socket.send(JSON.stringify({ type: "ops", ops }));
+  }, [design, liveRoom]);
+
+  const sendCursor = useCallback((cursor: CollabCursor | null) => {
+    const socket = socketRef.current;
+    if (!socket || socket.readyState !== WebSocket.OPEN) return;
+    const now = Date.now();
+    if (cursor && now - lastCursorRef.current < 1000 / cursorRate) return;
+    lastCursorRef.current = now;
+    socket.send(JSON.stringify({ type: "cursor", cursor }));
+  }, []);
+
+  return {
+    status: roomId ? (liveRoom === roomId ? "live" : "connecting") : "off",
+    selfId,
+    peers: peers.filter((peer) => peer.id !== selfId),
+    sendCursor,
+  } as const;
+}
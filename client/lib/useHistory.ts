@@ -0,0 +1,93 @@
+import { useCallback, useState } from "react";
+
+type HistoryState<T> = {
+  past: T[];
+  present: T;
+  future: T[];
+  group: string | null;
+};
+
+const historyLimit = 100;
+
+// Undo/redo over a single immutable value. Consecutive updates that share a
+// group key (a pointer drag, typing in one field) collapse into one undo step
+// until endGroup() is called or a different key comes along.
+export function useHistory<T>(initial: T) {
+  const [history, setHistory] = useState<HistoryState<T>>({
+    past: [],
+    present: initial,
+    future: [],
+    group: null,
+  });
+
+  const set = useCallback((updater: (prev: T) => T, group?: string) => {
+    setHistory((prev) => {
+      const next = updater(prev.present);
+      if (Object.is(next, prev.present)) return prev;
+      if (group && prev.group === group) {
+        return { ...prev, present: next };
+      }
+      return {
+        past: [...prev.past, prev.present].slice(-historyLimit),
+        present: next,
+        future: [],
+        group: group ?? null,
+      };
+    });
+  }, []);
+
+  const endGroup = useCallback(() => {
+    setHistory((prev) => (prev.group ? { ...prev, group: null } : prev));
+  }, []);
+
+  const undo = useCallback(() => {
+    setHistory((prev) => {
+      if (prev.past.length === 0) return prev;
+      return {
+        past: prev.past.slice(0, -1),
+        present: prev.past[prev.past.length - 1],
+        future: [prev.present, ...prev.future],
+        group: null,
+      };
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    setHistory((prev) => {
+      if (prev.future.length === 0) return prev;
+      return {
+        past: [...prev.past, prev.present],
+        present: prev.future[0],
+        future: prev.future.slice(1),
+        group: null,
+      };
+    });
+  }, []);
+
+  // Applies a change to every snapshot without adding an undo step, so
+  // edits that came from someone else survive undo and redo.
+  const rebase = useCallback((updater: (value: T) => T) => {
+    setHistory((prev) => ({
+      ...prev,
+      past: prev.past.map(updater),
+      present: updater(prev.present),
+      future: prev.future.map(updater),
+    }));
+  }, []);
+
+  const reset = useCallback((next: T) => {
+    setHistory({ past: [], present: next, future: [], group: null });
+  }, []);
+
+  return {
+    present: history.present,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+    set,
+    endGroup,
+    undo,
+    redo,
+    rebase,
+    reset,
+  };
+}
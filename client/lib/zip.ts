@@ -0,0 +1,170 @@
+import { StudioError } from "./errors";
+
+// Writes uncompressed ("stored") ZIP archives. Everything the studio zips
+// is already compressed PNG or photo data, so deflating again would only
+// cost time.
+export type ZipEntry = { name: string; data: Uint8Array<ArrayBuffer> };
+
+const crcTable = Array.from({ length: 256 }, (_, index) => {
+  let value = index;
+  for (let bit = 0; bit < 8; bit += 1) {
+    value = value & 1 ? 0xedb88320 ^ (value >>> 1) : value >>> 1;
+  }
+  return value >>> 0;
+});
+
+const crc32 = (data: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// MS-DOS date and time, which is what ZIP headers store.
+const dosDateTime = (date: Date) => ({
+  time:
+    (date.getHours() << 11) |
+    (date.getMinutes() << 5) |
+    Math.floor(date.getSeconds() / 2),
+  date:
+    ((date.getFullYear() - 1980) << 9) |
+    ((date.getMonth() + 1) << 5) |
+    date.getDate(),
+});
+
+export const createZip = (entries: ZipEntry[], modified = new Date()) => {
+  const encoder = new TextEncoder();
+  const { time, date } = dosDateTime(modified);
+  const parts: Uint8Array<ArrayBuffer>[] = [];
+  const directory: Uint8Array<ArrayBuffer>[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const crc = crc32(entry.data);
+    const size = entry.data.length;
+    // Bit 11 marks the file name as UTF-8.
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true);
+    local.setUint16(6, 0x0800, true);
+    local.setUint16(8, 0, true);
+    local.setUint16(10, time, true);
+    local.setUint16(12, date, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, size, true);
+    local.setUint32(22, size, true);
+    local.setUint16(26, name.length, true);
+    local.setUint16(28, 0, true);
+    parts.push(new Uint8Array(local.buffer), name, entry.data);
+
+    const central = new DataView(new ArrayBuffer(46));
+    central.setUint32(0, 0x02014b50, true);
+    central.setUint16(4, 20, true);
+    central.setUint16(6, 20, true);
+    central.setUint16(8, 0x0800, true);
+    central.setUint16(10, 0, true);
+    central.setUint16(12, time, true);
+    central.setUint16(14, date, true);
+    central.setUint32(16, crc, true);
+    central.setUint32(20, size, true);
+    central.setUint32(24, size, true);
+    central.setUint16(28, name.length, true);
+    central.setUint32(42, offset, true);
+    directory.push(new Uint8Array(central.buffer), name);
+
+    offset += 30 + name.length + size;
+  }
+
+  const directorySize = directory.reduce(
+    (total, part) => total + part.length,
+    0,
+  );
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, directorySize, true);
+  end.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...directory, new Uint8Array(end.buffer)], {
+    type: "application/zip",
+  });
+};
+
+const inflate = async (data: Uint8Array<ArrayBuffer>) =>
+  new Uint8Array(
+    await new Response(
+      new Blob([data])
+        .stream()
+        .pipeThrough(new DecompressionStream("deflate-raw")),
+    ).arrayBuffer(),
+  );
+
+// Reads the archives createZip writes, and deflated ones from other ZIP
+// tools. Folders are skipped; ZIP64 archives are not supported.
+export const readZip = async (blob: Blob): Promise<ZipEntry[]> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const view = new DataView(bytes.buffer);
+  // The end record sits last, after a comment of up to 64 KB.
+  let end = -1;
+  const stop = Math.max(0, bytes.length - 22 - 0xffff);
+  for (let index = bytes.length - 22; index >= stop; index -= 1) {
+    if (view.getUint32(index, true) === 0x06054b50) {
+      end = index;
+      break;
+    }
+  }
+  if (end < 0) {
+    throw new StudioError("notZip", "That file is not a ZIP archive.");
+  }
+
+  const decoder = new TextDecoder();
+  const entries: ZipEntry[] = [];
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  for (let entry = 0; entry < count; entry += 1) {
+    if (
+      offset + 46 > bytes.length ||
+      view.getUint32(offset, true) !== 0x02014b50
+    ) {
+      throw new StudioError("zipDamaged", "The ZIP archive is damaged.");
+    }
+    const method = view.getUint16(offset + 10, true);
+    const size = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const local = view.getUint32(offset + 42, true);
+    const name = decoder.decode(
+      bytes.subarray(offset + 46, offset + 46 + nameLength),
+    );
+    offset +=
+      46 +
+      nameLength +
+      view.getUint16(offset + 30, true) +
+      view.getUint16(offset + 32, true);
+    if (name.endsWith("/")) continue;
+
+    const start =
+      local +
+      30 +
+      view.getUint16(local + 26, true) +
+      view.getUint16(local + 28, true);
+    if (start + size > bytes.length) {
+      throw new StudioError("zipDamaged", "The ZIP archive is damaged.");
+    }
+    const data = bytes.slice(start, start + size);
+    if (method === 0) {
+      entries.push({ name, data });
+    } else if (method === 8) {
+      entries.push({ name, data: await inflate(data) });
+    } else {
+      throw new StudioError(
+        "zipCompressionUnsupported",
+        `${name} is compressed in a way the studio cannot read.`,
+        { name },
+      );
+    }
+  }
+  return entries;
+};
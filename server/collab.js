@@ -0,0 +1,356 @@
+const crypto = require("crypto");
+const { WebSocketServer } = require("ws");
+const { readNumber } = require("./env");
+const { cards, pageIds, validateDesign } = require("./routes/cards");
+
+// How long an element stays with the last person who changed it.
+const leaseMs = readNumber("COLLAB_LEASE_MS", 1500);
+const maxPeers = readNumber("COLLAB_MAX_PEERS", 8);
+const maxMessageBytes = readNumber("COLLAB_MAX_MESSAGE_BYTES", 512 * 1024);
+const maxEntries = readNumber("COLLAB_MAX_ENTRIES", 2000);
+// What a room's entries may take up, measured as JSON.
+const maxRoomBytes = readNumber("COLLAB_MAX_ROOM_BYTES", 2 * 1024 * 1024);
+const maxKeyLength = 200;
+const maxNameLength = 40;
+
+const peerColors = [
+  "#e11d48",
+  "#2563eb",
+  "#16a34a",
+  "#d97706",
+  "#7c3aed",
+  "#0891b2",
+  "#db2777",
+  "#4d7c0f",
+];
+
+// Live sessions, keyed by card id. A room holds the shared copy of the
+// design as flat entries (see client/lib/collab.ts) and is dropped when the
+// last person leaves; saving the card is still how changes are kept.
+const rooms = new Map();
+
+// Every field of a sticker belongs to one element, so its first three key
+// segments.
+const elementOf = (key) => key.split(".").slice(0, 3).join(".");
+
+const send = (socket, message) => {
+  if (socket.readyState === socket.OPEN) {
+    socket.send(JSON.stringify(message));
+  }
+};
+
+const broadcast = (room, message, exceptId = null) => {
+  for (const member of room.members.values()) {
+    if (member.peer.id !== exceptId) send(member.socket, message);
+  }
+};
+
+const isPlainObject = (value) =>
+  Boolean(value) && typeof value === "object" && !Array.isArray(value);
+
+const readName = (value, room) => {
+  const name = typeof value === "string" ? value.trim() : "";
+  return name ? name.slice(0, maxNameLength) : `Guest ${room.members.size + 1}`;
+};
+
+const pickColor = (room) => {
+  const used = new Set(
+    [...room.members.values()].map((member) => member.peer.color),
+  );
+  return (
+    peerColors.find((color) => !used.has(color)) ??
+    peerColors[room.members.size % peerColors.length]
+  );
+};
+
+const readCursor = (cursor) => {
+  if (
+    !isPlainObject(cursor) ||
+    !pageIds.includes(cursor.pageId) ||
+    typeof cursor.x !== "number" ||
+    typeof cursor.y !== "number"
+  ) {
+    return null;
+  }
+  const clamp = (value) => Math.min(100, Math.max(0, value));
+  return { pageId: cursor.pageId, x: clamp(cursor.x), y: clamp(cursor.y) };
+};
+
+// The key shapes flattenDesign in client/lib/collab.ts writes. Segments
+// that would reach an object's prototype are never valid.
+const pageKey = `(?:${pageIds.join("|")})`;
+const entryKeys = [
+  /^design\.\w+$/,
+  new RegExp(
+    `^${pageKey}\\.(?:message|layoutId|gridFormatId|frames|photoCount|stickerOrder)$`,
+  ),
+  new RegExp(`^${pageKey}\\.photos\\.\\d{1,3}$`),
+  new RegExp(`^${pageKey}\\.stickers\\.[\\w-]{1,64}\\.\\w+$`),
+];
+const unsafeSegments = ["__proto__", "constructor", "prototype"];
+
+const isEntryKey = (key) =>
+  entryKeys.some((pattern) => pattern.test(key)) &&
+  !key.split(".").some((segment) => unsafeSegments.includes(segment));
+
+// Mirrors buildPage and unflattenDesign in client/lib/collab.ts, so the
+// entries every client will rebuild can be checked like a saved design.
+const buildPage = (parts) => {
+  const { fields = {}, photos = {}, stickers = {} } = parts ?? {};
+  const order = Array.isArray(fields.stickerOrder) ? fields.stickerOrder : [];
+  const ids = [
+    ...order,
+    ...Object.keys(stickers)
+      .filter((id) => !order.includes(id))
+      .sort(),
+  ].filter((id) => stickers[id]?.id === id);
+  const photoCount = fields.photoCount ?? 0;
+  const page = {
+    message: fields.message ?? "",
+    layoutId: fields.layoutId ?? "note",
+    gridFormatId: fields.gridFormatId ?? "auto",
+    photos: Array.from(
+      {
+        length: Number.isInteger(photoCount)
+          ? Math.min(Math.max(photoCount, 0), maxEntries)
+          : 0,
+      },
+      (_, index) => photos[index] ?? null,
+    ),
+    stickers: ids.map((id) => stickers[id]),
+  };
+  if (fields.frames !== undefined) page.frames = fields.frames;
+  return page;
+};
+
+const unflattenDesign = (entries) => {
+  const design = {};
+  const pages = {};
+  for (const [key, value] of Object.entries(entries)) {
+    const [scope, field, id, subField] = key.split(".");
+    if (scope === "design") {
+      design[field] = value;
+      continue;
+    }
+    const parts = (pages[scope] ??= { fields: {}, photos: {}, stickers: {} });
+    if (field === "photos") {
+      parts.photos[Number(id)] = value;
+    } else if (field === "stickers") {
+      (parts.stickers[id] ??= {})[subField] = value;
+    } else {
+      parts.fields[field] = value;
+    }
+  }
+  return {
+    ...design,
+    ...buildPage(pages.front),
+    pages: Array.isArray(design.pages)
+      ? design.pages.map((id) => ({ id, ...buildPage(pages[id]) }))
+      : undefined,
+  };
+};
+
+// Returns a message when the entries would not make a valid design, so a
+// bad seed or edit never reaches the other people in the room.
+const checkEntries = (entries) => {
+  const keys = Object.keys(entries);
+  if (keys.length > maxEntries) {
+    return `A live session can hold up to ${maxEntries} entries.`;
+  }
+  if (Buffer.byteLength(JSON.stringify(entries)) > maxRoomBytes) {
+    return `A live session can hold up to ${Math.floor(
+      maxRoomBytes / 1024,
+    )} KB of design.`;
+  }
+  const badKey = keys.find((key) => !isEntryKey(key));
+  if (badKey !== undefined) {
+    return `"${badKey.slice(0, 40)}" is not a design entry.`;
+  }
+  return validateDesign(unflattenDesign(entries));
+};
+
+const currentOp = (room, key) =>
+  Object.hasOwn(room.entries, key)
+    ? { key, value: room.entries[key] }
+    : { key, deleted: true };
+
+// Applies a batch of edits in arrival order. An element someone else
+// changed within the lease is theirs: edits to it are turned down and the
+// sender gets the current value back. A batch that would leave an invalid
+// design is turned down whole. Accepted edits go to everyone, sender
+// included, so each client knows where its own edits landed.
+const applyOps = (room, member, ops) => {
+  const now = Date.now();
+  const entries = { ...room.entries };
+  let accepted = [];
+  const rejected = [];
+  for (const op of ops) {
+    if (
+      !isPlainObject(op) ||
+      typeof op.key !== "string" ||
+      !op.key ||
+      op.key.length > maxKeyLength
+    ) {
+      continue;
+    }
+    const element = elementOf(op.key);
+    const lease = room.leases.get(element);
+    if (lease && lease.peerId !== member.peer.id && lease.until > now) {
+      rejected.push(currentOp(room, op.key));
+      continue;
+    }
+    if (op.deleted === true) {
+      delete entries[op.key];
+      accepted.push({ key: op.key, deleted: true });
+    } else {
+      entries[op.key] = op.value ?? null;
+      accepted.push({ key: op.key, value: op.value ?? null });
+    }
+  }
+
+  if (accepted.length && checkEntries(entries)) {
+    rejected.push(...accepted.map((op) => currentOp(room, op.key)));
+    accepted = [];
+  } else {
+    room.entries = entries;
+    for (const op of accepted) {
+      room.leases.set(elementOf(op.key), {
+        peerId: member.peer.id,
+        until: now + leaseMs,
+      });
+    }
+  }
+
+  if (rejected.length) {
+    send(member.socket, { type: "reject", ops: rejected });
+  }
+  if (!accepted.length) return;
+  broadcast(room, { type: "ops", from: member.peer.id, ops: accepted });
+
+  // What the peer is editing shows to the others until the lease runs out.
+  const selection = elementOf(accepted[accepted.length - 1].key);
+  if (member.peer.selection !== selection) {
+    member.peer.selection = selection;
+    broadcast(room, { type: "peer", peer: member.peer }, member.peer.id);
+  }
+  clearTimeout(member.selectionTimer);
+  member.selectionTimer = setTimeout(() => {
+    member.peer.selection = null;
+    broadcast(room, { type: "peer", peer: member.peer }, member.peer.id);
+  }, leaseMs);
+};
+
+// WebSocket close reasons are capped at 123 bytes, and ws throws on longer
+// ones, so the text is cut by bytes rather than characters.
+const closeReason = (text) => {
+  const chars = Array.from(text);
+  while (Buffer.byteLength(chars.join("")) > 123) chars.pop();
+  return chars.join("");
+};
+
+const handleMessage = (room, member, message) => {
+  switch (message?.type) {
+    case "seed":
+      // The first person in shares their copy. Anyone racing them gets the
+      // copy that won.
+      if (room.entries) {
+        send(member.socket, { type: "state", entries: room.entries });
+      } else if (isPlainObject(message.entries)) {
+        const problem = checkEntries(message.entries);
+        if (problem) {
+          member.socket.close(4400, closeReason(problem));
+          return;
+        }
+        room.entries = { ...message.entries };
+      }
+      break;
+    case "ops":
+      if (room.entries && Array.isArray(message.ops)) {
+        applyOps(room, member, message.ops);
+      }
+      break;
+    case "cursor":
+      member.peer.cursor = readCursor(message.cursor);
+      broadcast(room, { type: "peer", peer: member.peer }, member.peer.id);
+      break;
+  }
+};
+
+// Serves live sessions at /collab?room=<cardId>&name=<display name> on the
+// HTTP server. Problems are reported through the close reason so the
+// browser can show them.
+const attachCollaboration = (server, allowedOrigins) => {
+  const wss = new WebSocketServer({
+    server,
+    path: "/collab",
+    maxPayload: maxMessageBytes,
+    verifyClient: ({ origin }) => !origin || allowedOrigins.includes(origin),
+  });
+
+  wss.on("connection", (socket, req) => {
+    const params = new URL(req.url, "http://localhost").searchParams;
+    const roomId = params.get("room") ?? "";
+    if (!cards.get(roomId)) {
+      socket.close(4404, "Card not found. Save the card before going live.");
+      return;
+    }
+    const room = rooms.get(roomId) ?? {
+      entries: null,
+      members: new Map(),
+      leases: new Map(),
+    };
+    if (room.members.size >= maxPeers) {
+      socket.close(4409, `A live session can hold up to ${maxPeers} people.`);
+      return;
+    }
+    rooms.set(roomId, room);
+
+    const member = {
+      socket,
+      selectionTimer: null,
+      peer: {
+        id: crypto.randomBytes(6).toString("base64url"),
+        name: readName(params.get("name"), room),
+        color: pickColor(room),
+        cursor: null,
+        selection: null,
+      },
+    };
+    send(socket, {
+      type: "welcome",
+      id: member.peer.id,
+      peers: [...room.members.values()].map((other) => other.peer),
+      entries: room.entries,
+    });
+    room.members.set(member.peer.id, member);
+    broadcast(room, { type: "peer", peer: member.peer }, member.peer.id);
+
+    socket.on("message", (data) => {
+      let message;
+      try {
+        message = JSON.parse(String(data));
+      } catch {
+        return;
+      }
+      try {
+        handleMessage(room, member, message);
+      } catch (error) {
+        console.error("Live session message failed", error);
+      }
+    });
+
+    socket.on("close", () => {
+      clearTimeout(member.selectionTimer);
+      room.members.delete(member.peer.id);
+      for (const [element, lease] of room.leases) {
+        if (lease.peerId === member.peer.id) room.leases.delete(element);
+      }
+      broadcast(room, { type: "leave", id: member.peer.id });
+      if (!room.members.size) rooms.delete(roomId);
+    });
+  });
+
+  return wss;
+};
+
+module.exports = { attachCollaboration };
@@ -1,11 +1,40 @@
 require("dotenv").config();
 const express = require("express");
 const cors = require("cors");
-const ImageKit = require("imagekit");
+const { router: cardsRouter } = require("./routes/cards");
+const { router: sharesRouter } = require("./routes/shares");
+const { router: renderRouter } = require("./routes/render");
+const { router: themesRouter } = require("./routes/themes");
+const { router: templatesRouter } = require("./routes/templates");
+const { router: schedulesRouter } = require("./routes/schedules");
+const {
+  cardRouter: contributionsCardRouter,
+  inviteRouter,
+} = require("./routes/contributions");
+const { attachCollaboration } = require("./collab");
+const { createMailer } = require("./mailer");
+const { startScheduler } = require("./scheduler");
+const { createStorage } = require("./storage");
+const { uploadLimits } = require("./storage/limits");
+const { readNumber } = require("./env");
+const { ipRateLimit, sessionRateLimit } = require("./middleware/rateLimit");
+const {
+  issueSession,
+  requireApiKey,
+  requireSession,
+} = require("./middleware/session");
 
 const app = express();
 const port = process.env.PORT || 4000;
 
+if (process.env.TRUST_PROXY) {
+  const hops = Number(process.env.TRUST_PROXY);
+  app.set(
+    "trust proxy",
+    Number.isInteger(hops) ? hops : process.env.TRUST_PROXY,
+  );
+}
+
 const defaultOrigins = [
   "http://localhost:3000",
   "http://127.0.0.1:3000",
@@ -36,33 +65,94 @@ app.use(
 app.use(express.json());
 
 
-const imagekit = new ImageKit({
-  publicKey: process.env.IMAGEKIT_PUBLIC_KEY,
-  privateKey: process.env.IMAGEKIT_PRIVATE_KEY,
-  urlEndpoint: process.env.IMAGEKIT_URL_ENDPOINT,
-});
+const storage = createStorage();
+const mailer = createMailer();
 
 
 app.get("/health", (_req, res) => {
   res.json({ ok: true });
 });
 
-app.get("/auth", (_req, res) => {
-  if (
-    !process.env.IMAGEKIT_PUBLIC_KEY ||
-    !process.env.IMAGEKIT_PRIVATE_KEY ||
-    !process.env.IMAGEKIT_URL_ENDPOINT
-  ) {
-    return res.status(500).json({
-      message:
-        "Missing ImageKit environment variables. Set IMAGEKIT_PUBLIC_KEY, IMAGEKIT_PRIVATE_KEY, IMAGEKIT_URL_ENDPOINT.",
-    });
-  }
+app.get("/storage", (_req, res) => {
+  res.json({ ...storage.describe(), limits: uploadLimits });
+});
+
+app.post(
+  "/session",
+  ipRateLimit("session", readNumber("RATE_LIMIT_SESSIONS_PER_IP", 10)),
+  requireApiKey,
+  (_req, res) => {
+    res.status(201).json(issueSession());
+  },
+);
+
+storage.register(app, [
+  ipRateLimit("upload", readNumber("RATE_LIMIT_UPLOADS_PER_IP", 30)),
+  requireApiKey,
+  requireSession,
+  sessionRateLimit("upload", readNumber("RATE_LIMIT_UPLOADS_PER_SESSION", 20)),
+]);
+
+app.use("/cards", cardsRouter);
+app.use("/cards", contributionsCardRouter);
+app.use("/share", sharesRouter);
+app.use("/themes", themesRouter);
+app.use("/templates", templatesRouter);
+
+// Rendering launches a browser page per request, so it gets its own limit.
+app.post(
+  "/render",
+  ipRateLimit("render", readNumber("RATE_LIMIT_RENDERS_PER_IP", 10)),
+  requireApiKey,
+);
+app.use("/render", renderRouter);
 
-  const auth = imagekit.getAuthenticationParameters();
-  return res.json(auth);
+// Scheduling queues real email, so every change to a send is limited like
+// renders, from one shared budget.
+const scheduleGuard = [
+  ipRateLimit("schedule", readNumber("RATE_LIMIT_SCHEDULES_PER_IP", 10)),
+  requireApiKey,
+];
+app.post("/schedules", scheduleGuard);
+app.put("/schedules/:id", scheduleGuard);
+app.delete("/schedules/:id", scheduleGuard);
+app.use("/schedules", schedulesRouter);
+
+// Anyone holding an invite link can sign, so notes are limited per IP.
+app.post(
+  "/invites/:token/contributions",
+  ipRateLimit(
+    "contribution",
+    readNumber("RATE_LIMIT_CONTRIBUTIONS_PER_IP", 20),
+  ),
+  requireApiKey,
+);
+app.use("/invites", inviteRouter);
+
+// Errors that escape the routes (bad JSON bodies, blocked origins, bugs)
+// answer in the same { message } shape as everything else rather than
+// Express's HTML error page.
+app.use((error, _req, res, _next) => {
+  if (error.type === "entity.parse.failed") {
+    return res.status(400).json({ message: "Request body is not valid JSON." });
+  }
+  if (error.type === "entity.too.large") {
+    return res.status(413).json({ message: "Request body is too large." });
+  }
+  if (error.message === "Not allowed by CORS") {
+    return res.status(403).json({ message: "Origin not allowed." });
+  }
+  console.error(error);
+  return res.status(500).json({ message: "Something went wrong." });
 });
 
-app.listen(port, () => {
-  console.log(`ImageKit auth server running on port ${port}`);
+startScheduler(mailer);
+
+const server = app.listen(port, () => {
+  console.log(
+    `Birthday card server running on port ${port} (${storage.name} storage, ${mailer.name} mail)`,
+  );
 });
+
+// Live editing sessions share the HTTP port over WebSocket.
+attachCollaboration(server, allowedOrigins);
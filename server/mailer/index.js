@@ -0,0 +1,32 @@
+const { createOutboxDriver } = require("./outbox");
+const { createSmtpDriver, SmtpError } = require("./smtp");
+
+const drivers = {
+  outbox: createOutboxDriver,
+  smtp: createSmtpDriver,
+};
+
+// Reads "Name <email>" or a bare address.
+const parseAddress = (value) => {
+  const match = /^\s*(.*?)\s*<([^<>\s]+)>\s*$/.exec(value);
+  return match
+    ? { name: match[1].replace(/^"|"$/g, ""), email: match[2] }
+    : { name: "", email: value.trim() };
+};
+
+const createMailer = () => {
+  const name = (process.env.MAIL_DRIVER ?? "outbox").trim().toLowerCase();
+  const createDriver = drivers[name];
+  if (!createDriver) {
+    throw new Error(
+      `Unknown MAIL_DRIVER "${name}". Use one of: ${Object.keys(drivers).join(", ")}.`,
+    );
+  }
+  const driver = createDriver();
+  const from = parseAddress(
+    process.env.MAIL_FROM ?? "Birthday Card Studio <cards@localhost>",
+  );
+  return { ...driver, send: (mail) => driver.send({ from, ...mail }) };
+};
+
+module.exports = { createMailer, parseAddress, SmtpError };
@@ -0,0 +1,78 @@
+const crypto = require("crypto");
+
+// Builds a MIME message (RFC 5322 / 2045) from { from, to, subject, text,
+// html, attachments: [{ filename, contentType, content: Buffer }] }.
+// Both drivers send the same bytes, so what lands in the outbox is exactly
+// what SMTP would deliver.
+
+const isAscii = (value) => /^[\x20-\x7e]*$/.test(value);
+
+// Non-ASCII header text goes out as an RFC 2047 encoded word.
+const encodeHeader = (value) =>
+  isAscii(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value, "utf8").toString("base64")}?=`;
+
+// Display names are quoted so commas and the like stay part of the name.
+const formatAddress = ({ name, email }) =>
+  name
+    ? `${isAscii(name) ? `"${name.replace(/["\\]/g, "\\$&")}"` : encodeHeader(name)} <${email}>`
+    : email;
+
+const base64Lines = (buffer) =>
+  buffer.toString("base64").replace(/.{76}(?=.)/g, "$&\r\n");
+
+const textPart = (contentType, body) =>
+  [
+    `Content-Type: ${contentType}; charset=utf-8`,
+    "Content-Transfer-Encoding: base64",
+    "",
+    base64Lines(Buffer.from(body, "utf8")),
+  ].join("\r\n");
+
+const attachmentPart = ({ filename, contentType, content }) =>
+  [
+    `Content-Type: ${contentType}; name="${encodeHeader(filename)}"`,
+    "Content-Transfer-Encoding: base64",
+    `Content-Disposition: attachment; filename="${encodeHeader(filename)}"`,
+    "",
+    base64Lines(content),
+  ].join("\r\n");
+
+const multipart = (subtype, parts) => {
+  const boundary = `----=_Part_${crypto.randomBytes(12).toString("hex")}`;
+  return [
+    `Content-Type: multipart/${subtype}; boundary="${boundary}"`,
+    "",
+    ...parts.map((part) => `--${boundary}\r\n${part}`),
+    `--${boundary}--`,
+    "",
+  ].join("\r\n");
+};
+
+const domainOf = (email) => email.split("@")[1] || "localhost";
+
+const buildMessage = (mail) => {
+  const messageId = `<${crypto.randomBytes(16).toString("hex")}@${domainOf(mail.from.email)}>`;
+  const body = mail.html
+    ? multipart("alternative", [
+        textPart("text/plain", mail.text),
+        textPart("text/html", mail.html),
+      ])
+    : textPart("text/plain", mail.text);
+  const attachments = mail.attachments ?? [];
+  const content = attachments.length
+    ? multipart("mixed", [body, ...attachments.map(attachmentPart)])
+    : body;
+  const headers = [
+    `From: ${formatAddress(mail.from)}`,
+    `To: ${formatAddress(mail.to)}`,
+    `Subject: ${encodeHeader(mail.subject)}`,
+    `Date: ${new Date().toUTCString().replace("GMT", "+0000")}`,
+    `Message-ID: ${messageId}`,
+    "MIME-Version: 1.0",
+  ];
+  return { messageId, raw: `${headers.join("\r\n")}\r\n${content}` };
+};
+
+module.exports = { buildMessage };
@@ -0,0 +1,25 @@
+const fs = require("fs");
+const path = require("path");
+const { dataDir } = require("../store");
+const { buildMessage } = require("./message");
+
+const outboxDir = process.env.OUTBOX_DIR
+  ? path.resolve(process.env.OUTBOX_DIR)
+  : path.join(dataDir, "outbox");
+
+// Writes every message to an .eml file instead of sending it, for local
+// testing. Any mail client opens them, attachments included.
+const createOutboxDriver = () => ({
+  name: "outbox",
+  describe: () => ({ driver: "outbox", outboxDir }),
+  send: async (mail) => {
+    const { messageId, raw } = buildMessage(mail);
+    await fs.promises.mkdir(outboxDir, { recursive: true });
+    const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+    const fileName = `${stamp}-${messageId.slice(1, 9)}.eml`;
+    await fs.promises.writeFile(path.join(outboxDir, fileName), raw);
+    return { messageId, location: path.join(outboxDir, fileName) };
+  },
+});
+
+module.exports = { createOutboxDriver };
@@ -0,0 +1,195 @@
+const net = require("net");
+const os = require("os");
+const tls = require("tls");
+const { readNumber } = require("../env");
+const { buildMessage } = require("./message");
+
+const smtpTimeoutMs = readNumber("SMTP_TIMEOUT_MS", 30 * 1000);
+
+// `code` is the SMTP reply code when the server turned the message down;
+// 5xx replies are permanent and not worth retrying.
+class SmtpError extends Error {
+  constructor(message, code = null) {
+    super(message);
+    this.code = code;
+  }
+}
+
+const connect = ({ host, port, secure }) =>
+  new Promise((resolve, reject) => {
+    const socket = secure
+      ? tls.connect({ host, port, servername: host })
+      : net.connect({ host, port });
+    socket.once(secure ? "secureConnect" : "connect", () => {
+      socket.removeListener("error", reject);
+      resolve(socket);
+    });
+    socket.once("error", reject);
+  });
+
+const upgrade = (socket, host) =>
+  new Promise((resolve, reject) => {
+    const secured = tls.connect({ socket, servername: host }, () => {
+      secured.removeListener("error", reject);
+      resolve(secured);
+    });
+    secured.once("error", reject);
+  });
+
+// Reads multi-line replies ("250-..." continues, "250 ..." ends) off the
+// socket and pairs them with commands in order. `attach` moves the session
+// onto the TLS socket after STARTTLS.
+const createSession = () => {
+  let socket = null;
+  let buffer = "";
+  let lines = [];
+  const replies = [];
+  const waiting = [];
+
+  const settle = (reply) => {
+    const next = waiting.shift();
+    if (next) next(reply);
+    else replies.push(reply);
+  };
+
+  const onData = (chunk) => {
+    buffer += chunk.toString("utf8");
+    let end = buffer.indexOf("\r\n");
+    while (end >= 0) {
+      const line = buffer.slice(0, end);
+      buffer = buffer.slice(end + 2);
+      lines.push(line.slice(4));
+      if (line[3] !== "-") {
+        settle({ code: Number(line.slice(0, 3)), lines });
+        lines = [];
+      }
+      end = buffer.indexOf("\r\n");
+    }
+  };
+  const onError = (error) => settle({ error });
+  const onClose = () =>
+    settle({ error: new SmtpError("The SMTP server closed the connection.") });
+
+  const read = () =>
+    new Promise((resolve) => {
+      if (replies.length) resolve(replies.shift());
+      else waiting.push(resolve);
+    });
+
+  const expect = async (codes, label) => {
+    const reply = await read();
+    if (reply.error) throw reply.error;
+    if (!codes.includes(reply.code)) {
+      throw new SmtpError(
+        `SMTP ${label} failed: ${reply.code} ${reply.lines.join(" ")}`,
+        reply.code,
+      );
+    }
+    return reply;
+  };
+
+  return {
+    attach: (next) => {
+      if (socket) {
+        socket.removeListener("data", onData);
+        socket.removeListener("error", onError);
+        socket.removeListener("close", onClose);
+      }
+      socket = next;
+      socket.setTimeout(smtpTimeoutMs, () =>
+        socket.destroy(new SmtpError("The SMTP server timed out.")),
+      );
+      socket.on("data", onData);
+      socket.on("error", onError);
+      socket.on("close", onClose);
+    },
+    detach: () => {
+      socket.removeListener("data", onData);
+      socket.removeListener("close", onClose);
+    },
+    expect,
+    command: (line, codes, label = line.split(" ")[0]) => {
+      socket.write(`${line}\r\n`);
+      return expect(codes, label);
+    },
+  };
+};
+
+const base64 = (value) => Buffer.from(value, "utf8").toString("base64");
+
+// A small SMTP client: STARTTLS when the server offers it (or implicit TLS
+// with SMTP_SECURE), then AUTH PLAIN or LOGIN. Credentials are never sent
+// over an unencrypted connection.
+const createSmtpDriver = () => {
+  const host = process.env.SMTP_HOST;
+  if (!host) {
+    throw new Error("MAIL_DRIVER=smtp needs SMTP_HOST to be set.");
+  }
+  const secure = process.env.SMTP_SECURE === "true";
+  const port = readNumber("SMTP_PORT", secure ? 465 : 587);
+  const user = process.env.SMTP_USER;
+  const pass = process.env.SMTP_PASS ?? "";
+  const clientName = os.hostname() || "localhost";
+
+  return {
+    name: "smtp",
+    describe: () => ({ driver: "smtp", host, port, secure }),
+    send: async (mail) => {
+      const { messageId, raw } = buildMessage(mail);
+      const session = createSession();
+      let socket = await connect({ host, port, secure });
+      session.attach(socket);
+      try {
+        await session.expect([220], "greeting");
+        let hello = await session.command(`EHLO ${clientName}`, [250]);
+        let encrypted = secure;
+        if (
+          !encrypted &&
+          hello.lines.some((line) => /^STARTTLS\b/i.test(line))
+        ) {
+          await session.command("STARTTLS", [220]);
+          session.detach();
+          socket = await upgrade(socket, host);
+          session.attach(socket);
+          encrypted = true;
+          hello = await session.command(`EHLO ${clientName}`, [250]);
+        }
+        if (user) {
+          if (!encrypted) {
+            throw new SmtpError(
+              "The SMTP server does not offer TLS, so the login was not sent.",
+            );
+          }
+          const mechanisms =
+            hello.lines.find((line) => /^AUTH\b/i.test(line)) ?? "";
+          if (/\bPLAIN\b/i.test(mechanisms)) {
+            await session.command(
+              `AUTH PLAIN ${base64(`\0${user}\0${pass}`)}`,
+              [235],
+              "AUTH",
+            );
+          } else {
+            await session.command("AUTH LOGIN", [334]);
+            await session.command(base64(user), [334], "AUTH");
+            await session.command(base64(pass), [235], "AUTH");
+          }
+        }
+        await session.command(`MAIL FROM:<${mail.from.email}>`, [250]);
+        await session.command(`RCPT TO:<${mail.to.email}>`, [250, 251]);
+        await session.command("DATA", [354]);
+        // Lines starting with a dot are doubled so they do not end the data.
+        await session.command(
+          `${raw.replace(/^\./gm, "..")}\r\n.`,
+          [250],
+          "DATA",
+        );
+        await session.command("QUIT", [221]).catch(() => {});
+        return { messageId };
+      } finally {
+        socket.destroy();
+      }
+    },
+  };
+};
+
+module.exports = { createSmtpDriver, SmtpError };
@@ -0,0 +1,66 @@
+const { readNumber } = require("../env");
+
+const rateLimitWindowMs = readNumber("RATE_LIMIT_WINDOW_MS", 60 * 1000);
+
+// Fixed-window counter kept in memory. Good enough for a single server
+// process; swap the Map for a shared store before running several.
+const createRateLimiter = ({
+  name,
+  max,
+  windowMs = rateLimitWindowMs,
+  keyFor,
+}) => {
+  const hits = new Map();
+
+  const sweep = setInterval(() => {
+    const now = Date.now();
+    for (const [key, entry] of hits) {
+      if (entry.resetAt <= now) hits.delete(key);
+    }
+  }, windowMs);
+  sweep.unref();
+
+  return (req, res, next) => {
+    const key = keyFor(req);
+    if (!key) return next();
+
+    const now = Date.now();
+    let entry = hits.get(key);
+    if (!entry || entry.resetAt <= now) {
+      entry = { count: 0, resetAt: now + windowMs };
+      hits.set(key, entry);
+    }
+    entry.count += 1;
+
+    const retryAfter = Math.ceil((entry.resetAt - now) / 1000);
+    res.set("RateLimit-Limit", String(max));
+    res.set("RateLimit-Remaining", String(Math.max(0, max - entry.count)));
+    res.set("RateLimit-Reset", String(retryAfter));
+
+    if (entry.count > max) {
+      res.set("Retry-After", String(retryAfter));
+      return res.status(429).json({
+        code: "RATE_LIMITED",
+        message: `Too many ${name} requests. Try again in ${retryAfter}s.`,
+        retryAfter,
+      });
+    }
+    return next();
+  };
+};
+
+const ipRateLimit = (name, max) =>
+  createRateLimiter({ name, max, keyFor: (req) => `ip:${req.ip}` });
+
+const sessionRateLimit = (name, max) =>
+  createRateLimiter({
+    name,
+    max,
+    keyFor: (req) => (req.sessionId ? `session:${req.sessionId}` : null),
+  });
+
+module.exports = {
+  createRateLimiter,
+  ipRateLimit,
+  sessionRateLimit,
+};
@@ -0,0 +1,75 @@
+const crypto = require("crypto");
+const { readNumber } = require("../env");
+
+const sessionTtlMs = readNumber("SESSION_TTL_MS", 2 * 60 * 60 * 1000);
+
+const safeEqual = (a, b) => {
+  const left = Buffer.from(String(a));
+  const right = Buffer.from(String(b));
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+};
+
+const sign = (payload) =>
+  crypto
+    .createHmac("sha256", process.env.SESSION_SECRET)
+    .update(payload)
+    .digest("base64url");
+
+const issueSession = () => {
+  const id = crypto.randomBytes(12).toString("base64url");
+  const expiresAt = Date.now() + sessionTtlMs;
+  const payload = `${id}.${expiresAt}`;
+  return {
+    token: process.env.SESSION_SECRET ? `${payload}.${sign(payload)}` : payload,
+    expiresAt: new Date(expiresAt).toISOString(),
+  };
+};
+
+const readSession = (token) => {
+  const [id, expiresAt, signature] = String(token ?? "").split(".");
+  if (!id || !expiresAt || Number(expiresAt) <= Date.now()) return null;
+  if (process.env.SESSION_SECRET) {
+    if (!signature || !safeEqual(signature, sign(`${id}.${expiresAt}`))) {
+      return null;
+    }
+  }
+  return id;
+};
+
+// Optional gates for endpoints that cost money (upload signatures, disk).
+// API_SHARED_SECRET requires an X-Api-Key header on every guarded call. The
+// studio sends it from the browser (NEXT_PUBLIC_API_KEY), so it is readable
+// by anyone who loads the app: it turns away callers that never fetched the
+// studio, not determined scripts. The rate limits and signed sessions are
+// what actually bound abuse.
+const requireApiKey = (req, res, next) => {
+  const sharedSecret = process.env.API_SHARED_SECRET;
+  if (sharedSecret && !safeEqual(req.get("x-api-key") ?? "", sharedSecret)) {
+    return res
+      .status(401)
+      .json({ code: "UNAUTHORIZED", message: "Missing or invalid API key." });
+  }
+  return next();
+};
+
+// SESSION_SECRET requires a signed X-Session-Token from POST /session. With
+// no secret set the token is still read when present, so per-session limits
+// keep working in development.
+const requireSession = (req, res, next) => {
+  const sessionId = readSession(req.get("x-session-token"));
+  if (process.env.SESSION_SECRET && !sessionId) {
+    return res.status(401).json({
+      code: "SESSION_REQUIRED",
+      message: "Missing or expired session. Reload the page and try again.",
+    });
+  }
+  req.sessionId = sessionId;
+  return next();
+};
+
+module.exports = {
+  issueSession,
+  readSession,
+  requireApiKey,
+  requireSession,
+};
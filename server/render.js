@@ -0,0 +1,170 @@
+const crypto = require("crypto");
+const puppeteer = require("puppeteer-core");
+
+const renderClientUrl = (
+  process.env.RENDER_CLIENT_URL ?? "http://localhost:3000"
+).replace(/\/$/, "");
+const renderJobTtlMs = 2 * 60 * 1000;
+const renderTimeoutMs = 30 * 1000;
+
+const originOf = (url) => {
+  try {
+    return new URL(url).origin;
+  } catch {
+    return null;
+  }
+};
+
+// Designs carry photo and sticker URLs chosen by whoever saved them, and
+// the renderer runs next to the server's private network. The headless
+// page may only load the client app and uploaded files; every other
+// request is refused before Chrome sends it. Extra asset hosts can be
+// listed in RENDER_ASSET_ORIGINS.
+const allowedOrigins = new Set(
+  [
+    renderClientUrl,
+    process.env.PUBLIC_URL,
+    process.env.IMAGEKIT_URL_ENDPOINT,
+    ...(process.env.RENDER_ASSET_ORIGINS ?? "").split(","),
+  ]
+    .map((url) => (url?.trim() ? originOf(url.trim()) : null))
+    .filter((origin) => origin && origin !== "null"),
+);
+
+const isAllowedRequest = (url) =>
+  url.startsWith("data:") ||
+  url.startsWith("blob:") ||
+  allowedOrigins.has(originOf(url));
+
+const outputTypes = {
+  png: "image/png",
+  jpeg: "image/jpeg",
+  pdf: "application/pdf",
+};
+
+class RenderError extends Error {
+  constructor(message, status = 500) {
+    super(message);
+    this.status = status;
+  }
+}
+
+// Designs waiting to be picked up by the headless page. They only need to
+// live for the duration of one render.
+const jobs = new Map();
+
+const createJob = (design, pageId) => {
+  const id = crypto.randomBytes(12).toString("base64url");
+  jobs.set(id, { design, pageId, expiresAt: Date.now() + renderJobTtlMs });
+  return id;
+};
+
+const takeJob = (id) => {
+  const job = jobs.get(id);
+  if (!job || job.expiresAt <= Date.now()) {
+    jobs.delete(id);
+    return null;
+  }
+  return job;
+};
+
+let browserPromise = null;
+
+const getBrowser = () => {
+  if (!process.env.CHROME_PATH) {
+    throw new RenderError(
+      "Server rendering is not configured. Set CHROME_PATH to a Chrome or Chromium binary.",
+      501,
+    );
+  }
+  browserPromise ??= puppeteer
+    .launch({
+      executablePath: process.env.CHROME_PATH,
+      // Chrome's sandbox stays on. Containers running as root cannot start
+      // it, so CHROME_NO_SANDBOX=true turns it off there; only do that
+      // when the container itself is isolated.
+      args: [
+        "--disable-dev-shm-usage",
+        ...(process.env.CHROME_NO_SANDBOX === "true" ? ["--no-sandbox"] : []),
+      ],
+    })
+    .then((browser) => {
+      browser.on("disconnected", () => {
+        browserPromise = null;
+      });
+      return browser;
+    })
+    .catch((error) => {
+      browserPromise = null;
+      throw error;
+    });
+  return browserPromise;
+};
+
+// Loads the client's /render/:id route, which draws the card with the same
+// CardPreview component as the editor, and captures the card element.
+const renderCard = async ({ design, pageId, format, scale }) => {
+  const browser = await getBrowser();
+  const jobId = createJob(design, pageId);
+  const page = await browser.newPage();
+  try {
+    await page.setRequestInterception(true);
+    page.on("request", (request) => {
+      if (request.isInterceptResolutionHandled()) return;
+      if (isAllowedRequest(request.url())) {
+        request.continue();
+      } else {
+        request.abort("blockedbyclient");
+      }
+    });
+    await page.setViewport({
+      width: 1200,
+      height: 1200,
+      deviceScaleFactor: scale ?? 1,
+    });
+    await page.goto(`${renderClientUrl}/render/${jobId}`, {
+      waitUntil: "networkidle0",
+      timeout: renderTimeoutMs,
+    });
+    const card = await page.waitForSelector("[data-render-card]", {
+      timeout: renderTimeoutMs,
+    });
+    await page.evaluate(() => document.fonts.ready);
+
+    const downloadScale = Number(
+      await card.evaluate((node) => node.dataset.downloadScale),
+    );
+    if (!scale && downloadScale > 1) {
+      await page.setViewport({
+        width: 1200,
+        height: 1200,
+        deviceScaleFactor: downloadScale,
+      });
+    }
+
+    if (format === "pdf") {
+      const box = await card.boundingBox();
+      await page.addStyleTag({
+        content:
+          "@page { margin: 0 } body { margin: 0 } [data-render-card] { margin: 0 !important }",
+      });
+      return await page.pdf({
+        width: `${Math.ceil(box.width)}px`,
+        height: `${Math.ceil(box.height)}px`,
+        printBackground: true,
+        pageRanges: "1",
+      });
+    }
+
+    return await card.screenshot({
+      type: format,
+      quality: format === "jpeg" ? 92 : undefined,
+      omitBackground: format === "png",
+    });
+  } finally {
+    jobs.delete(jobId);
+    await page.close();
+  }
+};
+
+module.exports = { outputTypes, renderCard, takeJob, RenderError };
@@ -0,0 +1,416 @@
+const crypto = require("crypto");
+const express = require("express");
+const { createStore } = require("../store");
+const { uploadLimits } = require("../storage/limits");
+const { validateSpec } = require("./themes");
+
+const cards = createStore("cards");
+const router = express.Router();
+
+const isPosition = (value) =>
+  Boolean(value) &&
+  typeof value.x === "number" &&
+  typeof value.y === "number";
+
+const pageIds = ["front", "insideLeft", "insideRight", "back"];
+
+const checkStrings = (value, keys, label) => {
+  for (const key of keys) {
+    if (typeof value[key] !== "string") {
+      return `${label} field "${key}" must be a string.`;
+    }
+  }
+  return null;
+};
+
+const adjustmentKeys = [
+  "brightness",
+  "contrast",
+  "saturation",
+  "warmth",
+  "vignette",
+];
+const frameStyles = ["polaroid", "rounded", "circle", "heart"];
+
+// The field holding what each kind of sticker shows.
+const stickerContent = {
+  text: "text",
+  emoji: "emoji",
+  decoration: "decorationId",
+  image: "url",
+  shape: "shape",
+};
+const maxStickersPerPage = 20;
+const maxSignatures = 100;
+
+const textRoles = ["headline", "message", "signature"];
+const textStyleNumbers = [
+  "weight",
+  "size",
+  "lineHeight",
+  "letterSpacing",
+  "shadow",
+  "outline",
+];
+
+// Text styles are partial overrides, so only the fields present are checked.
+const validateTextStyle = (style, label) => {
+  if (!style || typeof style !== "object" || Array.isArray(style)) {
+    return `${label} must be an object.`;
+  }
+  const badNumber = textStyleNumbers.find(
+    (key) => style[key] !== undefined && typeof style[key] !== "number",
+  );
+  if (badNumber) {
+    return `${label} field "${badNumber}" must be a number.`;
+  }
+  const badString = ["fontId", "outlineColor"].find(
+    (key) => style[key] !== undefined && typeof style[key] !== "string",
+  );
+  if (badString) {
+    return `${label} field "${badString}" must be a string.`;
+  }
+  if (
+    style.color !== undefined &&
+    style.color !== null &&
+    typeof style.color !== "string"
+  ) {
+    return `${label} color must be a string.`;
+  }
+  if (
+    style.align !== undefined &&
+    !["left", "center", "right"].includes(style.align)
+  ) {
+    return `${label} align must be left, center or right.`;
+  }
+  return null;
+};
+
+// The fields every page carries. The design itself is the front page.
+const validatePage = (page, label) => {
+  const problem = checkStrings(
+    page,
+    ["message", "layoutId", "gridFormatId"],
+    label,
+  );
+  if (problem) return problem;
+  if (!Array.isArray(page.photos)) {
+    return `${label} photos must be an array.`;
+  }
+  for (const slot of page.photos) {
+    if (slot === null) continue;
+    if (
+      typeof slot !== "object" ||
+      typeof slot.url !== "string" ||
+      !isPosition(slot.position)
+    ) {
+      return "Each photo needs a url and a position.";
+    }
+    if (slot.crop !== undefined && slot.crop !== null) {
+      const { scale, rotation, fit } = slot.crop;
+      if (typeof scale !== "number" || typeof rotation !== "number") {
+        return "Each photo crop needs a numeric scale and rotation.";
+      }
+      if (fit !== undefined && fit !== "contain" && fit !== "cover") {
+        return "Photo crop fit must be contain or cover.";
+      }
+    }
+    if (
+      slot.adjustments !== undefined &&
+      slot.adjustments !== null &&
+      adjustmentKeys.some((key) => typeof slot.adjustments[key] !== "number")
+    ) {
+      return `Photo adjustments need a numeric ${adjustmentKeys.join(", ")}.`;
+    }
+    if (
+      slot.frameStyle !== undefined &&
+      slot.frameStyle !== null &&
+      !frameStyles.includes(slot.frameStyle)
+    ) {
+      return `Photo frame style must be one of ${frameStyles.join(", ")}.`;
+    }
+  }
+  if (page.frames !== undefined && page.frames !== null) {
+    if (!Array.isArray(page.frames)) {
+      return `${label} frames must be an array.`;
+    }
+    for (const frame of page.frames) {
+      if (frame === null) continue;
+      if (
+        !["x", "y", "width", "height"].every(
+          (key) => typeof frame?.[key] === "number",
+        )
+      ) {
+        return "Each photo frame needs an x, y, width and height.";
+      }
+    }
+  }
+  if (!Array.isArray(page.stickers)) {
+    return `${label} stickers must be an array.`;
+  }
+  if (page.stickers.length > maxStickersPerPage) {
+    return `${label} can hold up to ${maxStickersPerPage} stickers.`;
+  }
+  for (const sticker of page.stickers) {
+    if (
+      !sticker ||
+      typeof sticker !== "object" ||
+      typeof sticker.id !== "string" ||
+      !isPosition(sticker.position)
+    ) {
+      return "Each sticker needs an id and a position.";
+    }
+    // Stickers saved before kinds existed are plain text stickers.
+    const kind = sticker.kind ?? "text";
+    if (!Object.hasOwn(stickerContent, kind)) {
+      return `Sticker kind must be one of ${Object.keys(stickerContent).join(", ")}.`;
+    }
+    if (typeof sticker[stickerContent[kind]] !== "string") {
+      return `Each ${kind} sticker needs a "${stickerContent[kind]}" string.`;
+    }
+    if (
+      ["size", "rotation", "opacity"].some(
+        (key) =>
+          sticker[key] !== undefined && typeof sticker[key] !== "number",
+      )
+    ) {
+      return "Sticker size, rotation and opacity must be numbers.";
+    }
+    if (sticker.style !== undefined && sticker.style !== null) {
+      const styleProblem = validateTextStyle(sticker.style, "Sticker style");
+      if (styleProblem) return styleProblem;
+    }
+  }
+  return null;
+};
+
+const validateDesign = (design) => {
+  if (!design || typeof design !== "object" || Array.isArray(design)) {
+    return "Card design must be an object.";
+  }
+  const problem =
+    checkStrings(
+      design,
+      ["recipient", "sender", "themeId", "cardSizeId"],
+      "Card design",
+    ) ?? validatePage(design, "Card design");
+  if (problem) return problem;
+
+  const badCopy = [
+    "eyebrow",
+    "headline",
+    "signature",
+    "birthday",
+    "locale",
+  ].find(
+    (key) =>
+      design[key] !== undefined &&
+      design[key] !== null &&
+      typeof design[key] !== "string",
+  );
+  if (badCopy) {
+    return `Card design field "${badCopy}" must be a string.`;
+  }
+  if (
+    design.age !== undefined &&
+    design.age !== null &&
+    (typeof design.age !== "number" || design.age < 0)
+  ) {
+    return "Card design age must be a number of zero or more.";
+  }
+
+  // Custom themes travel with the design so shared and rendered cards do
+  // not depend on the owner's theme list.
+  // Only the spec is kept: the client builds the CSS from it, so a design
+  // cannot smuggle raw styles or URLs into the renderer.
+  const { customTheme } = design;
+  if (customTheme !== undefined && customTheme !== null) {
+    if (
+      typeof customTheme.id !== "string" ||
+      typeof customTheme.name !== "string"
+    ) {
+      return "Card design customTheme needs an id, name and spec.";
+    }
+    const problem = validateSpec(customTheme.spec);
+    if (problem) {
+      return problem;
+    }
+  }
+
+  const { typography } = design;
+  if (typography !== undefined && typography !== null) {
+    if (typeof typography !== "object" || Array.isArray(typography)) {
+      return "Card design typography must be an object.";
+    }
+    for (const [role, style] of Object.entries(typography)) {
+      if (!textRoles.includes(role)) {
+        return `Typography roles must be one of ${textRoles.join(", ")}.`;
+      }
+      const styleProblem = validateTextStyle(style, `Typography "${role}"`);
+      if (styleProblem) return styleProblem;
+    }
+  }
+
+  // Approved group-signing notes, copied in by the contributions routes.
+  const signatures = design.signatures ?? [];
+  if (!Array.isArray(signatures)) {
+    return "Card design signatures must be an array.";
+  }
+  if (signatures.length > maxSignatures) {
+    return `A card can hold up to ${maxSignatures} signatures.`;
+  }
+  for (const signature of signatures) {
+    if (!signature || typeof signature !== "object") {
+      return "Each signature must be an object.";
+    }
+    const signatureProblem = checkStrings(
+      signature,
+      ["id", "name", "note"],
+      "Signature",
+    );
+    if (signatureProblem) return signatureProblem;
+    const badOptional = ["color", "photoUrl"].find(
+      (key) =>
+        signature[key] !== undefined &&
+        signature[key] !== null &&
+        typeof signature[key] !== "string",
+    );
+    if (badOptional) {
+      return `Signature field "${badOptional}" must be a string.`;
+    }
+  }
+
+  const pages = design.pages ?? [];
+  if (!Array.isArray(pages)) {
+    return "Card design pages must be an array.";
+  }
+  const seenPages = new Set();
+  for (const page of pages) {
+    if (!page || !pageIds.slice(1).includes(page.id)) {
+      return `Each extra page needs an id of ${pageIds.slice(1).join(", ")}.`;
+    }
+    if (seenPages.has(page.id)) {
+      return `Page "${page.id}" appears more than once.`;
+    }
+    seenPages.add(page.id);
+    const pageProblem = validatePage(page, `Page "${page.id}"`);
+    if (pageProblem) return pageProblem;
+  }
+
+  const photoCount = [design, ...pages].reduce(
+    (total, page) => total + page.photos.filter(Boolean).length,
+    0,
+  );
+  if (photoCount > uploadLimits.maxPhotosPerCard) {
+    return `A card can hold up to ${uploadLimits.maxPhotosPerCard} photos.`;
+  }
+  return null;
+};
+
+const toSummary = (card) => ({
+  id: card.id,
+  title: card.title,
+  createdAt: card.createdAt,
+  updatedAt: card.updatedAt,
+});
+
+// The owner token guards changes to the card and its invite and notes; it
+// is handed out once, when the card is created. The invite token is the owner's to share,
+// so neither leaves the server with the card.
+const toCard = ({ ownerToken, inviteToken, ...card }) => card;
+
+// Owner routes need the token the card was created with. Cards saved
+// before owner tokens existed have none, so nobody can change them.
+const findOwnedCard = (req, res, next) => {
+  const card = cards.get(req.params.id);
+  if (!card) {
+    return res.status(404).json({ message: "Card not found." });
+  }
+  if (!card.ownerToken || req.get("x-card-token") !== card.ownerToken) {
+    return res
+      .status(403)
+      .json({ message: "Only the card owner can change this card." });
+  }
+  req.card = card;
+  return next();
+};
+
+const maxListedCards = 200;
+
+const readTitle = (body, design) =>
+  typeof body.title === "string" && body.title.trim()
+    ? body.title.trim().slice(0, 80)
+    : design.recipient
+      ? `Card for ${design.recipient}`
+      : "Untitled card";
+
+// Lists the cards a browser asked for by id, which are the ones it holds
+// owner tokens for. Nobody gets the whole collection.
+router.get("/", (req, res) => {
+  const ids =
+    typeof req.query.ids === "string"
+      ? req.query.ids.split(",").slice(0, maxListedCards)
+      : [];
+  const list = [...new Set(ids)]
+    .map((id) => cards.get(id))
+    .filter(Boolean)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+    .map(toSummary);
+  res.json(list);
+});
+
+// Signatures are copied from approved contributions by
+// routes/contributions.js, never taken from a request body, so a save
+// cannot skip the owner's approval.
+const withSignatures = (design, signatures) =>
+  design && typeof design === "object" && !Array.isArray(design)
+    ? { ...design, signatures }
+    : design;
+
+router.post("/", (req, res) => {
+  const design = withSignatures(req.body?.design, []);
+  const problem = validateDesign(design);
+  if (problem) {
+    return res.status(400).json({ message: problem });
+  }
+  const card = cards.create({
+    title: readTitle(req.body, design),
+    design,
+    ownerToken: crypto.randomBytes(24).toString("base64url"),
+  });
+  return res.status(201).json({ ...toCard(card), ownerToken: card.ownerToken });
+});
+
+router.get("/:id", (req, res) => {
+  const card = cards.get(req.params.id);
+  if (!card) {
+    return res.status(404).json({ message: "Card not found." });
+  }
+  return res.json(toCard(card));
+});
+
+router.put("/:id", findOwnedCard, (req, res) => {
+  const design = withSignatures(
+    req.body?.design,
+    req.card.design.signatures ?? [],
+  );
+  const problem = validateDesign(design);
+  if (problem) {
+    return res.status(400).json({ message: problem });
+  }
+  const card = cards.update(req.card.id, {
+    title: readTitle(req.body, design),
+    design,
+  });
+  return res.json(toCard(card));
+});
+
+router.delete("/:id", findOwnedCard, (req, res) => {
+  // Loaded here: routes/contributions.js requires this module first.
+  const { removeForCard } = require("./contributions");
+  removeForCard(req.card.id);
+  cards.remove(req.card.id);
+  return res.status(204).end();
+});
+
+module.exports = { router, cards, findOwnedCard, pageIds, validateDesign };
@@ -0,0 +1,172 @@
+const crypto = require("crypto");
+const express = require("express");
+const { createStore } = require("../store");
+const { cards, findOwnedCard } = require("./cards");
+
+const contributions = createStore("contributions");
+// Owner routes, mounted under /cards/:id.
+const cardRouter = express.Router();
+// Contributor routes, reached through an invite link.
+const inviteRouter = express.Router();
+
+const maxNameLength = 60;
+const maxNoteLength = 500;
+const maxPerCard = 100;
+const statuses = ["pending", "approved", "hidden"];
+
+const isColor = (value) =>
+  typeof value === "string" && /^#[0-9a-f]{6}$/i.test(value);
+
+const isWebUrl = (value) => {
+  try {
+    return ["http:", "https:"].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+};
+
+// Checks a contributor's note and returns the fields to store, or a message
+// for the client.
+const readContribution = (body) => {
+  const name = typeof body?.name === "string" ? body.name.trim() : "";
+  const note = typeof body?.note === "string" ? body.note.trim() : "";
+  if (!name || name.length > maxNameLength) {
+    return {
+      problem: `A name of up to ${maxNameLength} characters is required.`,
+    };
+  }
+  if (!note || note.length > maxNoteLength) {
+    return {
+      problem: `A note of up to ${maxNoteLength} characters is required.`,
+    };
+  }
+  if (body.color !== undefined && body.color !== null && !isColor(body.color)) {
+    return { problem: "color must be a hex color like #1f2937." };
+  }
+  const photoUrl = body.photoUrl ?? null;
+  if (
+    photoUrl !== null &&
+    (typeof photoUrl !== "string" || !isWebUrl(photoUrl))
+  ) {
+    return { problem: "photoUrl must be an http(s) URL." };
+  }
+  return {
+    fields: { name, note, color: body.color ?? null, photoUrl },
+  };
+};
+
+const forCard = (cardId) =>
+  contributions
+    .list()
+    .filter((entry) => entry.cardId === cardId)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+// Approved notes are copied onto the design so every place that shows the
+// card (preview, shares, renders, email) gets them without a second lookup.
+const syncSignatures = (card) => {
+  const signatures = forCard(card.id)
+    .filter((entry) => entry.status === "approved")
+    .map(({ id, name, note, color, photoUrl }) => ({
+      id,
+      name,
+      note,
+      color,
+      photoUrl,
+    }));
+  cards.update(card.id, { design: { ...card.design, signatures } });
+  return signatures;
+};
+
+// A deleted card takes its notes with it; the invite token lives on the
+// card record and goes when the card does.
+const removeForCard = (cardId) => {
+  for (const entry of forCard(cardId)) {
+    contributions.remove(entry.id);
+  }
+};
+
+const findInvite = (req, res, next) => {
+  const card = req.params.token
+    ? cards.list().find((entry) => entry.inviteToken === req.params.token)
+    : null;
+  if (!card) {
+    return res
+      .status(404)
+      .json({ message: "This invite link is no longer active." });
+  }
+  req.card = card;
+  return next();
+};
+
+cardRouter.get("/:id/invite", findOwnedCard, (req, res) => {
+  res.json({ inviteToken: req.card.inviteToken ?? null });
+});
+
+// Creating an invite again keeps the current link working.
+cardRouter.post("/:id/invite", findOwnedCard, (req, res) => {
+  const inviteToken =
+    req.card.inviteToken ?? crypto.randomBytes(18).toString("base64url");
+  cards.update(req.card.id, { inviteToken });
+  return res.status(201).json({ inviteToken });
+});
+
+// Turning the link off keeps the notes already sent.
+cardRouter.delete("/:id/invite", findOwnedCard, (req, res) => {
+  cards.update(req.card.id, { inviteToken: null });
+  return res.status(204).end();
+});
+
+cardRouter.get("/:id/contributions", findOwnedCard, (req, res) => {
+  res.json(forCard(req.card.id));
+});
+
+cardRouter.patch("/:id/contributions/:cid", findOwnedCard, (req, res) => {
+  const entry = contributions.get(req.params.cid);
+  if (!entry || entry.cardId !== req.card.id) {
+    return res.status(404).json({ message: "Contribution not found." });
+  }
+  if (!statuses.includes(req.body?.status)) {
+    return res
+      .status(400)
+      .json({ message: `status must be one of ${statuses.join(", ")}.` });
+  }
+  const contribution = contributions.update(entry.id, {
+    status: req.body.status,
+  });
+  return res.json({ contribution, signatures: syncSignatures(req.card) });
+});
+
+cardRouter.delete("/:id/contributions/:cid", findOwnedCard, (req, res) => {
+  const entry = contributions.get(req.params.cid);
+  if (!entry || entry.cardId !== req.card.id) {
+    return res.status(404).json({ message: "Contribution not found." });
+  }
+  contributions.remove(entry.id);
+  return res.json({ signatures: syncSignatures(req.card) });
+});
+
+// Contributors see the card for context but never the owner's fields.
+inviteRouter.get("/:token", findInvite, (req, res) => {
+  res.json({ title: req.card.title, design: req.card.design });
+});
+
+// New notes wait for the owner's approval before they show on the card.
+inviteRouter.post("/:token/contributions", findInvite, (req, res) => {
+  const { problem, fields } = readContribution(req.body);
+  if (problem) {
+    return res.status(400).json({ message: problem });
+  }
+  if (forCard(req.card.id).length >= maxPerCard) {
+    return res
+      .status(409)
+      .json({ message: `This card already has ${maxPerCard} notes.` });
+  }
+  const contribution = contributions.create({
+    cardId: req.card.id,
+    ...fields,
+    status: "pending",
+  });
+  return res.status(201).json(contribution);
+});
+
+module.exports = { cardRouter, inviteRouter, contributions, removeForCard };
@@ -0,0 +1,75 @@
+const express = require("express");
+const { cards, pageIds, validateDesign } = require("./cards");
+const { outputTypes, renderCard, takeJob, RenderError } = require("../render");
+
+const router = express.Router();
+
+const maxScale = 4;
+
+router.get("/jobs/:id", (req, res) => {
+  const job = takeJob(req.params.id);
+  if (!job) {
+    return res.status(404).json({ message: "Render job not found." });
+  }
+  return res.json({ design: job.design, pageId: job.pageId });
+});
+
+router.post("/", async (req, res) => {
+  const { cardId, format = "png", page = "front", scale } = req.body ?? {};
+  if (!outputTypes[format]) {
+    return res.status(400).json({
+      message: `format must be one of: ${Object.keys(outputTypes).join(", ")}.`,
+    });
+  }
+  if (!pageIds.includes(page)) {
+    return res
+      .status(400)
+      .json({ message: `page must be one of: ${pageIds.join(", ")}.` });
+  }
+  if (
+    scale !== undefined &&
+    (typeof scale !== "number" || scale <= 0 || scale > maxScale)
+  ) {
+    return res
+      .status(400)
+      .json({ message: `scale must be a number up to ${maxScale}.` });
+  }
+
+  let design = req.body?.design;
+  if (cardId) {
+    const card = cards.get(cardId);
+    if (!card) {
+      return res.status(404).json({ message: "Card not found." });
+    }
+    design = card.design;
+  }
+  const problem = validateDesign(design);
+  if (problem) {
+    return res.status(400).json({ message: problem });
+  }
+
+  try {
+    const output = await renderCard({ design, pageId: page, format, scale });
+    const baseName =
+      (design.recipient || "birthday-card").replace(/[^\w -]/g, "") ||
+      "birthday-card";
+    const extension = format === "jpeg" ? "jpg" : format;
+    const suffix = page === "front" ? "" : `-${page}`;
+    res.set("Content-Type", outputTypes[format]);
+    res.set(
+      "Content-Disposition",
+      `inline; filename="${baseName}${suffix}.${extension}"`,
+    );
+    return res.send(Buffer.from(output));
+  } catch (renderError) {
+    if (renderError instanceof RenderError) {
+      return res
+        .status(renderError.status)
+        .json({ message: renderError.message });
+    }
+    console.error("Render failed", renderError);
+    return res.status(500).json({ message: "Rendering failed. Try again." });
+  }
+});
+
+module.exports = { router };
@@ -0,0 +1,241 @@
+const express = require("express");
+const { createStore } = require("../store");
+const { cards, validateDesign } = require("./cards");
+const { isLive, shares } = require("./shares");
+
+const schedules = createStore("schedules");
+const router = express.Router();
+
+const maxLeadDays = 400;
+const maxSubjectLength = 150;
+const maxNoteLength = 1000;
+// Sends may be set a little in the past so "now" still counts.
+const pastGraceMs = 5 * 60 * 1000;
+
+const isEmail = (value) =>
+  typeof value === "string" &&
+  value.length <= 254 &&
+  /^[^\s@<>",]+@[^\s@<>",]+\.[^\s@<>",]+$/.test(value);
+
+const isTimeZone = (value) => {
+  if (typeof value !== "string" || !value) return false;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// How far ahead of UTC the zone's wall clock is at the given instant.
+const zoneOffsetMs = (instant, timeZone) => {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    })
+      .formatToParts(instant)
+      .map((part) => [part.type, Number(part.value)]),
+  );
+  const wall = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second,
+  );
+  return wall - instant.getTime();
+};
+
+// Turns a wall-clock date and time in a time zone into a UTC instant. The
+// second pass settles times near a daylight-saving switch; a time that the
+// switch skips lands just after it.
+const toSendAt = (sendDate, sendTime, timeZone) => {
+  const [year, month, day] = sendDate.split("-").map(Number);
+  const [hour, minute] = sendTime.split(":").map(Number);
+  const wall = Date.UTC(year, month - 1, day, hour, minute);
+  const check = new Date(wall);
+  if (check.getUTCMonth() !== month - 1 || check.getUTCDate() !== day) {
+    return null;
+  }
+  const first = wall - zoneOffsetMs(new Date(wall), timeZone);
+  return new Date(wall - zoneOffsetMs(new Date(first), timeZone));
+};
+
+// Sends belong to the browser that scheduled them. It keeps a random key
+// and sends it with every request; only matching sends are listed or can
+// be changed.
+const readOwnerToken = (req) => {
+  const token = req.get("x-schedule-token");
+  return typeof token === "string" && /^[\w-]{32,128}$/.test(token)
+    ? token
+    : null;
+};
+
+const requireOwner = (req, res, next) => {
+  req.ownerToken = readOwnerToken(req);
+  if (!req.ownerToken) {
+    return res.status(400).json({
+      message:
+        "An X-Schedule-Token header of 32 to 128 letters, digits, - or _ is required.",
+    });
+  }
+  return next();
+};
+
+// Someone else's send answers like a missing one.
+const findSchedule = (req, res, next) => {
+  const schedule = schedules.get(req.params.id);
+  if (!schedule || schedule.ownerToken !== req.ownerToken) {
+    return res.status(404).json({ message: "Scheduled send not found." });
+  }
+  req.schedule = schedule;
+  return next();
+};
+
+const readOptional = (value, max) =>
+  typeof value === "string" ? value.trim().slice(0, max) : "";
+
+// Checks a create or edit request and returns the fields to store, or a
+// message for the client.
+const readSchedule = (body, existing = null) => {
+  if (!isEmail(body?.email)) {
+    return { problem: "A valid recipient email is required." };
+  }
+  if (
+    typeof body.sendDate !== "string" ||
+    !/^\d{4}-\d{2}-\d{2}$/.test(body.sendDate) ||
+    typeof body.sendTime !== "string" ||
+    !/^([01]\d|2[0-3]):[0-5]\d$/.test(body.sendTime)
+  ) {
+    return { problem: "sendDate must be YYYY-MM-DD and sendTime HH:MM." };
+  }
+  if (!isTimeZone(body.timeZone)) {
+    return { problem: "timeZone must be an IANA time zone like Europe/Paris." };
+  }
+  const sendAt = toSendAt(body.sendDate, body.sendTime, body.timeZone);
+  if (!sendAt) {
+    return { problem: "sendDate is not a real date." };
+  }
+  if (sendAt.getTime() < Date.now() - pastGraceMs) {
+    return { problem: "The send time has already passed." };
+  }
+  if (sendAt.getTime() > Date.now() + maxLeadDays * 86400000) {
+    return {
+      problem: `Sends can be scheduled up to ${maxLeadDays} days ahead.`,
+    };
+  }
+
+  const cardId = typeof body.cardId === "string" ? body.cardId : null;
+  if (cardId && !cards.get(cardId)) {
+    return { problem: "Card not found." };
+  }
+  const design = body.design ?? existing?.design;
+  const problem = validateDesign(design);
+  if (problem) {
+    return { problem };
+  }
+
+  return {
+    fields: {
+      cardId,
+      design,
+      to: { name: readOptional(body.name, 80), email: body.email },
+      subject: readOptional(body.subject, maxSubjectLength),
+      note: readOptional(body.note, maxNoteLength),
+      sendDate: body.sendDate,
+      sendTime: body.sendTime,
+      timeZone: body.timeZone,
+      sendAt: sendAt.toISOString(),
+    },
+  };
+};
+
+// Everything but the design, which the list has no use for, and the owner
+// token, which the client already holds. The share token lets the owner
+// revoke the link a sent card went out with, while that link is live.
+const toSummary = ({ design, ownerToken, shareToken, ...schedule }) => {
+  const share = schedule.shareSlug && shares.get(schedule.shareSlug);
+  return {
+    ...schedule,
+    shareToken: share && isLive(share) ? shareToken : null,
+    recipient: design?.recipient ?? "",
+  };
+};
+
+router.use(requireOwner);
+
+router.get("/", (req, res) => {
+  res.json(
+    schedules
+      .list()
+      .filter((schedule) => schedule.ownerToken === req.ownerToken)
+      .sort((a, b) => a.sendAt.localeCompare(b.sendAt))
+      .map(toSummary),
+  );
+});
+
+router.get("/:id", findSchedule, (req, res) => {
+  res.json(toSummary(req.schedule));
+});
+
+router.post("/", (req, res) => {
+  const { problem, fields } = readSchedule(req.body);
+  if (problem) {
+    return res.status(400).json({ message: problem });
+  }
+  const schedule = schedules.create({
+    ...fields,
+    ownerToken: req.ownerToken,
+    status: "pending",
+    attempts: 0,
+    nextAttemptAt: null,
+    lastError: null,
+    sentAt: null,
+    shareSlug: null,
+    shareToken: null,
+  });
+  return res.status(201).json(toSummary(schedule));
+});
+
+// Only sends that have not gone out yet can change.
+router.put("/:id", findSchedule, (req, res) => {
+  const existing = req.schedule;
+  if (existing.status !== "pending") {
+    return res
+      .status(409)
+      .json({ message: `This send is already ${existing.status}.` });
+  }
+  const { problem, fields } = readSchedule(req.body, existing);
+  if (problem) {
+    return res.status(400).json({ message: problem });
+  }
+  const schedule = schedules.update(existing.id, {
+    ...fields,
+    attempts: 0,
+    nextAttemptAt: null,
+    lastError: null,
+  });
+  return res.json(toSummary(schedule));
+});
+
+// Cancelling keeps the record so the list still shows what happened.
+router.delete("/:id", findSchedule, (req, res) => {
+  const existing = req.schedule;
+  if (existing.status !== "pending") {
+    return res
+      .status(409)
+      .json({ message: `This send is already ${existing.status}.` });
+  }
+  const schedule = schedules.update(existing.id, { status: "cancelled" });
+  return res.json(toSummary(schedule));
+});
+
+module.exports = { router, schedules };
@@ -0,0 +1,85 @@
+const crypto = require("crypto");
+const express = require("express");
+const { createStore } = require("../store");
+const { validateDesign } = require("./cards");
+
+const shares = createStore("shares");
+const router = express.Router();
+
+const maxExpiryDays = 365;
+
+const isLive = (share) =>
+  !share.revokedAt &&
+  (!share.expiresAt || new Date(share.expiresAt).getTime() > Date.now());
+
+router.post("/", (req, res) => {
+  const design = req.body?.design;
+  const problem = validateDesign(design);
+  if (problem) {
+    return res.status(400).json({ message: problem });
+  }
+
+  const expiresInDays = req.body?.expiresInDays;
+  if (
+    expiresInDays !== undefined &&
+    expiresInDays !== null &&
+    (typeof expiresInDays !== "number" ||
+      expiresInDays <= 0 ||
+      expiresInDays > maxExpiryDays)
+  ) {
+    return res.status(400).json({
+      message: `expiresInDays must be a positive number up to ${maxExpiryDays}.`,
+    });
+  }
+
+  const share = shares.create({
+    cardId: typeof req.body.cardId === "string" ? req.body.cardId : null,
+    design,
+    ownerToken: crypto.randomBytes(24).toString("base64url"),
+    expiresAt: expiresInDays
+      ? new Date(Date.now() + expiresInDays * 86400000).toISOString()
+      : null,
+    revokedAt: null,
+  });
+
+  return res.status(201).json({
+    slug: share.id,
+    ownerToken: share.ownerToken,
+    expiresAt: share.expiresAt,
+    createdAt: share.createdAt,
+  });
+});
+
+router.get("/:slug", (req, res) => {
+  const share = shares.get(req.params.slug);
+  if (!share) {
+    return res.status(404).json({ message: "Shared card not found." });
+  }
+  if (!isLive(share)) {
+    return res
+      .status(410)
+      .json({ message: "This card link has expired or was revoked." });
+  }
+  return res.json({
+    slug: share.id,
+    design: share.design,
+    expiresAt: share.expiresAt,
+    createdAt: share.createdAt,
+  });
+});
+
+router.delete("/:slug", (req, res) => {
+  const share = shares.get(req.params.slug);
+  if (!share) {
+    return res.status(404).json({ message: "Shared card not found." });
+  }
+  if (req.get("x-share-token") !== share.ownerToken) {
+    return res
+      .status(403)
+      .json({ message: "Only the card owner can revoke this link." });
+  }
+  shares.update(share.id, { revokedAt: new Date().toISOString() });
+  return res.status(204).end();
+});
+
+module.exports = { router, shares, isLive };
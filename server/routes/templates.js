@@ -0,0 +1,53 @@
+const express = require("express");
+const { createStore } = require("../store");
+
+const templates = createStore("templates");
+const router = express.Router();
+
+const tones = ["funny", "heartfelt", "formal", "kids"];
+const maxTemplateLength = 1000;
+
+const validateTemplate = (body) => {
+  if (typeof body?.name !== "string" || !body.name.trim()) {
+    return "Template name is required.";
+  }
+  if (!tones.includes(body.tone)) {
+    return `Template tone must be one of ${tones.join(", ")}.`;
+  }
+  if (typeof body.text !== "string" || !body.text.trim()) {
+    return "Template text is required.";
+  }
+  if (body.text.length > maxTemplateLength) {
+    return `Template text can be up to ${maxTemplateLength} characters.`;
+  }
+  return null;
+};
+
+const readTemplate = (body) => ({
+  name: body.name.trim().slice(0, 40),
+  tone: body.tone,
+  text: body.text,
+});
+
+router.get("/", (_req, res) => {
+  res.json(
+    templates.list().sort((a, b) => a.createdAt.localeCompare(b.createdAt)),
+  );
+});
+
+router.post("/", (req, res) => {
+  const problem = validateTemplate(req.body);
+  if (problem) {
+    return res.status(400).json({ message: problem });
+  }
+  return res.status(201).json(templates.create(readTemplate(req.body)));
+});
+
+router.delete("/:id", (req, res) => {
+  if (!templates.remove(req.params.id)) {
+    return res.status(404).json({ message: "Template not found." });
+  }
+  return res.status(204).end();
+});
+
+module.exports = { router, templates };
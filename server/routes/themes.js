@@ -0,0 +1,110 @@
+const express = require("express");
+const { createStore } = require("../store");
+
+const themes = createStore("themes");
+const router = express.Router();
+
+const maxStops = 6;
+const maxHighlights = 3;
+
+const isHex = (value) =>
+  typeof value === "string" && /^#[0-9a-f]{6}$/i.test(value);
+
+const isPercent = (value) =>
+  typeof value === "number" && value >= 0 && value <= 100;
+
+const validateSpec = (spec) => {
+  if (!spec || typeof spec !== "object" || Array.isArray(spec)) {
+    return "Theme spec must be an object.";
+  }
+  if (typeof spec.angle !== "number" || spec.angle < 0 || spec.angle > 360) {
+    return "Theme angle must be between 0 and 360.";
+  }
+  if (
+    !Array.isArray(spec.stops) ||
+    spec.stops.length < 2 ||
+    spec.stops.length > maxStops
+  ) {
+    return `A theme needs between 2 and ${maxStops} gradient stops.`;
+  }
+  for (const stop of spec.stops) {
+    if (!isHex(stop?.color) || !isPercent(stop.position)) {
+      return "Each gradient stop needs a hex color and a position from 0 to 100.";
+    }
+  }
+  if (
+    !Array.isArray(spec.highlights) ||
+    spec.highlights.length > maxHighlights
+  ) {
+    return `A theme can have up to ${maxHighlights} highlights.`;
+  }
+  for (const highlight of spec.highlights) {
+    if (
+      !isHex(highlight?.color) ||
+      !isPercent(highlight.x) ||
+      !isPercent(highlight.y) ||
+      !isPercent(highlight.size) ||
+      !isPercent(highlight.opacity)
+    ) {
+      return "Each highlight needs a hex color and x, y, size and opacity from 0 to 100.";
+    }
+  }
+  if (!isHex(spec.accent) || !isHex(spec.shadowColor)) {
+    return "Theme accent and shadow colors must be hex colors.";
+  }
+  if (
+    spec.imageUrl !== undefined &&
+    spec.imageUrl !== null &&
+    (typeof spec.imageUrl !== "string" || !/^https?:\/\//.test(spec.imageUrl))
+  ) {
+    return "Theme background image must be an http(s) URL.";
+  }
+  return null;
+};
+
+const validateTheme = (body) => {
+  if (typeof body?.name !== "string" || !body.name.trim()) {
+    return "Theme name is required.";
+  }
+  return validateSpec(body.spec);
+};
+
+const readTheme = (body) => ({
+  name: body.name.trim().slice(0, 40),
+  spec: body.spec,
+});
+
+router.get("/", (_req, res) => {
+  res.json(
+    themes.list().sort((a, b) => a.createdAt.localeCompare(b.createdAt)),
+  );
+});
+
+router.post("/", (req, res) => {
+  const problem = validateTheme(req.body);
+  if (problem) {
+    return res.status(400).json({ message: problem });
+  }
+  return res.status(201).json(themes.create(readTheme(req.body)));
+});
+
+router.put("/:id", (req, res) => {
+  const problem = validateTheme(req.body);
+  if (problem) {
+    return res.status(400).json({ message: problem });
+  }
+  const theme = themes.update(req.params.id, readTheme(req.body));
+  if (!theme) {
+    return res.status(404).json({ message: "Theme not found." });
+  }
+  return res.json(theme);
+});
+
+router.delete("/:id", (req, res) => {
+  if (!themes.remove(req.params.id)) {
+    return res.status(404).json({ message: "Theme not found." });
+  }
+  return res.status(204).end();
+});
+
+module.exports = { router, themes, validateSpec };
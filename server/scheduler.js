@@ -0,0 +1,176 @@
+const crypto = require("crypto");
+const { readNumber } = require("./env");
+const { renderCard, RenderError } = require("./render");
+const { cards } = require("./routes/cards");
+const { schedules } = require("./routes/schedules");
+const { shares } = require("./routes/shares");
+
+const pollMs = readNumber("SCHEDULE_POLL_MS", 30 * 1000);
+const maxAttempts = readNumber("SCHEDULE_MAX_ATTEMPTS", 3);
+const retryDelayMs = readNumber("SCHEDULE_RETRY_MS", 5 * 60 * 1000);
+const cardLinkBaseUrl = (
+  process.env.CARD_LINK_URL ??
+  process.env.RENDER_CLIENT_URL ??
+  "http://localhost:3000"
+).replace(/\/$/, "");
+
+const escapeHtml = (value) =>
+  value.replace(
+    /[&<>"']/g,
+    (char) =>
+      ({
+        "&": "&amp;",
+        "<": "&lt;",
+        ">": "&gt;",
+        '"': "&quot;",
+        "'": "&#39;",
+      })[char],
+  );
+
+// A saved card is sent as it is at send time, so late edits still go out.
+const designFor = (schedule) =>
+  (schedule.cardId && cards.get(schedule.cardId)?.design) || schedule.design;
+
+// The email links to a shared copy of the card. The share is made once and
+// reused by retries; its owner token is kept on the send so the owner can
+// revoke the link later.
+const shareFor = (schedule, design) => {
+  const existing = schedule.shareSlug && shares.get(schedule.shareSlug);
+  if (existing) return existing;
+  const share = shares.create({
+    cardId: schedule.cardId,
+    design,
+    ownerToken: crypto.randomBytes(24).toString("base64url"),
+    expiresAt: null,
+    revokedAt: null,
+  });
+  schedules.update(schedule.id, {
+    shareSlug: share.id,
+    shareToken: share.ownerToken,
+  });
+  return share;
+};
+
+// The rendered front is attached when server rendering is set up; without
+// it, or if rendering fails, the link alone still delivers the card.
+const renderAttachment = async (design) => {
+  try {
+    const content = await renderCard({
+      design,
+      pageId: "front",
+      format: "png",
+    });
+    const baseName =
+      (design.recipient || "birthday-card").replace(/[^\w -]/g, "") ||
+      "birthday-card";
+    return [
+      {
+        filename: `${baseName}.png`,
+        contentType: "image/png",
+        content: Buffer.from(content),
+      },
+    ];
+  } catch (renderError) {
+    if (!(renderError instanceof RenderError && renderError.status === 501)) {
+      console.error("Rendering a scheduled card failed", renderError);
+    }
+    return [];
+  }
+};
+
+const deliver = async (schedule, mailer) => {
+  const design = designFor(schedule);
+  const share = shareFor(schedule, design);
+  const link = `${cardLinkBaseUrl}/c/${share.id}`;
+  const recipient = design.recipient || schedule.to.name || "you";
+  const sender = design.sender || "Someone";
+  const subject = schedule.subject || `${sender} sent you a birthday card`;
+  const intro = `${sender} made a birthday card for ${recipient}.`;
+  const text = [schedule.note, intro, `Open it here: ${link}`]
+    .filter(Boolean)
+    .join("\n\n");
+  const html = [
+    schedule.note
+      ? `<p>${escapeHtml(schedule.note).replace(/\n/g, "<br>")}</p>`
+      : "",
+    `<p>${escapeHtml(intro)}</p>`,
+    `<p><a href="${escapeHtml(link)}">Open the card</a></p>`,
+  ].join("");
+  return mailer.send({
+    to: schedule.to,
+    subject,
+    text,
+    html,
+    attachments: await renderAttachment(design),
+  });
+};
+
+// Picks up due sends every SCHEDULE_POLL_MS. Failures are retried with a
+// growing delay; SMTP rejections (5xx) and the last attempt mark the send
+// failed.
+const startScheduler = (mailer) => {
+  // A send interrupted by a restart goes out again rather than never.
+  for (const schedule of schedules.list()) {
+    if (schedule.status === "sending") {
+      schedules.update(schedule.id, { status: "pending" });
+    }
+  }
+
+  let running = false;
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      const now = Date.now();
+      const due = schedules
+        .list()
+        .filter(
+          (schedule) =>
+            schedule.status === "pending" &&
+            new Date(schedule.nextAttemptAt ?? schedule.sendAt).getTime() <=
+              now,
+        )
+        .sort((a, b) => a.sendAt.localeCompare(b.sendAt));
+      for (const { id } of due) {
+        // Edits and cancels made while earlier sends went out win.
+        const schedule = schedules.get(id);
+        if (schedule?.status !== "pending") continue;
+        const attempts = schedule.attempts + 1;
+        schedules.update(id, { status: "sending", attempts });
+        try {
+          const { messageId } = await deliver(schedule, mailer);
+          schedules.update(id, {
+            status: "sent",
+            sentAt: new Date().toISOString(),
+            messageId,
+            nextAttemptAt: null,
+            lastError: null,
+          });
+        } catch (sendError) {
+          console.error(`Scheduled send ${id} failed`, sendError);
+          const permanent = sendError.code >= 500;
+          schedules.update(
+            id,
+            permanent || attempts >= maxAttempts
+              ? { status: "failed", lastError: sendError.message }
+              : {
+                  status: "pending",
+                  lastError: sendError.message,
+                  nextAttemptAt: new Date(
+                    Date.now() + retryDelayMs * attempts,
+                  ).toISOString(),
+                },
+          );
+        }
+      }
+    } finally {
+      running = false;
+    }
+  };
+
+  tick();
+  const timer = setInterval(tick, pollMs);
+  return { tick, stop: () => clearInterval(timer) };
+};
+
+module.exports = { startScheduler };
@@ -0,0 +1,50 @@
+const ImageKit = require("imagekit");
+const { UploadError, checkDeclaredFile, sendUploadError } = require("./limits");
+
+const createImageKitDriver = () => {
+  const configured = Boolean(
+    process.env.IMAGEKIT_PUBLIC_KEY &&
+      process.env.IMAGEKIT_PRIVATE_KEY &&
+      process.env.IMAGEKIT_URL_ENDPOINT,
+  );
+  const imagekit = configured
+    ? new ImageKit({
+        publicKey: process.env.IMAGEKIT_PUBLIC_KEY,
+        privateKey: process.env.IMAGEKIT_PRIVATE_KEY,
+        urlEndpoint: process.env.IMAGEKIT_URL_ENDPOINT,
+      })
+    : null;
+
+  return {
+    name: "imagekit",
+    register: (app, guard) => {
+      app.get("/auth", guard, (req, res) => {
+        if (!imagekit) {
+          return res.status(500).json({
+            message:
+              "Missing ImageKit environment variables. Set IMAGEKIT_PUBLIC_KEY, IMAGEKIT_PRIVATE_KEY, IMAGEKIT_URL_ENDPOINT.",
+          });
+        }
+
+        try {
+          checkDeclaredFile(req.query);
+        } catch (checkError) {
+          if (checkError instanceof UploadError) {
+            return sendUploadError(res, checkError);
+          }
+          throw checkError;
+        }
+
+        const auth = imagekit.getAuthenticationParameters();
+        return res.json(auth);
+      });
+    },
+    describe: () => ({
+      driver: "imagekit",
+      publicKey: process.env.IMAGEKIT_PUBLIC_KEY ?? null,
+      uploadUrl: "https://upload.imagekit.io/api/v1/files/upload",
+    }),
+  };
+};
+
+module.exports = { createImageKitDriver };
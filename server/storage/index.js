@@ -0,0 +1,20 @@
+const { createImageKitDriver } = require("./imagekit");
+const { createLocalDriver } = require("./local");
+
+const drivers = {
+  imagekit: createImageKitDriver,
+  local: createLocalDriver,
+};
+
+const createStorage = () => {
+  const name = (process.env.STORAGE_DRIVER ?? "imagekit").trim().toLowerCase();
+  const createDriver = drivers[name];
+  if (!createDriver) {
+    throw new Error(
+      `Unknown STORAGE_DRIVER "${name}". Use one of: ${Object.keys(drivers).join(", ")}.`,
+    );
+  }
+  return createDriver();
+};
+
+module.exports = { createStorage };
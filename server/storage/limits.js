@@ -0,0 +1,180 @@
+const { readNumber } = require("../env");
+
+const uploadLimits = {
+  allowedTypes: ["image/jpeg", "image/png", "image/webp", "image/gif"],
+  maxBytes: readNumber("UPLOAD_MAX_BYTES", 10 * 1024 * 1024),
+  maxDimension: readNumber("UPLOAD_MAX_DIMENSION", 8000),
+  maxPhotosPerCard: readNumber("MAX_PHOTOS_PER_CARD", 12),
+};
+
+class UploadError extends Error {
+  constructor(code, message, status = 400) {
+    super(message);
+    this.code = code;
+    this.status = status;
+  }
+}
+
+const unsupportedType = () =>
+  new UploadError(
+    "UNSUPPORTED_TYPE",
+    "Only JPEG, PNG, WEBP and GIF images are allowed.",
+  );
+
+const fileTooLarge = () =>
+  new UploadError(
+    "FILE_TOO_LARGE",
+    `Photos must be ${Math.round(uploadLimits.maxBytes / (1024 * 1024))} MB or smaller.`,
+    413,
+  );
+
+const sendUploadError = (res, error) =>
+  res.status(error.status).json({
+    code: error.code,
+    message: error.message,
+    limits: uploadLimits,
+  });
+
+const startsWith = (buffer, bytes, offset = 0) =>
+  bytes.every((byte, index) => buffer[offset + index] === byte);
+
+// Identify the image format from its leading bytes instead of trusting the
+// client-supplied MIME type.
+const sniffImageType = (buffer) => {
+  if (startsWith(buffer, [0xff, 0xd8, 0xff])) return "image/jpeg";
+  if (startsWith(buffer, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) {
+    return "image/png";
+  }
+  if (startsWith(buffer, [0x47, 0x49, 0x46, 0x38])) return "image/gif";
+  if (
+    startsWith(buffer, [0x52, 0x49, 0x46, 0x46]) &&
+    startsWith(buffer, [0x57, 0x45, 0x42, 0x50], 8)
+  ) {
+    return "image/webp";
+  }
+  return null;
+};
+
+const readJpegSize = (buffer) => {
+  let offset = 2;
+  while (offset + 9 < buffer.length) {
+    if (buffer[offset] !== 0xff) return null;
+    const marker = buffer[offset + 1];
+    const length = buffer.readUInt16BE(offset + 2);
+    const isFrame =
+      marker >= 0xc0 &&
+      marker <= 0xcf &&
+      marker !== 0xc4 &&
+      marker !== 0xc8 &&
+      marker !== 0xcc;
+    if (isFrame) {
+      return {
+        height: buffer.readUInt16BE(offset + 5),
+        width: buffer.readUInt16BE(offset + 7),
+      };
+    }
+    offset += 2 + length;
+  }
+  return null;
+};
+
+const readWebpSize = (buffer) => {
+  const chunk = buffer.toString("ascii", 12, 16);
+  if (chunk === "VP8X" && buffer.length >= 30) {
+    return {
+      width: 1 + buffer.readUIntLE(24, 3),
+      height: 1 + buffer.readUIntLE(27, 3),
+    };
+  }
+  if (chunk === "VP8 " && buffer.length >= 30) {
+    return {
+      width: buffer.readUInt16LE(26) & 0x3fff,
+      height: buffer.readUInt16LE(28) & 0x3fff,
+    };
+  }
+  if (chunk === "VP8L" && buffer.length >= 25) {
+    const bits = buffer.readUInt32LE(21);
+    return {
+      width: 1 + (bits & 0x3fff),
+      height: 1 + ((bits >> 14) & 0x3fff),
+    };
+  }
+  return null;
+};
+
+const readImageSize = (buffer, type) => {
+  if (type === "image/png" && buffer.length >= 24) {
+    return { width: buffer.readUInt32BE(16), height: buffer.readUInt32BE(20) };
+  }
+  if (type === "image/gif" && buffer.length >= 10) {
+    return { width: buffer.readUInt16LE(6), height: buffer.readUInt16LE(8) };
+  }
+  if (type === "image/jpeg") return readJpegSize(buffer);
+  if (type === "image/webp") return readWebpSize(buffer);
+  return null;
+};
+
+const checkPhotoCount = (photoCount) => {
+  if (photoCount === undefined || photoCount === null || photoCount === "") {
+    return;
+  }
+  const count = Number(photoCount);
+  if (!Number.isFinite(count) || count > uploadLimits.maxPhotosPerCard) {
+    throw new UploadError(
+      "TOO_MANY_PHOTOS",
+      `A card can hold up to ${uploadLimits.maxPhotosPerCard} photos.`,
+    );
+  }
+};
+
+// Checks what the client says it is about to upload. Used where the bytes
+// go straight to a third party and cannot be inspected here.
+const checkDeclaredFile = ({ type, size, photoCount }) => {
+  if (!uploadLimits.allowedTypes.includes(type)) {
+    throw unsupportedType();
+  }
+  const bytes = Number(size);
+  if (!Number.isFinite(bytes) || bytes <= 0) {
+    throw new UploadError("INVALID_FILE", "The file size is missing.");
+  }
+  if (bytes > uploadLimits.maxBytes) {
+    throw fileTooLarge();
+  }
+  checkPhotoCount(photoCount);
+};
+
+const checkUploadedFile = (buffer, { photoCount }) => {
+  const type = sniffImageType(buffer);
+  if (!type || !uploadLimits.allowedTypes.includes(type)) {
+    throw unsupportedType();
+  }
+  if (buffer.length > uploadLimits.maxBytes) {
+    throw fileTooLarge();
+  }
+  const size = readImageSize(buffer, type);
+  if (!size) {
+    throw new UploadError("UNREADABLE_IMAGE", "The image could not be read.");
+  }
+  if (
+    size.width > uploadLimits.maxDimension ||
+    size.height > uploadLimits.maxDimension
+  ) {
+    throw new UploadError(
+      "DIMENSIONS_TOO_LARGE",
+      `Photos must be at most ${uploadLimits.maxDimension}px on each side.`,
+    );
+  }
+  checkPhotoCount(photoCount);
+  return { type, ...size };
+};
+
+module.exports = {
+  uploadLimits,
+  UploadError,
+  sendUploadError,
+  fileTooLarge,
+  sniffImageType,
+  readImageSize,
+  checkDeclaredFile,
+  checkUploadedFile,
+};
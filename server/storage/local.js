@@ -0,0 +1,94 @@
+const fs = require("fs");
+const path = require("path");
+const express = require("express");
+const multer = require("multer");
+const { createId, dataDir } = require("../store");
+const {
+  UploadError,
+  checkUploadedFile,
+  fileTooLarge,
+  sendUploadError,
+  uploadLimits,
+} = require("./limits");
+
+const uploadDir = process.env.UPLOAD_DIR
+  ? path.resolve(process.env.UPLOAD_DIR)
+  : path.join(dataDir, "uploads");
+
+const extensions = {
+  "image/jpeg": ".jpg",
+  "image/png": ".png",
+  "image/webp": ".webp",
+  "image/gif": ".gif",
+};
+
+const publicBaseUrl = (req) =>
+  (process.env.PUBLIC_URL ?? `${req.protocol}://${req.get("host")}`).replace(
+    /\/$/,
+    "",
+  );
+
+const createLocalDriver = () => {
+  fs.mkdirSync(uploadDir, { recursive: true });
+
+  const upload = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: uploadLimits.maxBytes, files: 1 },
+  }).single("file");
+
+  return {
+    name: "local",
+    register: (app, guard) => {
+      app.use(
+        "/uploads",
+        express.static(uploadDir, { immutable: true, maxAge: "30d" }),
+      );
+
+      app.post("/upload", guard, (req, res) => {
+        upload(req, res, (uploadError) => {
+          if (uploadError) {
+            return sendUploadError(
+              res,
+              uploadError.code === "LIMIT_FILE_SIZE"
+                ? fileTooLarge()
+                : new UploadError("INVALID_FILE", uploadError.message),
+            );
+          }
+          if (!req.file) {
+            return sendUploadError(
+              res,
+              new UploadError("NO_FILE", "No file was uploaded."),
+            );
+          }
+
+          let image;
+          try {
+            image = checkUploadedFile(req.file.buffer, req.body);
+          } catch (checkError) {
+            if (checkError instanceof UploadError) {
+              return sendUploadError(res, checkError);
+            }
+            throw checkError;
+          }
+
+          const filename = `${createId()}${extensions[image.type]}`;
+          fs.writeFileSync(path.join(uploadDir, filename), req.file.buffer);
+          return res.status(201).json({
+            url: `${publicBaseUrl(req)}/uploads/${filename}`,
+            name: req.file.originalname,
+            size: req.file.size,
+            type: image.type,
+            width: image.width,
+            height: image.height,
+          });
+        });
+      });
+    },
+    describe: () => ({
+      driver: "local",
+      uploadUrl: "/upload",
+    }),
+  };
+};
+
+module.exports = { createLocalDriver, uploadDir };
@@ -0,0 +1,63 @@
+const fs = require("fs");
+const path = require("path");
+const crypto = require("crypto");
+
+const dataDir = process.env.DATA_DIR
+  ? path.resolve(process.env.DATA_DIR)
+  : path.join(__dirname, "data");
+
+const createId = () => crypto.randomBytes(9).toString("base64url");
+
+// A tiny JSON-file collection. Records live in memory and every write
+// rewrites the whole file through a temp file so a crash never leaves
+// half-written JSON behind.
+const createStore = (name) => {
+  const filePath = path.join(dataDir, `${name}.json`);
+  let records = {};
+
+  if (fs.existsSync(filePath)) {
+    records = JSON.parse(fs.readFileSync(filePath, "utf8"));
+  }
+
+  const persist = () => {
+    fs.mkdirSync(dataDir, { recursive: true });
+    const tempPath = `${filePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(records, null, 2));
+    fs.renameSync(tempPath, filePath);
+  };
+
+  // Ids come from URLs, so names like "constructor" must not reach the
+  // object's prototype.
+  const has = (id) => typeof id === "string" && Object.hasOwn(records, id);
+
+  return {
+    list: () => Object.values(records),
+    get: (id) => (has(id) ? records[id] : null),
+    create: (data) => {
+      const now = new Date().toISOString();
+      const record = { id: createId(), ...data, createdAt: now, updatedAt: now };
+      records[record.id] = record;
+      persist();
+      return record;
+    },
+    update: (id, data) => {
+      if (!has(id)) return null;
+      records[id] = {
+        ...records[id],
+        ...data,
+        id,
+        updatedAt: new Date().toISOString(),
+      };
+      persist();
+      return records[id];
+    },
+    remove: (id) => {
+      if (!has(id)) return false;
+      delete records[id];
+      persist();
+      return true;
+    },
+  };
+};
+
+module.exports = { createStore, createId, dataDir };